@@ -0,0 +1,187 @@
+// WomenSafe service worker
+// - caches the app shell so the dashboard opens without a network
+// - keeps SOS requests made while offline in IndexedDB and replays them
+//   through Background Sync (or when the page reports it is back online)
+
+const CACHE_NAME = 'womensafe-shell-v1';
+const SHELL_URLS = ['/', '/dashboard', '/logo.png', '/manifest.webmanifest'];
+
+const DB_NAME = 'womensafe-offline';
+const STORE_NAME = 'sos-queue';
+const SYNC_TAG = 'sos-dispatch';
+// A claim older than this belonged to a worker that was stopped mid-send
+const CLAIM_TTL_MS = 60000;
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(CACHE_NAME).then((cache) => cache.addAll(SHELL_URLS)).then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+
+  // Never cache API traffic; Supabase calls must always hit the network
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return;
+
+  // Pages: network first so deploys show up, cached shell when offline
+  if (request.mode === 'navigate') {
+    event.respondWith(
+      fetch(request)
+        .then((response) => {
+          const copy = response.clone();
+          caches.open(CACHE_NAME).then((cache) => cache.put('/', copy));
+          return response;
+        })
+        .catch(() => caches.match('/'))
+    );
+    return;
+  }
+
+  // Hashed build assets: cache first, filled on demand
+  event.respondWith(
+    caches.match(request).then((cached) => {
+      if (cached) return cached;
+      return fetch(request).then((response) => {
+        if (response.ok) {
+          const copy = response.clone();
+          caches.open(CACHE_NAME).then((cache) => cache.put(request, copy));
+        }
+        return response;
+      });
+    })
+  );
+});
+
+// ---- IndexedDB helpers ----
+
+const openQueue = () => new Promise((resolve, reject) => {
+  const open = indexedDB.open(DB_NAME, 1);
+  open.onupgradeneeded = () => {
+    open.result.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+  };
+  open.onsuccess = () => resolve(open.result);
+  open.onerror = () => reject(open.error);
+});
+
+const withStore = async (mode, run) => {
+  const db = await openQueue();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE_NAME, mode);
+    const result = run(tx.objectStore(STORE_NAME));
+    tx.oncomplete = () => resolve(result && 'result' in result ? result.result : undefined);
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+const enqueue = (entry) => withStore('readwrite', (store) => store.add(entry));
+const listQueued = () => withStore('readonly', (store) => store.getAll());
+const removeQueued = (id) => withStore('readwrite', (store) => store.delete(id));
+const updateQueued = (entry) => withStore('readwrite', (store) => store.put(entry));
+
+const notifyClients = async (message) => {
+  const clients = await self.clients.matchAll({ includeUncontrolled: true, type: 'window' });
+  clients.forEach((client) => client.postMessage(message));
+};
+
+// ---- SOS replay ----
+
+const isClaimed = (entry) => !!entry.claimed_at && Date.now() - entry.claimed_at < CLAIM_TTL_MS;
+
+// Sends every queued SOS once. `session` comes from an open page: fresh headers
+// plus the signed-in user, whose entries are the only ones it may send.
+const runReplay = async (session) => {
+  const entries = (await listQueued())
+    .filter((entry) => !isClaimed(entry))
+    .filter((entry) => !session || entry.user_id === session.user_id);
+  let pending = 0;
+  let authFailed = false;
+
+  for (const entry of entries) {
+    // Claim before sending, so a restarted worker does not send it a second time
+    await updateQueued({ ...entry, claimed_at: Date.now() });
+    const release = () => updateQueued({ ...entry, claimed_at: null });
+
+    try {
+      const response = await fetch(entry.url, {
+        method: 'POST',
+        headers: { ...entry.headers, ...(session ? session.headers : {}) },
+        body: JSON.stringify(entry.body),
+      });
+      const data = await response.json().catch(() => ({}));
+
+      if (response.ok) {
+        await removeQueued(entry.id);
+        await notifyClients({ type: 'SOS_DISPATCHED', id: entry.id, data });
+      } else if (response.status === 401 || response.status === 403) {
+        // The token queued with the request has expired. Keep the SOS until an open
+        // page replays it with a fresh session (REPLAY_SOS); a Background Sync
+        // retry would only resend the same stale token.
+        await release();
+        authFailed = true;
+      } else if (response.status < 500) {
+        // The server rejected the request itself; retrying will not help
+        await removeQueued(entry.id);
+        await notifyClients({ type: 'SOS_FAILED', id: entry.id, error: data.error || `HTTP ${response.status}` });
+      } else {
+        await release();
+        pending += 1;
+      }
+    } catch (error) {
+      await release();
+      pending += 1;
+    }
+  }
+
+  // One request for fresh headers covers every entry that needs them
+  if (authFailed) {
+    await notifyClients({ type: 'SOS_AUTH_REQUIRED', retried: !!session });
+  }
+
+  // Rejecting tells Background Sync to try again later
+  if (pending > 0) throw new Error(`${pending} queued SOS request(s) still pending`);
+};
+
+// Sync events, page replays and auth retries can overlap; run them one after another
+let replayChain = Promise.resolve();
+const replayQueue = (session) => {
+  const run = replayChain.then(() => runReplay(session));
+  replayChain = run.catch(() => undefined);
+  return run;
+};
+
+self.addEventListener('sync', (event) => {
+  if (event.tag === SYNC_TAG) {
+    event.waitUntil(replayQueue());
+  }
+});
+
+self.addEventListener('message', (event) => {
+  const message = event.data || {};
+
+  if (message.type === 'QUEUE_SOS') {
+    event.waitUntil(
+      enqueue({ ...message.request, queued_at: new Date().toISOString() })
+        .then((id) => {
+          event.source && event.source.postMessage({ type: 'SOS_QUEUED', id });
+          if (self.registration.sync) {
+            return self.registration.sync.register(SYNC_TAG);
+          }
+        })
+    );
+  }
+
+  // Browsers without Background Sync ask us to replay when they come back online
+  if (message.type === 'REPLAY_SOS') {
+    event.waitUntil(replayQueue(message.session).catch((error) => console.warn(error.message)));
+  }
+});
@@ -77,11 +77,35 @@ Write-Host ""
 # 4. Deploy Edge Functions
 Write-Host "[4/5] Deploying Edge Functions..." -ForegroundColor Yellow
 Write-Host "Deploying 'send-emergency-notification'..." -ForegroundColor Gray
-npx supabase functions deploy send-emergency-notification --no-verify-jwt --project-ref $ProjectRef
+npx supabase functions deploy send-emergency-notification --project-ref $ProjectRef
 Write-Host "Deploying 'send-broadcast-message'..." -ForegroundColor Gray
 npx supabase functions deploy send-broadcast-message --project-ref $ProjectRef
 Write-Host "Deploying 'send-individual-message'..." -ForegroundColor Gray
 npx supabase functions deploy send-individual-message --project-ref $ProjectRef
+Write-Host "Deploying 'resolve-sos-incident'..." -ForegroundColor Gray
+npx supabase functions deploy resolve-sos-incident --project-ref $ProjectRef
+Write-Host "Deploying 'retry-notification-deliveries'..." -ForegroundColor Gray
+npx supabase functions deploy retry-notification-deliveries --project-ref $ProjectRef
+Write-Host "Deploying 'check-in-safety-timer'..." -ForegroundColor Gray
+npx supabase functions deploy check-in-safety-timer --project-ref $ProjectRef
+Write-Host "Deploying 'expire-safety-checkins'..." -ForegroundColor Gray
+npx supabase functions deploy expire-safety-checkins --project-ref $ProjectRef
+Write-Host "Deploying 'cancel-sos-countdown'..." -ForegroundColor Gray
+npx supabase functions deploy cancel-sos-countdown --project-ref $ProjectRef
+Write-Host "Deploying 'stitch-media-recording'..." -ForegroundColor Gray
+npx supabase functions deploy stitch-media-recording --project-ref $ProjectRef
+Write-Host "Deploying 'sign-tracked-media'..." -ForegroundColor Gray
+npx supabase functions deploy sign-tracked-media --project-ref $ProjectRef
+Write-Host "Deploying 'export-incident-report'..." -ForegroundColor Gray
+npx supabase functions deploy export-incident-report --project-ref $ProjectRef
+Write-Host "Deploying 'escalate-sos-incidents'..." -ForegroundColor Gray
+npx supabase functions deploy escalate-sos-incidents --project-ref $ProjectRef
+Write-Host "Deploying 'send-contact-verification'..." -ForegroundColor Gray
+npx supabase functions deploy send-contact-verification --project-ref $ProjectRef
+Write-Host "Deploying 'receive-message-reply'..." -ForegroundColor Gray
+npx supabase functions deploy receive-message-reply --no-verify-jwt --project-ref $ProjectRef
+Write-Host "Deploying 'send-scheduled-messages'..." -ForegroundColor Gray
+npx supabase functions deploy send-scheduled-messages --project-ref $ProjectRef
 Write-Host "Edge Functions deployed successfully!" -ForegroundColor Green
 Write-Host ""
 
@@ -6,6 +6,10 @@ import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
 import Dashboard from "./pages/Dashboard";
+import TrackIncident from "./pages/TrackIncident";
+import AcceptGuardianInvite from "./pages/AcceptGuardianInvite";
+import AcknowledgeAlert from "./pages/AcknowledgeAlert";
+import VerifyContact from "./pages/VerifyContact";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -20,6 +24,10 @@ const App = () => (
           <Route path="/" element={<Index />} />
           <Route path="/auth" element={<Auth />} />
           <Route path="/dashboard" element={<Dashboard />} />
+          <Route path="/track/:token" element={<TrackIncident />} />
+          <Route path="/guardian/invite/:token" element={<AcceptGuardianInvite />} />
+          <Route path="/ack/:token" element={<AcknowledgeAlert />} />
+          <Route path="/verify-contact/:token" element={<VerifyContact />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
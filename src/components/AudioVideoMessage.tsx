@@ -3,8 +3,21 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { useToast } from '@/components/ui/use-toast';
 import { supabase } from '@/integrations/supabase/client';
-import { Mic, Video, Square, Send, Trash2, Upload, Trash } from 'lucide-react';
+import { Mic, Video, Square, Send, Trash2, Upload, Trash, Lock, FileText, MapPin, X } from 'lucide-react';
 import { Checkbox } from '@/components/ui/checkbox';
+import { createChunkedUpload, SEGMENT_TIMESLICE_MS, type ChunkedUpload } from '@/lib/chunked-upload';
+import {
+  downloadEvidenceReport,
+  fetchEvidence,
+  getCaptureLocation,
+  isEvidenceLocked,
+  logEvidenceAccess,
+  getDeviceInfo,
+  registerEvidence,
+  sha256Hex,
+  type CaptureLocation,
+  type EvidenceRecord,
+} from '@/lib/evidence';
 import {
   Dialog,
   DialogContent,
@@ -14,6 +27,9 @@ import {
   DialogFooter,
 } from '@/components/ui/dialog';
 
+// Long enough to play back a recording from the manager list
+const RECORDING_PLAYBACK_URL_TTL_SECONDS = 60 * 60;
+
 interface AudioVideoMessageProps {
   userLocation?: { lat: number; lng: number } | null;
 }
@@ -26,6 +42,7 @@ const AudioVideoMessage: React.FC<AudioVideoMessageProps> = ({ userLocation }) =
   const [recordingTime, setRecordingTime] = useState(0);
   const [isUploading, setIsUploading] = useState(false);
   const [isSending, setIsSending] = useState(false);
+  const [uploadProgress, setUploadProgress] = useState<{ uploaded: number; total: number } | null>(null);
 
   // Recipient Selection States
   const [contacts, setContacts] = useState<any[]>([]);
@@ -36,11 +53,19 @@ const AudioVideoMessage: React.FC<AudioVideoMessageProps> = ({ userLocation }) =
   const [storedRecordings, setStoredRecordings] = useState<any[]>([]);
   const [isLoadingRecordings, setIsLoadingRecordings] = useState(false);
   const [isDeletingRecording, setIsDeletingRecording] = useState<string | null>(null);
+  const [isExportingReport, setIsExportingReport] = useState<string | null>(null);
 
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+  const uploadRef = useRef<ChunkedUpload | null>(null);
+  const uploadAbortRef = useRef<AbortController | null>(null);
+  // Where the current recording was stored, once it has been
+  const storedPathRef = useRef<string | null>(null);
   const streamRef = useRef<MediaStream | null>(null);
   const videoRef = useRef<HTMLVideoElement | null>(null);
   const timerRef = useRef<NodeJS.Timeout | null>(null);
+  const captureStartedAtRef = useRef<Date | null>(null);
+  const captureLocationRef = useRef<Promise<CaptureLocation | null>>(Promise.resolve(null));
+  const viewedEvidenceRef = useRef<Set<string>>(new Set());
   const { toast } = useToast();
 
   useEffect(() => {
@@ -69,27 +94,41 @@ const AudioVideoMessage: React.FC<AudioVideoMessageProps> = ({ userLocation }) =
 
   const startRecording = async (type: 'audio' | 'video') => {
     try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) {
+        throw new Error('User not authenticated');
+      }
+
       const constraints = type === 'video'
         ? { video: { width: 1280, height: 720 }, audio: true }
         : { audio: true };
 
       const stream = await navigator.mediaDevices.getUserMedia(constraints);
       streamRef.current = stream;
+      captureStartedAtRef.current = new Date();
+      storedPathRef.current = null;
+      captureLocationRef.current = getCaptureLocation();
 
       if (type === 'video' && videoRef.current) {
         videoRef.current.srcObject = stream;
         videoRef.current.play();
       }
 
-      const mediaRecorder = new MediaRecorder(stream, {
-        mimeType: type === 'video' ? 'video/webm;codecs=vp9' : 'audio/webm'
-      });
+      const mimeType = type === 'video' ? 'video/webm;codecs=vp9' : 'audio/webm';
+      const mediaRecorder = new MediaRecorder(stream, { mimeType });
       mediaRecorderRef.current = mediaRecorder;
 
+      // Segments upload while recording, so a dropped connection doesn't lose the whole clip
+      setUploadProgress({ uploaded: 0, total: 0 });
+      uploadRef.current = createChunkedUpload(user.id, type, mimeType, (uploaded, total) => {
+        setUploadProgress({ uploaded, total });
+      });
+
       const chunks: Blob[] = [];
       mediaRecorder.ondataavailable = (event) => {
         if (event.data.size > 0) {
           chunks.push(event.data);
+          uploadRef.current?.addSegment(event.data);
         }
       };
 
@@ -109,7 +148,7 @@ const AudioVideoMessage: React.FC<AudioVideoMessageProps> = ({ userLocation }) =
         }
       };
 
-      mediaRecorder.start();
+      mediaRecorder.start(SEGMENT_TIMESLICE_MS);
       setIsRecording(true);
       setRecordingType(type);
       startTimer();
@@ -163,22 +202,35 @@ const AudioVideoMessage: React.FC<AudioVideoMessageProps> = ({ userLocation }) =
       }
 
       if (data) {
-        const recordings = data
-          .filter(file => file.name !== '.emptyFolderPlaceholder')
-          .map(file => {
-            const filePath = `${folderPath}/${file.name}`;
-            const { data: urlData } = supabase.storage
+        // Skip sub-folders such as the chunked upload segments under recordings/
+        const files = data.filter(file => file.id && file.name !== '.emptyFolderPlaceholder');
+
+        // The bucket is private, so playback goes through short-lived signed URLs
+        const { data: signedUrls, error: signError } = files.length > 0
+          ? await supabase.storage
               .from('emergency-media')
-              .getPublicUrl(filePath);
-
-            return {
-              name: file.name,
-              created_at: file.created_at,
-              size: file.metadata?.size || 0,
-              publicUrl: urlData.publicUrl,
-              type: file.name.includes('video') ? 'video' : 'audio'
-            };
-          });
+              .createSignedUrls(files.map(file => `${folderPath}/${file.name}`), RECORDING_PLAYBACK_URL_TTL_SECONDS)
+          : { data: [], error: null };
+
+        if (signError) {
+          console.error('Error signing recording URLs:', signError);
+        }
+
+        let evidence: EvidenceRecord[] = [];
+        try {
+          evidence = await fetchEvidence(user.id);
+        } catch (evidenceError) {
+          console.error('Error loading evidence records:', evidenceError);
+        }
+
+        const recordings = files.map((file, index) => ({
+          name: file.name,
+          created_at: file.created_at,
+          size: file.metadata?.size || 0,
+          playbackUrl: signedUrls?.[index]?.signedUrl ?? null,
+          type: file.name.includes('video') ? 'video' : 'audio',
+          evidence: evidence.find(item => item.storage_path === `${folderPath}/${file.name}`) ?? null
+        }));
         setStoredRecordings(recordings);
       }
     } catch (err) {
@@ -190,6 +242,16 @@ const AudioVideoMessage: React.FC<AudioVideoMessageProps> = ({ userLocation }) =
 
   // Delete a recording from Supabase Storage
   const deleteStoredRecording = async (fileName: string) => {
+    const evidence: EvidenceRecord | null = storedRecordings.find(recording => recording.name === fileName)?.evidence ?? null;
+    if (evidence && isEvidenceLocked(evidence)) {
+      toast({
+        title: "Recording Locked",
+        description: "This recording is evidence for an open incident and can't be deleted until the incident is closed.",
+        variant: "destructive",
+      });
+      return;
+    }
+
     if (!window.confirm("Are you sure you want to permanently delete this recording from storage?")) {
       return;
     }
@@ -201,11 +263,27 @@ const AudioVideoMessage: React.FC<AudioVideoMessageProps> = ({ userLocation }) =
       setIsDeletingRecording(fileName);
       const filePath = `${user.id}/emergency_media/${fileName}`;
 
-      const { error } = await supabase.storage
+      const { data: removed, error } = await supabase.storage
         .from('emergency-media')
         .remove([filePath]);
 
       if (error) throw error;
+      // Storage policies silently skip objects that are locked as evidence
+      if (!removed || removed.length === 0) {
+        throw new Error('This recording is locked as evidence and was not deleted.');
+      }
+
+      // The locker keeps its access log, which records the deletion
+      if (evidence) {
+        const { error: evidenceError } = await supabase
+          .from('media_evidence')
+          .delete()
+          .eq('id', evidence.id);
+
+        if (evidenceError) {
+          console.error('Error removing evidence record:', evidenceError);
+        }
+      }
 
       toast({
         title: "Recording Deleted",
@@ -226,48 +304,151 @@ const AudioVideoMessage: React.FC<AudioVideoMessageProps> = ({ userLocation }) =
     }
   };
 
-  const uploadMediaToStorage = async (mediaBlob: Blob, type: 'audio' | 'video'): Promise<string> => {
+  const exportEvidenceReport = async (evidence: EvidenceRecord) => {
+    setIsExportingReport(evidence.id);
+    try {
+      const report = await downloadEvidenceReport(evidence);
+
+      toast({
+        title: report.integrity.intact ? "Evidence Report Exported" : "Integrity Check Failed",
+        description: report.integrity.intact
+          ? "The stored recording matches the hash taken when it was captured."
+          : "The stored recording no longer matches its original hash. The report records the mismatch.",
+        variant: report.integrity.intact ? "default" : "destructive",
+      });
+    } catch (err) {
+      console.error('Error exporting evidence report:', err);
+      toast({
+        title: "Export Failed",
+        description: (err as Error).message || "Failed to export the evidence report.",
+        variant: "destructive",
+      });
+    } finally {
+      setIsExportingReport(null);
+    }
+  };
+
+  // Playback is part of the chain of custody; one entry per recording per visit is enough
+  const logEvidenceView = (evidence: EvidenceRecord | null) => {
+    if (!evidence || viewedEvidenceRef.current.has(evidence.id)) return;
+    viewedEvidenceRef.current.add(evidence.id);
+    logEvidenceAccess(evidence, 'viewed');
+  };
+
+  // Last resort when the segment backlog won't clear: the whole recording in one upload
+  const uploadRecordingDirectly = async (upload: ChunkedUpload): Promise<string> => {
+    if (!recordedBlob) {
+      throw new Error('Recording not found');
+    }
+
+    const path = `${upload.manifest.user_id}/emergency_media/emergency_${upload.manifest.id}.webm`;
+    const { error } = await supabase.storage
+      .from('emergency-media')
+      .upload(path, recordedBlob, { contentType: recordedBlob.type });
+
+    if (error) {
+      console.error('Direct upload error:', error);
+      throw new Error('The recording could not be uploaded. Check your connection and try again.');
+    }
+
+    return path;
+  };
+
+  // Waits for the remaining segments, then has the server stitch them into one playable file
+  const uploadMediaToStorage = async (): Promise<string> => {
     setIsUploading(true);
+    const abort = new AbortController();
+    uploadAbortRef.current = abort;
+
     try {
-      const { data: { user } } = await supabase.auth.getUser();
-      if (!user) {
-        throw new Error('User not authenticated');
+      const upload = uploadRef.current;
+      if (!upload) {
+        throw new Error('Recording upload not found');
       }
 
-      const timestamp = Date.now();
-      const fileExtension = type === 'video' ? 'webm' : 'webm';
-      const fileName = `emergency_${type}_${timestamp}.${fileExtension}`;
-      const filePath = `${user.id}/emergency_media/${fileName}`;
-
-      console.log('Uploading media:', { fileName, filePath, size: mediaBlob.size });
+      // A recording is stored and registered once; sending it again reuses that copy
+      if (storedPathRef.current) {
+        return storedPathRef.current;
+      }
 
-      const { data, error } = await supabase.storage
-        .from('emergency-media')
-        .upload(filePath, mediaBlob, {
-          contentType: type === 'video' ? 'video/webm' : 'audio/webm',
-          upsert: true
+      const capturedAt = captureStartedAtRef.current;
+      const evidence = recordedBlob && capturedAt ? {
+        sha256: await sha256Hex(recordedBlob),
+        captured_at: capturedAt.toISOString(),
+        device_info: getDeviceInfo(),
+        location: await captureLocationRef.current
+      } : undefined;
+
+      let path: string;
+      let evidenceError: string | null = null;
+      try {
+        const manifest = await upload.finish(abort.signal);
+
+        // The server registers the stitched file itself, with the hash of the bytes it stored
+        const { data, error } = await supabase.functions.invoke('stitch-media-recording', {
+          body: {
+            recording_id: manifest.id,
+            evidence
+          }
         });
 
-      if (error) {
-        console.error('Upload error:', error);
-        throw error;
-      }
+        if (error) {
+          console.error('Stitch error:', error);
+          throw error;
+        }
 
-      console.log('Upload successful:', data);
+        console.log('Stitched recording:', data);
+        path = data.path;
+        evidenceError = data.evidence_error;
+      } catch (error) {
+        if (abort.signal.aborted || (error as Error).message !== 'Upload timed out') {
+          throw error;
+        }
 
-      // Get public URL
-      const { data: urlData } = supabase.storage
-        .from('emergency-media')
-        .getPublicUrl(filePath);
+        // Segments keep retrying in the background and are kept like any sent recording's
+        console.error('Segment upload timed out, uploading the recording directly:', error);
+        path = await uploadRecordingDirectly(upload);
+
+        if (recordedBlob && recordingType && capturedAt) {
+          try {
+            await registerEvidence({
+              userId: upload.manifest.user_id,
+              storagePath: path,
+              mediaType: recordingType,
+              blob: recordedBlob,
+              capturedAt,
+              location: await captureLocationRef.current
+            });
+          } catch (registerError) {
+            console.error('Error registering evidence:', registerError);
+            evidenceError = (registerError as Error).message || null;
+          }
+        }
+      }
 
-      console.log('Public URL:', urlData.publicUrl);
+      storedPathRef.current = path;
 
-      return urlData.publicUrl;
+      // The alert goes out whether or not the file made it into the evidence locker
+      if (evidenceError) {
+        toast({
+          title: "Evidence Not Registered",
+          description: evidenceError,
+          variant: "destructive",
+        });
+      }
+
+      return path;
     } finally {
+      uploadAbortRef.current = null;
       setIsUploading(false);
     }
   };
 
+  // Stops waiting on a slow upload; segments keep uploading so Send can be tried again
+  const cancelUpload = () => {
+    uploadAbortRef.current?.abort();
+  };
+
   const openRecipientDialog = async () => {
     if (!recordedBlob || !recordingType) return;
 
@@ -294,9 +475,20 @@ const AudioVideoMessage: React.FC<AudioVideoMessageProps> = ({ userLocation }) =
         return;
       }
 
+      // Pre-select the contacts chosen for media alerts in Settings (everyone by default)
+      const { data: settings } = await supabase
+        .from('user_settings')
+        .select('media_contact_ids')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      const mediaContactIds = settings?.media_contact_ids;
       setContacts(data);
-      // Select all by default
-      setSelectedContactIds(data.map(c => c.id));
+      setSelectedContactIds(
+        data
+          .filter(c => !mediaContactIds || mediaContactIds.includes(c.id))
+          .map(c => c.id)
+      );
       setIsRecipientDialogOpen(true);
 
     } catch (err: any) {
@@ -341,7 +533,7 @@ const AudioVideoMessage: React.FC<AudioVideoMessageProps> = ({ userLocation }) =
       setIsSending(true);
 
       // Upload media file first
-      const mediaUrl = await uploadMediaToStorage(recordedBlob, recordingType);
+      const mediaPath = await uploadMediaToStorage();
 
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) {
@@ -351,11 +543,11 @@ const AudioVideoMessage: React.FC<AudioVideoMessageProps> = ({ userLocation }) =
       // Send emergency notification with media URL
       const { data, error } = await supabase.functions.invoke('send-emergency-notification', {
         body: {
-          user_id: user.id,
           latitude: userLocation?.lat || null,
           longitude: userLocation?.lng || null,
           message: `Emergency ${recordingType} message recorded! Please check the attached ${recordingType} for details.`,
-          media_url: mediaUrl,
+          media_path: mediaPath,
+          media_type: recordingType,
           contact_ids: selectedContactIds
         }
       });
@@ -369,6 +561,8 @@ const AudioVideoMessage: React.FC<AudioVideoMessageProps> = ({ userLocation }) =
         description: `Emergency ${recordingType} message sent to selected contacts`,
       });
 
+      // Keep the sent recording's segments and manifest alongside the stitched file
+      uploadRef.current = null;
       clearRecording();
       // Re-fetch storage recordings
       fetchStoredRecordings();
@@ -386,6 +580,10 @@ const AudioVideoMessage: React.FC<AudioVideoMessageProps> = ({ userLocation }) =
   };
 
   const clearRecording = () => {
+    uploadRef.current?.cancel();
+    uploadRef.current = null;
+    storedPathRef.current = null;
+    setUploadProgress(null);
     setRecordedBlob(null);
     if (recordedUrl) {
       URL.revokeObjectURL(recordedUrl);
@@ -441,6 +639,11 @@ const AudioVideoMessage: React.FC<AudioVideoMessageProps> = ({ userLocation }) =
                     Recording {recordingType} - {formatTime(recordingTime)}
                   </span>
                 </div>
+                {uploadProgress && uploadProgress.total > 0 && (
+                  <p className="text-xs text-muted-foreground mt-2">
+                    {uploadProgress.uploaded} of {uploadProgress.total} segments backed up
+                  </p>
+                )}
               </div>
 
               {recordingType === 'video' && (
@@ -472,6 +675,11 @@ const AudioVideoMessage: React.FC<AudioVideoMessageProps> = ({ userLocation }) =
                 <p className="text-sm text-muted-foreground mb-2">
                   {recordingType === 'video' ? 'Video' : 'Audio'} message recorded ({formatTime(recordingTime)})
                 </p>
+                {uploadProgress && uploadProgress.uploaded < uploadProgress.total && (
+                  <p className="text-xs text-muted-foreground mb-2">
+                    Backing up {uploadProgress.uploaded} of {uploadProgress.total} segments. Uploads resume automatically if your connection drops.
+                  </p>
+                )}
 
                 {recordingType === 'video' ? (
                   <video
@@ -487,15 +695,26 @@ const AudioVideoMessage: React.FC<AudioVideoMessageProps> = ({ userLocation }) =
               </div>
 
               <div className="flex gap-2">
-                <Button
-                  variant="outline"
-                  onClick={clearRecording}
-                  className="flex-1"
-                  disabled={isUploading || isSending}
-                >
-                  <Trash2 className="h-4 w-4 mr-2" />
-                  Delete
-                </Button>
+                {isUploading ? (
+                  <Button
+                    variant="outline"
+                    onClick={cancelUpload}
+                    className="flex-1"
+                  >
+                    <X className="h-4 w-4 mr-2" />
+                    Cancel
+                  </Button>
+                ) : (
+                  <Button
+                    variant="outline"
+                    onClick={clearRecording}
+                    className="flex-1"
+                    disabled={isSending}
+                  >
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Delete
+                  </Button>
+                )}
                 <Button
                   variant="destructive"
                   onClick={openRecipientDialog}
@@ -607,7 +826,7 @@ const AudioVideoMessage: React.FC<AudioVideoMessageProps> = ({ userLocation }) =
             Manage Recordings
           </CardTitle>
           <CardDescription>
-            Play and manage your uploaded emergency media files directly in Supabase storage.
+            Play and manage your uploaded emergency media files. They are stored privately and only shared through expiring links.
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
@@ -634,32 +853,77 @@ const AudioVideoMessage: React.FC<AudioVideoMessageProps> = ({ userLocation }) =
                         Uploaded: {new Date(recording.created_at).toLocaleString('en-IN', { timeZone: 'Asia/Kolkata' })} • {(recording.size / (1024 * 1024)).toFixed(2)} MB
                       </p>
                     </div>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      className="text-muted-foreground hover:text-destructive hover:bg-destructive/10"
-                      onClick={() => deleteStoredRecording(recording.name)}
-                      disabled={isDeletingRecording === recording.name}
-                    >
-                      {isDeletingRecording === recording.name ? (
-                        <Upload className="h-4 w-4 animate-spin" />
-                      ) : (
-                        <Trash className="h-4 w-4" />
+                    <div className="flex items-center gap-1">
+                      {recording.evidence && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="text-muted-foreground hover:text-indigo-600"
+                          title="Export evidence report"
+                          onClick={() => exportEvidenceReport(recording.evidence)}
+                          disabled={isExportingReport === recording.evidence.id}
+                        >
+                          {isExportingReport === recording.evidence.id ? (
+                            <Upload className="h-4 w-4 animate-spin" />
+                          ) : (
+                            <FileText className="h-4 w-4" />
+                          )}
+                        </Button>
                       )}
-                    </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="text-muted-foreground hover:text-destructive hover:bg-destructive/10"
+                        onClick={() => deleteStoredRecording(recording.name)}
+                        disabled={isDeletingRecording === recording.name || (recording.evidence && isEvidenceLocked(recording.evidence))}
+                      >
+                        {isDeletingRecording === recording.name ? (
+                          <Upload className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <Trash className="h-4 w-4" />
+                        )}
+                      </Button>
+                    </div>
                   </div>
 
+                  {recording.evidence && (
+                    <div className="text-xs text-muted-foreground bg-muted/30 rounded-lg p-2 space-y-1">
+                      <p className="flex items-center font-medium">
+                        {isEvidenceLocked(recording.evidence) ? (
+                          <span className="flex items-center text-amber-600 dark:text-amber-400">
+                            <Lock className="h-3 w-3 mr-1" />
+                            Locked: evidence for an open incident
+                          </span>
+                        ) : (
+                          'Registered as evidence'
+                        )}
+                      </p>
+                      <p>
+                        Captured: {new Date(recording.evidence.captured_at).toLocaleString('en-IN', { timeZone: 'Asia/Kolkata' })}
+                      </p>
+                      {recording.evidence.latitude !== null && recording.evidence.longitude !== null && (
+                        <p className="flex items-center">
+                          <MapPin className="h-3 w-3 mr-1" />
+                          {recording.evidence.latitude.toFixed(6)}, {recording.evidence.longitude.toFixed(6)}
+                          {recording.evidence.accuracy !== null && ` (±${Math.round(recording.evidence.accuracy)} m)`}
+                        </p>
+                      )}
+                      <p className="font-mono break-all">SHA-256: {recording.evidence.sha256}</p>
+                    </div>
+                  )}
+
                   {recording.type === 'video' ? (
                     <div className="relative max-w-sm">
                       <video
-                        src={recording.publicUrl}
+                        src={recording.playbackUrl}
+                        onPlay={() => logEvidenceView(recording.evidence)}
                         controls
                         className="w-full rounded-lg border bg-black max-h-[200px]"
                       />
                     </div>
                   ) : (
                     <div className="bg-muted/50 rounded-lg p-2 max-w-sm">
-                      <audio src={recording.publicUrl} controls className="w-full" />
+                      <audio src={recording.playbackUrl} onPlay={() => logEvidenceView(recording.evidence)} controls className="w-full" />
                     </div>
                   )}
                 </div>
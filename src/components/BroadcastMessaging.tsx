@@ -5,9 +5,17 @@ import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/components/ui/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { MessageSquare, Send, MapPin, Users } from 'lucide-react';
+import MessageTemplatePicker from '@/components/MessageTemplatePicker';
+import { broadcastRecipients, type ContactGroup } from '@/lib/contact-groups';
+import { TEMPLATE_PLACEHOLDERS, usesPlaceholder } from '@/lib/message-templates';
+import { getBatteryLevel } from '@/hooks/use-user-settings';
+
+// Select items cannot have an empty value
+const EVERYONE = 'everyone';
 
 const BroadcastMessaging: React.FC = () => {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
@@ -15,6 +23,8 @@ const BroadcastMessaging: React.FC = () => {
   const [subject, setSubject] = useState('');
   const [includeLocation, setIncludeLocation] = useState(false);
   const [contacts, setContacts] = useState<any[]>([]);
+  const [groups, setGroups] = useState<ContactGroup[]>([]);
+  const [target, setTarget] = useState<string>(EVERYONE);
   const [sending, setSending] = useState(false);
   const { toast } = useToast();
 
@@ -27,21 +37,38 @@ const BroadcastMessaging: React.FC = () => {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
-      const { data, error } = await supabase
-        .from('emergency_contacts')
-        .select('*')
-        .eq('user_id', user.id);
+      const [{ data, error }, { data: groupData, error: groupsError }] = await Promise.all([
+        supabase
+          .from('emergency_contacts')
+          .select('*')
+          .eq('user_id', user.id),
+        supabase
+          .from('contact_groups')
+          .select('*')
+          .eq('user_id', user.id)
+          .order('tier', { ascending: true })
+          .order('name', { ascending: true })
+      ]);
 
       if (error) {
         console.error('Error fetching contacts:', error);
       } else {
         setContacts(data || []);
       }
+
+      if (groupsError) {
+        console.error('Error fetching contact groups:', groupsError);
+      } else {
+        setGroups(groupData || []);
+      }
     } catch (error) {
       console.error('Error:', error);
     }
   };
 
+  const recipients = broadcastRecipients(contacts, groups, target === EVERYONE ? null : target);
+  const targetGroup = groups.find(group => group.id === target);
+
   const handleSendBroadcast = async () => {
     if (!message.trim()) {
       toast({
@@ -52,10 +79,10 @@ const BroadcastMessaging: React.FC = () => {
       return;
     }
 
-    if (contacts.length === 0) {
+    if (recipients.length === 0) {
       toast({
         title: "Error",
-        description: "No emergency contacts found",
+        description: targetGroup ? `No contacts in ${targetGroup.name}` : "No emergency contacts found",
         variant: "destructive",
       });
       return;
@@ -67,10 +94,15 @@ const BroadcastMessaging: React.FC = () => {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
+      // Placeholders are filled in by the edge function, which needs the location and battery for them
+      const template = `${subject}\n${message}`;
+      const usesLocationLink = usesPlaceholder(template, '{location_link}');
+      const batteryLevel = usesPlaceholder(template, '{battery}') ? await getBatteryLevel() : null;
+
       let finalMessage = message;
       let latitude, longitude;
 
-      if (includeLocation) {
+      if (includeLocation || usesLocationLink) {
         try {
           const position = await new Promise<GeolocationPosition>((resolve, reject) => {
             navigator.geolocation.getCurrentPosition(resolve, reject, {
@@ -82,22 +114,26 @@ const BroadcastMessaging: React.FC = () => {
           
           latitude = position.coords.latitude;
           longitude = position.coords.longitude;
-          finalMessage += `\n\n📍 My current location: https://maps.google.com/maps?q=${latitude},${longitude}`;
+          if (!usesLocationLink) {
+            finalMessage += `\n\n📍 My current location: https://maps.google.com/maps?q=${latitude},${longitude}`;
+          }
         } catch (error) {
           console.error('Location error:', error);
-          finalMessage += `\n\n📍 Location sharing was requested but unavailable`;
+          if (!usesLocationLink) {
+            finalMessage += `\n\n📍 Location sharing was requested but unavailable`;
+          }
         }
       }
 
       // Send broadcast message via edge function
       const { data, error } = await supabase.functions.invoke('send-broadcast-message', {
         body: {
-          user_id: user.id,
           subject: subject || 'Message from WomenSafe India',
           message: finalMessage,
           latitude: latitude,
           longitude: longitude,
-          contacts: contacts
+          battery_level: batteryLevel,
+          contacts: recipients
         }
       });
 
@@ -108,12 +144,13 @@ const BroadcastMessaging: React.FC = () => {
 
       toast({
         title: "Message Sent",
-        description: `Broadcast sent to ${contacts.length} contacts`,
+        description: `Broadcast sent to ${recipients.length} contacts`,
       });
 
       setMessage('');
       setSubject('');
       setIncludeLocation(false);
+      setTarget(EVERYONE);
       setIsDialogOpen(false);
     } catch (error) {
       console.error('Broadcast error:', error);
@@ -135,7 +172,7 @@ const BroadcastMessaging: React.FC = () => {
           Broadcast Messages
         </CardTitle>
         <CardDescription>
-          Send messages to all your emergency contacts at once
+          Send messages to all your emergency contacts, or one group, at once
         </CardDescription>
       </CardHeader>
       <CardContent>
@@ -153,10 +190,44 @@ const BroadcastMessaging: React.FC = () => {
             <DialogHeader>
               <DialogTitle>Send Broadcast Message</DialogTitle>
               <DialogDescription>
-                This message will be sent to all {contacts.length} emergency contacts via email and notifications.
+                This message will be sent to {recipients.length} {targetGroup ? `contacts in ${targetGroup.name}` : 'emergency contacts'} via email and notifications.
               </DialogDescription>
             </DialogHeader>
             <div className="space-y-4">
+              {groups.length > 0 && (
+                <div className="space-y-2">
+                  <Label htmlFor="broadcast-target">Send to</Label>
+                  <Select value={target} onValueChange={setTarget}>
+                    <SelectTrigger id="broadcast-target">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={EVERYONE}>
+                        Everyone ({broadcastRecipients(contacts, groups, null).length})
+                      </SelectItem>
+                      {groups.map((group) => (
+                        <SelectItem key={group.id} value={group.id}>
+                          {group.name} ({broadcastRecipients(contacts, groups, group.id).length})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {target === EVERYONE && groups.some(group => !group.include_in_broadcasts) && (
+                    <p className="text-xs text-muted-foreground">
+                      Excludes {groups.filter(group => !group.include_in_broadcasts).map(group => group.name).join(', ')}.
+                    </p>
+                  )}
+                </div>
+              )}
+
+              <MessageTemplatePicker
+                draft={{ subject, body: message }}
+                onSelect={(template) => {
+                  setSubject(template.subject ?? '');
+                  setMessage(template.body);
+                }}
+              />
+
               <div className="space-y-2">
                 <Label htmlFor="subject">Subject</Label>
                 <Input
@@ -177,6 +248,11 @@ const BroadcastMessaging: React.FC = () => {
                   rows={4}
                   required
                 />
+                {TEMPLATE_PLACEHOLDERS.some(placeholder => usesPlaceholder(`${subject}\n${message}`, placeholder.token)) && (
+                  <p className="text-xs text-muted-foreground">
+                    Placeholders such as {'{name}'} are filled in for each contact when the message is sent.
+                  </p>
+                )}
               </div>
               
               <div className="flex items-center space-x-2">
@@ -203,7 +279,7 @@ const BroadcastMessaging: React.FC = () => {
                 </Button>
                 <Button
                   onClick={handleSendBroadcast}
-                  disabled={sending || !message.trim()}
+                  disabled={sending || !message.trim() || recipients.length === 0}
                 >
                   {sending ? 'Sending...' : 'Send Message'}
                 </Button>
@@ -0,0 +1,222 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { Plus, Trash2, Siren, MessageSquare } from 'lucide-react';
+import { SUGGESTED_GROUP_NAMES, TIER_LABELS, type ContactGroup } from '@/lib/contact-groups';
+import type { TablesUpdate } from '@/integrations/supabase/types';
+
+interface ContactGroupsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  groups: ContactGroup[];
+  // Contacts per group, so deleting a group can say who becomes ungrouped
+  memberCounts: Record<string, number>;
+  onChanged: () => void;
+}
+
+const ContactGroupsDialog: React.FC<ContactGroupsDialogProps> = ({ open, onOpenChange, groups, memberCounts, onChanged }) => {
+  const [newName, setNewName] = useState('');
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const createGroup = async (name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    setSaving(true);
+    const { error } = await supabase
+      .from('contact_groups')
+      .insert({ user_id: user.id, name: trimmed });
+    setSaving(false);
+
+    if (error) {
+      console.error('Error creating contact group:', error);
+      toast({
+        title: "Error",
+        description: error.code === '23505' ? `You already have a group called "${trimmed}"` : "Failed to create the group",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setNewName('');
+    onChanged();
+  };
+
+  const updateGroup = async (group: ContactGroup, changes: TablesUpdate<'contact_groups'>) => {
+    const { error } = await supabase
+      .from('contact_groups')
+      .update(changes)
+      .eq('id', group.id);
+
+    if (error) {
+      console.error('Error updating contact group:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update the group",
+        variant: "destructive",
+      });
+    }
+    onChanged();
+  };
+
+  const deleteGroup = async (group: ContactGroup) => {
+    const members = memberCounts[group.id] ?? 0;
+    if (members > 0 && !window.confirm(`Delete "${group.name}"? Its ${members} contact${members === 1 ? '' : 's'} will become ungrouped (tier 1 if primary, otherwise tier 2).`)) {
+      return;
+    }
+
+    const { error } = await supabase
+      .from('contact_groups')
+      .delete()
+      .eq('id', group.id);
+
+    if (error) {
+      console.error('Error deleting contact group:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete the group",
+        variant: "destructive",
+      });
+    }
+    onChanged();
+  };
+
+  const unusedSuggestions = SUGGESTED_GROUP_NAMES.filter(
+    name => !groups.some(group => group.name.toLowerCase() === name.toLowerCase())
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Contact Groups</DialogTitle>
+          <DialogDescription>
+            Tier 1 groups get your SOS straight away. Tier 2 and 3 are alerted in turn if nobody responds. Ungrouped primary contacts count as tier 1 and other ungrouped contacts as tier 2.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {groups.length === 0 && (
+            <p className="text-sm text-muted-foreground">No groups yet. Create one below.</p>
+          )}
+          {groups.map((group) => (
+            <div key={group.id} className="p-3 border rounded-lg space-y-3">
+              <div className="flex items-center gap-2">
+                <Input
+                  defaultValue={group.name}
+                  maxLength={50}
+                  aria-label="Group name"
+                  onBlur={(e) => {
+                    const name = e.target.value.trim();
+                    if (name && name !== group.name) updateGroup(group, { name });
+                  }}
+                />
+                <span className="text-xs text-muted-foreground shrink-0">
+                  {memberCounts[group.id] ?? 0} contacts
+                </span>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => deleteGroup(group)}
+                  className="text-destructive hover:text-destructive h-8 w-8 p-0 shrink-0"
+                  title="Delete group"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+              <Select
+                value={String(group.tier)}
+                onValueChange={(value) => updateGroup(group, { tier: parseInt(value, 10) })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(TIER_LABELS).map(([tier, label]) => (
+                    <SelectItem key={tier} value={tier}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <div className="flex flex-wrap gap-x-6 gap-y-2">
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id={`group-sos-${group.id}`}
+                    checked={group.notify_on_sos}
+                    onCheckedChange={(checked) => updateGroup(group, { notify_on_sos: checked })}
+                  />
+                  <Label htmlFor={`group-sos-${group.id}`} className="text-sm flex items-center">
+                    <Siren className="h-3.5 w-3.5 mr-1" />
+                    SOS alerts
+                  </Label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id={`group-broadcast-${group.id}`}
+                    checked={group.include_in_broadcasts}
+                    onCheckedChange={(checked) => updateGroup(group, { include_in_broadcasts: checked })}
+                  />
+                  <Label htmlFor={`group-broadcast-${group.id}`} className="text-sm flex items-center">
+                    <MessageSquare className="h-3.5 w-3.5 mr-1" />
+                    "Everyone" broadcasts
+                  </Label>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <form
+          className="space-y-2 pt-2 border-t"
+          onSubmit={(e) => {
+            e.preventDefault();
+            createGroup(newName);
+          }}
+        >
+          <Label htmlFor="new-group-name">New group</Label>
+          <div className="flex gap-2">
+            <Input
+              id="new-group-name"
+              value={newName}
+              maxLength={50}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="e.g. Family"
+            />
+            <Button type="submit" disabled={saving || !newName.trim()}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add
+            </Button>
+          </div>
+          {unusedSuggestions.length > 0 && (
+            <div className="flex flex-wrap gap-2">
+              {unusedSuggestions.map((name) => (
+                <Button
+                  key={name}
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  className="h-7 text-xs"
+                  disabled={saving}
+                  onClick={() => createGroup(name)}
+                >
+                  + {name}
+                </Button>
+              ))}
+            </div>
+          )}
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ContactGroupsDialog;
@@ -0,0 +1,279 @@
+import React, { useState, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { FileUp, Smartphone } from 'lucide-react';
+import {
+  isContactPickerSupported,
+  isDuplicateContact,
+  normalizePhone,
+  parseVCard,
+  pickDeviceContacts,
+  remainingContactSlots,
+  type ImportCandidate,
+  type ImportStatus
+} from '@/lib/contact-import';
+import type { ContactGroup } from '@/lib/contact-groups';
+
+interface ExistingContact {
+  name: string;
+  phone: string;
+  email?: string | null;
+}
+
+interface PreviewRow {
+  key: string;
+  name: string;
+  phone: string | null;
+  rawPhone: string;
+  email: string | null;
+  status: ImportStatus;
+  selected: boolean;
+}
+
+interface ContactImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  existing: ExistingContact[];
+  groups: ContactGroup[];
+  onImported: (created: Array<{ id: string; name: string }>) => void;
+}
+
+const NO_GROUP = 'none';
+
+const statusLabel: Record<ImportStatus, { text: string; className: string }> = {
+  new: { text: 'New', className: 'bg-emerald-500/10 text-emerald-700 dark:text-emerald-400' },
+  duplicate: { text: 'Already added', className: 'bg-muted text-muted-foreground' },
+  invalid: { text: 'Invalid number', className: 'bg-destructive/10 text-destructive' },
+};
+
+// Checks every candidate against the circle and against earlier rows of the same import
+const buildPreview = (candidates: ImportCandidate[], existing: ExistingContact[]): PreviewRow[] => {
+  const rows: PreviewRow[] = [];
+
+  candidates.forEach((candidate, index) => {
+    const normalized = candidate.phones.map(phone => normalizePhone(phone)).find(Boolean) ?? null;
+    const seen = rows.map(row => ({ name: row.name, phone: row.phone ?? row.rawPhone, email: row.email }));
+    const status: ImportStatus = !normalized
+      ? 'invalid'
+      : isDuplicateContact({ phone: normalized, email: candidate.email }, [...existing, ...seen])
+        ? 'duplicate'
+        : 'new';
+
+    rows.push({
+      key: `${index}-${candidate.name}`,
+      name: candidate.name.slice(0, 100),
+      phone: normalized,
+      rawPhone: candidate.phones[0],
+      email: candidate.email,
+      status,
+      selected: status === 'new',
+    });
+  });
+
+  return rows;
+};
+
+const ContactImportDialog: React.FC<ContactImportDialogProps> = ({ open, onOpenChange, existing, groups, onImported }) => {
+  const [rows, setRows] = useState<PreviewRow[]>([]);
+  const [groupId, setGroupId] = useState<string>(NO_GROUP);
+  const [importing, setImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const slots = remainingContactSlots(existing.length);
+  const selectedRows = rows.filter(row => row.selected);
+  const overLimit = selectedRows.length > slots;
+
+  const showPreview = (candidates: ImportCandidate[]) => {
+    if (candidates.length === 0) {
+      toast({
+        title: "No Contacts Found",
+        description: "We couldn't find any contacts with a phone number.",
+        variant: "destructive",
+      });
+      return;
+    }
+    setRows(buildPreview(candidates, existing));
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      showPreview(parseVCard(await file.text()));
+    } catch (error) {
+      console.error('Error reading vCard file:', error);
+      toast({
+        title: "Error",
+        description: "Failed to read the contacts file",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handlePicker = async () => {
+    try {
+      showPreview(await pickDeviceContacts());
+    } catch (error) {
+      console.error('Error picking contacts:', error);
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to open your contacts",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const toggleRow = (key: string) => {
+    setRows(prev => prev.map(row => row.key === key && row.status !== 'invalid' ? { ...row, selected: !row.selected } : row));
+  };
+
+  const close = (nextOpen: boolean) => {
+    if (!nextOpen) {
+      setRows([]);
+      setGroupId(NO_GROUP);
+    }
+    onOpenChange(nextOpen);
+  };
+
+  const handleImport = async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user || selectedRows.length === 0 || overLimit) return;
+
+    setImporting(true);
+
+    try {
+      const { data, error } = await supabase
+        .from('emergency_contacts')
+        .insert(selectedRows.map(row => ({
+          user_id: user.id,
+          name: row.name,
+          phone: row.phone ?? row.rawPhone,
+          email: row.email,
+          group_id: groupId === NO_GROUP ? null : groupId
+        })))
+        .select('id, name');
+
+      if (error) throw error;
+
+      toast({
+        title: "Contacts Imported",
+        description: `${data.length} contact${data.length === 1 ? '' : 's'} added to your trusted circle.`,
+      });
+
+      onImported(data);
+      close(false);
+    } catch (error) {
+      console.error('Error importing contacts:', error);
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to import contacts",
+        variant: "destructive",
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={close}>
+      <DialogContent className="sm:max-w-lg max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Contacts</DialogTitle>
+          <DialogDescription>
+            Import from a .vcf file or pick from your phone. Numbers without a country code are treated as Indian (+91).
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Button variant="outline" className="flex-1" onClick={() => fileInputRef.current?.click()}>
+            <FileUp className="h-4 w-4 mr-2" />
+            Choose .vcf file
+          </Button>
+          {isContactPickerSupported() && (
+            <Button variant="outline" className="flex-1" onClick={handlePicker}>
+              <Smartphone className="h-4 w-4 mr-2" />
+              Pick from phone
+            </Button>
+          )}
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".vcf,text/vcard,text/x-vcard"
+            className="hidden"
+            onChange={handleFile}
+          />
+        </div>
+
+        {rows.length > 0 && (
+          <div className="space-y-3">
+            <div className="divide-y border rounded-lg">
+              {rows.map((row) => (
+                <label
+                  key={row.key}
+                  className={`flex items-center gap-3 p-2 text-sm ${row.status === 'invalid' ? 'opacity-60' : 'cursor-pointer hover:bg-muted'}`}
+                >
+                  <Checkbox
+                    checked={row.selected}
+                    disabled={row.status === 'invalid'}
+                    onCheckedChange={() => toggleRow(row.key)}
+                  />
+                  <span className="flex-1 min-w-0">
+                    <span className="block font-medium truncate">{row.name}</span>
+                    <span className="block text-xs text-muted-foreground truncate">
+                      {row.phone ?? row.rawPhone}{row.email ? ` • ${row.email}` : ''}
+                    </span>
+                  </span>
+                  <span className={`px-2 py-0.5 text-xs rounded-full shrink-0 ${statusLabel[row.status].className}`}>
+                    {statusLabel[row.status].text}
+                  </span>
+                </label>
+              ))}
+            </div>
+
+            {groups.length > 0 && (
+              <div className="space-y-2">
+                <Label htmlFor="import-group">Add to group</Label>
+                <Select value={groupId} onValueChange={setGroupId}>
+                  <SelectTrigger id="import-group">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_GROUP}>No group (tier 2)</SelectItem>
+                    {groups.map((group) => (
+                      <SelectItem key={group.id} value={group.id}>{group.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {overLimit && (
+              <p className="text-xs text-destructive">
+                You have room for {slots} more contact{slots === 1 ? '' : 's'}. Deselect {selectedRows.length - slots} to continue.
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="flex-row sm:justify-end gap-2">
+          <Button variant="secondary" onClick={() => close(false)} disabled={importing}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={importing || selectedRows.length === 0 || overLimit}>
+            {importing ? 'Importing...' : `Import ${selectedRows.length || ''} contact${selectedRows.length === 1 ? '' : 's'}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ContactImportDialog;
@@ -0,0 +1,150 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { supabase } from '@/integrations/supabase/client';
+import { Mail, MessageSquare, RotateCw } from 'lucide-react';
+import type { Tables } from '@/integrations/supabase/types';
+
+type Delivery = Tables<'notification_deliveries'>;
+
+interface DeliveryStatusProps {
+  // Deliveries for one incident; omit to list recent broadcast/individual messages
+  incidentId?: string;
+  title?: string;
+  description?: string;
+  limit?: number;
+}
+
+const statusBadge: Record<string, string> = {
+  sent: 'bg-emerald-500 text-white',
+  failed: 'bg-rose-500 text-white',
+  pending: 'bg-amber-500 text-white',
+};
+
+const sourceLabel: Record<string, string> = {
+  sos_alert: 'SOS alert',
+  all_clear: '"I\'m safe" follow-up',
+  broadcast: 'Broadcast',
+  individual: 'Direct message',
+};
+
+const formatIST = (value: string) =>
+  new Date(value).toLocaleString('en-IN', { timeZone: 'Asia/Kolkata' });
+
+const DeliveryStatus: React.FC<DeliveryStatusProps> = ({
+  incidentId,
+  title = 'Delivery Status',
+  description = 'Per-contact delivery for each channel. Failed sends are retried automatically.',
+  limit = 20,
+}) => {
+  const [deliveries, setDeliveries] = useState<Delivery[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchDeliveries();
+
+    // Retries update rows in place, so refresh whenever one changes
+    const channel = supabase
+      .channel(`notification-deliveries-${incidentId ?? 'messages'}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'notification_deliveries',
+          ...(incidentId ? { filter: `incident_id=eq.${incidentId}` } : {}),
+        },
+        () => fetchDeliveries()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [incidentId]);
+
+  const fetchDeliveries = async () => {
+    try {
+      let query = supabase
+        .from('notification_deliveries')
+        .select('*')
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      query = incidentId ? query.eq('incident_id', incidentId) : query.is('incident_id', null);
+
+      const { data, error } = await query;
+
+      if (error) {
+        console.error('Error fetching notification deliveries:', error);
+      } else {
+        setDeliveries(data || []);
+      }
+    } catch (error) {
+      console.error('Error:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Card className="shadow-xs">
+      <CardHeader>
+        <CardTitle className="text-base font-bold">{title}</CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="animate-pulse space-y-4">
+            <div className="h-4 bg-muted rounded w-3/4"></div>
+            <div className="h-4 bg-muted rounded w-1/2"></div>
+          </div>
+        ) : deliveries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No notifications have been sent yet.</p>
+        ) : (
+          <div className="divide-y divide-slate-100 dark:divide-slate-800 border rounded-lg">
+            {deliveries.map((delivery) => (
+              <div key={delivery.id} className="p-3 flex items-start justify-between gap-3 text-xs">
+                <div className="flex items-start space-x-2 min-w-0">
+                  {delivery.channel === 'sms' ? (
+                    <MessageSquare className="h-4 w-4 mt-0.5 text-slate-400 shrink-0" />
+                  ) : (
+                    <Mail className="h-4 w-4 mt-0.5 text-slate-400 shrink-0" />
+                  )}
+                  <div className="space-y-0.5 min-w-0">
+                    <p className="font-semibold text-slate-800 dark:text-slate-200 truncate">
+                      {delivery.contact_name}
+                      <span className="font-normal text-slate-400"> · {delivery.recipient}</span>
+                    </p>
+                    <p className="text-slate-400">
+                      {sourceLabel[delivery.source] || delivery.source} · {formatIST(delivery.created_at)}
+                    </p>
+                    {delivery.status === 'failed' && delivery.error && (
+                      <p className="text-rose-500 break-words">{delivery.error}</p>
+                    )}
+                    {delivery.status === 'failed' && delivery.next_retry_at && (
+                      <p className="text-slate-400 flex items-center">
+                        <RotateCw className="h-3 w-3 mr-1" />
+                        Retrying at {formatIST(delivery.next_retry_at)}
+                      </p>
+                    )}
+                  </div>
+                </div>
+                <div className="flex flex-col items-end space-y-1 shrink-0">
+                  <span className={`px-2 py-0.5 rounded-full text-[10px] font-bold uppercase ${statusBadge[delivery.status] || statusBadge.pending}`}>
+                    {delivery.status}
+                  </span>
+                  {delivery.attempts > 1 && (
+                    <span className="text-[10px] text-slate-400">{delivery.attempts} attempts</span>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DeliveryStatus;
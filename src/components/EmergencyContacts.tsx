@@ -7,7 +7,10 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, Di
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/components/ui/use-toast';
 import { supabase } from '@/integrations/supabase/client';
-import { Plus, Phone, Mail, Edit2, Trash2, Users } from 'lucide-react';
+import { Plus, Phone, Mail, Edit2, Trash2, Users, Link2, ShieldCheck, Unlink, Send, Clock, XCircle, Layers, Upload } from 'lucide-react';
+import ContactGroupsDialog from '@/components/ContactGroupsDialog';
+import ContactImportDialog from '@/components/ContactImportDialog';
+import { MAX_CONTACTS, TIER_LABELS, contactTier, findGroup, type ContactGroup } from '@/lib/contact-groups';
 
 interface EmergencyContact {
   id: string;
@@ -16,10 +19,27 @@ interface EmergencyContact {
   email?: string;
   relationship?: string;
   is_primary: boolean;
+  invite_token: string;
+  linked_user_id: string | null;
+  verification_status: string;
+  verification_sent_at: string | null;
+  group_id: string | null;
+}
+
+// Select items cannot have an empty value
+const NO_GROUP = 'none';
+
+interface VerificationResult {
+  email_result: { status: string; error?: string } | null;
+  sms_result: { status: string; error?: string } | null;
 }
 
 const EmergencyContacts: React.FC = () => {
   const [contacts, setContacts] = useState<EmergencyContact[]>([]);
+  const [groups, setGroups] = useState<ContactGroup[]>([]);
+  const [isGroupsOpen, setIsGroupsOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [groupFilter, setGroupFilter] = useState<string>('all');
   const [loading, setLoading] = useState(true);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingContact, setEditingContact] = useState<EmergencyContact | null>(null);
@@ -28,14 +48,30 @@ const EmergencyContacts: React.FC = () => {
     phone: '',
     email: '',
     relationship: '',
-    is_primary: false
+    is_primary: false,
+    group_id: NO_GROUP
   });
   const { toast } = useToast();
 
   useEffect(() => {
     fetchContacts();
+    fetchGroups();
   }, []);
 
+  const fetchGroups = async () => {
+    const { data, error } = await supabase
+      .from('contact_groups')
+      .select('*')
+      .order('tier', { ascending: true })
+      .order('name', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching contact groups:', error);
+    } else {
+      setGroups(data || []);
+    }
+  };
+
   const fetchContacts = async () => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
@@ -77,7 +113,8 @@ const EmergencyContacts: React.FC = () => {
       phone: '',
       email: '',
       relationship: '',
-      is_primary: false
+      is_primary: false,
+      group_id: NO_GROUP
     });
     setEditingContact(null);
   };
@@ -88,11 +125,11 @@ const EmergencyContacts: React.FC = () => {
     const { data: { user } } = await supabase.auth.getUser();
     if (!user) return;
 
-    // Check contact limit (max 7)
-    if (!editingContact && contacts.length >= 7) {
+    // Check contact limit
+    if (!editingContact && contacts.length >= MAX_CONTACTS) {
       toast({
         title: "Limit Reached",
-        description: "You can add maximum 7 emergency contacts",
+        description: `You can add maximum ${MAX_CONTACTS} emergency contacts`,
         variant: "destructive",
       });
       return;
@@ -100,6 +137,9 @@ const EmergencyContacts: React.FC = () => {
 
     try {
       if (editingContact) {
+        // Changing how to reach them resets the contact to pending, so ask again
+        const reachChanged = formData.phone !== editingContact.phone || formData.email !== (editingContact.email || '');
+
         // Update existing contact
         const { error } = await supabase
           .from('emergency_contacts')
@@ -108,7 +148,8 @@ const EmergencyContacts: React.FC = () => {
             phone: formData.phone,
             email: formData.email,
             relationship: formData.relationship,
-            is_primary: formData.is_primary
+            is_primary: formData.is_primary,
+            group_id: formData.group_id === NO_GROUP ? null : formData.group_id
           })
           .eq('id', editingContact.id);
 
@@ -118,9 +159,13 @@ const EmergencyContacts: React.FC = () => {
           title: "Success",
           description: "Emergency contact updated successfully",
         });
+
+        if (reachChanged) {
+          sendVerification(editingContact.id, formData.name);
+        }
       } else {
         // Create new contact
-        const { error } = await supabase
+        const { data: created, error } = await supabase
           .from('emergency_contacts')
           .insert({
             user_id: user.id,
@@ -128,8 +173,11 @@ const EmergencyContacts: React.FC = () => {
             phone: formData.phone,
             email: formData.email,
             relationship: formData.relationship,
-            is_primary: formData.is_primary
-          });
+            is_primary: formData.is_primary,
+            group_id: formData.group_id === NO_GROUP ? null : formData.group_id
+          })
+          .select('id')
+          .single();
 
         if (error) throw error;
 
@@ -137,6 +185,8 @@ const EmergencyContacts: React.FC = () => {
           title: "Success",
           description: "Emergency contact added successfully",
         });
+
+        sendVerification(created.id, formData.name);
       }
 
       fetchContacts();
@@ -159,7 +209,8 @@ const EmergencyContacts: React.FC = () => {
       phone: contact.phone,
       email: contact.email || '',
       relationship: contact.relationship || '',
-      is_primary: contact.is_primary
+      is_primary: contact.is_primary,
+      group_id: contact.group_id ?? NO_GROUP
     });
     setIsDialogOpen(true);
   };
@@ -188,6 +239,133 @@ const EmergencyContacts: React.FC = () => {
     }
   };
 
+  // Asks the contact to confirm they agree to be a responder; also catches mistyped numbers
+  const requestVerification = async (contactId: string) => {
+    const { data, error } = await supabase.functions.invoke('send-contact-verification', {
+      body: { contact_id: contactId }
+    });
+
+    if (error) {
+      const details = await error.context?.json?.().catch(() => null);
+      throw new Error(details?.error || error.message);
+    }
+
+    return data as VerificationResult;
+  };
+
+  const sendVerification = async (contactId: string, contactName: string) => {
+    try {
+      const { email_result, sms_result } = await requestVerification(contactId);
+      const sent = [email_result, sms_result].some(result => result?.status === 'sent');
+
+      if (sms_result?.error === 'Invalid phone number') {
+        toast({
+          title: "Check This Number",
+          description: `${contactName}'s phone number doesn't look valid, so no SMS could be sent. Please edit the contact.`,
+          variant: "destructive",
+        });
+      } else if (!sent) {
+        toast({
+          title: "Confirmation Not Delivered",
+          description: `We couldn't reach ${contactName}. Check their details and try again.`,
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: "Confirmation Requested",
+          description: `${contactName} has been asked to confirm they'll respond in an emergency.`,
+        });
+      }
+    } catch (error) {
+      console.error('Error sending contact verification:', error);
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to send the confirmation request",
+        variant: "destructive",
+      });
+    } finally {
+      fetchContacts();
+    }
+  };
+
+  // One summary instead of a toast per imported contact
+  const verifyImported = async (created: Array<{ id: string; name: string }>) => {
+    fetchContacts();
+
+    if (created.length === 0) return;
+
+    const results = await Promise.allSettled(created.map(contact => requestVerification(contact.id)));
+    const undelivered = created.filter((_, index) => {
+      const result = results[index];
+      return result.status === 'rejected'
+        || ![result.value.email_result, result.value.sms_result].some(r => r?.status === 'sent');
+    });
+
+    if (undelivered.length > 0) {
+      toast({
+        title: "Some Confirmations Not Delivered",
+        description: `We couldn't reach ${undelivered.map(contact => contact.name).join(', ')}. Check their details and resend.`,
+        variant: "destructive",
+      });
+    }
+
+    fetchContacts();
+  };
+
+  // Contacts who open this link while signed in can follow you in Guardian Mode
+  const shareInviteLink = async (contact: EmergencyContact) => {
+    const inviteUrl = `${window.location.origin}/guardian/invite/${contact.invite_token}`;
+
+    try {
+      if (navigator.share) {
+        await navigator.share({
+          title: 'Be my Abhaya guardian',
+          text: `${contact.name}, I've added you as a trusted contact on Abhaya. Open this link to see my live status if I ever need help:`,
+          url: inviteUrl,
+        });
+        return;
+      }
+
+      await navigator.clipboard.writeText(inviteUrl);
+      toast({
+        title: "Invite Link Copied",
+        description: `Send it to ${contact.name}. They'll need to sign in or create an account to accept.`,
+      });
+    } catch (error) {
+      if ((error as Error).name === 'AbortError') return;
+      console.error('Error sharing invite link:', error);
+      toast({
+        title: "Error",
+        description: "Failed to share the invite link",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Unlinking also revokes the old invite link
+  const unlinkGuardian = async (contact: EmergencyContact) => {
+    if (!window.confirm(`Unlink ${contact.name}'s account? They will no longer see your live status or incidents.`)) {
+      return;
+    }
+
+    const { error } = await supabase
+      .from('emergency_contacts')
+      .update({ linked_user_id: null })
+      .eq('id', contact.id);
+
+    if (error) {
+      console.error('Error unlinking guardian:', error);
+      toast({
+        title: "Error",
+        description: "Failed to unlink the contact's account",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    fetchContacts();
+  };
+
   if (loading) {
     return (
       <Card>
@@ -204,16 +382,34 @@ const EmergencyContacts: React.FC = () => {
     );
   }
 
+  // Listed in escalation order: tier first, then primary contacts
+  const visibleContacts = contacts
+    .filter(contact => groupFilter === 'all' || (contact.group_id ?? NO_GROUP) === groupFilter)
+    .sort((a, b) => contactTier(a, groups) - contactTier(b, groups) || Number(b.is_primary) - Number(a.is_primary));
+
+  const memberCounts = contacts.reduce<Record<string, number>>((counts, contact) => {
+    if (contact.group_id) counts[contact.group_id] = (counts[contact.group_id] ?? 0) + 1;
+    return counts;
+  }, {});
+
   return (
     <Card>
       <CardHeader>
-        <CardTitle className="flex items-center">
-          <Users className="h-5 w-5 mr-2 text-primary" />
-          Emergency Contacts
-        </CardTitle>
-        <CardDescription>
-          Add trusted contacts to notify in emergencies
-        </CardDescription>
+        <div className="flex items-start justify-between gap-2">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center">
+              <Users className="h-5 w-5 mr-2 text-primary" />
+              Emergency Contacts
+            </CardTitle>
+            <CardDescription>
+              Add trusted contacts to notify in emergencies
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => setIsGroupsOpen(true)} className="shrink-0">
+            <Layers className="h-4 w-4 mr-1" />
+            Groups{groups.length > 0 ? ` (${groups.length})` : ''}
+          </Button>
+        </div>
       </CardHeader>
       <CardContent className="space-y-4">
         {contacts.length === 0 ? (
@@ -225,7 +421,28 @@ const EmergencyContacts: React.FC = () => {
           </div>
         ) : (
           <div className="space-y-3">
-            {contacts.map((contact) => (
+            {contacts.some(contact => contact.verification_status !== 'verified') && (
+              <p className="text-xs text-muted-foreground">
+                {contacts.filter(contact => contact.verification_status === 'verified').length} of {contacts.length} contacts have confirmed they'll respond. Unconfirmed contacts still get your alerts, but their details may be wrong.
+              </p>
+            )}
+            {groups.length > 0 && (
+              <Select value={groupFilter} onValueChange={setGroupFilter}>
+                <SelectTrigger className="h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All groups ({contacts.length})</SelectItem>
+                  {groups.map((group) => (
+                    <SelectItem key={group.id} value={group.id}>
+                      {group.name} ({memberCounts[group.id] ?? 0})
+                    </SelectItem>
+                  ))}
+                  <SelectItem value={NO_GROUP}>Ungrouped</SelectItem>
+                </SelectContent>
+              </Select>
+            )}
+            {visibleContacts.map((contact) => (
               <div
                 key={contact.id}
                 className="p-4 border rounded-lg space-y-2 hover:shadow-sm transition-shadow"
@@ -239,6 +456,43 @@ const EmergencyContacts: React.FC = () => {
                           Primary
                         </span>
                       )}
+                      {findGroup(groups, contact.group_id) && (
+                        <span
+                          className="px-2 py-1 bg-muted text-muted-foreground text-xs rounded-full shrink-0"
+                          title={TIER_LABELS[contactTier(contact, groups)]}
+                        >
+                          {findGroup(groups, contact.group_id)?.name} · T{contactTier(contact, groups)}
+                        </span>
+                      )}
+                      {contact.linked_user_id && (
+                        <span className="px-2 py-1 bg-emerald-500/10 text-emerald-700 dark:text-emerald-400 text-xs rounded-full shrink-0 flex items-center">
+                          <ShieldCheck className="h-3 w-3 mr-1" />
+                          Guardian
+                        </span>
+                      )}
+                      {contact.verification_status === 'verified' && !contact.linked_user_id && (
+                        <span className="px-2 py-1 bg-emerald-500/10 text-emerald-700 dark:text-emerald-400 text-xs rounded-full shrink-0 flex items-center">
+                          <ShieldCheck className="h-3 w-3 mr-1" />
+                          Verified
+                        </span>
+                      )}
+                      {contact.verification_status === 'pending' && (
+                        <span
+                          className="px-2 py-1 bg-amber-500/10 text-amber-700 dark:text-amber-400 text-xs rounded-full shrink-0 flex items-center"
+                          title={contact.verification_sent_at
+                            ? `Asked on ${new Date(contact.verification_sent_at).toLocaleString('en-IN', { timeZone: 'Asia/Kolkata' })}`
+                            : 'Confirmation not sent yet'}
+                        >
+                          <Clock className="h-3 w-3 mr-1" />
+                          {contact.verification_sent_at ? 'Awaiting confirmation' : 'Not verified'}
+                        </span>
+                      )}
+                      {contact.verification_status === 'declined' && (
+                        <span className="px-2 py-1 bg-destructive/10 text-destructive text-xs rounded-full shrink-0 flex items-center">
+                          <XCircle className="h-3 w-3 mr-1" />
+                          Declined
+                        </span>
+                      )}
                     </div>
                     <div className="flex items-center text-sm text-muted-foreground mt-1">
                       <Phone className="h-3 w-3 mr-1 shrink-0" />
@@ -257,6 +511,38 @@ const EmergencyContacts: React.FC = () => {
                     )}
                   </div>
                   <div className="flex flex-col sm:flex-row space-y-1 sm:space-y-0 sm:space-x-1 shrink-0">
+                    {contact.verification_status !== 'verified' && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => sendVerification(contact.id, contact.name)}
+                        className="h-8 w-8 p-0"
+                        title="Ask them to confirm again"
+                      >
+                        <Send className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {contact.linked_user_id ? (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => unlinkGuardian(contact)}
+                        className="h-8 w-8 p-0"
+                        title="Unlink their account"
+                      >
+                        <Unlink className="h-4 w-4" />
+                      </Button>
+                    ) : (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => shareInviteLink(contact)}
+                        className="h-8 w-8 p-0"
+                        title="Invite them to link an account"
+                      >
+                        <Link2 className="h-4 w-4" />
+                      </Button>
+                    )}
                     <Button
                       variant="ghost"
                       size="sm"
@@ -284,16 +570,28 @@ const EmergencyContacts: React.FC = () => {
           setIsDialogOpen(open);
           if (!open) resetForm();
         }}>
-          <DialogTrigger asChild>
-            <Button 
-              className="w-full" 
-              variant="outline" 
-              disabled={contacts.length >= 7}
+          <div className="flex flex-col sm:flex-row gap-2">
+            <DialogTrigger asChild>
+              <Button 
+                className="flex-1" 
+                variant="outline" 
+                disabled={contacts.length >= MAX_CONTACTS}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                {contacts.length >= MAX_CONTACTS
+                  ? `Maximum contacts reached (${MAX_CONTACTS}/${MAX_CONTACTS})`
+                  : `Add Emergency Contact (${contacts.length}/${MAX_CONTACTS})`}
+              </Button>
+            </DialogTrigger>
+            <Button
+              variant="outline"
+              onClick={() => setIsImportOpen(true)}
+              disabled={contacts.length >= MAX_CONTACTS}
             >
-              <Plus className="h-4 w-4 mr-2" />
-              {contacts.length >= 7 ? 'Maximum contacts reached (7/7)' : `Add Emergency Contact (${contacts.length}/7)`}
+              <Upload className="h-4 w-4 mr-2" />
+              Import
             </Button>
-          </DialogTrigger>
+          </div>
           <DialogContent>
             <DialogHeader>
               <DialogTitle>
@@ -360,6 +658,26 @@ const EmergencyContacts: React.FC = () => {
                 </Select>
               </div>
               
+              <div className="space-y-2">
+                <Label htmlFor="group">Group</Label>
+                <Select
+                  value={formData.group_id}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, group_id: value }))}
+                >
+                  <SelectTrigger id="group">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_GROUP}>No group (tier 1 if primary)</SelectItem>
+                    {groups.map((group) => (
+                      <SelectItem key={group.id} value={group.id}>
+                        {group.name} · tier {group.tier}{group.notify_on_sos ? '' : ' · no SOS'}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
               <div className="flex items-center space-x-2">
                 <input
                   type="checkbox"
@@ -388,6 +706,26 @@ const EmergencyContacts: React.FC = () => {
             </form>
           </DialogContent>
         </Dialog>
+
+        <ContactImportDialog
+          open={isImportOpen}
+          onOpenChange={setIsImportOpen}
+          existing={contacts}
+          groups={groups}
+          onImported={verifyImported}
+        />
+
+        <ContactGroupsDialog
+          open={isGroupsOpen}
+          onOpenChange={setIsGroupsOpen}
+          groups={groups}
+          memberCounts={memberCounts}
+          onChanged={() => {
+            setGroupFilter('all');
+            fetchGroups();
+            fetchContacts();
+          }}
+        />
       </CardContent>
     </Card>
   );
@@ -6,15 +6,29 @@ interface GoogleMapProps {
   zoom?: number;
   onLocationChange?: (location: { lat: number; lng: number }) => void;
   safeZones?: Array<{ lat: number; lng: number; name: string; type: string; phone?: string }>;
+  // When false the map stays on `center` instead of the viewer's own position
+  followUserLocation?: boolean;
+  // Ordered positions drawn as a path, e.g. an incident's live trail
+  trail?: Array<{ lat: number; lng: number }>;
+  markerTitle?: string;
+  // Optional target pin, e.g. where a check-in timer is heading
+  destination?: { lat: number; lng: number; name?: string } | null;
 }
 
 const GoogleMap: React.FC<GoogleMapProps> = ({ 
   center = { lat: 28.6139, lng: 77.2090 },
   zoom = 12,
   onLocationChange,
-  safeZones = []
+  safeZones = [],
+  followUserLocation = true,
+  trail = [],
+  markerTitle = 'Your Location',
+  destination = null
 }) => {
   const mapRef = useRef<HTMLDivElement>(null);
+  const trailLineRef = useRef<google.maps.Polyline | null>(null);
+  const trailMarkerRef = useRef<google.maps.Marker | null>(null);
+  const destinationMarkerRef = useRef<google.maps.Marker | null>(null);
   const [map, setMap] = useState<google.maps.Map | null>(null);
   const [currentLocation, setCurrentLocation] = useState<{ lat: number; lng: number } | null>(null);
   const [isMapLoaded, setIsMapLoaded] = useState(false);
@@ -72,6 +86,10 @@ const GoogleMap: React.FC<GoogleMapProps> = ({
 
   // Auto-detect location on component load
   useEffect(() => {
+    if (!followUserLocation) {
+      setCurrentLocation(center);
+      return;
+    }
     getCurrentLocation();
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
@@ -105,11 +123,11 @@ const GoogleMap: React.FC<GoogleMapProps> = ({
 
       setMap(mapInstance);
 
-      // Add current location marker
+      // Add current location marker (a fixed-center map draws its trail head instead)
       new google.maps.Marker({
         position: currentLocation,
-        map: mapInstance,
-        title: 'Your Location',
+        map: followUserLocation ? mapInstance : null,
+        title: markerTitle,
         icon: {
           path: google.maps.SymbolPath.CIRCLE,
           scale: 10,
@@ -176,7 +194,58 @@ const GoogleMap: React.FC<GoogleMapProps> = ({
       console.error('Error loading Google Maps:', error);
       setError(`Failed to load Google Maps: ${error.message || 'Unknown error'}`);
     }
-  }, [currentLocation, zoom, safeZones, API_KEY]);
+  }, [currentLocation, zoom, safeZones, API_KEY, followUserLocation, markerTitle]);
+
+  // Draw the trail separately so new points don't rebuild the whole map
+  useEffect(() => {
+    if (!map || trail.length === 0) return;
+
+    if (!trailLineRef.current) {
+      trailLineRef.current = new google.maps.Polyline({
+        map,
+        strokeColor: '#E11D48',
+        strokeOpacity: 0.9,
+        strokeWeight: 4
+      });
+    }
+    trailLineRef.current.setMap(map);
+    trailLineRef.current.setPath(trail);
+
+    const head = trail[trail.length - 1];
+    if (!trailMarkerRef.current) {
+      trailMarkerRef.current = new google.maps.Marker({
+        map,
+        title: markerTitle,
+        icon: {
+          path: google.maps.SymbolPath.CIRCLE,
+          scale: 10,
+          fillColor: '#E11D48',
+          fillOpacity: 0.9,
+          strokeColor: '#ffffff',
+          strokeWeight: 2
+        }
+      });
+    }
+    trailMarkerRef.current.setMap(map);
+    trailMarkerRef.current.setPosition(head);
+    map.panTo(head);
+  }, [map, trail, markerTitle]);
+
+  useEffect(() => {
+    if (!map) return;
+
+    if (!destination) {
+      destinationMarkerRef.current?.setMap(null);
+      return;
+    }
+
+    if (!destinationMarkerRef.current) {
+      destinationMarkerRef.current = new google.maps.Marker({ map });
+    }
+    destinationMarkerRef.current.setMap(map);
+    destinationMarkerRef.current.setPosition({ lat: destination.lat, lng: destination.lng });
+    destinationMarkerRef.current.setTitle(destination.name || 'Destination');
+  }, [map, destination]);
 
   const getDistance = (pos1: { lat: number; lng: number }, pos2: { lat: number; lng: number }) => {
     const R = 6371e3;
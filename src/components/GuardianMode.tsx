@@ -0,0 +1,501 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/components/ui/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { ShieldAlert, ShieldCheck, MapPin, Clock, CheckCircle, ExternalLink, UserMinus, Eye, MessageCircle } from 'lucide-react';
+import GoogleMap from '@/components/GoogleMap';
+import MessageThread from '@/components/MessageThread';
+import { unreadByContact, type Message } from '@/lib/messages';
+import type { Tables } from '@/integrations/supabase/types';
+
+type Incident = Tables<'sos_incidents'>;
+type LocationPoint = Tables<'sos_location_points'>;
+type Acknowledgement = Tables<'incident_acknowledgements'>;
+
+interface Ward {
+  contactId: string;
+  userId: string;
+  name: string;
+}
+
+// Enough history to show each person's last few incidents
+const RECENT_INCIDENT_LIMIT = 50;
+
+const formatIST = (value: string) =>
+  new Date(value).toLocaleString('en-IN', { timeZone: 'Asia/Kolkata' });
+
+/**
+ * Guardian view for trusted contacts who linked their account: the live status,
+ * location and incidents of everyone who trusts them. Everything is read through
+ * the guardian RLS policies and kept current with Supabase Realtime.
+ */
+const GuardianMode: React.FC = () => {
+  const [userId, setUserId] = useState<string | null>(null);
+  const [wards, setWards] = useState<Ward[]>([]);
+  const [incidents, setIncidents] = useState<Incident[]>([]);
+  const [latestPoints, setLatestPoints] = useState<Record<string, LocationPoint>>({});
+  const [acknowledgements, setAcknowledgements] = useState<Acknowledgement[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [acknowledging, setAcknowledging] = useState<string | null>(null);
+  const [unreadMessages, setUnreadMessages] = useState<Record<string, number>>({});
+  const [chatWard, setChatWard] = useState<Ward | null>(null);
+  const wardsRef = useRef<Ward[]>([]);
+  const chatWardRef = useRef<Ward | null>(null);
+  const { toast } = useToast();
+
+  const fetchGuardianData = useCallback(async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+      setUserId(user.id);
+
+      const { data: links, error: linksError } = await supabase
+        .from('emergency_contacts')
+        .select('id, user_id')
+        .eq('linked_user_id', user.id);
+
+      if (linksError) throw linksError;
+
+      const wardIds = (links || []).map(link => link.user_id);
+      if (wardIds.length === 0) {
+        wardsRef.current = [];
+        setWards([]);
+        setIncidents([]);
+        return;
+      }
+
+      const [{ data: profiles }, { data: incidentRows, error: incidentsError }] = await Promise.all([
+        supabase.from('profiles').select('user_id, first_name, last_name').in('user_id', wardIds),
+        supabase
+          .from('sos_incidents')
+          .select('*')
+          .in('user_id', wardIds)
+          .order('created_at', { ascending: false })
+          .limit(RECENT_INCIDENT_LIMIT),
+      ]);
+
+      if (incidentsError) throw incidentsError;
+
+      const nextWards = (links || []).map(link => {
+        const profile = profiles?.find(p => p.user_id === link.user_id);
+        return {
+          contactId: link.id,
+          userId: link.user_id,
+          name: profile ? `${profile.first_name ?? ''} ${profile.last_name ?? ''}`.trim() || 'Abhaya user' : 'Abhaya user',
+        };
+      });
+      wardsRef.current = nextWards;
+      setWards(nextWards);
+      setIncidents(incidentRows || []);
+
+      const activeIds = (incidentRows || []).filter(incident => incident.status === 'active').map(incident => incident.id);
+      if (activeIds.length === 0) {
+        setLatestPoints({});
+        setAcknowledgements([]);
+        return;
+      }
+
+      const [{ data: points }, { data: acks }] = await Promise.all([
+        supabase
+          .from('sos_location_points')
+          .select('*')
+          .in('incident_id', activeIds)
+          .order('recorded_at', { ascending: false })
+          .limit(activeIds.length * 20),
+        supabase
+          .from('incident_acknowledgements')
+          .select('*')
+          .in('incident_id', activeIds)
+          .order('created_at', { ascending: true }),
+      ]);
+
+      const latest: Record<string, LocationPoint> = {};
+      for (const point of points || []) {
+        if (!latest[point.incident_id]) latest[point.incident_id] = point;
+      }
+      setLatestPoints(latest);
+      setAcknowledgements(acks || []);
+    } catch (error) {
+      console.error('Error loading guardian view:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchGuardianData();
+  }, [fetchGuardianData]);
+
+  // Messages from the people they watch over that the guardian has not opened yet
+  const fetchUnreadMessages = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('messages')
+      .select('contact_id, direction, read_at')
+      .eq('direction', 'outbound')
+      .is('read_at', null);
+
+    if (error) {
+      console.error('Error fetching unread messages:', error);
+      return;
+    }
+    setUnreadMessages(unreadByContact(data || [], 'contact'));
+  }, []);
+
+  useEffect(() => {
+    fetchUnreadMessages();
+  }, [fetchUnreadMessages]);
+
+  useEffect(() => {
+    chatWardRef.current = chatWard;
+  }, [chatWard]);
+
+  // Realtime only delivers rows the guardian policies allow, so no extra filtering is needed
+  useEffect(() => {
+    if (!userId) return;
+
+    const channel = supabase
+      .channel(`guardian-mode-${userId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'sos_incidents' },
+        (payload) => {
+          const incident = payload.new as Incident;
+          if (incident.user_id === userId) return;
+          const ward = wardsRef.current.find(w => w.userId === incident.user_id);
+          toast({
+            title: "🚨 SOS Alert",
+            description: `${ward?.name || 'Someone you watch over'} has triggered an SOS.`,
+            variant: "destructive",
+          });
+          fetchGuardianData();
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'sos_incidents' },
+        () => fetchGuardianData()
+      )
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'sos_location_points' },
+        (payload) => {
+          const point = payload.new as LocationPoint;
+          if (point.user_id === userId) return;
+          setLatestPoints(prev => ({ ...prev, [point.incident_id]: point }));
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'incident_acknowledgements' },
+        (payload) => {
+          const ack = payload.new as Acknowledgement;
+          setAcknowledgements(prev => prev.some(a => a.id === ack.id) ? prev : [...prev, ack]);
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'messages' },
+        (payload) => {
+          const message = payload.new as Message;
+          if (message.direction !== 'outbound') return;
+          const ward = wardsRef.current.find(w => w.contactId === message.contact_id);
+          if (ward && chatWardRef.current?.contactId !== ward.contactId) {
+            toast({
+              title: `💬 ${ward.name}`,
+              description: message.body.length > 120 ? `${message.body.slice(0, 120)}...` : message.body,
+            });
+          }
+          fetchUnreadMessages();
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, fetchGuardianData, fetchUnreadMessages, toast]);
+
+  const acknowledge = async (incidentId: string) => {
+    setAcknowledging(incidentId);
+    try {
+      const { error } = await supabase.rpc('acknowledge_incident', { p_incident_id: incidentId });
+      if (error) throw error;
+
+      toast({
+        title: "Alert Acknowledged",
+        description: "They can now see that you are responding.",
+      });
+      fetchGuardianData();
+    } catch (error) {
+      console.error('Error acknowledging incident:', error);
+      toast({
+        title: "Acknowledgement Failed",
+        description: (error as Error).message || "Failed to acknowledge the alert.",
+        variant: "destructive",
+      });
+    } finally {
+      setAcknowledging(null);
+    }
+  };
+
+  // Replies from the guardian's app go straight into the thread; the owner sees them live
+  const sendReply = async (body: string) => {
+    if (!chatWard || !userId) return false;
+
+    const { error } = await supabase
+      .from('messages')
+      .insert({
+        contact_id: chatWard.contactId,
+        direction: 'inbound',
+        channel: 'app',
+        body,
+        sender_id: userId
+      });
+
+    if (error) {
+      console.error('Error sending reply:', error);
+      toast({
+        title: "Error",
+        description: "Failed to send your message.",
+        variant: "destructive",
+      });
+      return false;
+    }
+    return true;
+  };
+
+  const closeChat = (open: boolean) => {
+    if (open) return;
+    setChatWard(null);
+    fetchUnreadMessages();
+  };
+
+  const stopGuarding = async (ward: Ward) => {
+    if (!window.confirm(`Stop being ${ward.name}'s guardian? You will no longer see their live status or incidents.`)) {
+      return;
+    }
+
+    const { error } = await supabase.rpc('leave_guardianship', { p_contact_id: ward.contactId });
+    if (error) {
+      console.error('Error leaving guardianship:', error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to unlink your account.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    fetchGuardianData();
+  };
+
+  if (loading) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Guardian Mode</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="animate-pulse space-y-4">
+            <div className="h-4 bg-muted rounded w-3/4"></div>
+            <div className="h-4 bg-muted rounded w-1/2"></div>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (wards.length === 0) {
+    return (
+      <Card className="max-w-2xl mx-auto">
+        <CardHeader className="text-center">
+          <Eye className="h-10 w-10 text-muted-foreground mx-auto mb-2" />
+          <CardTitle>Guardian Mode</CardTitle>
+          <CardDescription>
+            Nobody has linked you as their trusted contact yet. When someone adds you to their Trusted Circle, they can send you an invite link. Open it while signed in to follow their live status here.
+          </CardDescription>
+        </CardHeader>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6 animate-fade-in">
+      {wards.map((ward) => {
+        const wardIncidents = incidents.filter(incident => incident.user_id === ward.userId);
+        const active = wardIncidents.find(incident => incident.status === 'active');
+        const point = active ? latestPoints[active.id] : undefined;
+        const lastSeen = point
+          ? { lat: Number(point.latitude), lng: Number(point.longitude) }
+          : active?.latitude && active?.longitude
+            ? { lat: Number(active.latitude), lng: Number(active.longitude) }
+            : null;
+        const activeAcks = active ? acknowledgements.filter(ack => ack.incident_id === active.id) : [];
+        const acknowledgedByMe = activeAcks.some(ack => ack.acknowledged_by === userId);
+
+        return (
+          <Card key={ward.contactId} className={`shadow-xs ${active ? 'border-2 border-rose-500' : ''}`}>
+            <CardHeader className="flex flex-row items-start justify-between space-y-0 gap-4">
+              <div className="space-y-1.5">
+                <CardTitle className="flex items-center">
+                  {active ? (
+                    <ShieldAlert className="h-5 w-5 mr-2 text-rose-500 animate-pulse" />
+                  ) : (
+                    <ShieldCheck className="h-5 w-5 mr-2 text-emerald-500" />
+                  )}
+                  {ward.name}
+                </CardTitle>
+                <CardDescription>
+                  {active
+                    ? `SOS active since ${formatIST(active.created_at)}`
+                    : wardIncidents[0]
+                      ? `Safe. Last incident ${formatIST(wardIncidents[0].created_at)}`
+                      : 'Safe. No incidents so far'}
+                </CardDescription>
+              </div>
+              <div className="flex items-center space-x-2">
+                <span className={`px-2 py-0.5 rounded-full text-[10px] font-bold uppercase ${active ? 'bg-rose-500 text-white' : 'bg-emerald-500 text-white'}`}>
+                  {active ? 'SOS active' : 'safe'}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="relative text-muted-foreground"
+                  title={`Message ${ward.name}`}
+                  onClick={() => setChatWard(ward)}
+                >
+                  <MessageCircle className="h-4 w-4" />
+                  {unreadMessages[ward.contactId] > 0 && (
+                    <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-rose-500 text-white text-[10px] font-bold leading-4">
+                      {unreadMessages[ward.contactId]}
+                    </span>
+                  )}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="text-muted-foreground hover:text-destructive"
+                  title="Stop being their guardian"
+                  onClick={() => stopGuarding(ward)}
+                >
+                  <UserMinus className="h-4 w-4" />
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {active && (
+                <>
+                  {active.is_duress && (
+                    <div className="rounded-xl border-2 border-rose-600 bg-rose-600/10 p-4 text-sm text-rose-700 dark:text-rose-300">
+                      <p className="font-extrabold uppercase tracking-wider">⚠️ Silent duress signal</p>
+                      <p className="mt-1">
+                        {ward.name} entered their duress PIN, so someone may be forcing them to cancel the alert.
+                        Do not call or text them directly. Contact the police on 100 and share this location.
+                      </p>
+                    </div>
+                  )}
+
+                  <div className="h-[280px] relative overflow-hidden bg-slate-100 dark:bg-slate-900 rounded-xl border">
+                    {lastSeen ? (
+                      <GoogleMap
+                        center={lastSeen}
+                        zoom={16}
+                        followUserLocation={false}
+                        markerTitle={`${ward.name} last seen`}
+                      />
+                    ) : (
+                      <div className="w-full h-full flex items-center justify-center text-sm text-slate-500">
+                        Waiting for their first location update...
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="flex flex-wrap items-center gap-3 text-xs text-slate-500">
+                    {lastSeen && (
+                      <span className="flex items-center">
+                        <MapPin className="h-3 w-3 mr-1" />
+                        {lastSeen.lat.toFixed(5)}, {lastSeen.lng.toFixed(5)}
+                      </span>
+                    )}
+                    {point && (
+                      <span className="flex items-center">
+                        <Clock className="h-3 w-3 mr-1" />
+                        Updated {formatIST(point.recorded_at)}
+                      </span>
+                    )}
+                    <a
+                      href={`/track/${active.tracking_token}`}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="flex items-center text-rose-600 hover:underline font-semibold"
+                    >
+                      <ExternalLink className="h-3 w-3 mr-1" />
+                      Open live tracking
+                    </a>
+                  </div>
+
+                  <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+                    <Button
+                      className="bg-rose-600 hover:bg-rose-700 text-white"
+                      onClick={() => acknowledge(active.id)}
+                      disabled={acknowledgedByMe || acknowledging === active.id}
+                    >
+                      <CheckCircle className="h-4 w-4 mr-2" />
+                      {acknowledgedByMe ? 'You acknowledged this alert' : acknowledging === active.id ? 'Acknowledging...' : "I'm responding"}
+                    </Button>
+                    {activeAcks.length > 0 && (
+                      <p className="text-xs text-slate-500">
+                        Acknowledged by {activeAcks.map(ack => ack.contact_name).join(', ')}
+                      </p>
+                    )}
+                  </div>
+                </>
+              )}
+
+              {wardIncidents.filter(incident => incident.id !== active?.id).length > 0 && (
+                <div className="space-y-2">
+                  <p className="text-xs font-bold uppercase tracking-wider text-slate-400">Recent incidents</p>
+                  <div className="divide-y divide-slate-100 dark:divide-slate-800 border rounded-lg">
+                    {wardIncidents.filter(incident => incident.id !== active?.id).slice(0, 5).map((incident) => (
+                      <div key={incident.id} className="p-3 flex items-center justify-between text-xs">
+                        <span className="font-semibold text-slate-700 dark:text-slate-300">{formatIST(incident.created_at)}</span>
+                        <span className="text-slate-400 uppercase font-bold text-[10px]">
+                          {incident.resolution === 'false_alarm' || incident.status === 'cancelled' ? 'false alarm' : incident.status}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        );
+      })}
+
+      <Dialog open={!!chatWard} onOpenChange={closeChat}>
+        <DialogContent className="sm:max-w-md">
+          {chatWard && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{chatWard.name}</DialogTitle>
+                <DialogDescription>
+                  Messages {chatWard.name} sends you appear here. They see your replies straight away.
+                </DialogDescription>
+              </DialogHeader>
+              <MessageThread
+                contactId={chatWard.contactId}
+                viewer="contact"
+                counterpartName={chatWard.name}
+                onSend={sendReply}
+              />
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default GuardianMode;
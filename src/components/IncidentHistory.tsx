@@ -0,0 +1,326 @@
+import React, { useState, useEffect } from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/components/ui/use-toast';
+import { History, ChevronRight, MapPin, FileDown } from 'lucide-react';
+import type { Tables } from '@/integrations/supabase/types';
+import { describeIncidentEvent, isAlertEvent, type IncidentEvent } from '@/lib/incident-events';
+import DeliveryStatus from '@/components/DeliveryStatus';
+
+type Incident = Tables<'sos_incidents'>;
+
+interface TimelineEntry {
+  id: string;
+  time: string;
+  text: string;
+  alert: boolean;
+}
+
+const formatIST = (value: string) =>
+  new Date(value).toLocaleString('en-IN', { timeZone: 'Asia/Kolkata' });
+
+const statusBadge: Record<string, string> = {
+  active: 'bg-rose-500 text-white',
+  resolved: 'bg-emerald-500 text-white',
+  cancelled: 'bg-slate-400 text-white',
+};
+
+const downloadFile = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Collapse runs of location updates so a long incident stays readable
+const buildTimeline = (events: IncidentEvent[]): TimelineEntry[] => {
+  const entries: TimelineEntry[] = [];
+  let run: IncidentEvent[] = [];
+
+  const flushRun = () => {
+    if (run.length === 0) return;
+    entries.push({
+      id: run[0].id,
+      time: run.length > 1
+        ? `${formatIST(run[0].created_at)} – ${formatIST(run[run.length - 1].created_at)}`
+        : formatIST(run[0].created_at),
+      text: run.length > 1 ? `${run.length} live location updates recorded` : describeIncidentEvent(run[0]),
+      alert: false,
+    });
+    run = [];
+  };
+
+  events.forEach(event => {
+    if (event.event_type === 'location_point') {
+      run.push(event);
+      return;
+    }
+    flushRun();
+    entries.push({
+      id: event.id,
+      time: formatIST(event.created_at),
+      text: describeIncidentEvent(event),
+      alert: isAlertEvent(event),
+    });
+  });
+  flushRun();
+
+  return entries;
+};
+
+const IncidentHistory: React.FC = () => {
+  const [incidents, setIncidents] = useState<Incident[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<string>('all');
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [selectedIncidentId, setSelectedIncidentId] = useState<string | null>(null);
+  const [timeline, setTimeline] = useState<TimelineEntry[]>([]);
+  const [loadingTimeline, setLoadingTimeline] = useState(false);
+  const [exportingReport, setExportingReport] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchIncidents();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [statusFilter, fromDate, toDate]);
+
+  useEffect(() => {
+    if (selectedIncidentId) {
+      fetchTimeline(selectedIncidentId);
+    }
+  }, [selectedIncidentId]);
+
+  const fetchIncidents = async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      setLoading(true);
+      let query = supabase
+        .from('sos_incidents')
+        .select('*')
+        .eq('user_id', user.id)
+        // Whoever forced the duress PIN may be looking at this screen
+        .eq('is_duress', false)
+        .order('created_at', { ascending: false });
+
+      if (statusFilter !== 'all') {
+        query = query.eq('status', statusFilter);
+      }
+      if (fromDate) {
+        query = query.gte('created_at', new Date(`${fromDate}T00:00:00`).toISOString());
+      }
+      if (toDate) {
+        query = query.lte('created_at', new Date(`${toDate}T23:59:59.999`).toISOString());
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        console.error('Error fetching incidents:', error);
+      } else {
+        setIncidents(data || []);
+      }
+    } catch (error) {
+      console.error('Error:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchTimeline = async (incidentId: string) => {
+    try {
+      setLoadingTimeline(true);
+      const { data, error } = await supabase
+        .from('incident_events')
+        .select('*')
+        .eq('incident_id', incidentId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        console.error('Error fetching incident timeline:', error);
+      } else {
+        setTimeline(buildTimeline(data || []));
+      }
+    } catch (error) {
+      console.error('Error:', error);
+    } finally {
+      setLoadingTimeline(false);
+    }
+  };
+
+  // The report is built server-side, so it comes out the same on any device
+  const exportReport = async (incidentId: string) => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      setExportingReport(true);
+      const { data, error } = await supabase.functions.invoke('export-incident-report', {
+        body: { incident_id: incidentId }
+      });
+
+      if (error) throw error;
+
+      const pdfBytes = Uint8Array.from(atob(data.pdf_base64), char => char.charCodeAt(0));
+      downloadFile(new Blob([pdfBytes], { type: 'application/pdf' }), `${data.filename}.pdf`);
+      downloadFile(new Blob([JSON.stringify(data.report, null, 2)], { type: 'application/json' }), `${data.filename}.json`);
+
+      toast({
+        title: "Report Exported",
+        description: "The PDF and JSON incident report have been downloaded.",
+      });
+    } catch (error) {
+      console.error('Error exporting incident report:', error);
+      toast({
+        title: "Export Failed",
+        description: (error as Error).message || "Failed to export the incident report.",
+        variant: "destructive",
+      });
+    } finally {
+      setExportingReport(false);
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 animate-fade-in">
+      <Card className="shadow-xs">
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <History className="h-5 w-5 mr-2 text-rose-500" />
+            Past Incidents
+          </CardTitle>
+          <CardDescription>
+            Every SOS you have raised, newest first. Select one to see its timeline.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="history-from" className="text-xs">From</Label>
+              <Input id="history-from" type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="history-to" className="text-xs">To</Label>
+              <Input id="history-to" type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Status</Label>
+              <Select value={statusFilter} onValueChange={setStatusFilter}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All</SelectItem>
+                  <SelectItem value="active">Active</SelectItem>
+                  <SelectItem value="resolved">Resolved</SelectItem>
+                  <SelectItem value="cancelled">False alarm</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {loading ? (
+            <div className="animate-pulse space-y-4">
+              <div className="h-4 bg-muted rounded w-3/4"></div>
+              <div className="h-4 bg-muted rounded w-1/2"></div>
+            </div>
+          ) : incidents.length === 0 ? (
+            <div className="text-center py-6 text-sm text-muted-foreground bg-muted/30 rounded-lg">
+              No incidents match these filters.
+            </div>
+          ) : (
+            <div className="divide-y divide-slate-100 dark:divide-slate-800 border rounded-lg">
+              {incidents.map((incident) => (
+                <button
+                  key={incident.id}
+                  onClick={() => setSelectedIncidentId(incident.id)}
+                  className={`w-full p-4 flex items-center justify-between text-left text-xs transition-colors hover:bg-slate-50 dark:hover:bg-slate-900 ${selectedIncidentId === incident.id ? 'bg-rose-500/5' : ''}`}
+                >
+                  <div className="space-y-1">
+                    <p className="font-semibold text-slate-800 dark:text-slate-200">{formatIST(incident.created_at)}</p>
+                    {incident.latitude && incident.longitude && (
+                      <p className="text-slate-400 flex items-center">
+                        <MapPin className="h-3 w-3 mr-1" />
+                        {Number(incident.latitude).toFixed(4)}, {Number(incident.longitude).toFixed(4)}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <span className={`px-2 py-0.5 rounded-full text-[10px] font-bold uppercase ${statusBadge[incident.status] || statusBadge.cancelled}`}>
+                      {incident.resolution === 'false_alarm' || incident.status === 'cancelled' ? 'false alarm' : incident.status}
+                    </span>
+                    <ChevronRight className="h-4 w-4 text-slate-400" />
+                  </div>
+                </button>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="shadow-xs">
+        <CardHeader className="flex flex-row items-start justify-between space-y-0 gap-4">
+          <div className="space-y-1.5">
+            <CardTitle className="text-base font-bold">Incident Timeline</CardTitle>
+            <CardDescription>
+              Alerts sent, recordings attached and location updates for the selected incident.
+            </CardDescription>
+          </div>
+          {selectedIncidentId && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => exportReport(selectedIncidentId)}
+              disabled={exportingReport}
+              title="Download a PDF and JSON report for a police complaint"
+            >
+              <FileDown className="h-4 w-4 mr-2" />
+              {exportingReport ? 'Exporting...' : 'Export report'}
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent>
+          {!selectedIncidentId ? (
+            <p className="text-sm text-muted-foreground">Select an incident to view its timeline.</p>
+          ) : loadingTimeline ? (
+            <div className="animate-pulse space-y-4">
+              <div className="h-4 bg-muted rounded w-3/4"></div>
+              <div className="h-4 bg-muted rounded w-1/2"></div>
+            </div>
+          ) : timeline.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No events were recorded for this incident.</p>
+          ) : (
+            <ol className="relative border-l border-slate-200 dark:border-slate-800 ml-2 space-y-4">
+              {timeline.map((entry) => (
+                <li key={entry.id} className="ml-4 text-xs">
+                  <div className={`absolute w-2 h-2 rounded-full -left-1 mt-1.5 ${entry.alert ? 'bg-rose-500' : 'bg-blue-500'}`}></div>
+                  <p className="font-semibold text-slate-800 dark:text-slate-200">{entry.text}</p>
+                  <span className="text-slate-400 text-[10px]">{entry.time}</span>
+                </li>
+              ))}
+            </ol>
+          )}
+        </CardContent>
+      </Card>
+
+      {selectedIncidentId && (
+        <div className="lg:col-start-2">
+          <DeliveryStatus
+            incidentId={selectedIncidentId}
+            description="Who received this incident's alerts, on which channel. Failed sends are retried automatically."
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default IncidentHistory;
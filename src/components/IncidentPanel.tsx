@@ -0,0 +1,340 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { useToast } from '@/components/ui/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { ShieldAlert, CheckCircle, XCircle, Lock, Navigation, Phone, UserCheck } from 'lucide-react';
+import type { Tables } from '@/integrations/supabase/types';
+import type { LocationStreamStatus } from '@/hooks/use-sos-location-stream';
+
+type Outcome = 'resolved' | 'false_alarm';
+
+// Matches the last step of the escalate-sos-incidents ladder
+const DIAL_PROMPT_LEVEL = 3;
+
+interface IncidentPanelProps {
+  incidentId: string;
+  streamStatus: LocationStreamStatus;
+  onClosed: () => void;
+}
+
+const IncidentPanel: React.FC<IncidentPanelProps> = ({ incidentId, streamStatus, onClosed }) => {
+  const [incident, setIncident] = useState<Tables<'sos_incidents'> | null>(null);
+  const [acknowledgements, setAcknowledgements] = useState<Tables<'incident_acknowledgements'>[]>([]);
+  const [outcome, setOutcome] = useState<Outcome | null>(null);
+  const [hasPin, setHasPin] = useState<boolean | null>(null);
+  const [pin, setPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [note, setNote] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchIncident();
+    fetchAcknowledgements();
+
+    // Escalation steps and "I'm responding" acknowledgements arrive while the panel is open
+    const channel = supabase
+      .channel(`incident-panel-${incidentId}`)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'sos_incidents', filter: `id=eq.${incidentId}` },
+        (payload) => setIncident(payload.new as Tables<'sos_incidents'>)
+      )
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'incident_acknowledgements', filter: `incident_id=eq.${incidentId}` },
+        (payload) => {
+          const ack = payload.new as Tables<'incident_acknowledgements'>;
+          setAcknowledgements(prev => prev.some(a => a.id === ack.id) ? prev : [...prev, ack]);
+          toast({
+            title: "Help Is Responding",
+            description: `${ack.contact_name} has seen your alert and is responding.`,
+          });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [incidentId]);
+
+  const fetchIncident = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('sos_incidents')
+        .select('*')
+        .eq('id', incidentId)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching incident:', error);
+      } else {
+        setIncident(data);
+      }
+    } catch (error) {
+      console.error('Error:', error);
+    }
+  };
+
+  const fetchAcknowledgements = async () => {
+    const { data, error } = await supabase
+      .from('incident_acknowledgements')
+      .select('*')
+      .eq('incident_id', incidentId)
+      .order('created_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching acknowledgements:', error);
+    } else {
+      setAcknowledgements(data || []);
+    }
+  };
+
+  const showDialPrompt = !!incident && incident.escalation_level >= DIAL_PROMPT_LEVEL && acknowledgements.length === 0;
+
+  const openDialog = async (nextOutcome: Outcome) => {
+    setOutcome(nextOutcome);
+    setHasPin(null);
+    setPin('');
+    setConfirmPin('');
+    setNote('');
+
+    const { data, error } = await supabase.rpc('has_safety_pin');
+    if (error) {
+      console.error('Error checking safety PIN:', error);
+    }
+    setHasPin(!!data);
+  };
+
+  const closeDialog = () => {
+    setOutcome(null);
+    setPin('');
+    setConfirmPin('');
+  };
+
+  const handleConfirm = async () => {
+    if (!outcome) return;
+
+    if (!/^\d{4,6}$/.test(pin)) {
+      toast({
+        title: "Invalid PIN",
+        description: "Your safety PIN must be 4 to 6 digits.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (!hasPin && pin !== confirmPin) {
+      toast({
+        title: "Error",
+        description: "PINs don't match",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSubmitting(true);
+
+    try {
+      // First-time users create their PIN as part of closing the incident
+      if (!hasPin) {
+        const { data: pinResult, error: pinError } = await supabase.rpc('set_safety_pin', { p_pin: pin });
+        if (pinError) throw pinError;
+        if (pinResult !== 'saved') throw new Error('A safety PIN is already set. Enter it to continue.');
+      }
+
+      const { data, error } = await supabase.functions.invoke('resolve-sos-incident', {
+        body: {
+          incident_id: incidentId,
+          outcome,
+          pin,
+          message: note.trim() || undefined
+        }
+      });
+
+      if (error) {
+        const details = await error.context?.json?.().catch(() => null);
+        throw new Error(details?.error || error.message);
+      }
+
+      toast({
+        title: outcome === 'resolved' ? "Incident Resolved" : "Marked as False Alarm",
+        description: `"I'm safe now" sent to ${data?.contacts_notified || 0} contacts.`,
+      });
+
+      closeDialog();
+      onClosed();
+    } catch (error) {
+      console.error('Error closing incident:', error);
+      toast({
+        title: "Could Not Close Incident",
+        description: (error as Error).message || "Failed to update the SOS incident",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Card className="lg:col-span-3 border-2 border-rose-500/40 bg-rose-500/5 shadow-md animate-fade-in">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg font-extrabold flex items-center text-rose-600 dark:text-rose-400">
+          <ShieldAlert className="h-5 w-5 mr-2 animate-pulse" />
+          SOS Incident Active
+        </CardTitle>
+        <CardDescription>
+          Your trusted circle has been alerted and is following your live location. Close the incident once you are safe.
+        </CardDescription>
+      </CardHeader>
+      {showDialPrompt && (
+        <div className="mx-6 mb-4 rounded-xl border-2 border-red-600 bg-red-600 p-4 text-white shadow-lg">
+          <p className="font-extrabold flex items-center">
+            <Phone className="h-5 w-5 mr-2 animate-pulse" />
+            No one has responded to your alert yet
+          </p>
+          <p className="mt-1 text-sm text-red-50">
+            Call emergency services now if you can. Your contacts can still respond to the alert.
+          </p>
+          <div className="mt-3 grid grid-cols-2 gap-2">
+            <Button asChild className="bg-white text-red-700 hover:bg-red-50 font-extrabold">
+              <a href="tel:112">Call 112</a>
+            </Button>
+            <Button asChild className="bg-white text-red-700 hover:bg-red-50 font-extrabold">
+              <a href="tel:100">Call 100</a>
+            </Button>
+          </div>
+        </div>
+      )}
+      <CardContent className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div className="space-y-1.5 text-xs text-slate-500">
+          {incident && (
+            <div className="flex space-x-2">
+              <span className="font-medium">Raised:</span>
+              <span className="font-bold text-slate-800 dark:text-slate-200">
+                {new Date(incident.created_at).toLocaleString('en-IN', { timeZone: 'Asia/Kolkata' })}
+              </span>
+            </div>
+          )}
+          {incident && (
+            <div className="flex space-x-2">
+              <span className="font-medium">Contacts alerted:</span>
+              <span className="font-bold text-slate-800 dark:text-slate-200">{incident.notified_contact_ids.length}</span>
+            </div>
+          )}
+          {acknowledgements.length > 0 ? (
+            <div className="flex items-center text-emerald-600 dark:text-emerald-400">
+              <UserCheck className="h-3.5 w-3.5 mr-1" />
+              <span className="font-semibold">
+                Responding: {acknowledgements.map(a => a.contact_name).join(', ')}
+              </span>
+            </div>
+          ) : incident && (
+            <div className="flex space-x-2">
+              <span className="font-medium">Acknowledged:</span>
+              <span className="font-bold text-amber-600">
+                {incident.escalation_level > 0 ? `No response yet (escalated ${incident.escalation_level}x)` : 'Waiting for a response'}
+              </span>
+            </div>
+          )}
+          <div className="flex items-center">
+            <Navigation className="h-3.5 w-3.5 mr-1 text-rose-500" />
+            <span className="font-semibold">
+              {streamStatus === 'streaming' ? 'Live location streaming' : 'Live location paused'}
+            </span>
+          </div>
+        </div>
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Button
+            className="bg-emerald-600 hover:bg-emerald-700 text-white font-bold"
+            onClick={() => openDialog('resolved')}
+          >
+            <CheckCircle className="h-4 w-4 mr-2" />
+            I'm Safe Now
+          </Button>
+          <Button
+            variant="outline"
+            className="font-bold"
+            onClick={() => openDialog('false_alarm')}
+          >
+            <XCircle className="h-4 w-4 mr-2" />
+            False Alarm
+          </Button>
+        </div>
+      </CardContent>
+
+      <Dialog open={outcome !== null} onOpenChange={(open) => { if (!open) closeDialog(); }}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle className="flex items-center">
+              <Lock className="h-5 w-5 mr-2 text-rose-500" />
+              {outcome === 'resolved' ? 'Confirm You Are Safe' : 'Confirm False Alarm'}
+            </DialogTitle>
+            <DialogDescription>
+              {hasPin
+                ? 'Enter your safety PIN to close this incident. Everyone who received the alert will be told you are safe.'
+                : 'Create a 4-6 digit safety PIN. You will need it to close future incidents.'}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="safety-pin">{hasPin ? 'Safety PIN' : 'New safety PIN'}</Label>
+              <Input
+                id="safety-pin"
+                type="password"
+                inputMode="numeric"
+                autoComplete="off"
+                maxLength={6}
+                value={pin}
+                onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+                placeholder="••••"
+              />
+            </div>
+            {hasPin === false && (
+              <div className="space-y-2">
+                <Label htmlFor="confirm-safety-pin">Confirm PIN</Label>
+                <Input
+                  id="confirm-safety-pin"
+                  type="password"
+                  inputMode="numeric"
+                  autoComplete="off"
+                  maxLength={6}
+                  value={confirmPin}
+                  onChange={(e) => setConfirmPin(e.target.value.replace(/\D/g, ''))}
+                  placeholder="••••"
+                />
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="safe-note">Note to contacts (optional)</Label>
+              <Textarea
+                id="safe-note"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="e.g. Reached home, phone battery died earlier"
+                rows={2}
+              />
+            </div>
+          </div>
+          <DialogFooter className="flex-row sm:justify-end gap-2">
+            <Button variant="secondary" onClick={closeDialog} disabled={submitting}>
+              Cancel
+            </Button>
+            <Button onClick={handleConfirm} disabled={submitting || hasPin === null || pin.length < 4}>
+              {submitting ? 'Closing...' : 'Confirm'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default IncidentPanel;
@@ -1,14 +1,17 @@
-import React, { useState, useEffect } from 'react';
-import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
+import React, { useState, useEffect, useCallback } from 'react';
 import { Label } from '@/components/ui/label';
-import { Textarea } from '@/components/ui/textarea';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { useToast } from '@/components/ui/use-toast';
 import { supabase } from '@/integrations/supabase/client';
-import { MessageCircle, Send, MapPin, Phone, Mail } from 'lucide-react';
+import { MessageCircle, MapPin, Phone, Mail, Smartphone } from 'lucide-react';
+import MessageThread from '@/components/MessageThread';
+import MessageTemplatePicker from '@/components/MessageTemplatePicker';
+import type { ContactGroup } from '@/lib/contact-groups';
+import { unreadByContact } from '@/lib/messages';
+import { usesPlaceholder } from '@/lib/message-templates';
+import { getBatteryLevel } from '@/hooks/use-user-settings';
 
 interface Contact {
   id: string;
@@ -16,16 +19,22 @@ interface Contact {
   phone: string;
   email?: string;
   relationship?: string;
+  group_id: string | null;
+  linked_user_id: string | null;
 }
 
+// Select items cannot have an empty value
+const ALL_GROUPS = 'all';
+
 const IndividualChat: React.FC = () => {
-  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [userId, setUserId] = useState<string | null>(null);
   const [selectedContact, setSelectedContact] = useState<string>('');
-  const [message, setMessage] = useState('');
-  const [subject, setSubject] = useState('');
   const [includeLocation, setIncludeLocation] = useState(false);
   const [contacts, setContacts] = useState<Contact[]>([]);
-  const [sending, setSending] = useState(false);
+  const [groups, setGroups] = useState<ContactGroup[]>([]);
+  const [groupFilter, setGroupFilter] = useState<string>(ALL_GROUPS);
+  const [lastMessageAt, setLastMessageAt] = useState<Record<string, string>>({});
+  const [unread, setUnread] = useState<Record<string, number>>({});
   const { toast } = useToast();
 
   useEffect(() => {
@@ -36,46 +45,105 @@ const IndividualChat: React.FC = () => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
+      setUserId(user.id);
 
-      const { data, error } = await supabase
-        .from('emergency_contacts')
-        .select('*')
-        .eq('user_id', user.id)
-        .order('is_primary', { ascending: false });
+      const [{ data, error }, { data: groupData, error: groupsError }] = await Promise.all([
+        supabase
+          .from('emergency_contacts')
+          .select('*')
+          .eq('user_id', user.id)
+          .order('is_primary', { ascending: false }),
+        supabase
+          .from('contact_groups')
+          .select('*')
+          .eq('user_id', user.id)
+          .order('tier', { ascending: true })
+          .order('name', { ascending: true })
+      ]);
 
       if (error) {
         console.error('Error fetching contacts:', error);
       } else {
         setContacts(data || []);
       }
+
+      if (groupsError) {
+        console.error('Error fetching contact groups:', groupsError);
+      } else {
+        setGroups(groupData || []);
+      }
     } catch (error) {
       console.error('Error:', error);
     }
   };
 
-  const handleSendMessage = async () => {
-    if (!selectedContact || !message.trim()) {
-      toast({
-        title: "Error",
-        description: "Please select a contact and enter a message",
-        variant: "destructive",
-      });
-      return;
+  // Last activity and unread replies per contact, for the conversation list
+  const fetchActivity = useCallback(async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const [{ data: threads, error: threadsError }, { data: unreadMessages, error: unreadError }] = await Promise.all([
+        supabase
+          .from('message_threads')
+          .select('contact_id, last_message_at')
+          .eq('user_id', user.id),
+        supabase
+          .from('messages')
+          .select('contact_id, direction, read_at')
+          .eq('user_id', user.id)
+          .eq('direction', 'inbound')
+          .is('read_at', null)
+      ]);
+
+      if (threadsError) throw threadsError;
+      if (unreadError) throw unreadError;
+
+      setLastMessageAt(Object.fromEntries((threads || []).map(thread => [thread.contact_id, thread.last_message_at])));
+      setUnread(unreadByContact(unreadMessages || [], 'owner'));
+    } catch (error) {
+      console.error('Error fetching conversations:', error);
     }
+  }, []);
+
+  useEffect(() => {
+    fetchActivity();
+  }, [fetchActivity]);
+
+  // Replies arrive from the inbound webhook or a linked contact's app; keep the list current
+  useEffect(() => {
+    if (!userId) return;
+
+    const channel = supabase
+      .channel(`individual-chat-${userId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'messages', filter: `user_id=eq.${userId}` },
+        () => fetchActivity()
+      )
+      .subscribe();
 
-    setSending(true);
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, fetchActivity]);
 
+  const handleSendMessage = async (message: string) => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
-      if (!user) return;
+      if (!user) return false;
 
       const contact = contacts.find(c => c.id === selectedContact);
-      if (!contact) return;
+      if (!contact) return false;
+
+      // Placeholders are filled in by the edge function, which needs the location and battery for them
+      const usesLocationLink = usesPlaceholder(message, '{location_link}');
+      const batteryLevel = usesPlaceholder(message, '{battery}') ? await getBatteryLevel() : null;
 
       let finalMessage = message;
       let latitude, longitude;
 
-      if (includeLocation) {
+      if (includeLocation || usesLocationLink) {
         try {
           const position = await new Promise<GeolocationPosition>((resolve, reject) => {
             navigator.geolocation.getCurrentPosition(resolve, reject, {
@@ -87,22 +155,26 @@ const IndividualChat: React.FC = () => {
           
           latitude = position.coords.latitude;
           longitude = position.coords.longitude;
-          finalMessage += `\n\n📍 My current location: https://maps.google.com/maps?q=${latitude},${longitude}`;
+          if (!usesLocationLink) {
+            finalMessage += `\n\n📍 My current location: https://maps.google.com/maps?q=${latitude},${longitude}`;
+          }
         } catch (error) {
           console.error('Location error:', error);
-          finalMessage += `\n\n📍 Location sharing was requested but unavailable`;
+          if (!usesLocationLink) {
+            finalMessage += `\n\n📍 Location sharing was requested but unavailable`;
+          }
         }
       }
 
-      // Send individual message via edge function
-      const { data, error } = await supabase.functions.invoke('send-individual-message', {
+      // Send individual message via edge function; it also adds the message to the thread
+      const { error } = await supabase.functions.invoke('send-individual-message', {
         body: {
-          user_id: user.id,
           contact: contact,
-          subject: subject || 'Message from WomenSafe India',
+          subject: 'Message from WomenSafe India',
           message: finalMessage,
           latitude: latitude,
-          longitude: longitude
+          longitude: longitude,
+          battery_level: batteryLevel
         }
       });
 
@@ -111,16 +183,8 @@ const IndividualChat: React.FC = () => {
         throw error;
       }
 
-      toast({
-        title: "Message Sent",
-        description: `Message sent to ${contact.name}`,
-      });
-
-      setMessage('');
-      setSubject('');
-      setSelectedContact('');
       setIncludeLocation(false);
-      setIsDialogOpen(false);
+      return true;
     } catch (error) {
       console.error('Send message error:', error);
       toast({
@@ -128,12 +192,22 @@ const IndividualChat: React.FC = () => {
         description: "Failed to send message",
         variant: "destructive",
       });
-    } finally {
-      setSending(false);
+      return false;
     }
   };
 
+  const closeConversation = (open: boolean) => {
+    if (open) return;
+    setSelectedContact('');
+    setIncludeLocation(false);
+    fetchActivity();
+  };
+
   const selectedContactData = contacts.find(c => c.id === selectedContact);
+  // Most recent conversations first
+  const filteredContacts = contacts
+    .filter(c => groupFilter === ALL_GROUPS || c.group_id === groupFilter)
+    .sort((a, b) => (lastMessageAt[b.id] ?? '').localeCompare(lastMessageAt[a.id] ?? ''));
 
   return (
     <Card>
@@ -143,117 +217,110 @@ const IndividualChat: React.FC = () => {
           Individual Chat
         </CardTitle>
         <CardDescription>
-          Send a message to a specific emergency contact
+          Chat with a trusted contact. Their replies by email, SMS or in the app appear here.
         </CardDescription>
       </CardHeader>
-      <CardContent>
-        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-          <DialogTrigger asChild>
-            <Button className="w-full" disabled={contacts.length === 0} variant="outline">
-              <MessageCircle className="h-4 w-4 mr-2" />
-              Send Individual Message
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="sm:max-w-md">
-            <DialogHeader>
-              <DialogTitle>Send Individual Message</DialogTitle>
-              <DialogDescription>
-                Send a message to a specific emergency contact
-              </DialogDescription>
-            </DialogHeader>
-            <div className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="contact">Select Contact *</Label>
-                <Select value={selectedContact} onValueChange={setSelectedContact}>
-                  <SelectTrigger>
-                    <SelectValue placeholder="Choose a contact" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    {contacts.map((contact) => (
-                      <SelectItem key={contact.id} value={contact.id}>
-                        <div className="flex flex-col">
-                          <span className="font-medium">{contact.name}</span>
-                          <span className="text-xs text-muted-foreground">
-                            {contact.relationship && `${contact.relationship} • `}
-                            {contact.phone}
-                          </span>
-                        </div>
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              </div>
+      <CardContent className="space-y-3">
+        {groups.length > 0 && (
+          <div className="space-y-2">
+            <Label htmlFor="contact-group">Group</Label>
+            <Select value={groupFilter} onValueChange={setGroupFilter}>
+              <SelectTrigger id="contact-group">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_GROUPS}>All contacts</SelectItem>
+                {groups.map((group) => (
+                  <SelectItem key={group.id} value={group.id}>{group.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
 
-              {selectedContactData && (
-                <div className="p-3 bg-muted rounded-lg">
-                  <div className="text-sm">
-                    <div className="font-medium">{selectedContactData.name}</div>
-                    <div className="flex items-center text-muted-foreground mt-1">
-                      <Phone className="h-3 w-3 mr-1" />
-                      {selectedContactData.phone}
-                    </div>
-                    {selectedContactData.email && (
-                      <div className="flex items-center text-muted-foreground">
-                        <Mail className="h-3 w-3 mr-1" />
-                        {selectedContactData.email}
-                      </div>
-                    )}
+        {filteredContacts.length > 0 && (
+          <div className="divide-y border rounded-lg">
+            {filteredContacts.map((contact) => (
+              <button
+                key={contact.id}
+                type="button"
+                onClick={() => setSelectedContact(contact.id)}
+                className="w-full flex items-center gap-3 p-3 text-left hover:bg-muted transition-colors"
+              >
+                <div className="flex-1 min-w-0">
+                  <div className={`text-sm truncate ${unread[contact.id] ? 'font-bold' : 'font-medium'}`}>{contact.name}</div>
+                  <div className="text-xs text-muted-foreground truncate">
+                    {lastMessageAt[contact.id]
+                      ? `Last message ${new Date(lastMessageAt[contact.id]).toLocaleString('en-IN', { timeZone: 'Asia/Kolkata' })}`
+                      : `${contact.relationship ? `${contact.relationship} • ` : ''}${contact.phone}`}
                   </div>
                 </div>
-              )}
-              
-              <div className="space-y-2">
-                <Label htmlFor="subject">Subject</Label>
-                <Input
-                  id="subject"
-                  value={subject}
-                  onChange={(e) => setSubject(e.target.value)}
-                  placeholder="Message subject (optional)"
-                />
-              </div>
-              
-              <div className="space-y-2">
-                <Label htmlFor="message">Message *</Label>
-                <Textarea
-                  id="message"
-                  value={message}
-                  onChange={(e) => setMessage(e.target.value)}
-                  placeholder="Type your message..."
-                  rows={4}
-                  required
-                />
-              </div>
-              
-              <div className="flex items-center space-x-2">
-                <input
-                  type="checkbox"
-                  id="includeLocation"
-                  checked={includeLocation}
-                  onChange={(e) => setIncludeLocation(e.target.checked)}
-                  className="rounded border-input"
+                {unread[contact.id] > 0 && (
+                  <span className="px-2 py-0.5 text-xs font-bold rounded-full bg-primary text-primary-foreground shrink-0">
+                    {unread[contact.id]}
+                  </span>
+                )}
+              </button>
+            ))}
+          </div>
+        )}
+
+        <Dialog open={!!selectedContactData} onOpenChange={closeConversation}>
+          <DialogContent className="sm:max-w-md">
+            {selectedContactData && (
+              <>
+                <DialogHeader>
+                  <DialogTitle>{selectedContactData.name}</DialogTitle>
+                  <DialogDescription asChild>
+                    <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs">
+                      <span className="flex items-center">
+                        <Phone className="h-3 w-3 mr-1" />
+                        {selectedContactData.phone}
+                      </span>
+                      {selectedContactData.email && (
+                        <span className="flex items-center">
+                          <Mail className="h-3 w-3 mr-1" />
+                          {selectedContactData.email}
+                        </span>
+                      )}
+                      {selectedContactData.linked_user_id && (
+                        <span className="flex items-center">
+                          <Smartphone className="h-3 w-3 mr-1" />
+                          Gets messages in the app
+                        </span>
+                      )}
+                    </div>
+                  </DialogDescription>
+                </DialogHeader>
+                <MessageThread
+                  contactId={selectedContactData.id}
+                  viewer="owner"
+                  counterpartName={selectedContactData.name}
+                  onSend={handleSendMessage}
+                  composerTools={(draft, setDraft) => (
+                    <>
+                      <MessageTemplatePicker
+                        draft={{ body: draft }}
+                        onSelect={(template) => setDraft(template.body)}
+                      />
+                      <div className="flex items-center space-x-2">
+                        <input
+                          type="checkbox"
+                          id="includeLocation"
+                          checked={includeLocation}
+                          onChange={(e) => setIncludeLocation(e.target.checked)}
+                          className="rounded border-input"
+                        />
+                        <Label htmlFor="includeLocation" className="text-sm flex items-center">
+                          <MapPin className="h-4 w-4 mr-1" />
+                          Include my location
+                        </Label>
+                      </div>
+                    </>
+                  )}
                 />
-                <Label htmlFor="includeLocation" className="text-sm flex items-center">
-                  <MapPin className="h-4 w-4 mr-1" />
-                  Include my current location
-                </Label>
-              </div>
-              
-              <div className="flex justify-end space-x-2 pt-4">
-                <Button
-                  variant="outline"
-                  onClick={() => setIsDialogOpen(false)}
-                  disabled={sending}
-                >
-                  Cancel
-                </Button>
-                <Button
-                  onClick={handleSendMessage}
-                  disabled={sending || !selectedContact || !message.trim()}
-                >
-                  {sending ? 'Sending...' : 'Send Message'}
-                </Button>
-              </div>
-            </div>
+              </>
+            )}
           </DialogContent>
         </Dialog>
 
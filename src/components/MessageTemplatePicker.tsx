@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { BookmarkPlus } from 'lucide-react';
+import MessageTemplatesDialog from '@/components/MessageTemplatesDialog';
+import { useMessageTemplates } from '@/hooks/use-message-templates';
+import type { MessageTemplate } from '@/lib/message-templates';
+
+interface MessageTemplatePickerProps {
+  onSelect: (template: MessageTemplate) => void;
+  // The message being written, offered as the starting point for a new template
+  draft?: { subject?: string; body: string };
+}
+
+const MessageTemplatePicker: React.FC<MessageTemplatePickerProps> = ({ onSelect, draft }) => {
+  const [manageOpen, setManageOpen] = useState(false);
+  const { templates, saved, refresh } = useMessageTemplates();
+
+  const builtIn = templates.filter(template => template.builtIn);
+  const own = templates.filter(template => !template.builtIn);
+
+  return (
+    <div className="flex items-center gap-2">
+      {/* Always shows the placeholder: picking a template fills the form rather than staying selected */}
+      <Select
+        value=""
+        onValueChange={(id) => {
+          const template = templates.find(t => t.id === id);
+          if (template) onSelect(template);
+        }}
+      >
+        <SelectTrigger aria-label="Use a template">
+          <SelectValue placeholder="Use a template..." />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectGroup>
+            <SelectLabel>Quick messages</SelectLabel>
+            {builtIn.map((template) => (
+              <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+            ))}
+          </SelectGroup>
+          {own.length > 0 && (
+            <SelectGroup>
+              <SelectLabel>My templates</SelectLabel>
+              {own.map((template) => (
+                <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+              ))}
+            </SelectGroup>
+          )}
+        </SelectContent>
+      </Select>
+      <Button
+        type="button"
+        variant="outline"
+        size="icon"
+        className="shrink-0"
+        title="Manage templates"
+        onClick={() => setManageOpen(true)}
+      >
+        <BookmarkPlus className="h-4 w-4" />
+      </Button>
+
+      <MessageTemplatesDialog
+        open={manageOpen}
+        onOpenChange={setManageOpen}
+        saved={saved}
+        draft={draft}
+        onChanged={refresh}
+      />
+    </div>
+  );
+};
+
+export default MessageTemplatePicker;
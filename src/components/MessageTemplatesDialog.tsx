@@ -0,0 +1,197 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/components/ui/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { Plus, Trash2 } from 'lucide-react';
+import { TEMPLATE_PLACEHOLDERS, type SavedMessageTemplate } from '@/lib/message-templates';
+
+interface MessageTemplatesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  saved: SavedMessageTemplate[];
+  // Prefills the form, e.g. with the message being written
+  draft?: { subject?: string; body: string };
+  onChanged: () => void;
+}
+
+const MessageTemplatesDialog: React.FC<MessageTemplatesDialogProps> = ({ open, onOpenChange, saved, draft, onChanged }) => {
+  const [name, setName] = useState('');
+  const [subject, setSubject] = useState('');
+  const [body, setBody] = useState('');
+  const [saving, setSaving] = useState(false);
+  const bodyRef = useRef<HTMLTextAreaElement>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+    setName('');
+    setSubject(draft?.subject ?? '');
+    setBody(draft?.body ?? '');
+  }, [open, draft?.subject, draft?.body]);
+
+  const insertPlaceholder = (token: string) => {
+    const textarea = bodyRef.current;
+    const start = textarea?.selectionStart ?? body.length;
+    const end = textarea?.selectionEnd ?? body.length;
+    setBody(body.slice(0, start) + token + body.slice(end));
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + token.length, start + token.length);
+    });
+  };
+
+  const createTemplate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmedName = name.trim();
+    if (!trimmedName || !body.trim()) return;
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    setSaving(true);
+    const { error } = await supabase
+      .from('message_templates')
+      .insert({
+        user_id: user.id,
+        name: trimmedName,
+        subject: subject.trim() || null,
+        body: body.trim()
+      });
+    setSaving(false);
+
+    if (error) {
+      console.error('Error saving message template:', error);
+      toast({
+        title: "Error",
+        description: error.code === '23505' ? `You already have a template called "${trimmedName}"` : "Failed to save the template",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Template Saved",
+      description: `"${trimmedName}" is ready to use.`,
+    });
+    setName('');
+    setSubject('');
+    setBody('');
+    onChanged();
+  };
+
+  const deleteTemplate = async (template: SavedMessageTemplate) => {
+    if (!window.confirm(`Delete the "${template.name}" template?`)) return;
+
+    const { error } = await supabase
+      .from('message_templates')
+      .delete()
+      .eq('id', template.id);
+
+    if (error) {
+      console.error('Error deleting message template:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete the template",
+        variant: "destructive",
+      });
+    }
+    onChanged();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Message Templates</DialogTitle>
+          <DialogDescription>
+            Save messages you send often. Placeholders are filled in for each contact when the message is sent.
+          </DialogDescription>
+        </DialogHeader>
+
+        {saved.length > 0 && (
+          <div className="divide-y border rounded-lg">
+            {saved.map((template) => (
+              <div key={template.id} className="flex items-start gap-2 p-3">
+                <div className="flex-1 min-w-0">
+                  <div className="text-sm font-medium truncate">{template.name}</div>
+                  <div className="text-xs text-muted-foreground line-clamp-2">{template.body}</div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => deleteTemplate(template)}
+                  className="text-destructive hover:text-destructive h-8 w-8 p-0 shrink-0"
+                  title="Delete template"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <form className="space-y-3 pt-2 border-t" onSubmit={createTemplate}>
+          <div className="space-y-2">
+            <Label htmlFor="template-name">Name *</Label>
+            <Input
+              id="template-name"
+              value={name}
+              maxLength={50}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Leaving the office"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="template-subject">Email subject</Label>
+            <Input
+              id="template-subject"
+              value={subject}
+              maxLength={150}
+              onChange={(e) => setSubject(e.target.value)}
+              placeholder="Optional"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="template-body">Message *</Label>
+            <Textarea
+              id="template-body"
+              ref={bodyRef}
+              value={body}
+              maxLength={2000}
+              onChange={(e) => setBody(e.target.value)}
+              placeholder="Hi {name}, ..."
+              rows={4}
+            />
+            <div className="flex flex-wrap gap-2">
+              {TEMPLATE_PLACEHOLDERS.map((placeholder) => (
+                <Button
+                  key={placeholder.token}
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  className="h-7 text-xs font-mono"
+                  title={placeholder.description}
+                  onClick={() => insertPlaceholder(placeholder.token)}
+                >
+                  {placeholder.token}
+                </Button>
+              ))}
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <Button type="submit" disabled={saving || !name.trim() || !body.trim()}>
+              <Plus className="h-4 w-4 mr-1" />
+              {saving ? 'Saving...' : 'Save Template'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MessageTemplatesDialog;
@@ -0,0 +1,182 @@
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { supabase } from '@/integrations/supabase/client';
+import { Send, Check, CheckCheck, Megaphone } from 'lucide-react';
+import {
+  CHANNEL_LABELS,
+  THREAD_HISTORY_LIMIT,
+  isOwnMessage,
+  type Message,
+  type ThreadViewer
+} from '@/lib/messages';
+
+interface MessageThreadProps {
+  contactId: string;
+  viewer: ThreadViewer;
+  // Name of the person on the other side
+  counterpartName: string;
+  onSend: (body: string) => Promise<boolean>;
+  // Extra composer options, e.g. templates or sharing the current location
+  composerTools?: (draft: string, setDraft: (text: string) => void) => React.ReactNode;
+}
+
+const formatIST = (value: string) =>
+  new Date(value).toLocaleString('en-IN', { timeZone: 'Asia/Kolkata', dateStyle: 'medium', timeStyle: 'short' });
+
+/**
+ * Conversation with one trusted contact, shared by the user's chat and the
+ * guardian view. New messages and read receipts arrive through Realtime, and
+ * the other side's messages are marked read while the thread is open.
+ */
+const MessageThread: React.FC<MessageThreadProps> = ({ contactId, viewer, counterpartName, onSend, composerTools }) => {
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [draft, setDraft] = useState('');
+  const [sending, setSending] = useState(false);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  const markRead = useCallback(async (threadId: string) => {
+    const { error } = await supabase.rpc('mark_thread_read', { p_thread_id: threadId });
+    if (error) console.error('Error marking messages read:', error);
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchMessages = async () => {
+      const { data, error } = await supabase
+        .from('messages')
+        .select('*')
+        .eq('contact_id', contactId)
+        .order('created_at', { ascending: false })
+        .limit(THREAD_HISTORY_LIMIT);
+
+      if (cancelled) return;
+      if (error) {
+        console.error('Error fetching messages:', error);
+      } else {
+        const history = (data || []).reverse();
+        setMessages(history);
+        const unread = history.find(message => !message.read_at && !isOwnMessage(message, viewer));
+        if (unread) markRead(unread.thread_id);
+      }
+      setLoading(false);
+    };
+
+    fetchMessages();
+
+    const channel = supabase
+      .channel(`message-thread-${contactId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'messages', filter: `contact_id=eq.${contactId}` },
+        (payload) => {
+          const message = payload.new as Message;
+          setMessages(prev => prev.some(m => m.id === message.id) ? prev : [...prev, message]);
+          if (!isOwnMessage(message, viewer)) markRead(message.thread_id);
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'messages', filter: `contact_id=eq.${contactId}` },
+        (payload) => {
+          const message = payload.new as Message;
+          setMessages(prev => prev.map(m => m.id === message.id ? message : m));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      cancelled = true;
+      supabase.removeChannel(channel);
+    };
+  }, [contactId, viewer, markRead]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: 'end' });
+  }, [messages.length]);
+
+  const handleSend = async () => {
+    const body = draft.trim();
+    if (!body) return;
+
+    setSending(true);
+    const sent = await onSend(body);
+    setSending(false);
+    if (sent) setDraft('');
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="h-[320px] overflow-y-auto rounded-lg border bg-muted/30 p-3 space-y-2">
+        {loading ? (
+          <div className="animate-pulse space-y-2">
+            <div className="h-8 bg-muted rounded w-2/3"></div>
+            <div className="h-8 bg-muted rounded w-1/2 ml-auto"></div>
+          </div>
+        ) : messages.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center pt-24">
+            No messages with {counterpartName} yet.
+          </p>
+        ) : (
+          messages.map((message) => {
+            const own = isOwnMessage(message, viewer);
+            return (
+              <div key={message.id} className={`flex ${own ? 'justify-end' : 'justify-start'}`}>
+                <div
+                  className={`max-w-[80%] rounded-2xl px-3 py-2 text-sm ${
+                    own ? 'bg-primary text-primary-foreground rounded-br-sm' : 'bg-background border rounded-bl-sm'
+                  }`}
+                >
+                  {message.is_broadcast && (
+                    <span className="flex items-center text-[10px] uppercase font-bold opacity-70 mb-0.5">
+                      <Megaphone className="h-3 w-3 mr-1" />
+                      Broadcast
+                    </span>
+                  )}
+                  <p className="whitespace-pre-wrap break-words">{message.body}</p>
+                  <span className={`flex items-center justify-end gap-1 mt-1 text-[10px] ${own ? 'opacity-80' : 'text-muted-foreground'}`}>
+                    {formatIST(message.created_at)}
+                    {!own && message.channel !== 'app' && ` · ${CHANNEL_LABELS[message.channel]}`}
+                    {own && (message.read_at ? (
+                      <CheckCheck className="h-3 w-3" aria-label="Read" />
+                    ) : (
+                      <Check className="h-3 w-3" aria-label="Sent" />
+                    ))}
+                  </span>
+                </div>
+              </div>
+            );
+          })
+        )}
+        <div ref={bottomRef} />
+      </div>
+
+      <div className="space-y-2">
+        {composerTools?.(draft, setDraft)}
+        <Textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault();
+              handleSend();
+            }
+          }}
+          placeholder={`Message ${counterpartName}...`}
+          rows={2}
+          maxLength={5000}
+        />
+        <div className="flex justify-end">
+          <Button onClick={handleSend} disabled={sending || !draft.trim()}>
+            <Send className="h-4 w-4 mr-2" />
+            {sending ? 'Sending...' : 'Send'}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MessageThread;
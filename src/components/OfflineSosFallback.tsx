@@ -0,0 +1,76 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { WifiOff, MessageSquare, Phone, X } from 'lucide-react';
+import { buildSmsLink, getCachedPrimaryContacts } from '@/lib/offline-sos';
+
+interface OfflineSosFallbackProps {
+  smsText: string;
+  queued: boolean;
+  onDismiss: () => void;
+}
+
+const OfflineSosFallback: React.FC<OfflineSosFallbackProps> = ({ smsText, queued, onDismiss }) => {
+  const contacts = getCachedPrimaryContacts();
+
+  return (
+    <Card className="lg:col-span-3 border-2 border-amber-500/40 bg-amber-500/5 shadow-md animate-fade-in">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-lg font-extrabold flex items-center justify-between text-amber-600 dark:text-amber-400">
+          <span className="flex items-center">
+            <WifiOff className="h-5 w-5 mr-2 animate-pulse" />
+            {queued ? 'SOS Queued – No Connection' : 'SOS Could Not Be Sent'}
+          </span>
+          <button onClick={onDismiss} className="text-slate-400 hover:text-slate-600" aria-label="Dismiss">
+            <X className="h-4 w-4" />
+          </button>
+        </CardTitle>
+        <CardDescription>
+          {queued
+            ? 'Your alert is saved on this device and will be sent automatically as soon as you are back online. Text your contacts now so they know immediately.'
+            : 'Your alert could not be saved for later. Text your contacts directly or call 100 / 1091.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {contacts.length > 0 ? (
+          <>
+            <Button asChild className="w-full bg-rose-600 hover:bg-rose-700 text-white font-bold">
+              <a href={buildSmsLink(contacts.map(contact => contact.phone), smsText)}>
+                <MessageSquare className="h-4 w-4 mr-2" />
+                Text All Primary Contacts
+              </a>
+            </Button>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {contacts.map((contact) => (
+                <Button key={contact.phone} asChild variant="outline" className="justify-start text-xs">
+                  <a href={buildSmsLink([contact.phone], smsText)}>
+                    <MessageSquare className="h-3.5 w-3.5 mr-2 text-rose-500" />
+                    SMS {contact.name}
+                  </a>
+                </Button>
+              ))}
+            </div>
+          </>
+        ) : (
+          <p className="text-xs text-slate-500">No primary contacts are saved on this device.</p>
+        )}
+        <div className="flex gap-2">
+          <Button asChild variant="outline" className="flex-1 font-bold">
+            <a href="tel:100">
+              <Phone className="h-4 w-4 mr-2" />
+              Police 100
+            </a>
+          </Button>
+          <Button asChild variant="outline" className="flex-1 font-bold">
+            <a href="tel:1091">
+              <Phone className="h-4 w-4 mr-2" />
+              Women 1091
+            </a>
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default OfflineSosFallback;
@@ -0,0 +1,234 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { useToast } from '@/components/ui/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { Timer, MapPin, CheckCircle, Lock, Settings } from 'lucide-react';
+import SafetyPinSettings from '@/components/SafetyPinSettings';
+import type { CheckinDestination, SafetyCheckin as Checkin } from '@/hooks/use-safety-checkin';
+
+interface SafetyCheckinProps {
+  checkin: Checkin | null;
+  remainingMs: number | null;
+  onStart: (destination: CheckinDestination, minutes: number) => Promise<void>;
+  onCheckIn: (pin: string) => Promise<void>;
+}
+
+const formatRemaining = (ms: number) => {
+  const totalSeconds = Math.ceil(ms / 1000);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+};
+
+// Resolve a typed destination with the Maps geocoder when the map has loaded it
+const geocodeDestination = (address: string): Promise<CheckinDestination> => {
+  if (!window.google?.maps?.Geocoder) {
+    return Promise.resolve({ name: address });
+  }
+
+  return new Promise((resolve) => {
+    new google.maps.Geocoder().geocode({ address, region: 'in' }, (results, status) => {
+      const location = status === 'OK' && results?.[0]?.geometry.location;
+      resolve(location ? { name: address, lat: location.lat(), lng: location.lng() } : { name: address });
+    });
+  });
+};
+
+const SafetyCheckin: React.FC<SafetyCheckinProps> = ({ checkin, remainingMs, onStart, onCheckIn }) => {
+  const [destination, setDestination] = useState('');
+  const [minutes, setMinutes] = useState('25');
+  const [starting, setStarting] = useState(false);
+  const [checkInOpen, setCheckInOpen] = useState(false);
+  const [pin, setPin] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [pinSettingsOpen, setPinSettingsOpen] = useState(false);
+  const { toast } = useToast();
+
+  const handleStart = async () => {
+    const duration = parseInt(minutes, 10);
+
+    if (!destination.trim() || !duration || duration < 1 || duration > 720) {
+      toast({
+        title: "Error",
+        description: "Enter a destination and a duration between 1 and 720 minutes",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setStarting(true);
+
+    try {
+      // Checking in needs a PIN, so make sure one exists before the clock starts
+      const { data: hasPin } = await supabase.rpc('has_safety_pin');
+      if (!hasPin) {
+        setPinSettingsOpen(true);
+        return;
+      }
+
+      await onStart(await geocodeDestination(destination.trim()), duration);
+
+      toast({
+        title: "Check-in Timer Started",
+        description: `Check in within ${duration} minutes or your trusted circle will be alerted.`,
+      });
+      setDestination('');
+    } catch (error) {
+      console.error('Error starting check-in:', error);
+      toast({
+        title: "Error",
+        description: "Failed to start the check-in timer",
+        variant: "destructive",
+      });
+    } finally {
+      setStarting(false);
+    }
+  };
+
+  const handleCheckIn = async () => {
+    setSubmitting(true);
+
+    try {
+      await onCheckIn(pin);
+
+      toast({
+        title: "Checked In",
+        description: "Glad you made it. Your timer has been stopped.",
+      });
+      setCheckInOpen(false);
+      setPin('');
+    } catch (error) {
+      console.error('Error checking in:', error);
+      toast({
+        title: "Could Not Check In",
+        description: (error as Error).message || "Failed to check in",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const overdue = remainingMs !== null && remainingMs <= 0;
+
+  return (
+    <Card className="shadow-xs">
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center">
+            <Timer className="h-5 w-5 mr-2 text-rose-500" />
+            Walk Me Home
+          </span>
+          <button
+            onClick={() => setPinSettingsOpen(true)}
+            className="text-slate-400 hover:text-slate-600"
+            title="Safety PINs"
+          >
+            <Settings className="h-4 w-4" />
+          </button>
+        </CardTitle>
+        <CardDescription>
+          Set a destination and a deadline. If you don't check in with your PIN in time, an SOS is sent automatically with your route.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {checkin ? (
+          <>
+            <div className="rounded-lg border border-rose-500/20 bg-rose-500/5 p-4 space-y-2 text-xs">
+              <p className="flex items-center font-semibold text-slate-800 dark:text-slate-200">
+                <MapPin className="h-3.5 w-3.5 mr-1 text-rose-500" />
+                {checkin.destination_name}
+              </p>
+              <p className={`text-3xl font-black ${overdue ? 'text-rose-600 animate-pulse' : 'text-slate-900 dark:text-white'}`}>
+                {remainingMs !== null ? formatRemaining(remainingMs) : '--:--'}
+              </p>
+              <p className="text-slate-400">
+                {overdue
+                  ? 'Time is up. Alerting your trusted circle...'
+                  : `Check in by ${new Date(checkin.deadline_at).toLocaleTimeString('en-IN', { timeZone: 'Asia/Kolkata' })}`}
+              </p>
+            </div>
+            <Button
+              className="w-full bg-emerald-600 hover:bg-emerald-700 text-white font-bold"
+              onClick={() => setCheckInOpen(true)}
+              disabled={overdue}
+            >
+              <CheckCircle className="h-4 w-4 mr-2" />
+              I've Arrived – Check In
+            </Button>
+          </>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="checkin-destination">Destination</Label>
+              <Input
+                id="checkin-destination"
+                value={destination}
+                onChange={(e) => setDestination(e.target.value)}
+                placeholder="e.g. Home, Koramangala 5th Block"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="checkin-minutes">Expected arrival (minutes)</Label>
+              <Input
+                id="checkin-minutes"
+                type="number"
+                min={1}
+                max={720}
+                value={minutes}
+                onChange={(e) => setMinutes(e.target.value)}
+              />
+            </div>
+            <Button className="w-full font-bold" onClick={handleStart} disabled={starting}>
+              <Timer className="h-4 w-4 mr-2" />
+              {starting ? 'Starting...' : 'Start Timer'}
+            </Button>
+          </>
+        )}
+      </CardContent>
+
+      <Dialog open={checkInOpen} onOpenChange={(open) => { setCheckInOpen(open); if (!open) setPin(''); }}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle className="flex items-center">
+              <Lock className="h-5 w-5 mr-2 text-rose-500" />
+              Check In
+            </DialogTitle>
+            <DialogDescription>
+              Enter your safety PIN to confirm you have arrived safely.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="checkin-pin">Safety PIN</Label>
+            <Input
+              id="checkin-pin"
+              type="password"
+              inputMode="numeric"
+              autoComplete="off"
+              maxLength={6}
+              value={pin}
+              onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+              placeholder="••••"
+            />
+          </div>
+          <DialogFooter className="flex-row sm:justify-end gap-2">
+            <Button variant="secondary" onClick={() => setCheckInOpen(false)} disabled={submitting}>
+              Cancel
+            </Button>
+            <Button onClick={handleCheckIn} disabled={submitting || pin.length < 4}>
+              {submitting ? 'Checking in...' : 'Check In'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <SafetyPinSettings open={pinSettingsOpen} onOpenChange={setPinSettingsOpen} />
+    </Card>
+  );
+};
+
+export default SafetyCheckin;
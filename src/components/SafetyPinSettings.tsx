@@ -0,0 +1,291 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
+import { useToast } from '@/components/ui/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { Lock, ShieldAlert } from 'lucide-react';
+
+interface SafetyPinSettingsProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSaved?: () => void;
+}
+
+const SafetyPinSettings: React.FC<SafetyPinSettingsProps> = ({ open, onOpenChange, onSaved }) => {
+  const [hasPin, setHasPin] = useState<boolean | null>(null);
+  const [hasDuressPin, setHasDuressPin] = useState(false);
+  const [pin, setPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [duressPin, setDuressPin] = useState('');
+  const [currentPin, setCurrentPin] = useState('');
+  // An alert raised or kept open with the duress PIN, hidden everywhere else in the app
+  const [openDuressIncidentId, setOpenDuressIncidentId] = useState<string | null>(null);
+  const [closePin, setClosePin] = useState('');
+  const [closing, setClosing] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+
+    setPin('');
+    setConfirmPin('');
+    setDuressPin('');
+    setCurrentPin('');
+    setClosePin('');
+    setHasPin(null);
+    fetchPinStatus();
+    fetchOpenDuressIncident();
+  }, [open]);
+
+  const fetchPinStatus = async () => {
+    const [{ data: pinSet, error: pinError }, { data: duressSet, error: duressError }] = await Promise.all([
+      supabase.rpc('has_safety_pin'),
+      supabase.rpc('has_duress_pin'),
+    ]);
+
+    if (pinError || duressError) {
+      console.error('Error checking PIN status:', pinError || duressError);
+    }
+    setHasPin(!!pinSet);
+    setHasDuressPin(!!duressSet);
+  };
+
+  const fetchOpenDuressIncident = async () => {
+    const { data, error } = await supabase
+      .from('sos_incidents')
+      .select('id')
+      .eq('status', 'active')
+      .eq('is_duress', true)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error checking for open alerts:', error);
+    }
+    setOpenDuressIncidentId(data?.id ?? null);
+  };
+
+  // Closing needs the real safety PIN; the duress PIN just keeps the alert open
+  const handleCloseAlert = async () => {
+    if (!openDuressIncidentId) return;
+
+    setClosing(true);
+
+    try {
+      const { error } = await supabase.functions.invoke('resolve-sos-incident', {
+        body: { incident_id: openDuressIncidentId, outcome: 'resolved', pin: closePin }
+      });
+
+      if (error) {
+        const details = await error.context?.json?.().catch(() => null);
+        throw new Error(details?.error || error.message);
+      }
+
+      toast({
+        title: "Alert Closed",
+        description: "Your contacts have been told you are safe.",
+      });
+
+      setClosePin('');
+      fetchOpenDuressIncident();
+    } catch (error) {
+      console.error('Error closing alert:', error);
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to close the alert",
+        variant: "destructive",
+      });
+    } finally {
+      setClosing(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!hasPin) {
+      if (!/^\d{4,6}$/.test(pin)) {
+        toast({
+          title: "Invalid PIN",
+          description: "Your safety PIN must be 4 to 6 digits.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      if (pin !== confirmPin) {
+        toast({
+          title: "Error",
+          description: "PINs don't match",
+          variant: "destructive",
+        });
+        return;
+      }
+    }
+
+    if (duressPin && !/^\d{4,6}$/.test(duressPin)) {
+      toast({
+        title: "Invalid PIN",
+        description: "Your duress PIN must be 4 to 6 digits.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      if (!hasPin) {
+        const { data: pinResult, error } = await supabase.rpc('set_safety_pin', { p_pin: pin });
+        if (error) throw error;
+        if (pinResult !== 'saved') throw new Error('A safety PIN is already set.');
+      }
+
+      if (duressPin) {
+        // A PIN set a moment ago above proves itself
+        const { data: duressResult, error } = await supabase.rpc('set_duress_pin', {
+          p_pin: duressPin,
+          p_current_pin: hasPin ? currentPin : pin,
+        });
+        if (error) throw error;
+        if (duressResult === 'locked') throw new Error('Too many incorrect PIN attempts. Try again in 15 minutes.');
+        if (duressResult !== 'saved') throw new Error('Your current safety PIN is incorrect.');
+      }
+
+      toast({
+        title: "PINs Saved",
+        description: duressPin ? "Your duress PIN is active." : "Your safety PIN is set.",
+      });
+
+      onSaved?.();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error saving PINs:', error);
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to save PIN",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <Lock className="h-5 w-5 mr-2 text-rose-500" />
+            Safety PINs
+          </DialogTitle>
+          <DialogDescription>
+            Your safety PIN confirms check-ins and closes incidents. A duress PIN is accepted in the same places
+            but silently alerts your trusted circle.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          {hasPin ? (
+            <p className="text-xs text-slate-500 flex items-center">
+              <Lock className="h-3.5 w-3.5 mr-1 text-emerald-500" />
+              Safety PIN is set.
+            </p>
+          ) : hasPin === false && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="settings-safety-pin">New safety PIN</Label>
+                <Input
+                  id="settings-safety-pin"
+                  type="password"
+                  inputMode="numeric"
+                  autoComplete="off"
+                  maxLength={6}
+                  value={pin}
+                  onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+                  placeholder="••••"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="settings-confirm-safety-pin">Confirm PIN</Label>
+                <Input
+                  id="settings-confirm-safety-pin"
+                  type="password"
+                  inputMode="numeric"
+                  autoComplete="off"
+                  maxLength={6}
+                  value={confirmPin}
+                  onChange={(e) => setConfirmPin(e.target.value.replace(/\D/g, ''))}
+                  placeholder="••••"
+                />
+              </div>
+            </>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="settings-duress-pin" className="flex items-center">
+              <ShieldAlert className="h-3.5 w-3.5 mr-1 text-rose-500" />
+              {hasDuressPin ? 'Replace duress PIN (optional)' : 'Duress PIN (optional)'}
+            </Label>
+            <Input
+              id="settings-duress-pin"
+              type="password"
+              inputMode="numeric"
+              autoComplete="off"
+              maxLength={6}
+              value={duressPin}
+              onChange={(e) => setDuressPin(e.target.value.replace(/\D/g, ''))}
+              placeholder="••••"
+            />
+            <p className="text-[11px] text-slate-400">Must be different from your safety PIN.</p>
+          </div>
+          {hasPin && duressPin && (
+            <div className="space-y-2">
+              <Label htmlFor="settings-current-safety-pin">Current safety PIN</Label>
+              <Input
+                id="settings-current-safety-pin"
+                type="password"
+                inputMode="numeric"
+                autoComplete="off"
+                maxLength={6}
+                value={currentPin}
+                onChange={(e) => setCurrentPin(e.target.value.replace(/\D/g, ''))}
+                placeholder="••••"
+              />
+            </div>
+          )}
+          {openDuressIncidentId && (
+            <div className="space-y-2 pt-4 border-t">
+              <Label htmlFor="settings-close-alert-pin">An earlier alert is still open</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="settings-close-alert-pin"
+                  type="password"
+                  inputMode="numeric"
+                  autoComplete="off"
+                  maxLength={6}
+                  value={closePin}
+                  onChange={(e) => setClosePin(e.target.value.replace(/\D/g, ''))}
+                  placeholder="Safety PIN"
+                />
+                <Button variant="outline" onClick={handleCloseAlert} disabled={closing || !/^\d{4,6}$/.test(closePin)}>
+                  {closing ? 'Closing...' : 'Close'}
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+        <DialogFooter className="flex-row sm:justify-end gap-2">
+          <Button variant="secondary" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={saving || hasPin === null || (hasPin && (!duressPin || !currentPin))}>
+            {saving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SafetyPinSettings;
@@ -0,0 +1,398 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { CalendarClock, Plus, Trash2, MapPin, AlertTriangle } from 'lucide-react';
+import MessageTemplatePicker from '@/components/MessageTemplatePicker';
+import { findGroup, type ContactGroup } from '@/lib/contact-groups';
+import {
+  RECURRENCE_LABELS,
+  WEEKDAY_LABELS,
+  browserTimeZone,
+  describeSchedule,
+  type Recurrence,
+  type ScheduledMessage
+} from '@/lib/scheduled-messages';
+
+// Select items cannot have an empty value
+const EVERYONE = 'everyone';
+
+const formatIST = (value: string) =>
+  new Date(value).toLocaleString('en-IN', { timeZone: 'Asia/Kolkata' });
+
+const ScheduledMessages: React.FC = () => {
+  const [schedules, setSchedules] = useState<ScheduledMessage[]>([]);
+  const [groups, setGroups] = useState<ContactGroup[]>([]);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [subject, setSubject] = useState('');
+  const [body, setBody] = useState('');
+  const [target, setTarget] = useState<string>(EVERYONE);
+  const [recurrence, setRecurrence] = useState<Recurrence>('once');
+  const [sendAt, setSendAt] = useState('');
+  const [sendTime, setSendTime] = useState('21:00');
+  const [days, setDays] = useState<number[]>([1, 2, 3, 4, 5]);
+  const [includeLocation, setIncludeLocation] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const fetchSchedules = useCallback(async () => {
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) return;
+
+      const [{ data, error }, { data: groupData, error: groupsError }] = await Promise.all([
+        supabase
+          .from('scheduled_messages')
+          .select('*')
+          .eq('user_id', user.id)
+          .order('created_at', { ascending: false }),
+        supabase
+          .from('contact_groups')
+          .select('*')
+          .eq('user_id', user.id)
+          .order('tier', { ascending: true })
+          .order('name', { ascending: true })
+      ]);
+
+      if (error) {
+        console.error('Error fetching scheduled messages:', error);
+      } else {
+        setSchedules(data || []);
+      }
+
+      if (groupsError) {
+        console.error('Error fetching contact groups:', groupsError);
+      } else {
+        setGroups(groupData || []);
+      }
+    } catch (error) {
+      console.error('Error:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchSchedules();
+  }, [fetchSchedules]);
+
+  const resetForm = () => {
+    setSubject('');
+    setBody('');
+    setTarget(EVERYONE);
+    setRecurrence('once');
+    setSendAt('');
+    setSendTime('21:00');
+    setDays([1, 2, 3, 4, 5]);
+    setIncludeLocation(false);
+  };
+
+  const toggleDay = (day: number) => {
+    setDays(prev => prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day].sort());
+  };
+
+  const formIncomplete = !body.trim()
+    || (recurrence === 'once' ? !sendAt : !sendTime)
+    || (recurrence === 'weekly' && days.length === 0);
+
+  const handleCreate = async () => {
+    if (formIncomplete) return;
+
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) return;
+
+    setSaving(true);
+    const { error } = await supabase
+      .from('scheduled_messages')
+      .insert({
+        user_id: user.id,
+        subject: subject.trim() || null,
+        body: body.trim(),
+        group_id: target === EVERYONE ? null : target,
+        include_location: includeLocation,
+        recurrence,
+        send_at: recurrence === 'once' ? new Date(sendAt).toISOString() : null,
+        send_time: recurrence === 'once' ? null : sendTime,
+        days_of_week: recurrence === 'weekly' ? days : null,
+        timezone: browserTimeZone()
+      });
+    setSaving(false);
+
+    if (error) {
+      console.error('Error scheduling message:', error);
+      toast({
+        title: "Error",
+        description: error.message.includes('future') ? "Pick a time in the future" : "Failed to schedule the message",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Message Scheduled",
+      description: recurrence === 'once' ? "It will be sent at the chosen time." : "It will be sent on the chosen schedule.",
+    });
+    resetForm();
+    setIsDialogOpen(false);
+    fetchSchedules();
+  };
+
+  const toggleEnabled = async (schedule: ScheduledMessage, enabled: boolean) => {
+    const { error } = await supabase
+      .from('scheduled_messages')
+      .update({ enabled })
+      .eq('id', schedule.id);
+
+    if (error) {
+      console.error('Error updating scheduled message:', error);
+      toast({
+        title: "Error",
+        description: error.message.includes('future') ? "This one-off time has passed. Schedule a new message instead." : "Failed to update the schedule",
+        variant: "destructive",
+      });
+    }
+    fetchSchedules();
+  };
+
+  const deleteSchedule = async (schedule: ScheduledMessage) => {
+    if (!window.confirm('Delete this scheduled message?')) return;
+
+    const { error } = await supabase
+      .from('scheduled_messages')
+      .delete()
+      .eq('id', schedule.id);
+
+    if (error) {
+      console.error('Error deleting scheduled message:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete the scheduled message",
+        variant: "destructive",
+      });
+    }
+    fetchSchedules();
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <CalendarClock className="h-5 w-5 mr-2 text-primary" />
+          Scheduled Messages
+        </CardTitle>
+        <CardDescription>
+          Send a broadcast later, or on a routine like every weekday at 9pm
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {schedules.length > 0 && (
+          <div className="divide-y border rounded-lg">
+            {schedules.map((schedule) => (
+              <div key={schedule.id} className="flex items-start gap-3 p-3">
+                <div className="flex-1 min-w-0 space-y-1">
+                  <div className="text-sm font-medium truncate">{schedule.subject || schedule.body}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {describeSchedule(schedule)} · {findGroup(groups, schedule.group_id)?.name ?? 'Everyone'}
+                    {schedule.include_location && (
+                      <span className="inline-flex items-center ml-1">
+                        · <MapPin className="h-3 w-3 mx-0.5" /> location
+                      </span>
+                    )}
+                  </div>
+                  {schedule.enabled && schedule.next_run_at && (
+                    <div className="text-xs text-muted-foreground">Next: {formatIST(schedule.next_run_at)}</div>
+                  )}
+                  {!schedule.enabled && schedule.recurrence === 'once' && schedule.last_sent_at && (
+                    <div className="text-xs text-muted-foreground">Sent {formatIST(schedule.last_sent_at)}</div>
+                  )}
+                  {schedule.last_error && (
+                    <div className="flex items-center text-xs text-destructive">
+                      <AlertTriangle className="h-3 w-3 mr-1" />
+                      Last attempt failed: {schedule.last_error}
+                    </div>
+                  )}
+                </div>
+                <Switch
+                  checked={schedule.enabled}
+                  onCheckedChange={(checked) => toggleEnabled(schedule, checked)}
+                  aria-label="Enabled"
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => deleteSchedule(schedule)}
+                  className="text-destructive hover:text-destructive h-8 w-8 p-0 shrink-0"
+                  title="Delete scheduled message"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <Dialog
+          open={isDialogOpen}
+          onOpenChange={(open) => {
+            setIsDialogOpen(open);
+            if (!open) resetForm();
+          }}
+        >
+          <DialogTrigger asChild>
+            <Button className="w-full" variant="outline">
+              <Plus className="h-4 w-4 mr-2" />
+              Schedule a Message
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="sm:max-w-md max-h-[85vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>Schedule a Message</DialogTitle>
+              <DialogDescription>
+                Sent as a broadcast at the chosen time, even if the app is closed.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4">
+              {groups.length > 0 && (
+                <div className="space-y-2">
+                  <Label htmlFor="schedule-target">Send to</Label>
+                  <Select value={target} onValueChange={setTarget}>
+                    <SelectTrigger id="schedule-target">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={EVERYONE}>Everyone</SelectItem>
+                      {groups.map((group) => (
+                        <SelectItem key={group.id} value={group.id}>{group.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              )}
+
+              <MessageTemplatePicker
+                draft={{ subject, body }}
+                onSelect={(template) => {
+                  setSubject(template.subject ?? '');
+                  setBody(template.body);
+                }}
+              />
+
+              <div className="space-y-2">
+                <Label htmlFor="schedule-subject">Subject</Label>
+                <Input
+                  id="schedule-subject"
+                  value={subject}
+                  maxLength={150}
+                  onChange={(e) => setSubject(e.target.value)}
+                  placeholder="Message subject (optional)"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="schedule-body">Message *</Label>
+                <Textarea
+                  id="schedule-body"
+                  value={body}
+                  maxLength={2000}
+                  onChange={(e) => setBody(e.target.value)}
+                  placeholder="e.g. Leaving the office now, {name}. Home by 10."
+                  rows={3}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="schedule-recurrence">Repeat</Label>
+                <Select value={recurrence} onValueChange={(value) => setRecurrence(value as Recurrence)}>
+                  <SelectTrigger id="schedule-recurrence">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(RECURRENCE_LABELS) as Recurrence[]).map((value) => (
+                      <SelectItem key={value} value={value}>{RECURRENCE_LABELS[value]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              {recurrence === 'once' ? (
+                <div className="space-y-2">
+                  <Label htmlFor="schedule-send-at">Send at *</Label>
+                  <Input
+                    id="schedule-send-at"
+                    type="datetime-local"
+                    value={sendAt}
+                    onChange={(e) => setSendAt(e.target.value)}
+                  />
+                </div>
+              ) : (
+                <div className="space-y-2">
+                  <Label htmlFor="schedule-send-time">Time *</Label>
+                  <Input
+                    id="schedule-send-time"
+                    type="time"
+                    value={sendTime}
+                    onChange={(e) => setSendTime(e.target.value)}
+                  />
+                </div>
+              )}
+
+              {recurrence === 'weekly' && (
+                <div className="flex flex-wrap gap-2">
+                  {WEEKDAY_LABELS.map((label, day) => (
+                    <Button
+                      key={label}
+                      type="button"
+                      size="sm"
+                      variant={days.includes(day) ? 'default' : 'outline'}
+                      className="h-8 w-12"
+                      onClick={() => toggleDay(day)}
+                    >
+                      {label}
+                    </Button>
+                  ))}
+                </div>
+              )}
+
+              <div className="flex items-start space-x-2">
+                <Switch
+                  id="schedule-location"
+                  checked={includeLocation}
+                  onCheckedChange={setIncludeLocation}
+                />
+                <div className="space-y-0.5">
+                  <Label htmlFor="schedule-location" className="text-sm flex items-center">
+                    <MapPin className="h-4 w-4 mr-1" />
+                    Include my location
+                  </Label>
+                  <p className="text-xs text-muted-foreground">
+                    Uses the last position the app reported while open. If it is older than 15 minutes, it is sent as your last known location.
+                  </p>
+                </div>
+              </div>
+
+              <div className="flex justify-end space-x-2 pt-2">
+                <Button
+                  variant="outline"
+                  onClick={() => setIsDialogOpen(false)}
+                  disabled={saving}
+                >
+                  Cancel
+                </Button>
+                <Button onClick={handleCreate} disabled={saving || formIncomplete}>
+                  {saving ? 'Scheduling...' : 'Schedule'}
+                </Button>
+              </div>
+            </div>
+          </DialogContent>
+        </Dialog>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ScheduledMessages;
@@ -0,0 +1,383 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/components/ui/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { Settings, Timer, Users, Mic, Video, BatteryMedium, Lock, BellRing } from 'lucide-react';
+import SafetyPinSettings from '@/components/SafetyPinSettings';
+import { DEFAULT_SOS_MESSAGE, type UserSettings, type UserSettingsUpdate } from '@/hooks/use-user-settings';
+import type { Tables } from '@/integrations/supabase/types';
+import type { ContactGroup } from '@/lib/contact-groups';
+
+type SosSettingsValues = Omit<UserSettings, 'user_id' | 'created_at' | 'updated_at'>;
+type Contact = Pick<Tables<'emergency_contacts'>, 'id' | 'name' | 'phone' | 'email' | 'group_id'>;
+
+interface SosSettingsProps {
+  settings: SosSettingsValues;
+  onSave: (changes: UserSettingsUpdate) => Promise<void>;
+}
+
+interface ContactRoutingProps {
+  id: string;
+  title: string;
+  description: string;
+  contacts: Contact[];
+  groups: ContactGroup[];
+  // null means every contact, including ones added later
+  selectedIds: string[] | null;
+  onChange: (ids: string[] | null) => void;
+}
+
+const ContactRouting: React.FC<ContactRoutingProps> = ({ id, title, description, contacts, groups, selectedIds, onChange }) => {
+  const isSelected = (contactId: string) => selectedIds === null || selectedIds.includes(contactId);
+
+  const toggle = (contactId: string) => {
+    const current = selectedIds ?? contacts.map(c => c.id);
+    const next = current.includes(contactId)
+      ? current.filter(existing => existing !== contactId)
+      : [...current, contactId];
+    onChange(contacts.every(c => next.includes(c.id)) ? null : next);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <p className="text-sm font-semibold">{title}</p>
+        <p className="text-xs text-muted-foreground">{description}</p>
+      </div>
+      <div className="flex items-center space-x-2 pb-2 border-b">
+        <Checkbox
+          id={`${id}-all`}
+          checked={selectedIds === null}
+          onCheckedChange={() => onChange(selectedIds === null ? [] : null)}
+        />
+        <label htmlFor={`${id}-all`} className="text-sm font-bold leading-none cursor-pointer">
+          All contacts ({contacts.length})
+        </label>
+      </div>
+      {groups.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {groups.map((group) => {
+            const memberIds = contacts.filter(c => c.group_id === group.id).map(c => c.id);
+            return (
+              <Button
+                key={group.id}
+                type="button"
+                variant="outline"
+                size="sm"
+                className="h-7 text-xs"
+                disabled={memberIds.length === 0}
+                onClick={() => onChange(memberIds)}
+                title={`Only ${group.name}`}
+              >
+                Only {group.name} ({memberIds.length})
+              </Button>
+            );
+          })}
+        </div>
+      )}
+      <div className="space-y-2">
+        {contacts.map((contact) => (
+          <div key={contact.id} className="flex items-center space-x-3 p-2 hover:bg-muted rounded-lg transition-colors">
+            <Checkbox
+              id={`${id}-${contact.id}`}
+              checked={isSelected(contact.id)}
+              onCheckedChange={() => toggle(contact.id)}
+            />
+            <label
+              htmlFor={`${id}-${contact.id}`}
+              className="flex-1 text-sm font-medium leading-none cursor-pointer flex flex-col space-y-1"
+            >
+              <span className="font-semibold">{contact.name}</span>
+              <span className="text-xs text-muted-foreground">{contact.phone} {contact.email ? `• ${contact.email}` : ''}</span>
+            </label>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const SosSettings: React.FC<SosSettingsProps> = ({ settings, onSave }) => {
+  const [values, setValues] = useState<SosSettingsValues>(settings);
+  const [contacts, setContacts] = useState<Contact[]>([]);
+  const [groups, setGroups] = useState<ContactGroup[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [pinSettingsOpen, setPinSettingsOpen] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setValues(settings);
+  }, [settings]);
+
+  useEffect(() => {
+    fetchContacts();
+  }, []);
+
+  const fetchContacts = async () => {
+    try {
+      const [{ data, error }, { data: groupData, error: groupsError }] = await Promise.all([
+        supabase
+          .from('emergency_contacts')
+          .select('id, name, phone, email, group_id')
+          .order('is_primary', { ascending: false })
+          .order('created_at', { ascending: true }),
+        supabase
+          .from('contact_groups')
+          .select('*')
+          .order('tier', { ascending: true })
+          .order('name', { ascending: true })
+      ]);
+
+      if (error) throw error;
+      if (groupsError) throw groupsError;
+      setContacts(data || []);
+      setGroups(groupData || []);
+    } catch (error) {
+      console.error('Error fetching contacts:', error);
+    }
+  };
+
+  const update = (changes: Partial<SosSettingsValues>) => {
+    setValues(prev => ({ ...prev, ...changes }));
+  };
+
+  const handleSave = async () => {
+    if (!values.default_sos_message.trim()) {
+      toast({
+        title: "Error",
+        description: "The default SOS message cannot be empty",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (values.sos_contact_ids?.length === 0) {
+      toast({
+        title: "No SOS Recipients",
+        description: "Select at least one contact to receive SOS alerts.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+
+    try {
+      await onSave({
+        ...values,
+        default_sos_message: values.default_sos_message.trim(),
+      });
+
+      toast({
+        title: "Settings Saved",
+        description: "Your SOS preferences have been updated.",
+      });
+    } catch (error) {
+      console.error('Error saving settings:', error);
+      toast({
+        title: "Error",
+        description: (error as Error).message || "Failed to save settings",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto animate-fade-in space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Timer className="h-5 w-5 mr-2 text-rose-500" />
+            SOS Trigger
+          </CardTitle>
+          <CardDescription>
+            Choose how long you have to cancel an accidental SOS and what your contacts are told.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="settings-countdown">Countdown before sending (seconds)</Label>
+            <Input
+              id="settings-countdown"
+              type="number"
+              min={0}
+              max={30}
+              value={values.sos_countdown_seconds}
+              onChange={(e) => update({ sos_countdown_seconds: Math.min(30, Math.max(0, parseInt(e.target.value, 10) || 0)) })}
+            />
+            <p className="text-[11px] text-slate-400">
+              {values.sos_countdown_seconds === 0
+                ? 'SOS is sent the moment you press the button, with no chance to cancel.'
+                : 'Set to 0 to send the SOS immediately.'}
+            </p>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="settings-message">Default SOS message</Label>
+            <Textarea
+              id="settings-message"
+              maxLength={500}
+              rows={3}
+              value={values.default_sos_message}
+              onChange={(e) => update({ default_sos_message: e.target.value })}
+              placeholder={DEFAULT_SOS_MESSAGE}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Users className="h-5 w-5 mr-2 text-rose-500" />
+            Alert Recipients
+          </CardTitle>
+          <CardDescription>
+            Decide which members of your trusted circle receive SOS alerts and which receive recorded media alerts.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {contacts.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              Add emergency contacts in the 'Trusted Circle' tab to choose recipients.
+            </p>
+          ) : (
+            <div className="grid gap-6 md:grid-cols-2">
+              <ContactRouting
+                id="sos-recipients"
+                title="SOS alerts"
+                description={groups.length > 0
+                  ? 'Notified when you press SOS or miss a check-in. With "All contacts", tier 1 groups are alerted first and later tiers only if nobody responds.'
+                  : 'Notified when you press SOS or miss a check-in.'}
+                contacts={contacts}
+                groups={groups}
+                selectedIds={values.sos_contact_ids}
+                onChange={(ids) => update({ sos_contact_ids: ids })}
+              />
+              <ContactRouting
+                id="media-recipients"
+                title="Media alerts"
+                description="Pre-selected when you send an audio or video recording."
+                contacts={contacts}
+                groups={groups}
+                selectedIds={values.media_contact_ids}
+                onChange={(ids) => update({ media_contact_ids: ids })}
+              />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Settings className="h-5 w-5 mr-2 text-rose-500" />
+            During an SOS
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="settings-auto-audio" className="flex items-start space-x-3 cursor-pointer">
+              <Mic className="h-4 w-4 mt-0.5 text-slate-500 shrink-0" />
+              <span className="flex flex-col space-y-1">
+                <span>Auto-start evidence capture</span>
+                <span className="text-xs font-normal text-muted-foreground">
+                  Records in the background as soon as SOS fires and uploads a clip every 10 seconds, so evidence survives even if your phone is taken.
+                </span>
+              </span>
+            </Label>
+            <Switch
+              id="settings-auto-audio"
+              checked={values.auto_record_audio}
+              onCheckedChange={(checked) => update({ auto_record_audio: checked })}
+            />
+          </div>
+          {values.auto_record_audio && (
+            <div className="flex gap-2 pl-7">
+              <Button
+                type="button"
+                size="sm"
+                variant={values.auto_capture_type === 'audio' ? 'default' : 'outline'}
+                onClick={() => update({ auto_capture_type: 'audio' })}
+              >
+                <Mic className="h-4 w-4 mr-2" />
+                Audio
+              </Button>
+              <Button
+                type="button"
+                size="sm"
+                variant={values.auto_capture_type === 'video' ? 'default' : 'outline'}
+                onClick={() => update({ auto_capture_type: 'video' })}
+              >
+                <Video className="h-4 w-4 mr-2" />
+                Front camera
+              </Button>
+            </div>
+          )}
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="settings-battery" className="flex items-start space-x-3 cursor-pointer">
+              <BatteryMedium className="h-4 w-4 mt-0.5 text-slate-500 shrink-0" />
+              <span className="flex flex-col space-y-1">
+                <span>Include battery level</span>
+                <span className="text-xs font-normal text-muted-foreground">
+                  Tells your contacts how much charge your phone had when the SOS was sent.
+                </span>
+              </span>
+            </Label>
+            <Switch
+              id="settings-battery"
+              checked={values.include_battery_level}
+              onCheckedChange={(checked) => update({ include_battery_level: checked })}
+            />
+          </div>
+          <div className="flex items-center justify-between gap-4">
+            <Label htmlFor="settings-escalation" className="flex items-start space-x-3 cursor-pointer">
+              <BellRing className="h-4 w-4 mt-0.5 text-slate-500 shrink-0" />
+              <span className="flex flex-col space-y-1">
+                <span>Escalate if nobody responds (minutes)</span>
+                <span className="text-xs font-normal text-muted-foreground">
+                  Without an "I'm responding" within this time, your other contacts are alerted, then everyone gets your latest location, then you are asked to call 112/100.
+                </span>
+              </span>
+            </Label>
+            <Input
+              id="settings-escalation"
+              type="number"
+              min={1}
+              max={60}
+              className="w-20 shrink-0"
+              value={values.escalation_minutes}
+              onChange={(e) => update({ escalation_minutes: Math.min(60, Math.max(1, parseInt(e.target.value, 10) || 1)) })}
+            />
+          </div>
+          <div className="flex items-center justify-between gap-4 pt-4 border-t">
+            <span className="flex items-center text-sm font-medium">
+              <Lock className="h-4 w-4 mr-3 text-slate-500" />
+              Safety & duress PINs
+            </span>
+            <Button variant="outline" size="sm" onClick={() => setPinSettingsOpen(true)}>
+              Manage
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="flex justify-end">
+        <Button onClick={handleSave} disabled={saving} className="font-bold">
+          {saving ? 'Saving...' : 'Save Settings'}
+        </Button>
+      </div>
+
+      <SafetyPinSettings open={pinSettingsOpen} onOpenChange={setPinSettingsOpen} />
+    </div>
+  );
+};
+
+export default SosSettings;
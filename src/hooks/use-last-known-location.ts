@@ -0,0 +1,56 @@
+import { useEffect, useRef } from "react"
+import { supabase } from "@/integrations/supabase/client"
+
+// How often the position is stored while the app is open, moving or not
+const REPORT_INTERVAL_MS = 2 * 60 * 1000
+
+/**
+ * Stores the user's latest position in `user_last_locations` while the app is
+ * open, so scheduled messages sent by the cron job can include a recent
+ * location. Nothing is stored unless an enabled schedule asks for it.
+ */
+export function useLastKnownLocation(userId: string | null, location: { lat: number; lng: number } | null) {
+  const locationRef = useRef(location)
+  const hasLocation = !!location
+
+  useEffect(() => {
+    locationRef.current = location
+  }, [location])
+
+  useEffect(() => {
+    if (!userId || !hasLocation) return
+
+    const report = async () => {
+      const current = locationRef.current
+      if (!current) return
+
+      const { count, error: countError } = await supabase
+        .from("scheduled_messages")
+        .select("id", { count: "exact", head: true })
+        .eq("user_id", userId)
+        .eq("enabled", true)
+        .eq("include_location", true)
+
+      if (countError) {
+        console.error("Error checking scheduled messages:", countError)
+        return
+      }
+      if (!count) return
+
+      const { error } = await supabase
+        .from("user_last_locations")
+        .upsert({
+          user_id: userId,
+          latitude: current.lat,
+          longitude: current.lng,
+          recorded_at: new Date().toISOString(),
+        })
+
+      if (error) console.error("Error storing last known location:", error)
+    }
+
+    report()
+    const interval = setInterval(report, REPORT_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [userId, hasLocation])
+}
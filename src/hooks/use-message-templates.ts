@@ -0,0 +1,47 @@
+import { useCallback, useEffect, useState } from "react"
+import { supabase } from "@/integrations/supabase/client"
+import {
+  BUILT_IN_TEMPLATES,
+  toMessageTemplate,
+  type MessageTemplate,
+  type SavedMessageTemplate,
+} from "@/lib/message-templates"
+
+/**
+ * The user's saved message templates, plus the built-in ones listed first in
+ * `templates`.
+ */
+export function useMessageTemplates() {
+  const [saved, setSaved] = useState<SavedMessageTemplate[]>([])
+  const [loading, setLoading] = useState(true)
+
+  const refresh = useCallback(async () => {
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      setSaved([])
+      setLoading(false)
+      return
+    }
+
+    const { data, error } = await supabase
+      .from("message_templates")
+      .select("*")
+      .eq("user_id", user.id)
+      .order("name", { ascending: true })
+
+    if (error) {
+      console.error("Error fetching message templates:", error)
+    } else {
+      setSaved(data || [])
+    }
+    setLoading(false)
+  }, [])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  const templates: MessageTemplate[] = [...BUILT_IN_TEMPLATES, ...saved.map(toMessageTemplate)]
+
+  return { templates, saved, loading, refresh }
+}
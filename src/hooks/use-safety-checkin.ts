@@ -0,0 +1,209 @@
+import { useCallback, useEffect, useRef, useState } from "react"
+import { supabase } from "@/integrations/supabase/client"
+import type { Tables } from "@/integrations/supabase/types"
+
+export type SafetyCheckin = Tables<"safety_checkins">
+
+// A type alias (not an interface) so it is assignable to the `route` Json column
+export type CheckinRoutePoint = {
+  latitude: number
+  longitude: number
+  recorded_at: string
+}
+
+export interface CheckinDestination {
+  name: string
+  lat?: number
+  lng?: number
+}
+
+// How often progress is saved; the route is also capped so the row stays small
+const ROUTE_SAMPLE_INTERVAL_MS = 30000
+const MAX_ROUTE_POINTS = 500
+
+/**
+ * Runs a "walk me home" timer: records progress along the way and, if the
+ * deadline passes while the app is open, asks the server to raise the SOS.
+ * The `expire-safety-checkins` cron job covers the case where it is closed.
+ */
+export function useSafetyCheckin(userId: string | null, onExpired?: (incidentId: string | null) => void) {
+  const [checkin, setCheckin] = useState<SafetyCheckin | null>(null)
+  const [route, setRoute] = useState<CheckinRoutePoint[]>([])
+  const [remainingMs, setRemainingMs] = useState<number | null>(null)
+  const routeRef = useRef<CheckinRoutePoint[]>([])
+  const lastSampleAtRef = useRef(0)
+  const expiringRef = useRef(false)
+  const onExpiredRef = useRef(onExpired)
+  onExpiredRef.current = onExpired
+
+  const refresh = useCallback(async () => {
+    if (!userId) {
+      setCheckin(null)
+      return
+    }
+
+    const { data, error } = await supabase
+      .from("safety_checkins")
+      .select("*")
+      .eq("user_id", userId)
+      .eq("status", "active")
+      .maybeSingle()
+
+    if (error) {
+      console.error("Error fetching safety check-in:", error)
+      return
+    }
+
+    routeRef.current = Array.isArray(data?.route) ? (data.route as unknown as CheckinRoutePoint[]) : []
+    setCheckin(data)
+    setRoute(routeRef.current)
+  }, [userId])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  // Follow server-side changes, e.g. the cron job expiring the timer
+  useEffect(() => {
+    if (!userId) return
+
+    const channel = supabase
+      .channel(`safety-checkins-${userId}`)
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "safety_checkins", filter: `user_id=eq.${userId}` },
+        (payload) => {
+          const updated = payload.new as SafetyCheckin
+          if (updated.status === "active") return
+
+          setCheckin(current => (current?.id === updated.id ? null : current))
+          if (updated.status === "expired" && updated.incident_id) {
+            onExpiredRef.current?.(updated.incident_id)
+          }
+        }
+      )
+      .subscribe()
+
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }, [userId])
+
+  // Save progress while the timer runs
+  useEffect(() => {
+    if (!checkin || !navigator.geolocation) return
+
+    const watchId = navigator.geolocation.watchPosition(
+      async (position) => {
+        const now = Date.now()
+        if (now - lastSampleAtRef.current < ROUTE_SAMPLE_INTERVAL_MS) return
+        lastSampleAtRef.current = now
+
+        const point = {
+          latitude: position.coords.latitude,
+          longitude: position.coords.longitude,
+          recorded_at: new Date(position.timestamp).toISOString(),
+        }
+
+        routeRef.current = [...routeRef.current, point].slice(-MAX_ROUTE_POINTS)
+        setRoute(routeRef.current)
+
+        const { error } = await supabase
+          .from("safety_checkins")
+          .update({
+            route: routeRef.current,
+            last_latitude: point.latitude,
+            last_longitude: point.longitude,
+            last_seen_at: point.recorded_at,
+          })
+          .eq("id", checkin.id)
+
+        if (error) {
+          console.error("Error saving check-in progress:", error)
+        }
+      },
+      (error) => console.error("Check-in location watch error:", error),
+      { enableHighAccuracy: true, timeout: 15000, maximumAge: 0 }
+    )
+
+    return () => navigator.geolocation.clearWatch(watchId)
+  }, [checkin])
+
+  // Countdown, raising the SOS ourselves as soon as the deadline passes
+  useEffect(() => {
+    if (!checkin) {
+      setRemainingMs(null)
+      return
+    }
+
+    expiringRef.current = false
+    const deadline = new Date(checkin.deadline_at).getTime()
+
+    const tick = async () => {
+      const remaining = deadline - Date.now()
+      setRemainingMs(Math.max(0, remaining))
+      if (remaining > 0 || expiringRef.current) return
+
+      expiringRef.current = true
+      const { data, error } = await supabase.functions.invoke("expire-safety-checkins", {
+        body: { checkin_id: checkin.id },
+      })
+
+      if (error) {
+        console.error("Error expiring safety check-in:", error)
+        return
+      }
+
+      setCheckin(null)
+      const result = data?.results?.[0]
+      if (result) {
+        onExpiredRef.current?.(result.incident_id ?? null)
+      }
+    }
+
+    tick()
+    const timer = setInterval(tick, 1000)
+    return () => clearInterval(timer)
+  }, [checkin])
+
+  const start = async (destination: CheckinDestination, minutes: number) => {
+    if (!userId) return
+
+    const { data, error } = await supabase
+      .from("safety_checkins")
+      .insert({
+        user_id: userId,
+        destination_name: destination.name,
+        destination_latitude: destination.lat ?? null,
+        destination_longitude: destination.lng ?? null,
+        deadline_at: new Date(Date.now() + minutes * 60 * 1000).toISOString(),
+      })
+      .select("*")
+      .single()
+
+    if (error) throw error
+
+    lastSampleAtRef.current = 0
+    routeRef.current = []
+    setRoute([])
+    setCheckin(data)
+  }
+
+  // Resolves once the server accepted the PIN; a duress PIN looks identical
+  const checkIn = async (pin: string) => {
+    if (!checkin) return
+
+    const { error } = await supabase.functions.invoke("check-in-safety-timer", {
+      body: { checkin_id: checkin.id, pin },
+    })
+
+    if (error) {
+      const details = await (error as { context?: Response }).context?.json?.().catch(() => null)
+      throw new Error(details?.error || error.message)
+    }
+
+    setCheckin(null)
+  }
+
+  return { checkin, route, remainingMs, start, checkIn, refresh }
+}
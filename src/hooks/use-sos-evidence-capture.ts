@@ -0,0 +1,185 @@
+import { useRef, useState } from "react"
+import { supabase } from "@/integrations/supabase/client"
+import { uploadWithRetry } from "@/lib/chunked-upload"
+import { getCaptureLocation, registerEvidence, type CaptureLocation } from "@/lib/evidence"
+
+export type EvidenceCaptureType = "audio" | "video"
+
+// Each segment is a complete, playable file, so a snatched phone loses at most one
+const SEGMENT_DURATION_MS = 10000
+const MAX_CAPTURE_DURATION_MS = 5 * 60 * 1000
+
+/**
+ * Records audio or front-camera video in the background when an SOS fires and
+ * uploads it to `emergency-media` in rolling segments while recording. Capture
+ * can start before the incident exists: segments uploaded in the meantime are
+ * attached as soon as `attach` is called with the incident id. Failed uploads
+ * are retried until they land. Every segment is also registered in the
+ * evidence locker with its hash and capture metadata.
+ */
+export function useSosEvidenceCapture(userId: string | null) {
+  const [capturing, setCapturing] = useState<EvidenceCaptureType | null>(null)
+  const [segmentsUploaded, setSegmentsUploaded] = useState(0)
+  const streamRef = useRef<MediaStream | null>(null)
+  const recorderRef = useRef<MediaRecorder | null>(null)
+  const segmentTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const stoppingRef = useRef(false)
+  const incidentIdRef = useRef<string | null>(null)
+  const pendingRef = useRef<Array<{ path: string; type: EvidenceCaptureType }>>([])
+  const locationRef = useRef<Promise<CaptureLocation | null>>(Promise.resolve(null))
+
+  const attachMedia = async (incidentId: string, storagePath: string, type: EvidenceCaptureType) => {
+    // Attaching locks the evidence until the incident is closed
+    const { error: evidenceError } = await supabase
+      .from("media_evidence")
+      .update({ incident_id: incidentId })
+      .eq("storage_path", storagePath)
+      .is("incident_id", null)
+
+    if (evidenceError) {
+      console.error("Error attaching evidence record:", evidenceError)
+    }
+
+    const { error } = await supabase
+      .from("sos_incident_media")
+      .insert({
+        incident_id: incidentId,
+        user_id: userId,
+        storage_path: storagePath,
+        media_type: type,
+      })
+
+    if (error) {
+      console.error("Error attaching evidence segment:", error)
+    }
+  }
+
+  const uploadSegment = async (blob: Blob, type: EvidenceCaptureType, sessionId: number, index: number, capturedAt: Date) => {
+    const filePath = `${userId}/emergency_media/emergency_${type}_${sessionId}_part${index}.webm`
+
+    // Keeps retrying through a dropped connection; a segment is only lost if the app is closed
+    await uploadWithRetry(filePath, blob, `${type}/webm`)
+
+    setSegmentsUploaded(count => count + 1)
+
+    try {
+      await registerEvidence({
+        userId: userId as string,
+        storagePath: filePath,
+        mediaType: type,
+        blob,
+        capturedAt,
+        location: await locationRef.current,
+      })
+    } catch (evidenceError) {
+      console.error("Error registering evidence segment:", evidenceError)
+    }
+
+    if (incidentIdRef.current) {
+      await attachMedia(incidentIdRef.current, filePath, type)
+    } else {
+      pendingRef.current.push({ path: filePath, type })
+    }
+  }
+
+  const start = async (type: EvidenceCaptureType) => {
+    if (!userId || streamRef.current || !navigator.mediaDevices?.getUserMedia) return
+
+    // Reset before the permission prompt, which can outlast the SOS dispatch
+    stoppingRef.current = false
+    incidentIdRef.current = null
+    pendingRef.current = []
+    locationRef.current = getCaptureLocation()
+
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia(
+        type === "video"
+          ? { video: { facingMode: "user", width: 640, height: 480 }, audio: true }
+          : { audio: true }
+      )
+
+      if (stoppingRef.current) {
+        stream.getTracks().forEach(track => track.stop())
+        return
+      }
+
+      const mimeType = type === "video" && MediaRecorder.isTypeSupported("video/webm;codecs=vp8")
+        ? "video/webm;codecs=vp8"
+        : `${type}/webm`
+      const sessionId = Date.now()
+      let index = 0
+
+      streamRef.current = stream
+      setSegmentsUploaded(0)
+      setCapturing(type)
+
+      const finish = () => {
+        stream.getTracks().forEach(track => track.stop())
+        streamRef.current = null
+        recorderRef.current = null
+        setCapturing(null)
+      }
+
+      // A fresh recorder per segment, so every upload has its own container header
+      const recordSegment = () => {
+        const recorder = new MediaRecorder(stream, { mimeType })
+        const chunks: Blob[] = []
+        const segmentIndex = ++index
+        const segmentStartedAt = new Date()
+        recorderRef.current = recorder
+
+        recorder.ondataavailable = (event) => {
+          if (event.data.size > 0) {
+            chunks.push(event.data)
+          }
+        }
+
+        recorder.onstop = () => {
+          if (chunks.length > 0) {
+            uploadSegment(new Blob(chunks, { type: `${type}/webm` }), type, sessionId, segmentIndex, segmentStartedAt)
+          }
+
+          if (stoppingRef.current || Date.now() - sessionId >= MAX_CAPTURE_DURATION_MS) {
+            finish()
+          } else {
+            recordSegment()
+          }
+        }
+
+        recorder.start()
+        segmentTimerRef.current = setTimeout(() => {
+          if (recorder.state !== "inactive") recorder.stop()
+        }, SEGMENT_DURATION_MS)
+      }
+
+      recordSegment()
+    } catch (error) {
+      console.error("Error starting SOS evidence capture:", error)
+      streamRef.current = null
+      setCapturing(null)
+    }
+  }
+
+  // Link the capture to its incident, including segments uploaded before it existed
+  const attach = async (incidentId: string) => {
+    incidentIdRef.current = incidentId
+
+    const pending = pendingRef.current
+    pendingRef.current = []
+    await Promise.all(pending.map(({ path, type }) => attachMedia(incidentId, path, type)))
+  }
+
+  // Ends capture after uploading whatever the current segment holds
+  const stop = () => {
+    stoppingRef.current = true
+    if (segmentTimerRef.current) {
+      clearTimeout(segmentTimerRef.current)
+      segmentTimerRef.current = null
+    }
+    if (recorderRef.current && recorderRef.current.state !== "inactive") {
+      recorderRef.current.stop()
+    }
+  }
+
+  return { capturing, segmentsUploaded, start, attach, stop }
+}
@@ -0,0 +1,113 @@
+import { useEffect, useRef, useState } from "react"
+import { supabase } from "@/integrations/supabase/client"
+
+// Minimum gap between two stored points, so a jittery GPS doesn't flood the table
+const MIN_POINT_INTERVAL_MS = 5000
+// Postgres insufficient_privilege, raised when the row-level security check fails
+const RLS_VIOLATION = "42501"
+
+export type LocationStreamStatus = "idle" | "streaming" | "stopped" | "error"
+
+/**
+ * Publishes `watchPosition` fixes into `sos_location_points` for as long as
+ * the given incident stays active. Streaming stops when the incident id is
+ * cleared or its status changes away from 'active'.
+ */
+export function useSosLocationStream(incidentId: string | null, userId: string | null) {
+  const [status, setStatus] = useState<LocationStreamStatus>("idle")
+  const [lastPoint, setLastPoint] = useState<{ lat: number; lng: number; recordedAt: string } | null>(null)
+  const lastSentAtRef = useRef(0)
+
+  useEffect(() => {
+    if (!incidentId || !userId || !navigator.geolocation) {
+      setStatus("idle")
+      return
+    }
+
+    let watchId: number | null = null
+    let stopped = false
+
+    const stop = (nextStatus: LocationStreamStatus) => {
+      if (stopped) return
+      stopped = true
+      if (watchId !== null) {
+        navigator.geolocation.clearWatch(watchId)
+        watchId = null
+      }
+      setStatus(nextStatus)
+    }
+
+    const handlePosition = async (position: GeolocationPosition) => {
+      const now = Date.now()
+      if (stopped || now - lastSentAtRef.current < MIN_POINT_INTERVAL_MS) return
+      lastSentAtRef.current = now
+
+      const { latitude, longitude, accuracy, speed, heading } = position.coords
+      const recordedAt = new Date(position.timestamp).toISOString()
+
+      const { error } = await supabase
+        .from("sos_location_points")
+        .insert({
+          incident_id: incidentId,
+          user_id: userId,
+          latitude,
+          longitude,
+          accuracy,
+          speed,
+          heading,
+          recorded_at: recordedAt,
+        })
+
+      if (error) {
+        console.error("Error streaming SOS location:", error)
+        // RLS rejects inserts once the incident is no longer active; anything else
+        // (usually a dropped connection) is retried with the next fix
+        if (error.code === RLS_VIOLATION) {
+          stop("stopped")
+        } else {
+          lastSentAtRef.current = 0
+        }
+        return
+      }
+
+      setLastPoint({ lat: latitude, lng: longitude, recordedAt })
+    }
+
+    watchId = navigator.geolocation.watchPosition(
+      handlePosition,
+      (error) => {
+        console.error("SOS location watch error:", error)
+        if (error.code === error.PERMISSION_DENIED) {
+          stop("error")
+        }
+      },
+      {
+        enableHighAccuracy: true,
+        timeout: 15000,
+        maximumAge: 0,
+      }
+    )
+    setStatus("streaming")
+
+    // Stop as soon as the incident is resolved or cancelled
+    const channel = supabase
+      .channel(`sos-incident-${incidentId}`)
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "sos_incidents", filter: `id=eq.${incidentId}` },
+        (payload) => {
+          if ((payload.new as { status?: string }).status !== "active") {
+            stop("stopped")
+          }
+        }
+      )
+      .subscribe()
+
+    return () => {
+      stop("idle")
+      supabase.removeChannel(channel)
+    }
+  }, [incidentId, userId])
+
+  return { status, lastPoint }
+}
@@ -0,0 +1,86 @@
+import { useCallback, useEffect, useState } from "react"
+import { supabase } from "@/integrations/supabase/client"
+import type { Tables, TablesUpdate } from "@/integrations/supabase/types"
+
+export type UserSettings = Tables<"user_settings">
+export type UserSettingsUpdate = Omit<TablesUpdate<"user_settings">, "user_id" | "created_at" | "updated_at">
+
+export const DEFAULT_SOS_MESSAGE = "Emergency SOS activated! I need immediate help."
+
+// Mirrors the column defaults, used until the user saves their own row
+export const DEFAULT_USER_SETTINGS: Omit<UserSettings, "user_id" | "created_at" | "updated_at"> = {
+  sos_countdown_seconds: 3,
+  default_sos_message: DEFAULT_SOS_MESSAGE,
+  sos_contact_ids: null,
+  media_contact_ids: null,
+  auto_record_audio: false,
+  auto_capture_type: "audio",
+  include_battery_level: false,
+  escalation_minutes: 5,
+}
+
+/**
+ * Loads the user's SOS preferences, falling back to the defaults when no row
+ * exists yet. `save` upserts, so the first save creates the row.
+ */
+export function useUserSettings(userId: string | null) {
+  const [settings, setSettings] = useState(DEFAULT_USER_SETTINGS)
+  const [loading, setLoading] = useState(true)
+
+  const refresh = useCallback(async () => {
+    if (!userId) {
+      setSettings(DEFAULT_USER_SETTINGS)
+      return
+    }
+
+    setLoading(true)
+    const { data, error } = await supabase
+      .from("user_settings")
+      .select("*")
+      .eq("user_id", userId)
+      .maybeSingle()
+
+    if (error) {
+      console.error("Error fetching user settings:", error)
+    } else {
+      setSettings(data ? { ...DEFAULT_USER_SETTINGS, ...data } : DEFAULT_USER_SETTINGS)
+    }
+    setLoading(false)
+  }, [userId])
+
+  useEffect(() => {
+    refresh()
+  }, [refresh])
+
+  const save = async (changes: UserSettingsUpdate) => {
+    if (!userId) return
+
+    const { data, error } = await supabase
+      .from("user_settings")
+      .upsert({ ...changes, user_id: userId })
+      .select("*")
+      .single()
+
+    if (error) throw error
+
+    setSettings({ ...DEFAULT_USER_SETTINGS, ...data })
+  }
+
+  return { settings, loading, save, refresh }
+}
+
+type BatteryManagerLike = { level: number }
+
+// Battery Status API is Chromium-only, so callers must cope with null
+export async function getBatteryLevel(): Promise<number | null> {
+  const nav = navigator as Navigator & { getBattery?: () => Promise<BatteryManagerLike> }
+  if (!nav.getBattery) return null
+
+  try {
+    const battery = await nav.getBattery()
+    return Math.round(battery.level * 100)
+  } catch (error) {
+    console.error("Error reading battery level:", error)
+    return null
+  }
+}
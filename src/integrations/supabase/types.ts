@@ -14,42 +14,544 @@ export type Database = {
   }
   public: {
     Tables: {
+      contact_groups: {
+        Row: {
+          created_at: string
+          id: string
+          include_in_broadcasts: boolean
+          name: string
+          notify_on_sos: boolean
+          tier: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          include_in_broadcasts?: boolean
+          name: string
+          notify_on_sos?: boolean
+          tier?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          include_in_broadcasts?: boolean
+          name?: string
+          notify_on_sos?: boolean
+          tier?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      emergency_contact_verification_tokens: {
+        Row: {
+          contact_id: string
+          created_at: string
+          token: string
+        }
+        Insert: {
+          contact_id: string
+          created_at?: string
+          token?: string
+        }
+        Update: {
+          contact_id?: string
+          created_at?: string
+          token?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "emergency_contact_verification_tokens_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: true
+            referencedRelation: "emergency_contacts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       emergency_contacts: {
         Row: {
           created_at: string
           email: string | null
+          group_id: string | null
           id: string
+          invite_token: string
           is_primary: boolean
+          linked_at: string | null
+          linked_user_id: string | null
           name: string
           phone: string
           relationship: string | null
           updated_at: string
           user_id: string
+          verification_responded_at: string | null
+          verification_sent_at: string | null
+          verification_status: string
         }
         Insert: {
           created_at?: string
           email?: string | null
+          group_id?: string | null
           id?: string
+          invite_token?: string
           is_primary?: boolean
+          linked_at?: string | null
+          linked_user_id?: string | null
           name: string
           phone: string
           relationship?: string | null
           updated_at?: string
           user_id: string
+          verification_responded_at?: string | null
+          verification_sent_at?: string | null
+          verification_status?: string
         }
         Update: {
           created_at?: string
           email?: string | null
+          group_id?: string | null
           id?: string
+          invite_token?: string
           is_primary?: boolean
+          linked_at?: string | null
+          linked_user_id?: string | null
           name?: string
           phone?: string
           relationship?: string | null
           updated_at?: string
           user_id?: string
+          verification_responded_at?: string | null
+          verification_sent_at?: string | null
+          verification_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "emergency_contacts_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "contact_groups"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      incident_ack_tokens: {
+        Row: {
+          contact_id: string
+          created_at: string
+          id: string
+          incident_id: string
+          token: string
+        }
+        Insert: {
+          contact_id: string
+          created_at?: string
+          id?: string
+          incident_id: string
+          token?: string
+        }
+        Update: {
+          contact_id?: string
+          created_at?: string
+          id?: string
+          incident_id?: string
+          token?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "incident_ack_tokens_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "emergency_contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "incident_ack_tokens_incident_id_fkey"
+            columns: ["incident_id"]
+            isOneToOne: false
+            referencedRelation: "sos_incidents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      incident_acknowledgements: {
+        Row: {
+          acknowledged_by: string | null
+          channel: string
+          contact_id: string | null
+          contact_name: string
+          created_at: string
+          id: string
+          incident_id: string
+          user_id: string
+        }
+        Insert: {
+          acknowledged_by?: string | null
+          channel?: string
+          contact_id?: string | null
+          contact_name: string
+          created_at?: string
+          id?: string
+          incident_id: string
+          user_id: string
+        }
+        Update: {
+          acknowledged_by?: string | null
+          channel?: string
+          contact_id?: string | null
+          contact_name?: string
+          created_at?: string
+          id?: string
+          incident_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "incident_acknowledgements_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "emergency_contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "incident_acknowledgements_incident_id_fkey"
+            columns: ["incident_id"]
+            isOneToOne: false
+            referencedRelation: "sos_incidents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      incident_events: {
+        Row: {
+          created_at: string
+          details: Json
+          event_type: string
+          id: string
+          incident_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          details?: Json
+          event_type: string
+          id?: string
+          incident_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          details?: Json
+          event_type?: string
+          id?: string
+          incident_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "incident_events_incident_id_fkey"
+            columns: ["incident_id"]
+            isOneToOne: false
+            referencedRelation: "sos_incidents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      media_evidence: {
+        Row: {
+          accuracy: number | null
+          captured_at: string
+          created_at: string
+          device_info: Json
+          id: string
+          incident_id: string | null
+          latitude: number | null
+          longitude: number | null
+          media_type: string
+          sha256: string
+          size_bytes: number
+          storage_path: string
+          user_id: string
+        }
+        Insert: {
+          accuracy?: number | null
+          captured_at: string
+          created_at?: string
+          device_info?: Json
+          id?: string
+          incident_id?: string | null
+          latitude?: number | null
+          longitude?: number | null
+          media_type: string
+          sha256: string
+          size_bytes: number
+          storage_path: string
+          user_id: string
+        }
+        Update: {
+          accuracy?: number | null
+          captured_at?: string
+          created_at?: string
+          device_info?: Json
+          id?: string
+          incident_id?: string | null
+          latitude?: number | null
+          longitude?: number | null
+          media_type?: string
+          sha256?: string
+          size_bytes?: number
+          storage_path?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "media_evidence_incident_id_fkey"
+            columns: ["incident_id"]
+            isOneToOne: false
+            referencedRelation: "sos_incidents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      media_evidence_access_log: {
+        Row: {
+          action: string
+          actor: string
+          created_at: string
+          details: Json
+          evidence_id: string
+          id: string
+          sha256: string
+          storage_path: string
+          user_id: string
+        }
+        Insert: {
+          action: string
+          actor: string
+          created_at?: string
+          details?: Json
+          evidence_id: string
+          id?: string
+          sha256: string
+          storage_path: string
+          user_id: string
+        }
+        Update: {
+          action?: string
+          actor?: string
+          created_at?: string
+          details?: Json
+          evidence_id?: string
+          id?: string
+          sha256?: string
+          storage_path?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      message_templates: {
+        Row: {
+          body: string
+          created_at: string
+          id: string
+          name: string
+          subject: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          id?: string
+          name: string
+          subject?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          id?: string
+          name?: string
+          subject?: string | null
+          updated_at?: string
+          user_id?: string
         }
         Relationships: []
       }
+      message_threads: {
+        Row: {
+          contact_id: string
+          created_at: string
+          id: string
+          last_message_at: string
+          reply_token: string
+          user_id: string
+        }
+        Insert: {
+          contact_id: string
+          created_at?: string
+          id?: string
+          last_message_at?: string
+          reply_token?: string
+          user_id: string
+        }
+        Update: {
+          contact_id?: string
+          created_at?: string
+          id?: string
+          last_message_at?: string
+          reply_token?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_threads_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "emergency_contacts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      messages: {
+        Row: {
+          body: string
+          channel: string
+          contact_id: string
+          created_at: string
+          direction: string
+          external_id: string | null
+          id: string
+          is_broadcast: boolean
+          read_at: string | null
+          sender_id: string | null
+          thread_id: string
+          user_id: string
+        }
+        Insert: {
+          body: string
+          channel?: string
+          contact_id: string
+          created_at?: string
+          direction: string
+          external_id?: string | null
+          id?: string
+          is_broadcast?: boolean
+          read_at?: string | null
+          sender_id?: string | null
+          thread_id?: string
+          user_id?: string
+        }
+        Update: {
+          body?: string
+          channel?: string
+          contact_id?: string
+          created_at?: string
+          direction?: string
+          external_id?: string | null
+          id?: string
+          is_broadcast?: boolean
+          read_at?: string | null
+          sender_id?: string | null
+          thread_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "messages_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "emergency_contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "messages_thread_id_fkey"
+            columns: ["thread_id"]
+            isOneToOne: false
+            referencedRelation: "message_threads"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_deliveries: {
+        Row: {
+          attempts: number
+          channel: string
+          contact_id: string | null
+          contact_name: string
+          created_at: string
+          error: string | null
+          id: string
+          incident_id: string | null
+          next_retry_at: string | null
+          payload: Json
+          provider: string | null
+          provider_message_id: string | null
+          recipient: string
+          source: string
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          attempts?: number
+          channel: string
+          contact_id?: string | null
+          contact_name: string
+          created_at?: string
+          error?: string | null
+          id?: string
+          incident_id?: string | null
+          next_retry_at?: string | null
+          payload?: Json
+          provider?: string | null
+          provider_message_id?: string | null
+          recipient: string
+          source: string
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          attempts?: number
+          channel?: string
+          contact_id?: string | null
+          contact_name?: string
+          created_at?: string
+          error?: string | null
+          id?: string
+          incident_id?: string | null
+          next_retry_at?: string | null
+          payload?: Json
+          provider?: string | null
+          provider_message_id?: string | null
+          recipient?: string
+          source?: string
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_deliveries_contact_id_fkey"
+            columns: ["contact_id"]
+            isOneToOne: false
+            referencedRelation: "emergency_contacts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notification_deliveries_incident_id_fkey"
+            columns: ["incident_id"]
+            isOneToOne: false
+            referencedRelation: "sos_incidents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           created_at: string
@@ -80,31 +582,366 @@ export type Database = {
         }
         Relationships: []
       }
+      safety_checkins: {
+        Row: {
+          completed_at: string | null
+          created_at: string
+          deadline_at: string
+          destination_latitude: number | null
+          destination_longitude: number | null
+          destination_name: string
+          id: string
+          incident_id: string | null
+          last_latitude: number | null
+          last_longitude: number | null
+          last_seen_at: string | null
+          route: Json
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          completed_at?: string | null
+          created_at?: string
+          deadline_at: string
+          destination_latitude?: number | null
+          destination_longitude?: number | null
+          destination_name: string
+          id?: string
+          incident_id?: string | null
+          last_latitude?: number | null
+          last_longitude?: number | null
+          last_seen_at?: string | null
+          route?: Json
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          completed_at?: string | null
+          created_at?: string
+          deadline_at?: string
+          destination_latitude?: number | null
+          destination_longitude?: number | null
+          destination_name?: string
+          id?: string
+          incident_id?: string | null
+          last_latitude?: number | null
+          last_longitude?: number | null
+          last_seen_at?: string | null
+          route?: Json
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "safety_checkins_incident_id_fkey"
+            columns: ["incident_id"]
+            isOneToOne: false
+            referencedRelation: "sos_incidents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      scheduled_messages: {
+        Row: {
+          body: string
+          created_at: string
+          days_of_week: number[] | null
+          enabled: boolean
+          group_id: string | null
+          id: string
+          include_location: boolean
+          last_error: string | null
+          last_sent_at: string | null
+          next_run_at: string | null
+          recurrence: string
+          send_at: string | null
+          send_time: string | null
+          subject: string | null
+          timezone: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          days_of_week?: number[] | null
+          enabled?: boolean
+          group_id?: string | null
+          id?: string
+          include_location?: boolean
+          last_error?: string | null
+          last_sent_at?: string | null
+          next_run_at?: string | null
+          recurrence?: string
+          send_at?: string | null
+          send_time?: string | null
+          subject?: string | null
+          timezone?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          days_of_week?: number[] | null
+          enabled?: boolean
+          group_id?: string | null
+          id?: string
+          include_location?: boolean
+          last_error?: string | null
+          last_sent_at?: string | null
+          next_run_at?: string | null
+          recurrence?: string
+          send_at?: string | null
+          send_time?: string | null
+          subject?: string | null
+          timezone?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scheduled_messages_group_id_fkey"
+            columns: ["group_id"]
+            isOneToOne: false
+            referencedRelation: "contact_groups"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sos_incident_media: {
+        Row: {
+          created_at: string
+          id: string
+          incident_id: string
+          media_type: string
+          media_url: string | null
+          storage_path: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          incident_id: string
+          media_type?: string
+          media_url?: string | null
+          storage_path?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          incident_id?: string
+          media_type?: string
+          media_url?: string | null
+          storage_path?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sos_incident_media_incident_id_fkey"
+            columns: ["incident_id"]
+            isOneToOne: false
+            referencedRelation: "sos_incidents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       sos_incidents: {
         Row: {
           created_at: string
+          escalated_at: string | null
+          escalation_level: number
           id: string
+          is_duress: boolean
           latitude: number | null
           longitude: number | null
+          notified_contact_ids: string[]
+          resolution: string | null
+          resolved_at: string | null
           status: string
+          tracking_expires_at: string | null
+          tracking_token: string
           updated_at: string
           user_id: string
         }
         Insert: {
           created_at?: string
+          escalated_at?: string | null
+          escalation_level?: number
           id?: string
+          is_duress?: boolean
           latitude?: number | null
           longitude?: number | null
+          notified_contact_ids?: string[]
+          resolution?: string | null
+          resolved_at?: string | null
           status?: string
+          tracking_expires_at?: string | null
+          tracking_token?: string
           updated_at?: string
           user_id: string
         }
         Update: {
           created_at?: string
+          escalated_at?: string | null
+          escalation_level?: number
           id?: string
+          is_duress?: boolean
           latitude?: number | null
           longitude?: number | null
+          notified_contact_ids?: string[]
+          resolution?: string | null
+          resolved_at?: string | null
           status?: string
+          tracking_expires_at?: string | null
+          tracking_token?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      sos_location_points: {
+        Row: {
+          accuracy: number | null
+          created_at: string
+          heading: number | null
+          id: string
+          incident_id: string
+          latitude: number
+          longitude: number
+          recorded_at: string
+          speed: number | null
+          user_id: string
+        }
+        Insert: {
+          accuracy?: number | null
+          created_at?: string
+          heading?: number | null
+          id?: string
+          incident_id: string
+          latitude: number
+          longitude: number
+          recorded_at?: string
+          speed?: number | null
+          user_id: string
+        }
+        Update: {
+          accuracy?: number | null
+          created_at?: string
+          heading?: number | null
+          id?: string
+          incident_id?: string
+          latitude?: number
+          longitude?: number
+          recorded_at?: string
+          speed?: number | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sos_location_points_incident_id_fkey"
+            columns: ["incident_id"]
+            isOneToOne: false
+            referencedRelation: "sos_incidents"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_last_locations: {
+        Row: {
+          accuracy: number | null
+          latitude: number
+          longitude: number
+          recorded_at: string
+          user_id: string
+        }
+        Insert: {
+          accuracy?: number | null
+          latitude: number
+          longitude: number
+          recorded_at?: string
+          user_id: string
+        }
+        Update: {
+          accuracy?: number | null
+          latitude?: number
+          longitude?: number
+          recorded_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      user_safety_pins: {
+        Row: {
+          created_at: string
+          duress_pin_hash: string | null
+          failed_attempts: number
+          locked_until: string | null
+          pin_hash: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          duress_pin_hash?: string | null
+          failed_attempts?: number
+          locked_until?: string | null
+          pin_hash: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          duress_pin_hash?: string | null
+          failed_attempts?: number
+          locked_until?: string | null
+          pin_hash?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      user_settings: {
+        Row: {
+          auto_capture_type: string
+          auto_record_audio: boolean
+          created_at: string
+          default_sos_message: string
+          escalation_minutes: number
+          include_battery_level: boolean
+          media_contact_ids: string[] | null
+          sos_contact_ids: string[] | null
+          sos_countdown_seconds: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          auto_capture_type?: string
+          auto_record_audio?: boolean
+          created_at?: string
+          default_sos_message?: string
+          escalation_minutes?: number
+          include_battery_level?: boolean
+          media_contact_ids?: string[] | null
+          sos_contact_ids?: string[] | null
+          sos_countdown_seconds?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          auto_capture_type?: string
+          auto_record_audio?: boolean
+          created_at?: string
+          default_sos_message?: string
+          escalation_minutes?: number
+          include_battery_level?: boolean
+          media_contact_ids?: string[] | null
+          sos_contact_ids?: string[] | null
+          sos_countdown_seconds?: number
           updated_at?: string
           user_id?: string
         }
@@ -115,7 +952,143 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      accept_contact_invite: {
+        Args: { p_token: string }
+        Returns: {
+          contact_id: string
+          owner_name: string
+        }[]
+      }
+      acknowledge_alert: {
+        Args: { p_token: string }
+        Returns: {
+          acknowledged_at: string
+          contact_name: string
+          display_name: string
+          status: string
+          tracking_token: string
+        }[]
+      }
+      acknowledge_incident: {
+        Args: { p_incident_id: string }
+        Returns: undefined
+      }
+      check_safety_pin: {
+        Args: { p_pin: string; p_user_id: string }
+        Returns: string
+      }
+      claim_due_scheduled_messages: {
+        Args: { p_limit?: number }
+        Returns: {
+          body: string
+          created_at: string
+          days_of_week: number[] | null
+          enabled: boolean
+          group_id: string | null
+          id: string
+          include_location: boolean
+          last_error: string | null
+          last_sent_at: string | null
+          next_run_at: string | null
+          recurrence: string
+          send_at: string | null
+          send_time: string | null
+          subject: string | null
+          timezone: string
+          updated_at: string
+          user_id: string
+        }[]
+      }
+      get_contact_verification: {
+        Args: { p_token: string }
+        Returns: {
+          contact_name: string
+          owner_name: string
+          verification_status: string
+        }[]
+      }
+      get_tracked_incident: {
+        Args: { p_token: string }
+        Returns: {
+          created_at: string
+          display_name: string | null
+          id: string
+          is_duress: boolean
+          last_seen_at: string
+          latitude: number | null
+          longitude: number | null
+          status: string
+        }[]
+      }
+      get_tracked_incident_media: {
+        Args: { p_token: string }
+        Returns: {
+          created_at: string
+          id: string
+          media_type: string
+          media_url: string | null
+          storage_path: string | null
+        }[]
+      }
+      get_tracked_incident_trail: {
+        Args: { p_token: string }
+        Returns: {
+          accuracy: number | null
+          latitude: number
+          longitude: number
+          recorded_at: string
+        }[]
+      }
+      has_duress_pin: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      has_safety_pin: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      is_guardian_of: {
+        Args: { p_user_id: string }
+        Returns: boolean
+      }
+      is_linked_contact: {
+        Args: { p_contact_id: string }
+        Returns: boolean
+      }
+      leave_guardianship: {
+        Args: { p_contact_id: string }
+        Returns: undefined
+      }
+      mark_thread_read: {
+        Args: { p_thread_id: string }
+        Returns: undefined
+      }
+      respond_to_contact_verification: {
+        Args: { p_accept: boolean; p_token: string }
+        Returns: string
+      }
+      scheduled_message_next_run: {
+        Args: {
+          p_after: string
+          p_days_of_week: number[]
+          p_recurrence: string
+          p_send_time: string
+          p_timezone: string
+        }
+        Returns: string
+      }
+      set_duress_pin: {
+        Args: { p_current_pin: string; p_pin: string }
+        Returns: string
+      }
+      set_safety_pin: {
+        Args: { p_current_pin?: string; p_pin: string }
+        Returns: string
+      }
+      verify_safety_pin: {
+        Args: { p_pin: string; p_user_id: string }
+        Returns: boolean
+      }
     }
     Enums: {
       [_ in never]: never
@@ -0,0 +1,190 @@
+import { supabase } from "@/integrations/supabase/client"
+
+const BUCKET = "emergency-media"
+
+// MediaRecorder timeslice: how much recording a dropped connection can cost at most
+export const SEGMENT_TIMESLICE_MS = 5000
+
+const MAX_RETRY_DELAY_MS = 30000
+
+// How long `finish` waits for the backlog before giving up on this send
+export const FINISH_TIMEOUT_MS = 60000
+
+export interface RecordingSegment {
+  index: number
+  path: string
+  size: number
+}
+
+/**
+ * Describes one recording split into sequential segments. Timeslice segments
+ * are not playable on their own; concatenated in `index` order they form the
+ * original file, which `stitch-media-recording` does server-side.
+ */
+export interface RecordingManifest {
+  id: string
+  user_id: string
+  media_type: "audio" | "video"
+  mime_type: string
+  created_at: string
+  completed_at: string | null
+  segments: RecordingSegment[]
+}
+
+export interface ChunkedUpload {
+  manifest: RecordingManifest
+  addSegment: (blob: Blob) => void
+  finish: (signal?: AbortSignal) => Promise<RecordingManifest>
+  cancel: () => Promise<void>
+}
+
+export function recordingFolder(userId: string, recordingId: string): string {
+  return `${userId}/emergency_media/recordings/${recordingId}`
+}
+
+// Waits out the backoff, but resumes immediately once the browser is back online
+function waitForRetry(attempt: number): Promise<void> {
+  const delay = Math.min(MAX_RETRY_DELAY_MS, 1000 * 2 ** attempt)
+
+  return new Promise(resolve => {
+    const done = () => {
+      clearTimeout(timer)
+      window.removeEventListener("online", done)
+      resolve()
+    }
+    const timer = setTimeout(done, delay)
+    window.addEventListener("online", done)
+  })
+}
+
+/**
+ * Uploads one file, retrying failures with backoff until it is stored or
+ * `stopped` returns true. Resolves to whether the file was stored.
+ */
+export async function uploadWithRetry(
+  path: string,
+  body: Blob,
+  contentType: string,
+  stopped: () => boolean = () => false
+): Promise<boolean> {
+  for (let attempt = 0; !stopped(); attempt++) {
+    // upsert keeps retries idempotent if an earlier attempt actually landed
+    const error = await supabase.storage
+      .from(BUCKET)
+      .upload(path, body, { contentType, upsert: true })
+      .then(({ error }) => error, (error) => error)
+
+    if (!error) return true
+
+    console.error(`Error uploading ${path} (attempt ${attempt + 1}):`, error)
+    await waitForRetry(attempt)
+  }
+
+  return false
+}
+
+/**
+ * Uploads a recording segment by segment while it is still being recorded.
+ * Segments go up strictly in order and a failed upload is retried until it
+ * succeeds, so a dropped connection only delays the upload instead of losing
+ * it. The manifest is rewritten after every segment so partial recordings
+ * can still be recovered.
+ */
+export function createChunkedUpload(
+  userId: string,
+  mediaType: "audio" | "video",
+  mimeType: string,
+  onProgress?: (uploaded: number, total: number) => void
+): ChunkedUpload {
+  const id = `${mediaType}_${Date.now()}`
+  const folder = recordingFolder(userId, id)
+  const manifest: RecordingManifest = {
+    id,
+    user_id: userId,
+    media_type: mediaType,
+    mime_type: mimeType,
+    created_at: new Date().toISOString(),
+    completed_at: null,
+    segments: [],
+  }
+
+  let total = 0
+  let cancelled = false
+  let queue: Promise<void> = Promise.resolve()
+
+  const writeManifest = () =>
+    uploadWithRetry(
+      `${folder}/manifest.json`,
+      new Blob([JSON.stringify(manifest)], { type: "application/json" }),
+      "application/json",
+      () => cancelled
+    )
+
+  const addSegment = (blob: Blob) => {
+    if (cancelled || blob.size === 0) return
+
+    const index = total++
+    onProgress?.(manifest.segments.length, total)
+    const segment = {
+      index,
+      path: `${folder}/part-${String(index).padStart(5, "0")}.webm`,
+      size: blob.size,
+    }
+
+    queue = queue.then(async () => {
+      await uploadWithRetry(segment.path, blob, mimeType.split(";")[0], () => cancelled)
+      if (cancelled) return
+
+      manifest.segments.push(segment)
+      await writeManifest()
+      onProgress?.(manifest.segments.length, total)
+    })
+  }
+
+  const complete = async () => {
+    await queue
+    manifest.completed_at = new Date().toISOString()
+    await writeManifest()
+    return manifest
+  }
+
+  // Resolves once every segment and the final manifest are stored. Rejects after
+  // FINISH_TIMEOUT_MS or when `signal` aborts; uploads keep retrying in the
+  // background until `cancel`, so a later `finish` can still succeed.
+  const finish = (signal?: AbortSignal) =>
+    new Promise<RecordingManifest>((resolve, reject) => {
+      const settle = () => {
+        clearTimeout(timer)
+        signal?.removeEventListener("abort", onAbort)
+      }
+      const onAbort = () => {
+        settle()
+        reject(new Error("Upload cancelled"))
+      }
+      const timer = setTimeout(() => {
+        settle()
+        reject(new Error("Upload timed out"))
+      }, FINISH_TIMEOUT_MS)
+
+      if (signal?.aborted) return onAbort()
+      signal?.addEventListener("abort", onAbort)
+
+      complete().then(
+        (result) => { settle(); resolve(result) },
+        (error) => { settle(); reject(error) }
+      )
+    })
+
+  const cancel = async () => {
+    cancelled = true
+    await queue.catch(() => undefined)
+
+    const paths = [...manifest.segments.map(segment => segment.path), `${folder}/manifest.json`]
+    const { error } = await supabase.storage.from(BUCKET).remove(paths)
+    if (error) {
+      console.error("Error removing cancelled recording:", error)
+    }
+  }
+
+  return { manifest, addSegment, finish, cancel }
+}
@@ -0,0 +1,39 @@
+import type { Tables } from "@/integrations/supabase/types"
+
+export type ContactGroup = Tables<"contact_groups">
+
+// Also enforced by check_emergency_contact_group()
+export const MAX_CONTACTS = 50
+
+export const SUGGESTED_GROUP_NAMES = ["Family", "Friends", "Colleagues", "Hostel Warden"]
+
+export const TIER_LABELS: Record<number, string> = {
+  1: "Tier 1 · alerted immediately",
+  2: "Tier 2 · alerted if nobody responds",
+  3: "Tier 3 · alerted last",
+}
+
+type GroupedContact = { group_id: string | null; is_primary?: boolean }
+
+export function findGroup(groups: ContactGroup[], groupId: string | null): ContactGroup | null {
+  return groupId ? groups.find(group => group.id === groupId) ?? null : null
+}
+
+// Ungrouped primary contacts are tier 1 and other ungrouped contacts tier 2,
+// matching the SOS routing in the Edge Functions
+export function contactTier(contact: GroupedContact, groups: ContactGroup[]): number {
+  return findGroup(groups, contact.group_id)?.tier ?? (contact.is_primary ? 1 : 2)
+}
+
+/**
+ * Recipients of a broadcast: one group when `groupId` is given, otherwise
+ * everyone except groups that opted out of "everyone" broadcasts.
+ */
+export function broadcastRecipients<T extends GroupedContact>(
+  contacts: T[],
+  groups: ContactGroup[],
+  groupId: string | null
+): T[] {
+  if (groupId) return contacts.filter(contact => contact.group_id === groupId)
+  return contacts.filter(contact => findGroup(groups, contact.group_id)?.include_in_broadcasts ?? true)
+}
@@ -0,0 +1,148 @@
+import { MAX_CONTACTS } from "@/lib/contact-groups"
+
+export interface ImportCandidate {
+  name: string
+  // Every number found for the person, as written in the source
+  phones: string[]
+  email: string | null
+}
+
+export type ImportStatus = "new" | "duplicate" | "invalid"
+
+type ExistingContact = { name: string; phone: string; email?: string | null }
+
+/**
+ * Normalise a phone number to E.164, defaulting to India (+91). Mirrors
+ * toE164() in the Edge Functions' SMS helpers so imported numbers are
+ * stored the way they will be dialled.
+ */
+export function normalizePhone(phone: string, defaultCountryCode = "91"): string | null {
+  const trimmed = phone.trim()
+  let digits = trimmed.replace(/\D/g, "")
+
+  if (!digits) return null
+
+  // International "00" prefix is the same as "+"
+  if (trimmed.startsWith("+") || digits.startsWith("00")) {
+    digits = digits.replace(/^00/, "")
+    return digits.length >= 8 && digits.length <= 15 ? `+${digits}` : null
+  }
+
+  // Local Indian formats: 10 digits, or a leading trunk 0
+  const local = digits.replace(/^0+/, "")
+  if (local.length === 10) {
+    return `+${defaultCountryCode}${local}`
+  }
+
+  if (local.startsWith(defaultCountryCode) && local.length === defaultCountryCode.length + 10) {
+    return `+${local}`
+  }
+
+  return null
+}
+
+function unescapeVCardValue(value: string): string {
+  return value
+    .replace(/\\n/gi, " ")
+    .replace(/\\([,;\\])/g, "$1")
+    .trim()
+}
+
+/**
+ * Parse the contacts out of a .vcf file (vCard 2.1, 3.0 and 4.0). Only the
+ * name, phone numbers and first email address are kept.
+ */
+export function parseVCard(text: string): ImportCandidate[] {
+  // Continuation lines start with a space or tab
+  const lines = text.replace(/\r\n?/g, "\n").replace(/\n[ \t]/g, "").split("\n")
+  const candidates: ImportCandidate[] = []
+  let current: { fn: string; n: string; phones: string[]; email: string | null } | null = null
+
+  for (const line of lines) {
+    const separator = line.indexOf(":")
+    if (separator === -1) continue
+
+    // Drop "item1." style group prefixes and any parameters such as ";TYPE=CELL"
+    const key = line.slice(0, separator).split(";")[0].replace(/^[^.]*\./, "").toUpperCase()
+    const value = line.slice(separator + 1)
+
+    if (key === "BEGIN" && value.trim().toUpperCase() === "VCARD") {
+      current = { fn: "", n: "", phones: [], email: null }
+    } else if (!current) {
+      continue
+    } else if (key === "END") {
+      const name = current.fn || current.n
+      if (name && current.phones.length > 0) {
+        candidates.push({ name, phones: current.phones, email: current.email })
+      }
+      current = null
+    } else if (key === "FN") {
+      current.fn = unescapeVCardValue(value)
+    } else if (key === "N") {
+      // Family;Given;Additional;Prefix;Suffix
+      const [family = "", given = ""] = value.split(";")
+      current.n = unescapeVCardValue(`${given} ${family}`)
+    } else if (key === "TEL") {
+      const phone = unescapeVCardValue(value.replace(/^tel:/i, ""))
+      if (phone && !current.phones.includes(phone)) current.phones.push(phone)
+    } else if (key === "EMAIL" && !current.email) {
+      current.email = unescapeVCardValue(value) || null
+    }
+  }
+
+  return candidates
+}
+
+// The Contact Picker API is only available in some mobile browsers (e.g. Chrome on Android)
+interface ContactsManager {
+  getProperties?(): Promise<string[]>
+  select(
+    properties: Array<"name" | "tel" | "email">,
+    options?: { multiple?: boolean }
+  ): Promise<Array<{ name?: string[]; tel?: string[]; email?: string[] }>>
+}
+
+function contactsManager(): ContactsManager | null {
+  return (navigator as Navigator & { contacts?: ContactsManager }).contacts ?? null
+}
+
+export function isContactPickerSupported(): boolean {
+  return typeof navigator !== "undefined" && !!contactsManager()
+}
+
+export async function pickDeviceContacts(): Promise<ImportCandidate[]> {
+  const manager = contactsManager()
+  if (!manager) throw new Error("Contact Picker is not supported in this browser")
+
+  // Not every implementation offers email
+  const supported = (await manager.getProperties?.()) ?? ["name", "tel"]
+  const properties = (["name", "tel", "email"] as const).filter(property => supported.includes(property))
+
+  const picked = await manager.select([...properties], { multiple: true })
+  return picked
+    .map(contact => ({
+      name: contact.name?.[0]?.trim() ?? "",
+      phones: Array.from(new Set(contact.tel ?? [])),
+      email: contact.email?.[0] ?? null,
+    }))
+    .filter(contact => contact.name && contact.phones.length > 0)
+}
+
+/**
+ * Whether a candidate is already in the circle: the same normalised phone
+ * number, or the same email address.
+ */
+export function isDuplicateContact(
+  candidate: { phone: string | null; email: string | null },
+  existing: ExistingContact[]
+): boolean {
+  return existing.some(contact => {
+    const phone = normalizePhone(contact.phone) ?? contact.phone
+    if (candidate.phone && phone === candidate.phone) return true
+    return !!candidate.email && !!contact.email && contact.email.toLowerCase() === candidate.email.toLowerCase()
+  })
+}
+
+export function remainingContactSlots(existingCount: number): number {
+  return Math.max(0, MAX_CONTACTS - existingCount)
+}
@@ -0,0 +1,195 @@
+import { supabase } from "@/integrations/supabase/client"
+import type { Json, Tables } from "@/integrations/supabase/types"
+
+export type MediaEvidence = Tables<"media_evidence">
+export type EvidenceAccessLogEntry = Tables<"media_evidence_access_log">
+
+// Evidence joined with its incident's status, as listed in the recordings manager
+export type EvidenceRecord = MediaEvidence & { sos_incidents: { status: string } | null }
+
+export interface CaptureLocation {
+  latitude: number
+  longitude: number
+  accuracy: number
+}
+
+// A fix from the last minute is good enough, and capture must not wait on GPS for long
+const CAPTURE_LOCATION_TIMEOUT_MS = 5000
+const CAPTURE_LOCATION_MAX_AGE_MS = 60000
+
+export async function sha256Hex(blob: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", await blob.arrayBuffer())
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, "0")).join("")
+}
+
+export function getDeviceInfo(): Record<string, string | number> {
+  return {
+    user_agent: navigator.userAgent,
+    platform: navigator.platform,
+    language: navigator.language,
+    screen: `${window.screen.width}x${window.screen.height}`,
+    timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    hardware_concurrency: navigator.hardwareConcurrency ?? 0,
+  }
+}
+
+// Where the device was when recording started, or null if it can't be told quickly
+export function getCaptureLocation(): Promise<CaptureLocation | null> {
+  if (!navigator.geolocation) return Promise.resolve(null)
+
+  return new Promise(resolve => {
+    navigator.geolocation.getCurrentPosition(
+      position => resolve({
+        latitude: position.coords.latitude,
+        longitude: position.coords.longitude,
+        accuracy: position.coords.accuracy,
+      }),
+      () => resolve(null),
+      { enableHighAccuracy: true, timeout: CAPTURE_LOCATION_TIMEOUT_MS, maximumAge: CAPTURE_LOCATION_MAX_AGE_MS }
+    )
+  })
+}
+
+interface RegisterEvidenceOptions {
+  userId: string
+  storagePath: string
+  mediaType: "audio" | "video"
+  blob: Blob
+  capturedAt: Date
+  location: CaptureLocation | null
+  incidentId?: string | null
+}
+
+/**
+ * Records an uploaded file in the evidence locker. The hash is taken from the
+ * bytes recorded on this device, so the stored copy can later be checked
+ * against it. Rows are immutable once written.
+ */
+export async function registerEvidence(options: RegisterEvidenceOptions): Promise<MediaEvidence> {
+  const sha256 = await sha256Hex(options.blob)
+
+  const { data, error } = await supabase
+    .from("media_evidence")
+    .insert({
+      user_id: options.userId,
+      incident_id: options.incidentId ?? null,
+      storage_path: options.storagePath,
+      media_type: options.mediaType,
+      sha256,
+      size_bytes: options.blob.size,
+      captured_at: options.capturedAt.toISOString(),
+      device_info: getDeviceInfo(),
+      latitude: options.location?.latitude ?? null,
+      longitude: options.location?.longitude ?? null,
+      accuracy: options.location?.accuracy ?? null,
+    })
+    .select()
+    .single()
+
+  if (error) throw error
+  return data
+}
+
+// Locked evidence belongs to an incident that is still open and cannot be deleted
+export function isEvidenceLocked(evidence: EvidenceRecord): boolean {
+  return evidence.sos_incidents?.status === "active"
+}
+
+export async function fetchEvidence(userId: string): Promise<EvidenceRecord[]> {
+  const { data, error } = await supabase
+    .from("media_evidence")
+    .select("*, sos_incidents(status)")
+    .eq("user_id", userId)
+    .order("captured_at", { ascending: false })
+
+  if (error) throw error
+  return data ?? []
+}
+
+export async function logEvidenceAccess(evidence: MediaEvidence, action: "viewed" | "exported", details: Json = {}) {
+  const { error } = await supabase
+    .from("media_evidence_access_log")
+    .insert({
+      evidence_id: evidence.id,
+      user_id: evidence.user_id,
+      storage_path: evidence.storage_path,
+      sha256: evidence.sha256,
+      actor: "owner",
+      action,
+      details,
+    })
+
+  if (error) {
+    console.error("Error logging evidence access:", error)
+  }
+}
+
+/**
+ * Builds a report for one recording: its capture metadata, whether the stored
+ * file still matches the hash taken at capture, and the full chain of custody.
+ * The export itself is logged before the log is read, so it appears in the report.
+ */
+export async function buildEvidenceReport(evidence: EvidenceRecord) {
+  await logEvidenceAccess(evidence, "exported")
+
+  const [{ data: file, error: downloadError }, { data: accessLog, error: logError }] = await Promise.all([
+    supabase.storage.from("emergency-media").download(evidence.storage_path),
+    supabase
+      .from("media_evidence_access_log")
+      .select("*")
+      .eq("evidence_id", evidence.id)
+      .order("created_at", { ascending: true }),
+  ])
+
+  if (logError) throw logError
+  if (downloadError) {
+    console.error("Error downloading evidence for verification:", downloadError)
+  }
+
+  const currentSha256 = file ? await sha256Hex(file) : null
+
+  return {
+    generated_at: new Date().toISOString(),
+    evidence: {
+      id: evidence.id,
+      storage_path: evidence.storage_path,
+      media_type: evidence.media_type,
+      size_bytes: evidence.size_bytes,
+      captured_at: evidence.captured_at,
+      registered_at: evidence.created_at,
+      incident_id: evidence.incident_id,
+      incident_status: evidence.sos_incidents?.status ?? null,
+      device_info: evidence.device_info,
+      location: evidence.latitude !== null && evidence.longitude !== null
+        ? { latitude: evidence.latitude, longitude: evidence.longitude, accuracy: evidence.accuracy }
+        : null,
+    },
+    integrity: {
+      algorithm: "SHA-256",
+      recorded_sha256: evidence.sha256,
+      current_sha256: currentSha256,
+      intact: currentSha256 === evidence.sha256,
+    },
+    access_log: (accessLog ?? []).map(entry => ({
+      at: entry.created_at,
+      actor: entry.actor,
+      action: entry.action,
+      sha256: entry.sha256,
+      details: entry.details,
+    })),
+  }
+}
+
+export async function downloadEvidenceReport(evidence: EvidenceRecord) {
+  const report = await buildEvidenceReport(evidence)
+  const blob = new Blob([JSON.stringify(report, null, 2)], { type: "application/json" })
+  const url = URL.createObjectURL(blob)
+
+  const link = document.createElement("a")
+  link.href = url
+  link.download = `evidence-report-${evidence.id}.json`
+  link.click()
+  URL.revokeObjectURL(url)
+
+  return report
+}
@@ -0,0 +1,51 @@
+import type { Tables } from "@/integrations/supabase/types"
+
+export type IncidentEvent = Tables<"incident_events">
+
+type EventDetails = {
+  contact_name?: string
+  channel?: string
+  purpose?: string
+  media_type?: string
+  error?: string | null
+  status?: string
+  attempt?: number
+  level?: number
+  contact_count?: number
+}
+
+// Human-readable one-liner for an incident timeline entry
+export function describeIncidentEvent(event: IncidentEvent): string {
+  const details = (event.details ?? {}) as EventDetails
+  const followUp = details.purpose === "all_clear" ? "\"I'm safe\" follow-up" : "SOS alert"
+
+  switch (event.event_type) {
+    case "triggered":
+      return "Emergency SOS alert activated"
+    case "notification_sent":
+      return `${followUp} delivered to ${details.contact_name || "contact"} via ${details.channel || "email"}${details.attempt ? ` (retry ${details.attempt - 1})` : ""}`
+    case "notification_failed":
+      return `${followUp} to ${details.contact_name || "contact"} failed${details.error ? `: ${details.error}` : ""}`
+    case "media_uploaded":
+      return `${details.media_type === "video" ? "Video" : "Audio"} recording attached`
+    case "location_point":
+      return "Live location updated"
+    case "acknowledged":
+      return `${details.contact_name || "A trusted contact"} acknowledged the alert${details.channel === "link" ? " from the alert link" : ""}`
+    case "escalated":
+      if (details.level === 1) return `No response yet. Alert sent to ${details.contact_count ?? 0} more contact${details.contact_count === 1 ? "" : "s"}`
+      if (details.level === 2) return "No response yet. Alert re-sent with your latest location"
+      return "No response yet. Prompted you to call 112/100"
+    case "resolved":
+      return "Incident resolved. You marked yourself safe"
+    case "false_alarm":
+      return "Incident closed as a false alarm"
+    default:
+      return event.event_type
+  }
+}
+
+// Whether an event should be highlighted as an emergency in feeds
+export function isAlertEvent(event: IncidentEvent): boolean {
+  return event.event_type === "triggered" || event.event_type === "notification_failed" || event.event_type === "escalated"
+}
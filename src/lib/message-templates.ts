@@ -0,0 +1,53 @@
+import type { Tables } from "@/integrations/supabase/types"
+
+export type SavedMessageTemplate = Tables<"message_templates">
+
+export interface MessageTemplate {
+  id: string
+  name: string
+  subject: string | null
+  body: string
+  builtIn: boolean
+}
+
+// Filled in for each recipient by send-broadcast-message and send-individual-message
+export const TEMPLATE_PLACEHOLDERS = [
+  { token: "{name}", description: "Contact's name" },
+  { token: "{location_link}", description: "Map link to your current location" },
+  { token: "{time}", description: "Time the message is sent" },
+  { token: "{battery}", description: "Your phone's battery level" },
+] as const
+
+export type TemplatePlaceholder = (typeof TEMPLATE_PLACEHOLDERS)[number]["token"]
+
+export const BUILT_IN_TEMPLATES: MessageTemplate[] = [
+  {
+    id: "builtin-reached-safely",
+    name: "Reached safely",
+    subject: "I've reached safely",
+    body: "Hi {name}, I've reached safely at {time}. Location: {location_link}",
+    builtIn: true,
+  },
+  {
+    id: "builtin-running-late",
+    name: "Running late",
+    subject: "Running late",
+    body: "Hi {name}, I'm running late but I'm okay. I'll update you soon. Current location: {location_link}",
+    builtIn: true,
+  },
+  {
+    id: "builtin-feeling-unsafe",
+    name: "Feeling unsafe, call me",
+    subject: "Please call me now",
+    body: "{name}, I'm feeling unsafe. Please call me right away. My location: {location_link} (sent {time}, battery {battery})",
+    builtIn: true,
+  },
+]
+
+export function usesPlaceholder(text: string, placeholder: TemplatePlaceholder): boolean {
+  return text.includes(placeholder)
+}
+
+export function toMessageTemplate(template: SavedMessageTemplate): MessageTemplate {
+  return { id: template.id, name: template.name, subject: template.subject, body: template.body, builtIn: false }
+}
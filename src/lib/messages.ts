@@ -0,0 +1,33 @@
+import type { Tables } from "@/integrations/supabase/types"
+
+export type Message = Tables<"messages">
+
+// Who is looking at a conversation: the user who owns the circle, or the
+// trusted contact (through their linked account)
+export type ThreadViewer = "owner" | "contact"
+
+// Enough history for a conversation; older messages stay in the database
+export const THREAD_HISTORY_LIMIT = 200
+
+export function isOwnMessage(message: Pick<Message, "direction">, viewer: ThreadViewer): boolean {
+  return viewer === "owner" ? message.direction === "outbound" : message.direction === "inbound"
+}
+
+// Unread messages from the other side, per contact
+export function unreadByContact(
+  messages: Array<Pick<Message, "contact_id" | "direction" | "read_at">>,
+  viewer: ThreadViewer
+): Record<string, number> {
+  return messages.reduce<Record<string, number>>((counts, message) => {
+    if (!message.read_at && !isOwnMessage(message, viewer)) {
+      counts[message.contact_id] = (counts[message.contact_id] ?? 0) + 1
+    }
+    return counts
+  }, {})
+}
+
+export const CHANNEL_LABELS: Record<string, string> = {
+  app: "in the app",
+  email: "by email",
+  sms: "by SMS",
+}
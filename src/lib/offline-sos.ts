@@ -0,0 +1,115 @@
+import { supabase } from "@/integrations/supabase/client"
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL || ""
+const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_ANON_KEY || ""
+const PRIMARY_CONTACTS_KEY = "womensafe.primary-contacts"
+
+export interface FallbackContact {
+  name: string
+  phone: string
+}
+
+export type OfflineSosMessage =
+  | { type: "SOS_QUEUED"; id: number }
+  | { type: "SOS_DISPATCHED"; id: number; data: { incident_id?: string; contacts_notified?: number } }
+  | { type: "SOS_FAILED"; id: number; error: string }
+  // Still queued: the stored session expired, so it needs a replay with fresh headers
+  | { type: "SOS_AUTH_REQUIRED"; retried: boolean }
+
+// Registered in production only so the dev server keeps hot reloading
+export function registerServiceWorker() {
+  if (!("serviceWorker" in navigator) || !import.meta.env.PROD) return
+
+  window.addEventListener("load", () => {
+    navigator.serviceWorker.register("/sw.js").catch((error) => {
+      console.error("Service worker registration failed:", error)
+    })
+  })
+}
+
+async function functionHeaders(): Promise<Record<string, string>> {
+  const { data: { session } } = await supabase.auth.getSession()
+  return {
+    "Content-Type": "application/json",
+    apikey: SUPABASE_ANON_KEY,
+    Authorization: `Bearer ${session?.access_token ?? SUPABASE_ANON_KEY}`,
+  }
+}
+
+// Hand an SOS request to the service worker to send once we're back online.
+// Resolves false when no service worker is available to hold it.
+export async function queueSosDispatch(body: Record<string, unknown>): Promise<boolean> {
+  if (!("serviceWorker" in navigator) || !navigator.serviceWorker.controller) return false
+
+  const { data: { session } } = await supabase.auth.getSession()
+  const registration = await navigator.serviceWorker.ready
+  registration.active?.postMessage({
+    type: "QUEUE_SOS",
+    request: {
+      // Only this user's session may send it later
+      user_id: session?.user.id ?? null,
+      url: `${SUPABASE_URL}/functions/v1/send-emergency-notification`,
+      headers: await functionHeaders(),
+      body,
+    },
+  })
+  return true
+}
+
+// Replay what the signed-in user queued, with a fresh session token. Needed
+// where Background Sync is unsupported, harmless where it is.
+export async function replayQueuedSos() {
+  if (!("serviceWorker" in navigator) || !navigator.serviceWorker.controller) return
+
+  const { data: { session } } = await supabase.auth.getSession()
+  if (!session) return
+
+  const registration = await navigator.serviceWorker.ready
+  registration.active?.postMessage({
+    type: "REPLAY_SOS",
+    session: { user_id: session.user.id, headers: await functionHeaders() },
+  })
+}
+
+export function onOfflineSosMessage(handler: (message: OfflineSosMessage) => void): () => void {
+  if (!("serviceWorker" in navigator)) return () => {}
+
+  const listener = (event: MessageEvent) => {
+    if (typeof event.data?.type === "string" && event.data.type.startsWith("SOS_")) {
+      handler(event.data as OfflineSosMessage)
+    }
+  }
+  navigator.serviceWorker.addEventListener("message", listener)
+  return () => navigator.serviceWorker.removeEventListener("message", listener)
+}
+
+// Whether a failed invoke looks like a connectivity problem rather than a server error
+export function isNetworkFailure(error: unknown): boolean {
+  return !navigator.onLine || (error as { name?: string } | null)?.name === "FunctionsFetchError"
+}
+
+// Primary contacts are cached locally so the SMS fallback works with no network
+export function cachePrimaryContacts(contacts: FallbackContact[]) {
+  localStorage.setItem(PRIMARY_CONTACTS_KEY, JSON.stringify(contacts))
+}
+
+export function getCachedPrimaryContacts(): FallbackContact[] {
+  try {
+    return JSON.parse(localStorage.getItem(PRIMARY_CONTACTS_KEY) || "[]")
+  } catch {
+    return []
+  }
+}
+
+// sms: URI that opens the native messaging app with the alert prefilled
+export function buildSmsLink(phones: string[], text: string): string {
+  return `sms:${phones.join(",")}?body=${encodeURIComponent(text)}`
+}
+
+export function buildSosSmsText(latitude?: number, longitude?: number): string {
+  let text = "SOS! I need immediate help."
+  if (latitude && longitude) {
+    text += ` My location: https://maps.google.com/maps?q=${latitude},${longitude}`
+  }
+  return `${text} Call 100/1091 if you cannot reach me.`
+}
@@ -0,0 +1,42 @@
+import type { Tables } from "@/integrations/supabase/types"
+
+export type ScheduledMessage = Tables<"scheduled_messages">
+
+export type Recurrence = "once" | "daily" | "weekdays" | "weekly"
+
+export const RECURRENCE_LABELS: Record<Recurrence, string> = {
+  once: "Once",
+  daily: "Every day",
+  weekdays: "Every weekday (Mon–Fri)",
+  weekly: "On chosen days",
+}
+
+// Indexed like Postgres extract(dow): 0 is Sunday
+export const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"]
+
+// Matches the column default, for browsers that do not report a time zone
+export const DEFAULT_SCHEDULE_TIMEZONE = "Asia/Kolkata"
+
+// Recurring times are wall-clock times in the zone the schedule was created in
+export function browserTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || DEFAULT_SCHEDULE_TIMEZONE
+}
+
+const formatTime = (time: string) => time.slice(0, 5)
+
+export function describeSchedule(schedule: Pick<ScheduledMessage, "recurrence" | "send_at" | "send_time" | "days_of_week" | "timezone">): string {
+  switch (schedule.recurrence) {
+    case "once":
+      return schedule.send_at
+        ? `Once, ${new Date(schedule.send_at).toLocaleString("en-IN", { timeZone: schedule.timezone, dateStyle: "medium", timeStyle: "short" })}`
+        : "Once"
+    case "daily":
+      return `Every day at ${formatTime(schedule.send_time ?? "")}`
+    case "weekdays":
+      return `Every weekday at ${formatTime(schedule.send_time ?? "")}`
+    case "weekly":
+      return `Every ${(schedule.days_of_week ?? []).map(day => WEEKDAY_LABELS[day]).join(", ")} at ${formatTime(schedule.send_time ?? "")}`
+    default:
+      return schedule.recurrence
+  }
+}
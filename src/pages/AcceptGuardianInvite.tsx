@@ -0,0 +1,73 @@
+import React, { useState, useEffect } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { supabase } from '@/integrations/supabase/client';
+import { ShieldCheck, ShieldAlert } from 'lucide-react';
+
+// Landing page for the invite link an Abhaya user shares with a trusted contact
+const AcceptGuardianInvite: React.FC = () => {
+  const { token } = useParams<{ token: string }>();
+  const navigate = useNavigate();
+  const [ownerName, setOwnerName] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const acceptInvite = async () => {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) {
+        navigate(`/auth?redirect=${encodeURIComponent(`/guardian/invite/${token}`)}`);
+        return;
+      }
+
+      const { data, error } = await supabase.rpc('accept_contact_invite', { p_token: token ?? '' });
+
+      if (error) {
+        console.error('Error accepting guardian invite:', error);
+        setError(error.message);
+      } else {
+        setOwnerName(data?.[0]?.owner_name ?? 'Someone');
+      }
+      setLoading(false);
+    };
+
+    acceptInvite();
+  }, [token, navigate]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center bg-slate-50 dark:bg-slate-900">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-4 border-rose-500"></div>
+        <p className="mt-4 text-sm font-medium text-slate-500">Linking your account...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-slate-50 dark:bg-slate-950 p-4">
+      <Card className="max-w-md text-center">
+        <CardHeader>
+          {error ? (
+            <ShieldAlert className="h-10 w-10 text-slate-400 mx-auto mb-2" />
+          ) : (
+            <ShieldCheck className="h-10 w-10 text-emerald-500 mx-auto mb-2" />
+          )}
+          <CardTitle>{error ? 'Invite unavailable' : `You are now ${ownerName}'s guardian`}</CardTitle>
+          <CardDescription>
+            {error
+              ? `${error}. Ask them to send you a new invite link from their Trusted Circle.`
+              : `You'll see ${ownerName}'s live status and location during an SOS, and can acknowledge their alerts from Guardian Mode.`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button onClick={() => navigate('/dashboard', { state: { tab: 'guardian' } })}>
+            Open Guardian Mode
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AcceptGuardianInvite;
@@ -0,0 +1,92 @@
+import React, { useState, useEffect } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { supabase } from '@/integrations/supabase/client';
+import { CheckCircle, ShieldAlert, Navigation } from 'lucide-react';
+
+interface AcknowledgedAlert {
+  display_name: string | null;
+  contact_name: string;
+  status: string;
+  tracking_token: string | null;
+  acknowledged_at: string | null;
+}
+
+// Public landing page for the "I'm responding" link in an SOS email or SMS
+const AcknowledgeAlert: React.FC = () => {
+  const { token } = useParams<{ token: string }>();
+  const [alert, setAlert] = useState<AcknowledgedAlert | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const acknowledge = async () => {
+      const { data, error } = await supabase.rpc('acknowledge_alert', { p_token: token ?? '' });
+
+      if (error) {
+        console.error('Error acknowledging alert:', error);
+        setError(error.message);
+      } else if (!data || data.length === 0) {
+        setError('This link is invalid');
+      } else {
+        setAlert(data[0]);
+      }
+      setLoading(false);
+    };
+
+    acknowledge();
+  }, [token]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center bg-slate-50 dark:bg-slate-900">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-4 border-rose-500"></div>
+        <p className="mt-4 text-sm font-medium text-slate-500">Letting them know you're responding...</p>
+      </div>
+    );
+  }
+
+  const name = alert?.display_name || 'They';
+  const isActive = alert?.status === 'active';
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-slate-50 dark:bg-slate-950 p-4">
+      <Card className="max-w-md text-center">
+        <CardHeader>
+          {error || !isActive ? (
+            <ShieldAlert className="h-10 w-10 text-slate-400 mx-auto mb-2" />
+          ) : (
+            <CheckCircle className="h-10 w-10 text-emerald-500 mx-auto mb-2" />
+          )}
+          <CardTitle>
+            {error
+              ? 'Link unavailable'
+              : isActive
+                ? `Thank you, ${alert?.contact_name}`
+                : 'This alert has been closed'}
+          </CardTitle>
+          <CardDescription>
+            {error
+              ? `${error}. If you received an SOS alert, call the person or the police (100) directly.`
+              : isActive
+                ? `${name} can now see that you are responding, and the alert will stop escalating. Please reach them or call the police (100) if you can't.`
+                : `${name} has closed this SOS incident.`}
+          </CardDescription>
+        </CardHeader>
+        {isActive && alert?.tracking_token && (
+          <CardContent>
+            <Button asChild>
+              <Link to={`/track/${alert.tracking_token}`}>
+                <Navigation className="h-4 w-4 mr-2" />
+                Follow live location
+              </Link>
+            </Button>
+          </CardContent>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+export default AcknowledgeAlert;
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -20,18 +20,25 @@ const Auth = () => {
     confirmPassword: ''
   });
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
   const { toast } = useToast();
 
+  // Pages such as a guardian invite send people here and expect them back afterwards
+  const redirectParam = searchParams.get('redirect');
+  const redirectPath = redirectParam && redirectParam.startsWith('/') && !redirectParam.startsWith('//')
+    ? redirectParam
+    : '/dashboard';
+
   useEffect(() => {
     // Check if user is already logged in
     const checkAuth = async () => {
       const { data: { session } } = await supabase.auth.getSession();
       if (session) {
-        navigate('/dashboard');
+        navigate(redirectPath);
       }
     };
     checkAuth();
-  }, [navigate]);
+  }, [navigate, redirectPath]);
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setFormData(prev => ({
@@ -62,7 +69,7 @@ const Auth = () => {
     }
 
     setLoading(true);
-    const redirectUrl = `${window.location.origin}/dashboard`;
+    const redirectUrl = `${window.location.origin}${redirectPath}`;
 
     const { error } = await supabase.auth.signUp({
       email: formData.email,
@@ -111,7 +118,7 @@ const Auth = () => {
         variant: "destructive",
       });
     } else {
-      navigate('/dashboard');
+      navigate(redirectPath);
     }
   };
 
@@ -1,22 +1,44 @@
-import React, { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import React, { useState, useEffect, useMemo } from 'react';
+import { useNavigate, useLocation } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { useToast } from '@/components/ui/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { 
   AlertCircle, Shield, Users, MapPin, Phone, LogOut, 
   CheckCircle, AlertTriangle, XCircle, Mic, Activity, 
-  Menu, X, Heart, ShieldAlert, Navigation, ChevronRight, Eye
+  Menu, X, Heart, ShieldAlert, Navigation, ChevronRight, Eye, History, Timer, Settings, ShieldCheck
 } from 'lucide-react';
 import EmergencyContacts from '@/components/EmergencyContacts';
 import GoogleMap from '@/components/GoogleMap';
 import NearbySafePlaces from '@/components/NearbySafePlaces';
 import AudioVideoMessage from '@/components/AudioVideoMessage';
 import BroadcastMessaging from '@/components/BroadcastMessaging';
+import ScheduledMessages from '@/components/ScheduledMessages';
 import IndividualChat from '@/components/IndividualChat';
+import DeliveryStatus from '@/components/DeliveryStatus';
+import IncidentPanel from '@/components/IncidentPanel';
+import IncidentHistory from '@/components/IncidentHistory';
+import GuardianMode from '@/components/GuardianMode';
+import OfflineSosFallback from '@/components/OfflineSosFallback';
+import SafetyCheckin from '@/components/SafetyCheckin';
+import SosSettings from '@/components/SosSettings';
+import { useSosLocationStream } from '@/hooks/use-sos-location-stream';
+import { useSafetyCheckin } from '@/hooks/use-safety-checkin';
+import { useUserSettings, getBatteryLevel } from '@/hooks/use-user-settings';
+import { useSosEvidenceCapture } from '@/hooks/use-sos-evidence-capture';
+import { useLastKnownLocation } from '@/hooks/use-last-known-location';
+import { describeIncidentEvent, isAlertEvent, type IncidentEvent } from '@/lib/incident-events';
+import {
+  buildSosSmsText, cachePrimaryContacts, isNetworkFailure,
+  onOfflineSosMessage, queueSosDispatch, replayQueuedSos
+} from '@/lib/offline-sos';
 import { User, Session } from '@supabase/supabase-js';
 
+// How long the user has to enter their PIN after pressing cancel
+const CANCEL_PIN_TIMEOUT_MS = 15000;
+
 const Dashboard = () => {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
@@ -32,15 +54,47 @@ const Dashboard = () => {
   });
   
   // New layout states
-  const [activeTab, setActiveTab] = useState<'overview' | 'map' | 'messages' | 'contacts' | 'helplines'>('overview');
+  // Other pages (e.g. an accepted guardian invite) can open a specific tab
+  const routerLocation = useLocation();
+  const [activeTab, setActiveTab] = useState<'overview' | 'map' | 'messages' | 'contacts' | 'history' | 'guardian' | 'helplines' | 'settings'>(
+    (routerLocation.state as { tab?: 'guardian' } | null)?.tab ?? 'overview'
+  );
   const [sosCountdown, setSosCountdown] = useState<number | null>(null);
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
-  const [activityLogs, setActivityLogs] = useState<Array<{ id: string; type: string; time: string; details: string }>>([
-    { id: '1', type: 'system', time: 'Just now', details: 'Dashboard updated and synchronized with Supabase' }
-  ]);
+  const [activeIncidentId, setActiveIncidentId] = useState<string | null>(null);
+  // Raised with the duress PIN: keep streaming, but never show it on screen
+  const [duressIncidentId, setDuressIncidentId] = useState<string | null>(null);
+  const [cancelPinOpen, setCancelPinOpen] = useState(false);
+  const [cancelPin, setCancelPin] = useState('');
+  const [cancellingSOS, setCancellingSOS] = useState(false);
+  const [activityLogs, setActivityLogs] = useState<IncidentEvent[]>([]);
+  const [offlineSos, setOfflineSos] = useState<{ smsText: string; queued: boolean } | null>(null);
 
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { status: locationStreamStatus, lastPoint: lastStreamedPoint } = useSosLocationStream(activeIncidentId, user?.id ?? null);
+  const userSettings = useUserSettings(user?.id ?? null);
+  const evidenceCapture = useSosEvidenceCapture(user?.id ?? null);
+  useLastKnownLocation(user?.id ?? null, userLocation);
+  const safetyCheckin = useSafetyCheckin(user?.id ?? null, (incidentId) => {
+    if (incidentId) {
+      setActiveIncidentId(incidentId);
+    }
+    toast({
+      title: "Check-in Missed",
+      description: "You didn't check in on time. Your trusted circle has been alerted with your route.",
+      variant: "destructive",
+    });
+  });
+  const checkinTrail = useMemo(
+    () => safetyCheckin.route.map(point => ({ lat: point.latitude, lng: point.longitude })),
+    [safetyCheckin.route]
+  );
+  const checkinDestination = useMemo(() => {
+    const checkin = safetyCheckin.checkin;
+    if (!checkin?.destination_latitude || !checkin.destination_longitude) return null;
+    return { lat: Number(checkin.destination_latitude), lng: Number(checkin.destination_longitude), name: checkin.destination_name };
+  }, [safetyCheckin.checkin]);
 
   // Haversine formula to calculate distance between coordinates
   const getDistance = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
@@ -121,6 +175,8 @@ const Dashboard = () => {
           navigate('/auth');
         } else if (session.user) {
           fetchUserProfile(session.user.id);
+          fetchActiveIncident(session.user.id);
+          fetchPrimaryContacts(session.user.id);
         }
       }
     );
@@ -133,6 +189,8 @@ const Dashboard = () => {
         navigate('/auth');
       } else {
         fetchUserProfile(session.user.id);
+        fetchActiveIncident(session.user.id);
+        fetchPrimaryContacts(session.user.id);
       }
       setLoading(false);
     });
@@ -158,6 +216,132 @@ const Dashboard = () => {
     }
   };
 
+  // Resume live location streaming for an incident left open by a previous session
+  const fetchActiveIncident = async (userId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('sos_incidents')
+        .select('id, is_duress')
+        .eq('user_id', userId)
+        .eq('status', 'active')
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error fetching active incident:', error);
+      } else {
+        setActiveIncidentId(data?.id ?? null);
+        setDuressIncidentId(data?.is_duress ? data.id : null);
+      }
+    } catch (error) {
+      console.error('Error:', error);
+    }
+  };
+
+  // Keep primary contacts on the device for the offline SMS fallback
+  const fetchPrimaryContacts = async (userId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('emergency_contacts')
+        .select('name, phone, is_primary')
+        .eq('user_id', userId)
+        .order('is_primary', { ascending: false });
+
+      if (error) {
+        console.error('Error fetching primary contacts:', error);
+      } else if (data) {
+        const primary = data.filter(contact => contact.is_primary);
+        const fallback = primary.length > 0 ? primary : data;
+        cachePrimaryContacts(fallback.map(({ name, phone }) => ({ name, phone })));
+      }
+    } catch (error) {
+      console.error('Error:', error);
+    }
+  };
+
+  // System feed is backed by the persisted incident timeline
+  const fetchActivityLogs = async (userId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('incident_events')
+        .select('*, sos_incidents!inner(is_duress)')
+        .eq('user_id', userId)
+        .eq('sos_incidents.is_duress', false)
+        .neq('event_type', 'location_point')
+        .order('created_at', { ascending: false })
+        .limit(15);
+
+      if (error) {
+        console.error('Error fetching activity feed:', error);
+      } else {
+        setActivityLogs(data || []);
+      }
+    } catch (error) {
+      console.error('Error:', error);
+    }
+  };
+
+  useEffect(() => {
+    if (user) {
+      fetchActivityLogs(user.id);
+    }
+  }, [user, activeIncidentId]);
+
+  // Recording starts before the incident exists, and a queued SOS only gets one
+  // once the service worker sends it, so attach whenever the incident appears
+  useEffect(() => {
+    if (activeIncidentId) {
+      evidenceCapture.attach(activeIncidentId);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [activeIncidentId]);
+
+  // SOS requests queued by the service worker while offline
+  useEffect(() => {
+    const unsubscribe = onOfflineSosMessage((message) => {
+      if (message.type === 'SOS_DISPATCHED') {
+        setOfflineSos(null);
+        if (message.data?.incident_id) {
+          setActiveIncidentId(message.data.incident_id);
+        }
+        toast({
+          title: "Queued SOS Dispatched",
+          description: `You are back online. Your alert was sent to ${message.data?.contacts_notified || 0} contacts.`,
+          variant: "destructive",
+        });
+      } else if (message.type === 'SOS_FAILED') {
+        toast({
+          title: "Queued SOS Failed",
+          description: `${message.error}. Please call 100 or 1091 directly.`,
+          variant: "destructive",
+        });
+      } else if (message.type === 'SOS_AUTH_REQUIRED') {
+        if (!message.retried) {
+          replayQueuedSos();
+        } else {
+          toast({
+            title: "Queued SOS Waiting",
+            description: "Sign in again to send your queued alert, or call 100 or 1091 directly.",
+            variant: "destructive",
+          });
+        }
+      }
+    });
+
+    // Send anything queued in an earlier session, now with this session's token
+    replayQueuedSos();
+
+    const handleOnline = () => { replayQueuedSos(); };
+    window.addEventListener('online', handleOnline);
+
+    return () => {
+      unsubscribe();
+      window.removeEventListener('online', handleOnline);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
   const handleSignOut = async () => {
     const { error } = await supabase.auth.signOut();
     if (error) {
@@ -171,9 +355,9 @@ const Dashboard = () => {
     }
   };
 
-  // SOS Countdown Hook
+  // SOS Countdown Hook (paused while the cancel PIN is being entered)
   useEffect(() => {
-    if (sosCountdown === null) return;
+    if (sosCountdown === null || cancelPinOpen) return;
 
     if (sosCountdown === 0) {
       setSosCountdown(null);
@@ -186,13 +370,34 @@ const Dashboard = () => {
     }, 1000);
 
     return () => clearTimeout(timer);
-  }, [sosCountdown]);
+  }, [sosCountdown, cancelPinOpen]);
+
+  // No PIN in time means the alert goes out
+  useEffect(() => {
+    if (!cancelPinOpen) return;
+
+    const timer = setTimeout(() => {
+      setCancelPinOpen(false);
+      setCancelPin('');
+      setSosCountdown(0);
+    }, CANCEL_PIN_TIMEOUT_MS);
+
+    return () => clearTimeout(timer);
+  }, [cancelPinOpen]);
 
   const handleSOSClick = () => {
-    setSosCountdown(3);
+    const countdown = userSettings.settings.sos_countdown_seconds;
+
+    // A zero-second countdown sends straight away, without the cancel overlay
+    if (countdown <= 0) {
+      triggerSOS();
+      return;
+    }
+
+    setSosCountdown(countdown);
     toast({
       title: "SOS Countdown Triggered",
-      description: "Emergency alert will send in 3 seconds. Click Cancel if accidental.",
+      description: `Emergency alert will send in ${countdown} seconds. Click Cancel if accidental.`,
       variant: "destructive",
     });
   };
@@ -205,56 +410,111 @@ const Dashboard = () => {
     });
   };
 
-  const triggerSOS = async () => {
-    if (!user) return;
+  // Cancelling needs the safety PIN once one is set, so nobody can force a cancel
+  const handleCancelClick = async () => {
+    setCancelPinOpen(true);
+    setCancelPin('');
 
-    // Log the SOS trigger activity
-    setActivityLogs(prev => [
-      { id: Date.now().toString(), type: 'sos', time: 'Just now', details: 'Emergency SOS alert activated' },
-      ...prev
-    ]);
+    const { data: hasPin, error } = await supabase.rpc('has_safety_pin');
+    if (error) {
+      console.error('Error checking safety PIN:', error);
+    }
 
-    try {
-      navigator.geolocation.getCurrentPosition(
-        async (position) => {
-          const { latitude, longitude } = position.coords;
-          
-          const { data, error } = await supabase.functions.invoke('send-emergency-notification', {
-            body: {
-              user_id: user.id,
-              latitude: latitude,
-              longitude: longitude,
-              message: "Emergency SOS activated! I need immediate help."
-            }
-          });
+    if (!error && !hasPin) {
+      setCancelPinOpen(false);
+      cancelSOS();
+    }
+  };
 
-          if (error) throw error;
+  const submitCancelPin = async () => {
+    if (!user) return;
 
-          toast({
-            title: "SOS Alert Dispatched",
-            description: `Emergency alert successfully sent to ${data?.contacts_notified || 0} contacts.`,
-            variant: "destructive",
-          });
-        },
-        async (error) => {
-          console.error('Geolocation error:', error);
-          
-          const { data } = await supabase.functions.invoke('send-emergency-notification', {
-            body: {
-              user_id: user.id,
-              message: "Emergency SOS activated! I need immediate help. (Location unavailable)"
-            }
-          });
+    setCancellingSOS(true);
 
+    try {
+      // A duress PIN returns the same response; the server raises the alert
+      const { error } = await supabase.functions.invoke('cancel-sos-countdown', {
+        body: {
+          pin: cancelPin,
+          latitude: userLocation?.lat,
+          longitude: userLocation?.lng
+        }
+      });
+
+      if (error) {
+        // A wrong PIN can be retried until the cancel window runs out
+        if ((error as { context?: Response }).context?.status === 403) {
+          setCancelPin('');
           toast({
-            title: "SOS Alert Dispatched",
-            description: `Alert sent to ${data?.contacts_notified || 0} contacts without coordinates.`,
+            title: "Incorrect PIN",
+            description: "Try again before the alert is sent.",
             variant: "destructive",
           });
+          return;
         }
-      );
+        throw error;
+      }
+
+      setCancelPinOpen(false);
+      setCancelPin('');
+      cancelSOS();
+      fetchActiveIncident(user.id);
+    } catch (error) {
+      console.error('Error cancelling SOS:', error);
+      setCancelPinOpen(false);
+      setCancelPin('');
+      setSosCountdown(0);
+      toast({
+        title: "SOS Not Cancelled",
+        description: "The PIN could not be verified, so your alert is being sent.",
+        variant: "destructive",
+      });
+    } finally {
+      setCancellingSOS(false);
+    }
+  };
+
+  // Send the SOS, or hand it to the service worker when there is no connection
+  const dispatchSOS = async (body: Record<string, unknown>, smsText: string) => {
+    try {
+      if (!navigator.onLine) {
+        throw new Error('Device is offline');
+      }
+
+      const { data, error } = await supabase.functions.invoke('send-emergency-notification', { body });
+
+      if (error) throw error;
+
+      if (data?.incident_id) {
+        setActiveIncidentId(data.incident_id);
+      }
+
+      toast({
+        title: "SOS Alert Dispatched",
+        description: body.latitude
+          ? `Emergency alert successfully sent to ${data?.contacts_notified || 0} contacts (${data?.emails_sent || 0} emails, ${data?.sms_sent || 0} SMS).`
+          : `Alert sent to ${data?.contacts_notified || 0} contacts without coordinates.`,
+        variant: "destructive",
+      });
     } catch (error) {
       console.error('SOS error:', error);
+
+      if (isNetworkFailure(error)) {
+        const queued = await queueSosDispatch({
+          ...body,
+          message: `${body.message} (Sent while offline at ${new Date().toLocaleTimeString('en-IN', { timeZone: 'Asia/Kolkata' })})`
+        });
+        setOfflineSos({ smsText, queued });
+        toast({
+          title: queued ? "SOS Queued" : "SOS Transmission Failed",
+          description: queued
+            ? "No connection. Your alert will be sent automatically once you are back online."
+            : "No connection. Text your contacts or call 100 / 1091 directly.",
+          variant: "destructive",
+        });
+        return;
+      }
+
       toast({
         title: "SOS Transmission Failed",
         description: "Please call 100 or 1091 directly.",
@@ -263,6 +523,41 @@ const Dashboard = () => {
     }
   };
 
+  const triggerSOS = async () => {
+    if (!user) return;
+
+    const { default_sos_message: message, include_battery_level, auto_record_audio, auto_capture_type } = userSettings.settings;
+
+    // Start recording straight away; segments attach once the incident exists
+    if (auto_record_audio) {
+      evidenceCapture.start(auto_capture_type === 'video' ? 'video' : 'audio');
+    }
+
+    const batteryLevel = include_battery_level ? await getBatteryLevel() : null;
+
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        const { latitude, longitude, accuracy } = position.coords;
+
+        dispatchSOS({
+          latitude: latitude,
+          longitude: longitude,
+          accuracy: accuracy,
+          message: message,
+          battery_level: batteryLevel
+        }, buildSosSmsText(latitude, longitude));
+      },
+      (error) => {
+        console.error('Geolocation error:', error);
+
+        dispatchSOS({
+          message: `${message} (Location unavailable)`,
+          battery_level: batteryLevel
+        }, buildSosSmsText());
+      }
+    );
+  };
+
   const handleLocationChange = (location: { lat: number; lng: number }) => {
     setUserLocation(location);
     if (nearestSafePlaces.length > 0) {
@@ -333,13 +628,16 @@ const Dashboard = () => {
     { id: 'map', name: 'Tracking & Safe Places', icon: <MapPin className="h-5 w-5" /> },
     { id: 'messages', name: 'Emergency Media & Alerts', icon: <Mic className="h-5 w-5" /> },
     { id: 'contacts', name: 'Trusted Circle', icon: <Users className="h-5 w-5" /> },
+    { id: 'history', name: 'Incident History', icon: <History className="h-5 w-5" /> },
+    { id: 'guardian', name: 'Guardian Mode', icon: <ShieldCheck className="h-5 w-5" /> },
     { id: 'helplines', name: 'Help Dials', icon: <Phone className="h-5 w-5" /> },
+    { id: 'settings', name: 'Settings', icon: <Settings className="h-5 w-5" /> },
   ] as const;
 
   return (
     <div className="min-h-screen bg-slate-50 dark:bg-slate-950 flex flex-col md:flex-row text-slate-900 dark:text-slate-100">
       
-      {/* 3-Second SOS Countdown Overlay */}
+      {/* SOS Countdown Overlay */}
       {sosCountdown !== null && (
         <div className="fixed inset-0 bg-slate-950/90 backdrop-blur-md z-50 flex flex-col items-center justify-center animate-fade-in">
           <div className="relative flex flex-col items-center justify-center p-8 text-center space-y-6 max-w-sm">
@@ -356,14 +654,43 @@ const Dashboard = () => {
               Your trusted contacts and emergency services will receive your live location coordinates in a few seconds.
             </p>
             
-            <Button 
-              size="lg" 
-              variant="outline" 
-              onClick={cancelSOS}
-              className="w-full bg-white/10 hover:bg-white/20 border-white/20 text-white font-bold relative z-10 transition-transform active:scale-95"
-            >
-              CANCEL ALERT
-            </Button>
+            {cancelPinOpen ? (
+              <div className="w-full space-y-3 relative z-10">
+                <Input
+                  type="password"
+                  inputMode="numeric"
+                  autoComplete="off"
+                  autoFocus
+                  maxLength={6}
+                  value={cancelPin}
+                  onChange={(e) => setCancelPin(e.target.value.replace(/\D/g, ''))}
+                  onKeyDown={(e) => { if (e.key === 'Enter' && cancelPin.length >= 4) submitCancelPin(); }}
+                  placeholder="Enter safety PIN"
+                  className="bg-white/10 border-white/20 text-white text-center text-lg tracking-widest placeholder:text-slate-400 placeholder:tracking-normal placeholder:text-sm"
+                />
+                <Button
+                  size="lg"
+                  variant="outline"
+                  onClick={submitCancelPin}
+                  disabled={cancellingSOS || cancelPin.length < 4}
+                  className="w-full bg-white/10 hover:bg-white/20 border-white/20 text-white font-bold transition-transform active:scale-95"
+                >
+                  {cancellingSOS ? 'VERIFYING...' : 'CONFIRM CANCEL'}
+                </Button>
+                <p className="text-slate-400 text-xs">
+                  The alert will be sent if no PIN is entered within {CANCEL_PIN_TIMEOUT_MS / 1000} seconds.
+                </p>
+              </div>
+            ) : (
+              <Button 
+                size="lg" 
+                variant="outline" 
+                onClick={handleCancelClick}
+                className="w-full bg-white/10 hover:bg-white/20 border-white/20 text-white font-bold relative z-10 transition-transform active:scale-95"
+              >
+                CANCEL ALERT
+              </Button>
+            )}
           </div>
         </div>
       )}
@@ -473,6 +800,27 @@ const Dashboard = () => {
         {activeTab === 'overview' && (
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 animate-fade-in">
             
+            {/* SOS that could not reach the server */}
+            {offlineSos && (
+              <OfflineSosFallback
+                smsText={offlineSos.smsText}
+                queued={offlineSos.queued}
+                onDismiss={() => setOfflineSos(null)}
+              />
+            )}
+
+            {/* Open SOS incident controls */}
+            {activeIncidentId && activeIncidentId !== duressIncidentId && user && (
+              <IncidentPanel
+                incidentId={activeIncidentId}
+                streamStatus={locationStreamStatus}
+                onClosed={() => {
+                  evidenceCapture.stop();
+                  fetchActiveIncident(user.id);
+                }}
+              />
+            )}
+
             {/* Top Interactive SOS Console */}
             <Card className="lg:col-span-2 overflow-hidden border-rose-500/20 bg-gradient-to-br from-rose-500/5 to-rose-600/0 relative shadow-md">
               <CardContent className="p-6 sm:p-8 flex flex-col sm:flex-row items-center justify-between gap-6">
@@ -510,6 +858,32 @@ const Dashboard = () => {
                     <span>SOS</span>
                   </button>
                   <span className="text-xs font-bold text-rose-500 mt-3 animate-pulse">TAP TO DISPATCH</span>
+                  {locationStreamStatus === 'streaming' && activeIncidentId !== duressIncidentId && (
+                    <span className="text-[10px] font-semibold text-slate-500 mt-1 flex items-center">
+                      <Navigation className="h-3 w-3 mr-1 text-rose-500" />
+                      Live location streaming
+                      {lastStreamedPoint && ` • ${new Date(lastStreamedPoint.recordedAt).toLocaleTimeString('en-IN', { timeZone: 'Asia/Kolkata' })}`}
+                    </span>
+                  )}
+                  {evidenceCapture.capturing && (
+                    <button
+                      onClick={evidenceCapture.stop}
+                      className="text-[10px] font-semibold text-slate-500 mt-1 flex items-center hover:text-rose-500"
+                      title="Stop recording"
+                    >
+                      <Mic className="h-3 w-3 mr-1 text-rose-500 animate-pulse" />
+                      Recording {evidenceCapture.capturing} evidence • {evidenceCapture.segmentsUploaded} clips uploaded
+                    </button>
+                  )}
+                  {safetyCheckin.checkin && (
+                    <button
+                      onClick={() => setActiveTab('map')}
+                      className="text-[10px] font-semibold text-slate-500 mt-1 flex items-center hover:text-rose-500"
+                    >
+                      <Timer className="h-3 w-3 mr-1 text-rose-500" />
+                      Check-in to {safetyCheckin.checkin.destination_name} due by {new Date(safetyCheckin.checkin.deadline_at).toLocaleTimeString('en-IN', { timeZone: 'Asia/Kolkata' })}
+                    </button>
+                  )}
                 </div>
               </CardContent>
             </Card>
@@ -592,12 +966,15 @@ const Dashboard = () => {
                 </CardHeader>
                 <CardContent className="p-0">
                   <div className="divide-y divide-slate-100 dark:divide-slate-800 max-h-56 overflow-y-auto">
+                    {activityLogs.length === 0 && (
+                      <p className="p-4 text-xs text-slate-400">No incident activity yet.</p>
+                    )}
                     {activityLogs.map((log) => (
                       <div key={log.id} className="p-4 flex items-start space-x-3 text-xs">
-                        <div className={`w-2 h-2 rounded-full mt-1.5 shrink-0 ${log.type === 'sos' ? 'bg-rose-500' : 'bg-blue-500'}`}></div>
+                        <div className={`w-2 h-2 rounded-full mt-1.5 shrink-0 ${isAlertEvent(log) ? 'bg-rose-500' : 'bg-blue-500'}`}></div>
                         <div className="flex-1">
-                          <p className="font-semibold text-slate-800 dark:text-slate-200">{log.details}</p>
-                          <span className="text-slate-400 text-[10px]">{log.time}</span>
+                          <p className="font-semibold text-slate-800 dark:text-slate-200">{describeIncidentEvent(log)}</p>
+                          <span className="text-slate-400 text-[10px]">{new Date(log.created_at).toLocaleString('en-IN', { timeZone: 'Asia/Kolkata' })}</span>
                         </div>
                       </div>
                     ))}
@@ -646,13 +1023,21 @@ const Dashboard = () => {
                   <GoogleMap 
                     onLocationChange={handleLocationChange}
                     safeZones={nearestSafePlaces}
+                    trail={safetyCheckin.checkin ? checkinTrail : []}
+                    destination={checkinDestination}
                   />
                 </CardContent>
               </Card>
             </div>
 
-            {/* Right side: Nearby list */}
-            <div className="h-full overflow-y-auto">
+            {/* Right side: Check-in timer and nearby list */}
+            <div className="h-full overflow-y-auto space-y-6">
+              <SafetyCheckin
+                checkin={safetyCheckin.checkin}
+                remainingMs={safetyCheckin.remainingMs}
+                onStart={safetyCheckin.start}
+                onCheckIn={safetyCheckin.checkIn}
+              />
               <NearbySafePlaces 
                 userLocation={userLocation} 
                 onNearestPlaceUpdate={handleNearestPlacesUpdate}
@@ -685,7 +1070,12 @@ const Dashboard = () => {
             {/* Broadcast & Chats */}
             <div className="space-y-6">
               <BroadcastMessaging />
+              <ScheduledMessages />
               <IndividualChat />
+              <DeliveryStatus
+                title="Message Delivery"
+                description="Delivery of your broadcasts and direct messages. Failed sends are retried automatically."
+              />
             </div>
           </div>
         )}
@@ -711,7 +1101,17 @@ const Dashboard = () => {
           </div>
         )}
 
-        {/* Tab 5: HELPLINES */}
+        {/* Tab 5: INCIDENT HISTORY */}
+        {activeTab === 'history' && (
+          <IncidentHistory />
+        )}
+
+        {/* Tab 6: GUARDIAN MODE */}
+        {activeTab === 'guardian' && (
+          <GuardianMode />
+        )}
+
+        {/* Tab 7: HELPLINES */}
         {activeTab === 'helplines' && (
           <div className="max-w-4xl mx-auto animate-fade-in space-y-6">
             
@@ -791,6 +1191,11 @@ const Dashboard = () => {
           </div>
         )}
 
+        {/* Tab 8: SETTINGS */}
+        {activeTab === 'settings' && (
+          <SosSettings settings={userSettings.settings} onSave={userSettings.save} />
+        )}
+
       </main>
 
       {/* Background Safe Places fetcher to keep safety status synchronized on overview page */}
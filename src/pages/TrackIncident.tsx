@@ -0,0 +1,301 @@
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { useParams } from 'react-router-dom';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { supabase } from '@/integrations/supabase/client';
+import { ShieldAlert, MapPin, Clock, Mic, Phone, RefreshCw } from 'lucide-react';
+import GoogleMap from '@/components/GoogleMap';
+import type { Database } from '@/integrations/supabase/types';
+
+type TrackedIncident = Database['public']['Functions']['get_tracked_incident']['Returns'][number];
+type TrailPoint = Database['public']['Functions']['get_tracked_incident_trail']['Returns'][number];
+type IncidentMedia = Database['public']['Functions']['get_tracked_incident_media']['Returns'][number];
+
+// Contacts following along get fresh points without needing Realtime access
+const REFRESH_INTERVAL_MS = 15000;
+
+// Recordings are private; signed links are renewed this long before they expire
+const LINK_RENEW_MARGIN_MS = 5 * 60 * 1000;
+
+type SignedLink = { url: string; expiresAt: string };
+
+const needsRenewal = (link?: SignedLink) =>
+  !link || new Date(link.expiresAt).getTime() - Date.now() < LINK_RENEW_MARGIN_MS;
+
+const formatIST = (value: string) =>
+  new Date(value).toLocaleString('en-IN', { timeZone: 'Asia/Kolkata' });
+
+const TrackIncident = () => {
+  const { token } = useParams<{ token: string }>();
+  const [incident, setIncident] = useState<TrackedIncident | null>(null);
+  const [trail, setTrail] = useState<TrailPoint[]>([]);
+  const [media, setMedia] = useState<IncidentMedia[]>([]);
+  const [links, setLinks] = useState<Record<string, SignedLink>>({});
+  const [renewing, setRenewing] = useState(false);
+  const linksRef = useRef<Record<string, SignedLink>>({});
+  const [loading, setLoading] = useState(true);
+  const [expired, setExpired] = useState(false);
+
+  const signMedia = useCallback(async (mediaIds: string[]) => {
+    if (!token || mediaIds.length === 0) return;
+
+    const { data, error } = await supabase.functions.invoke('sign-tracked-media', {
+      body: { token, media_ids: mediaIds }
+    });
+
+    if (error) {
+      console.error('Error signing media links:', error);
+      return;
+    }
+
+    const next = { ...linksRef.current };
+    for (const item of data?.media || []) {
+      next[item.id] = { url: item.signed_url, expiresAt: item.expires_at };
+    }
+    linksRef.current = next;
+    setLinks(next);
+  }, [token]);
+
+  const fetchTracking = useCallback(async () => {
+    if (!token) return;
+
+    try {
+      const { data: incidents, error } = await supabase.rpc('get_tracked_incident', { p_token: token });
+
+      if (error) {
+        console.error('Error fetching tracked incident:', error);
+        return;
+      }
+
+      if (!incidents || incidents.length === 0) {
+        setExpired(true);
+        setIncident(null);
+        return;
+      }
+
+      setIncident(incidents[0]);
+
+      const [{ data: points, error: trailError }, { data: mediaRows, error: mediaError }] = await Promise.all([
+        supabase.rpc('get_tracked_incident_trail', { p_token: token }),
+        supabase.rpc('get_tracked_incident_media', { p_token: token }),
+      ]);
+
+      if (trailError) {
+        console.error('Error fetching incident trail:', trailError);
+      } else {
+        setTrail(points || []);
+      }
+
+      if (mediaError) {
+        console.error('Error fetching incident media:', mediaError);
+      } else {
+        setMedia(mediaRows || []);
+        // Only new or nearly expired links are re-signed, so playback isn't interrupted
+        await signMedia(
+          (mediaRows || [])
+            .filter(item => item.storage_path && needsRenewal(linksRef.current[item.id]))
+            .map(item => item.id)
+        );
+      }
+    } catch (error) {
+      console.error('Error:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [token, signMedia]);
+
+  const renewLinks = async () => {
+    setRenewing(true);
+    try {
+      await signMedia(media.filter(item => item.storage_path).map(item => item.id));
+    } finally {
+      setRenewing(false);
+    }
+  };
+
+  const linksExpireAt = useMemo(() => {
+    const times = Object.values(links).map(link => new Date(link.expiresAt).getTime());
+    return times.length > 0 ? new Date(Math.min(...times)).toISOString() : null;
+  }, [links]);
+
+  useEffect(() => {
+    fetchTracking();
+    const interval = setInterval(fetchTracking, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [fetchTracking]);
+
+  const path = useMemo(() => {
+    const points = trail.map(point => ({ lat: Number(point.latitude), lng: Number(point.longitude) }));
+    if (points.length === 0 && incident?.latitude && incident?.longitude) {
+      points.push({ lat: Number(incident.latitude), lng: Number(incident.longitude) });
+    }
+    return points;
+  }, [trail, incident]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center bg-slate-50 dark:bg-slate-900">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-4 border-rose-500"></div>
+        <p className="mt-4 text-sm font-medium text-slate-500">Locating incident...</p>
+      </div>
+    );
+  }
+
+  if (expired || !incident) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-slate-50 dark:bg-slate-950 p-4">
+        <Card className="max-w-md text-center">
+          <CardHeader>
+            <ShieldAlert className="h-10 w-10 text-slate-400 mx-auto mb-2" />
+            <CardTitle>Tracking link unavailable</CardTitle>
+            <CardDescription>
+              This incident has been closed or the link is invalid. If you are still worried, call the person directly or dial 100.
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-50 dark:bg-slate-950 text-slate-900 dark:text-slate-100 p-4 sm:p-6 lg:p-8">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <div className="flex items-center justify-between border-b border-slate-200/50 dark:border-slate-800/50 pb-4">
+          <div className="flex items-center space-x-2">
+            <ShieldAlert className="h-8 w-8 text-rose-500 animate-pulse" />
+            <div>
+              <h1 className="text-2xl font-extrabold">{incident.display_name || 'Abhaya user'} needs help</h1>
+              <p className="text-slate-500 text-sm">Live SOS tracking shared with trusted contacts</p>
+            </div>
+          </div>
+          <span className="px-3 py-1 bg-rose-500 text-white rounded-full text-xs font-extrabold tracking-wider uppercase">
+            {incident.status}
+          </span>
+        </div>
+
+        {incident.is_duress && (
+          <div className="rounded-xl border-2 border-rose-600 bg-rose-600/10 p-4 text-sm text-rose-700 dark:text-rose-300">
+            <p className="font-extrabold uppercase tracking-wider">⚠️ Silent duress signal</p>
+            <p className="mt-1">
+              {incident.display_name || 'They'} entered their duress PIN, so someone may be forcing them to cancel the alert.
+              Do not call or text them directly. Contact the police on 100 and share this location.
+            </p>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <Card className="lg:col-span-2 overflow-hidden shadow-sm">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-lg font-bold flex items-center">
+                <MapPin className="h-5 w-5 mr-2 text-rose-500" />
+                Live Trail
+              </CardTitle>
+              <CardDescription>
+                Updates automatically every {REFRESH_INTERVAL_MS / 1000} seconds while the incident is active.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="h-[420px] relative overflow-hidden bg-slate-100 dark:bg-slate-900 rounded-xl m-6 mt-0 border p-0">
+              {path.length > 0 ? (
+                <GoogleMap
+                  center={path[path.length - 1]}
+                  zoom={16}
+                  followUserLocation={false}
+                  trail={path}
+                  markerTitle="Last seen"
+                />
+              ) : (
+                <div className="w-full h-full flex items-center justify-center text-sm text-slate-500">
+                  No location has been shared yet.
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <div className="space-y-6">
+            <Card className="shadow-xs">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-base font-bold flex items-center">
+                  <Clock className="h-4 w-4 mr-2 text-slate-400" />
+                  Status
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-1.5 text-xs text-slate-500">
+                <div className="flex justify-between">
+                  <span className="font-medium">SOS raised:</span>
+                  <span className="font-bold text-slate-800 dark:text-slate-200">{formatIST(incident.created_at)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="font-medium">Last seen:</span>
+                  <span className="font-bold text-slate-800 dark:text-slate-200">{formatIST(incident.last_seen_at)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="font-medium">Points recorded:</span>
+                  <span className="font-bold text-slate-800 dark:text-slate-200">{trail.length}</span>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card className="shadow-xs">
+              <CardHeader className="pb-3">
+                <CardTitle className="text-base font-bold flex items-center">
+                  <Mic className="h-4 w-4 mr-2 text-slate-400" />
+                  Recorded Media
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {media.length === 0 ? (
+                  <p className="text-xs text-slate-500">No recordings have been shared for this incident.</p>
+                ) : (
+                  <>
+                    {media.map((item) => {
+                      const src = item.storage_path ? links[item.id]?.url : item.media_url;
+                      return (
+                        <div key={item.id} className="space-y-1">
+                          <p className="text-[10px] text-slate-400">{formatIST(item.created_at)}</p>
+                          {!src ? (
+                            <p className="text-xs text-slate-500">Preparing secure link...</p>
+                          ) : item.media_type === 'video' ? (
+                            <video src={src} controls className="w-full rounded-lg border bg-black max-h-[200px]" />
+                          ) : (
+                            <audio src={src} controls className="w-full" />
+                          )}
+                        </div>
+                      );
+                    })}
+                    {linksExpireAt && (
+                      <div className="flex items-center justify-between pt-2 border-t text-[10px] text-slate-400">
+                        <span>Secure links valid until {new Date(linksExpireAt).toLocaleTimeString('en-IN', { timeZone: 'Asia/Kolkata' })}</span>
+                        <button
+                          onClick={renewLinks}
+                          disabled={renewing}
+                          className="flex items-center font-semibold text-rose-500 hover:text-rose-600 disabled:opacity-50"
+                        >
+                          <RefreshCw className={`h-3 w-3 mr-1 ${renewing ? 'animate-spin' : ''}`} />
+                          Renew links
+                        </button>
+                      </div>
+                    )}
+                  </>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card className="shadow-xs border-rose-500/20 bg-rose-500/5">
+              <CardContent className="p-4 space-y-2 text-xs">
+                <p className="font-bold text-rose-600 flex items-center">
+                  <Phone className="h-3.5 w-3.5 mr-1" /> Call for help
+                </p>
+                <div className="flex flex-wrap gap-2">
+                  <a href="tel:100" className="bg-rose-500 text-white font-extrabold px-3 py-1.5 rounded-lg">Police 100</a>
+                  <a href="tel:1091" className="bg-rose-500 text-white font-extrabold px-3 py-1.5 rounded-lg">Women 1091</a>
+                  <a href="tel:108" className="bg-rose-500 text-white font-extrabold px-3 py-1.5 rounded-lg">Ambulance 108</a>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TrackIncident;
@@ -0,0 +1,115 @@
+import React, { useState, useEffect } from 'react';
+import { useParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { supabase } from '@/integrations/supabase/client';
+import { ShieldCheck, ShieldAlert, ShieldX } from 'lucide-react';
+
+interface ContactVerification {
+  contact_name: string;
+  owner_name: string;
+  verification_status: string;
+}
+
+// Public consent page behind the link sent when someone is added as an emergency contact
+const VerifyContact: React.FC = () => {
+  const { token } = useParams<{ token: string }>();
+  const [verification, setVerification] = useState<ContactVerification | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [responding, setResponding] = useState(false);
+
+  useEffect(() => {
+    const fetchVerification = async () => {
+      const { data, error } = await supabase.rpc('get_contact_verification', { p_token: token ?? '' });
+
+      if (error) {
+        console.error('Error fetching contact verification:', error);
+        setError(error.message);
+      } else if (!data || data.length === 0) {
+        setError('This confirmation link is invalid or has expired');
+      } else {
+        setVerification(data[0]);
+      }
+      setLoading(false);
+    };
+
+    fetchVerification();
+  }, [token]);
+
+  const respond = async (accept: boolean) => {
+    setResponding(true);
+
+    const { data, error } = await supabase.rpc('respond_to_contact_verification', {
+      p_token: token ?? '',
+      p_accept: accept
+    });
+
+    if (error) {
+      console.error('Error responding to contact verification:', error);
+      setError(error.message);
+    } else if (verification) {
+      setVerification({ ...verification, verification_status: data });
+    }
+    setResponding(false);
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex flex-col items-center justify-center bg-slate-50 dark:bg-slate-900">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-4 border-rose-500"></div>
+      </div>
+    );
+  }
+
+  const status = verification?.verification_status;
+  const ownerName = verification?.owner_name ?? 'Someone';
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-slate-50 dark:bg-slate-950 p-4">
+      <Card className="max-w-md text-center">
+        <CardHeader>
+          {error ? (
+            <ShieldAlert className="h-10 w-10 text-slate-400 mx-auto mb-2" />
+          ) : status === 'declined' ? (
+            <ShieldX className="h-10 w-10 text-slate-400 mx-auto mb-2" />
+          ) : (
+            <ShieldCheck className={`h-10 w-10 mx-auto mb-2 ${status === 'verified' ? 'text-emerald-500' : 'text-rose-500'}`} />
+          )}
+          <CardTitle>
+            {error
+              ? 'Link unavailable'
+              : status === 'verified'
+                ? `You're on ${ownerName}'s trusted circle`
+                : status === 'declined'
+                  ? 'You declined'
+                  : `${ownerName} trusts you`}
+          </CardTitle>
+          <CardDescription>
+            {error
+              ? error
+              : status === 'verified'
+                ? `If ${ownerName} ever triggers an SOS, you'll get an alert with their live location. Please act on it straight away.`
+                : status === 'declined'
+                  ? `${ownerName} will see that you declined. You can still change your mind below.`
+                  : `Hi ${verification?.contact_name}, ${ownerName} has added you as an emergency contact on WomenSafe India. If they trigger an SOS, you'll get an alert with their live location. Do you agree to be contacted?`}
+          </CardDescription>
+        </CardHeader>
+        {!error && status !== 'verified' && (
+          <CardContent className="flex flex-col sm:flex-row gap-2 justify-center">
+            <Button onClick={() => respond(true)} disabled={responding}>
+              Yes, I'll be there
+            </Button>
+            {status !== 'declined' && (
+              <Button variant="outline" onClick={() => respond(false)} disabled={responding}>
+                No, decline
+              </Button>
+            )}
+          </CardContent>
+        )}
+      </Card>
+    </div>
+  );
+};
+
+export default VerifyContact;
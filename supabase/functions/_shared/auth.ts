@@ -0,0 +1,29 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+// Who a request acts for. Signed-in users are identified by their JWT only; a
+// user_id in the body is honoured just for service-role calls, i.e. other Edge
+// Functions and cron jobs acting on a user's behalf.
+
+export function isServiceRoleRequest(req: Request): boolean {
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')
+  return !!serviceRoleKey && req.headers.get('Authorization') === `Bearer ${serviceRoleKey}`
+}
+
+// The verified caller's user id, or null when the request is not authenticated
+export async function callerUserId(
+  req: Request,
+  supabaseClient: SupabaseClient,
+  bodyUserId?: string | null
+): Promise<string | null> {
+  if (isServiceRoleRequest(req)) {
+    return bodyUserId || null
+  }
+
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '')
+  if (!token) return null
+
+  const { data: { user }, error } = await supabaseClient.auth.getUser(token)
+  if (error || !user) return null
+
+  return user.id
+}
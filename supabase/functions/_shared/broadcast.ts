@@ -0,0 +1,35 @@
+// Send a broadcast from another Edge Function by calling send-broadcast-message
+// with the service role, so it uses the same templates, history and delivery log.
+
+export interface BroadcastDispatch {
+  user_id: string;
+  subject: string;
+  message: string;
+  latitude?: number | null;
+  longitude?: number | null;
+  contacts: Array<{
+    id: string;
+    name: string;
+    phone: string;
+    email?: string | null;
+    relationship?: string | null;
+  }>;
+}
+
+export async function dispatchBroadcast(body: BroadcastDispatch) {
+  const response = await fetch(`${Deno.env.get('SUPABASE_URL')}/functions/v1/send-broadcast-message`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')}`
+    },
+    body: JSON.stringify(body)
+  })
+
+  const data = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new Error(data.error || `send-broadcast-message returned ${response.status}`)
+  }
+
+  return data
+}
@@ -0,0 +1,80 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { dispatchEmergencyNotification } from './emergency.ts'
+
+export interface RoutePoint {
+  latitude: number;
+  longitude: number;
+  recorded_at?: string;
+}
+
+export interface SafetyCheckin {
+  id: string;
+  user_id: string;
+  destination_name: string;
+  destination_latitude: number | null;
+  destination_longitude: number | null;
+  deadline_at: string;
+  route: RoutePoint[];
+  last_latitude: number | null;
+  last_longitude: number | null;
+}
+
+// Google Maps directions URLs accept a limited number of waypoints
+const MAX_ROUTE_LINK_POINTS = 10
+
+// Directions link through an evenly sampled subset of the route
+function buildRouteUrl(route: RoutePoint[]): string | null {
+  if (route.length < 2) return null
+
+  const step = Math.max(1, Math.ceil(route.length / MAX_ROUTE_LINK_POINTS))
+  const sampled = route.filter((_, index) => index % step === 0)
+  const last = route[route.length - 1]
+  if (sampled[sampled.length - 1] !== last) sampled.push(last)
+
+  return `https://www.google.com/maps/dir/${sampled.map(point => `${point.latitude},${point.longitude}`).join('/')}`
+}
+
+// Raise an SOS for a check-in through send-emergency-notification, with the
+// route walked so far and the last known position
+export async function raiseCheckinSos(
+  supabaseClient: SupabaseClient,
+  checkin: SafetyCheckin,
+  reason: 'expired' | 'duress'
+) {
+  const deadline = new Date(checkin.deadline_at).toLocaleString('en-IN', { timeZone: 'Asia/Kolkata' })
+  const route = Array.isArray(checkin.route) ? checkin.route : []
+  const last = route[route.length - 1]
+  const latitude = checkin.last_latitude ?? last?.latitude
+  const longitude = checkin.last_longitude ?? last?.longitude
+
+  let message = reason === 'expired'
+    ? `I started a "walk me home" timer to ${checkin.destination_name} and did not check in by ${deadline}. Please check on me.`
+    : `I checked in from my walk to ${checkin.destination_name} using my duress PIN. I am NOT safe.`
+
+  const routeUrl = buildRouteUrl(route)
+  if (routeUrl) {
+    message += ` Route so far: ${routeUrl}`
+  }
+
+  const data = await dispatchEmergencyNotification({
+    user_id: checkin.user_id,
+    latitude: latitude,
+    longitude: longitude,
+    message: message,
+    duress: reason === 'duress',
+    route: route
+  })
+
+  if (data.incident_id) {
+    const { error } = await supabaseClient
+      .from('safety_checkins')
+      .update({ incident_id: data.incident_id })
+      .eq('id', checkin.id)
+
+    if (error) {
+      console.error('Error linking check-in to incident:', error)
+    }
+  }
+
+  return data
+}
@@ -0,0 +1,58 @@
+// SOS routing by contact group. A group's tier is its place in the escalation
+// order; ungrouped primary contacts are tier 1 and other ungrouped contacts tier 2,
+// so a circle without groups still escalates from its primary contacts outwards.
+
+export interface RoutableContact {
+  id: string;
+  group_id: string | null;
+  is_primary?: boolean;
+}
+
+export interface ContactGroupRule {
+  id: string;
+  tier: number;
+  notify_on_sos: boolean;
+}
+
+const UNGROUPED_PRIMARY_TIER = 1
+const UNGROUPED_TIER = 2
+
+// Escalation tier of a contact, or null when their group opted out of SOS alerts
+export function sosTier(contact: RoutableContact, groups: ContactGroupRule[]): number | null {
+  const group = contact.group_id ? groups.find(g => g.id === contact.group_id) : null
+  if (!group) return contact.is_primary ? UNGROUPED_PRIMARY_TIER : UNGROUPED_TIER
+  return group.notify_on_sos ? group.tier : null
+}
+
+// Contacts in the lowest tier that still has someone left to alert
+export function nextSosTier<T extends RoutableContact>(
+  contacts: T[],
+  groups: ContactGroupRule[],
+  alreadyNotified: string[] = []
+): T[] {
+  const remaining = contacts
+    .filter(contact => !alreadyNotified.includes(contact.id))
+    .map(contact => ({ contact, tier: sosTier(contact, groups) }))
+    .filter((entry): entry is { contact: T; tier: number } => entry.tier !== null)
+
+  if (remaining.length === 0) return []
+
+  const tier = Math.min(...remaining.map(entry => entry.tier))
+  return remaining.filter(entry => entry.tier === tier).map(entry => entry.contact)
+}
+
+export interface BroadcastGroupRule {
+  id: string;
+  include_in_broadcasts: boolean;
+}
+
+// Broadcast recipients: one group when `groupId` is given, otherwise everyone
+// except groups that opted out of "everyone" broadcasts (as in the app)
+export function broadcastRecipients<T extends RoutableContact>(
+  contacts: T[],
+  groups: BroadcastGroupRule[],
+  groupId: string | null
+): T[] {
+  if (groupId) return contacts.filter(contact => contact.group_id === groupId)
+  return contacts.filter(contact => groups.find(g => g.id === contact.group_id)?.include_in_broadcasts ?? true)
+}
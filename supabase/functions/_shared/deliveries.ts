@@ -0,0 +1,75 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+// Failed sends are retried with exponential backoff: 1, 2, 4, 8 minutes
+export const MAX_DELIVERY_ATTEMPTS = 5
+const RETRY_BASE_DELAY_MS = 60 * 1000
+
+export type DeliverySource = 'sos_alert' | 'all_clear' | 'broadcast' | 'individual' | 'verification'
+export type DeliveryChannel = 'email' | 'sms'
+
+export interface EmailPayload {
+  from: string;
+  subject: string;
+  text: string;
+  html: string;
+  reply_to?: string;
+}
+
+export interface SmsPayload {
+  body: string;
+}
+
+export interface DeliveryRecord {
+  user_id: string;
+  incident_id?: string | null;
+  contact_id?: string | null;
+  contact_name: string;
+  source: DeliverySource;
+  channel: DeliveryChannel;
+  recipient: string;
+  payload: EmailPayload | SmsPayload;
+  status: 'sent' | 'failed';
+  provider?: string | null;
+  provider_message_id?: string | null;
+  error?: string | null;
+}
+
+// Failures another attempt cannot fix, such as a malformed number or a missing provider
+const PERMANENT_ERRORS = ['Invalid phone number', 'provider not configured']
+
+export function isRetryableError(error: string | null | undefined): boolean {
+  return !PERMANENT_ERRORS.some(permanent => error?.includes(permanent))
+}
+
+// The user can read their own delivery log, so per-contact acknowledgement links
+// are stored as this placeholder and filled back in when a delivery is retried
+export const ACK_URL_PLACEHOLDER = '{{ack_url}}'
+
+export function replaceInPayload<P extends EmailPayload | SmsPayload>(payload: P, search: string, replacement: string): P {
+  return Object.fromEntries(Object.entries(payload).map(([key, value]) =>
+    [key, typeof value === 'string' ? value.split(search).join(replacement) : value]
+  )) as P
+}
+
+// When the next attempt is due after `attempts` tries, or null once we give up
+export function nextRetryAt(attempts: number, now = Date.now()): string | null {
+  if (attempts >= MAX_DELIVERY_ATTEMPTS) return null
+  return new Date(now + RETRY_BASE_DELAY_MS * 2 ** (attempts - 1)).toISOString()
+}
+
+// Store the first attempt of each delivery so failures can be retried later
+export async function recordDeliveries(supabaseClient: SupabaseClient, records: DeliveryRecord[]) {
+  if (records.length === 0) return
+
+  const { error } = await supabaseClient
+    .from('notification_deliveries')
+    .insert(records.map(record => ({
+      ...record,
+      attempts: 1,
+      next_retry_at: record.status === 'failed' && isRetryableError(record.error) ? nextRetryAt(1) : null
+    })))
+
+  if (error) {
+    console.error('Error recording notification deliveries:', error)
+  }
+}
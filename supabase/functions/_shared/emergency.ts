@@ -0,0 +1,34 @@
+// Raise an SOS from another Edge Function by calling send-emergency-notification
+// with the service role, so every alert goes through the same templates and logs.
+
+export interface EmergencyDispatch {
+  user_id: string;
+  latitude?: number | null;
+  longitude?: number | null;
+  accuracy?: number | null;
+  message?: string;
+  duress?: boolean;
+  route?: Array<{ latitude: number; longitude: number; recorded_at?: string }>;
+  contact_ids?: string[];
+  // Re-notify about an open incident rather than raising a new one
+  incident_id?: string;
+  escalation_level?: number;
+}
+
+export async function dispatchEmergencyNotification(body: EmergencyDispatch) {
+  const response = await fetch(`${Deno.env.get('SUPABASE_URL')}/functions/v1/send-emergency-notification`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')}`
+    },
+    body: JSON.stringify(body)
+  })
+
+  const data = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new Error(data.error || `send-emergency-notification returned ${response.status}`)
+  }
+
+  return data
+}
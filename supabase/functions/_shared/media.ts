@@ -0,0 +1,75 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+// The emergency-media bucket is private; recordings are shared via signed URLs only
+export const MEDIA_BUCKET = 'emergency-media'
+
+// Links in alert emails/SMS outlive a typical incident; the tracking page renews its own
+export const ALERT_MEDIA_URL_TTL_SECONDS = 24 * 60 * 60
+export const TRACKING_MEDIA_URL_TTL_SECONDS = 60 * 60
+// Incident reports are handed to the police, who may take days to open them
+export const REPORT_MEDIA_URL_TTL_SECONDS = 7 * 24 * 60 * 60
+
+// Objects must sit under the owner's `${user_id}/emergency_media/` prefix
+export function isOwnMediaPath(userId: string, path: string): boolean {
+  return path.startsWith(`${userId}/emergency_media/`) && !path.split('/').includes('..')
+}
+
+// Returns a time-limited link to a recording, or null if it could not be signed
+export async function signMediaPath(
+  supabaseClient: SupabaseClient,
+  path: string,
+  expiresIn: number
+): Promise<{ url: string; expires_at: string } | null> {
+  const { data, error } = await supabaseClient.storage
+    .from(MEDIA_BUCKET)
+    .createSignedUrl(path, expiresIn)
+
+  if (error || !data) {
+    console.error(`Error signing media path ${path}:`, error)
+    return null
+  }
+
+  return {
+    url: data.signedUrl,
+    expires_at: new Date(Date.now() + expiresIn * 1000).toISOString()
+  }
+}
+
+// Appends to the chain of custody for any of these paths registered as evidence
+export async function logEvidenceAccess(
+  supabaseClient: SupabaseClient,
+  paths: string[],
+  actor: 'owner' | 'contact' | 'system',
+  action: 'link_signed' | 'exported',
+  details: Record<string, unknown> = {}
+): Promise<void> {
+  if (paths.length === 0) return
+
+  const { data: evidence, error } = await supabaseClient
+    .from('media_evidence')
+    .select('id, user_id, storage_path, sha256')
+    .in('storage_path', paths)
+
+  if (error) {
+    console.error('Error looking up media evidence:', error)
+    return
+  }
+
+  if (!evidence || evidence.length === 0) return
+
+  const { error: logError } = await supabaseClient
+    .from('media_evidence_access_log')
+    .insert(evidence.map((item) => ({
+      evidence_id: item.id,
+      user_id: item.user_id,
+      storage_path: item.storage_path,
+      sha256: item.sha256,
+      actor,
+      action,
+      details
+    })))
+
+  if (logError) {
+    console.error('Error logging evidence access:', logError)
+  }
+}
@@ -0,0 +1,42 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+// Conversation history for broadcasts and direct messages. Each contact has one
+// thread; assign_message_thread() files every message under it.
+
+export interface OutboundMessage {
+  contact_id: string;
+  body: string;
+  is_broadcast?: boolean;
+  sender_id?: string | null;
+}
+
+// Store messages the user sent and return each contact's thread reply token
+export async function recordOutboundMessages(
+  supabaseClient: SupabaseClient,
+  messages: OutboundMessage[]
+): Promise<Record<string, string>> {
+  if (messages.length === 0) return {}
+
+  const { error } = await supabaseClient
+    .from('messages')
+    .insert(messages.map(message => ({ ...message, direction: 'outbound', channel: 'app' })))
+
+  if (error) {
+    console.error('Error recording messages:', error)
+    return {}
+  }
+
+  const { data: threads } = await supabaseClient
+    .from('message_threads')
+    .select('contact_id, reply_token')
+    .in('contact_id', messages.map(message => message.contact_id))
+
+  return Object.fromEntries((threads || []).map(thread => [thread.contact_id, thread.reply_token]))
+}
+
+// Reply-To address that routes an email reply back into its thread, when inbound email is set up
+export function replyToAddress(replyToken: string | undefined): string | undefined {
+  const domain = Deno.env.get('INBOUND_EMAIL_DOMAIN')
+  if (!domain || !replyToken) return undefined
+  return `reply+${replyToken}@${domain}`
+}
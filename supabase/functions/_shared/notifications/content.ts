@@ -0,0 +1,97 @@
+// Pieces shared by the alert and message emails and texts
+
+export const MESSAGE_SENDER = 'WomenSafe India <noreply@venkatesh7305.me>'
+export const EMERGENCY_SENDER = 'WomenSafe India Emergency <emergency@venkatesh7305.me>'
+export const APP_SIGNATURE = 'Sent via WomenSafe India app'
+
+export function mapsUrl(latitude?: number | null, longitude?: number | null): string | null {
+  return latitude && longitude ? `https://maps.google.com/maps?q=${latitude},${longitude}` : null
+}
+
+export function formatSentAt(sentAt: Date = new Date()): string {
+  return sentAt.toLocaleString('en-IN', { timeZone: 'Asia/Kolkata' })
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+// User-written text for an HTML body, keeping its line breaks
+export function textToHtml(text: string): string {
+  return escapeHtml(text).replace(/\n/g, '<br>')
+}
+
+export function locationBlockHtml(url: string): string {
+  return `
+    <div style="background: #fef3c7; padding: 15px; border-radius: 8px; margin: 20px 0;">
+      <p style="margin: 0; font-weight: bold;">📍 Current Location:</p>
+      <a href="${url}" style="color: #dc2626;">${url}</a>
+    </div>
+  `
+}
+
+// India emergency numbers: a red banner, or a quiet one-line box for everyday messages
+export function helplinesHtml(variant: 'banner' | 'compact'): string {
+  return variant === 'banner'
+    ? `
+    <div style="background: #dc2626; color: white; padding: 15px; border-radius: 8px; margin: 20px 0;">
+      <p style="margin: 0; font-size: 14px;">
+        <strong>Emergency Contacts (India):</strong><br>
+        🚔 Police: 100<br>
+        🚑 Ambulance: 108<br>
+        👩‍⚕️ Women Helpline: 1091
+      </p>
+    </div>
+  `
+    : `
+    <div style="background: #f3f4f6; padding: 15px; border-radius: 8px; margin: 20px 0;">
+      <p style="margin: 0; font-size: 14px; color: #374151;">
+        <strong>Emergency Contacts (India):</strong><br>
+        🚔 Police: 100 | 🚑 Ambulance: 108 | 👩‍⚕️ Women Helpline: 1091
+      </p>
+    </div>
+  `
+}
+
+export function footerHtml(sentAt: Date = new Date(), align: 'left' | 'center' = 'left'): string {
+  return `
+    <p style="color: #6b7280; font-size: 12px;${align === 'center' ? ' text-align: center;' : ''}">
+      ${APP_SIGNATURE} - ${formatSentAt(sentAt)}
+    </p>
+  `
+}
+
+// A personal message (broadcast or direct) from the user, as email text and HTML
+export function personalMessageEmail({ heading, senderName, body, locationLink, footerNote, helplines, sentAt }: {
+  heading: string;
+  senderName: string;
+  body: string;
+  locationLink: string | null;
+  footerNote?: string | null;
+  helplines: 'banner' | 'compact';
+  sentAt?: Date;
+}): { text: string; html: string } {
+  let text = `Message from ${senderName}:\n\n${body}`
+  if (locationLink) text += `\n\n📍 Current Location: ${locationLink}`
+  if (footerNote) text += `\n\n${footerNote}`
+  text += `\n\n${APP_SIGNATURE}`
+
+  const html = `
+    <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+      <h2 style="color: #dc2626;">${escapeHtml(heading)}</h2>
+      <div style="background: #f9fafb; padding: 20px; border-radius: 8px; margin: 20px 0;">
+        <p style="margin: 0; line-height: 1.6;">${textToHtml(body)}</p>
+      </div>
+      ${locationLink ? locationBlockHtml(locationLink) : ''}
+      ${footerNote ? `<p style="margin: 20px 0; color: #374151;">${escapeHtml(footerNote)}</p>` : ''}
+      ${helplinesHtml(helplines)}
+      ${footerHtml(sentAt)}
+    </div>
+  `
+
+  return { text, html }
+}
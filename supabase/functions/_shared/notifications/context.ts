@@ -0,0 +1,68 @@
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createSmsProvider } from '../sms/index.ts'
+import { recordDeliveries } from '../deliveries.ts'
+import { createEmailProvider } from './email.ts'
+import type { NotificationDeps } from './types.ts'
+
+export function createServiceClient(): SupabaseClient {
+  return createClient(
+    Deno.env.get('SUPABASE_URL') ?? '',
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+  )
+}
+
+// Providers from the Edge Function secrets, logging to notification_deliveries
+export function createNotificationDeps(supabaseClient: SupabaseClient): NotificationDeps {
+  return {
+    email: createEmailProvider(),
+    sms: createSmsProvider(),
+    recordDeliveries: (records) => recordDeliveries(supabaseClient, records),
+  }
+}
+
+// How the user is named in alerts and messages
+export async function fetchSenderName(supabaseClient: SupabaseClient, userId: string): Promise<string> {
+  const { data: profile } = await supabaseClient
+    .from('profiles')
+    .select('first_name, last_name')
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  const name = profile ? `${profile.first_name ?? ''} ${profile.last_name ?? ''}`.trim() : ''
+  return name || 'User'
+}
+
+export interface ContactRow {
+  id: string;
+  name: string;
+  phone: string;
+  email: string | null;
+  relationship: string | null;
+  group_id: string | null;
+  is_primary: boolean;
+}
+
+// The user's contacts, optionally narrowed to `contactIds`; ids that are not theirs are dropped
+export async function fetchOwnContacts(
+  supabaseClient: SupabaseClient,
+  userId: string,
+  contactIds?: string[]
+): Promise<ContactRow[]> {
+  let query = supabaseClient
+    .from('emergency_contacts')
+    .select('id, name, phone, email, relationship, group_id, is_primary')
+    .eq('user_id', userId)
+
+  if (contactIds) {
+    query = query.in('id', contactIds)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    console.error('Error fetching contacts:', error)
+    throw new Error('Failed to fetch contacts')
+  }
+
+  return data ?? []
+}
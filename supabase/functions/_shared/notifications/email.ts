@@ -0,0 +1,28 @@
+import { Resend } from "https://esm.sh/resend@2.0.0"
+import type { EmailMessage, EmailProvider, EmailSendResult } from './types.ts'
+
+export class ResendEmailProvider implements EmailProvider {
+  readonly name = 'resend'
+  private client: Resend
+
+  constructor(apiKey: string) {
+    this.client = new Resend(apiKey)
+  }
+
+  async send({ to, ...payload }: EmailMessage): Promise<EmailSendResult> {
+    const response = await this.client.emails.send({ ...payload, to: [to] })
+
+    // Resend reports API errors in the response instead of throwing
+    if (response.error) {
+      throw new Error(response.error.message)
+    }
+
+    return { provider: this.name, message_id: response.data?.id }
+  }
+}
+
+// Returns null when email is not configured, like createSmsProvider()
+export function createEmailProvider(): EmailProvider | null {
+  const apiKey = Deno.env.get('RESEND_API_KEY')
+  return apiKey ? new ResendEmailProvider(apiKey) : null
+}
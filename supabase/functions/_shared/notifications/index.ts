@@ -0,0 +1,18 @@
+// Notification pipeline shared by the alert and message functions: pick the
+// recipients, render per-recipient content, send it on each channel and log
+// every delivery for retries.
+
+export type {
+  EmailMessage,
+  EmailProvider,
+  EmailSendResult,
+  NotificationDeps,
+  NotificationRecipient,
+  NotificationRequest,
+  NotificationResult,
+  RenderedNotification,
+} from './types.ts'
+export { ResendEmailProvider, createEmailProvider } from './email.ts'
+export { channelAddress, countSent, sendNotifications, withoutPayloads } from './pipeline.ts'
+export { createNotificationDeps, createServiceClient, fetchOwnContacts, fetchSenderName, type ContactRow } from './context.ts'
+export * from './content.ts'
@@ -0,0 +1,136 @@
+// Run with: deno test supabase/functions/_shared
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts"
+import { MockSmsProvider } from '../sms/mock.ts'
+import type { DeliveryRecord } from '../deliveries.ts'
+import { channelAddress, countSent, sendNotifications, withoutPayloads } from './pipeline.ts'
+import { textToHtml } from './content.ts'
+import type { EmailMessage, EmailProvider, EmailSendResult, NotificationDeps, NotificationRecipient } from './types.ts'
+
+// Records emails instead of sending them, failing for the given addresses
+class FakeEmailProvider implements EmailProvider {
+  readonly name = 'fake'
+  readonly sent: EmailMessage[] = []
+
+  constructor(private failFor: string[] = []) {}
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    if (this.failFor.includes(message.to)) {
+      throw new Error(`Fake email delivery to ${message.to} failed`)
+    }
+    this.sent.push(message)
+    return { provider: this.name, message_id: `fake-${this.sent.length}` }
+  }
+}
+
+function fakeDeps(overrides: Partial<NotificationDeps> = {}) {
+  const logged: DeliveryRecord[] = []
+  const deps: NotificationDeps = {
+    email: new FakeEmailProvider(),
+    sms: new MockSmsProvider(),
+    recordDeliveries: async (records) => { logged.push(...records) },
+    ...overrides,
+  }
+  return { deps, logged }
+}
+
+const asha: NotificationRecipient = { id: 'c1', name: 'Asha', email: 'asha@example.com', phone: '98765 43210' }
+const ravi: NotificationRecipient = { id: 'c2', name: 'Ravi', email: null, phone: '+91 91234 56789' }
+
+const render = (recipient: NotificationRecipient) => ({
+  email: { from: 'test@example.com', subject: `Hi ${recipient.name}`, text: 'Hello', html: '<p>Hello</p>' },
+  sms: { body: `Hello ${recipient.name}` },
+})
+
+Deno.test('sends on every channel a recipient has an address for', async () => {
+  const email = new FakeEmailProvider()
+  const sms = new MockSmsProvider()
+  const { deps } = fakeDeps({ email, sms })
+
+  const results = await sendNotifications(deps, { user_id: 'u1', source: 'sos_alert', recipients: [asha, ravi], render })
+
+  assertEquals(results.map(r => [r.contact_id, r.channel, r.status]), [
+    ['c1', 'email', 'sent'],
+    ['c1', 'sms', 'sent'],
+    ['c2', 'sms', 'sent'],
+  ])
+  assertEquals(email.sent.map(m => [m.to, m.subject]), [['asha@example.com', 'Hi Asha']])
+  assertEquals(sms.sent.map(m => [m.to, m.body]), [['+919876543210', 'Hello Asha'], ['+919123456789', 'Hello Ravi']])
+  assertEquals(countSent(results, 'sms'), 2)
+})
+
+Deno.test('only uses the channels the notification is rendered for', async () => {
+  const sms = new MockSmsProvider()
+  const { deps } = fakeDeps({ sms })
+
+  const results = await sendNotifications(deps, {
+    user_id: 'u1',
+    source: 'broadcast',
+    recipients: [asha, ravi],
+    render: (recipient) => ({ email: render(recipient).email }),
+  })
+
+  assertEquals(results.map(r => [r.contact_id, r.channel]), [['c1', 'email']])
+  assertEquals(sms.sent.length, 0)
+})
+
+Deno.test('logs sent and failed deliveries for retry', async () => {
+  const { deps, logged } = fakeDeps({ email: new FakeEmailProvider(['asha@example.com']) })
+
+  await sendNotifications(deps, { user_id: 'u1', source: 'sos_alert', incident_id: 'i1', recipients: [asha], render })
+
+  assertEquals(logged.map(r => [r.channel, r.status, r.recipient, r.provider, r.incident_id, r.source]), [
+    ['email', 'failed', 'asha@example.com', 'fake', 'i1', 'sos_alert'],
+    ['sms', 'sent', '+919876543210', 'mock', 'i1', 'sos_alert'],
+  ])
+  assertEquals(logged[0].error, 'Fake email delivery to asha@example.com failed')
+  assertEquals(logged[0].payload, render(asha).email)
+})
+
+Deno.test('fails numbers that cannot be normalised without calling the provider', async () => {
+  const sms = new MockSmsProvider()
+  const { deps, logged } = fakeDeps({ sms })
+  const typo: NotificationRecipient = { id: 'c3', name: 'Typo', phone: '12345' }
+
+  const [result] = await sendNotifications(deps, { user_id: 'u1', source: 'sos_alert', recipients: [typo], render })
+
+  assertEquals([result.status, result.recipient, result.error], ['failed', '12345', 'Invalid phone number'])
+  assertEquals(sms.sent.length, 0)
+  assertEquals(logged.length, 1)
+})
+
+Deno.test('skips channels without a provider and does not log them', async () => {
+  const { deps, logged } = fakeDeps({ sms: null })
+
+  const results = await sendNotifications(deps, { user_id: 'u1', source: 'sos_alert', recipients: [ravi], render })
+
+  assertEquals(results.map(r => [r.channel, r.status, r.error]), [['sms', 'skipped', 'SMS provider not configured']])
+  assertEquals(logged.length, 0)
+})
+
+Deno.test('reports invalid numbers even when no SMS provider is configured', async () => {
+  const { deps, logged } = fakeDeps({ sms: null })
+  const typo: NotificationRecipient = { id: 'c3', name: 'Typo', phone: '12345' }
+
+  const [result] = await sendNotifications(deps, { user_id: 'u1', source: 'verification', recipients: [typo], render })
+
+  assertEquals([result.status, result.error], ['failed', 'Invalid phone number'])
+  assertEquals(logged.length, 1)
+})
+
+Deno.test('keeps payloads out of results returned to the app', async () => {
+  const { deps } = fakeDeps()
+
+  const results = await sendNotifications(deps, { user_id: 'u1', source: 'individual', recipients: [asha], render })
+
+  assertEquals(withoutPayloads(results).some(result => 'payload' in result), false)
+})
+
+Deno.test('channelAddress normalises Indian numbers and ignores missing addresses', () => {
+  assertEquals(channelAddress(asha, 'sms'), { address: '+919876543210', error: null })
+  assertEquals(channelAddress(ravi, 'email'), null)
+  assertEquals(channelAddress({ id: 'c4', name: 'No phone' }, 'sms'), null)
+})
+
+Deno.test('textToHtml escapes user text and keeps line breaks', () => {
+  assertEquals(textToHtml('Reached <home> & safe\nBye'), 'Reached &lt;home&gt; &amp; safe<br>Bye')
+})
@@ -0,0 +1,117 @@
+import { toE164 } from '../sms/phone.ts'
+import type { DeliveryChannel, DeliveryRecord, EmailPayload, SmsPayload } from '../deliveries.ts'
+import type { NotificationDeps, NotificationRecipient, NotificationRequest, NotificationResult } from './types.ts'
+
+const CHANNELS: DeliveryChannel[] = ['email', 'sms']
+
+const CHANNEL_LABELS: Record<DeliveryChannel, string> = {
+  email: 'Email',
+  sms: 'SMS',
+}
+
+interface ChannelAddress {
+  address: string;
+  // Set when the recipient has an address we cannot send to
+  error: string | null;
+}
+
+// Where a recipient is reached on a channel, or null when they have no address for it
+export function channelAddress(recipient: NotificationRecipient, channel: DeliveryChannel): ChannelAddress | null {
+  if (channel === 'email') {
+    return recipient.email ? { address: recipient.email, error: null } : null
+  }
+
+  if (!recipient.phone) return null
+  const to = toE164(recipient.phone)
+  return to ? { address: to, error: null } : { address: recipient.phone, error: 'Invalid phone number' }
+}
+
+async function dispatch(
+  deps: NotificationDeps,
+  recipient: NotificationRecipient,
+  channel: DeliveryChannel,
+  payload: EmailPayload | SmsPayload,
+  { address, error: addressError }: ChannelAddress
+): Promise<NotificationResult> {
+  const provider = channel === 'email' ? deps.email : deps.sms
+  const base = {
+    contact_id: recipient.id,
+    contact_name: recipient.name,
+    channel,
+    recipient: address,
+    payload,
+    provider: provider?.name ?? null,
+    message_id: null,
+  }
+
+  // A bad address is reported even without a provider, so typos surface early
+  if (addressError) {
+    return { ...base, status: 'failed', error: addressError }
+  }
+
+  if (!provider) {
+    return { ...base, status: 'skipped', error: `${CHANNEL_LABELS[channel]} provider not configured` }
+  }
+
+  try {
+    const response = channel === 'email'
+      ? await deps.email!.send({ ...(payload as EmailPayload), to: address })
+      : await deps.sms!.send({ to: address, body: (payload as SmsPayload).body })
+
+    console.log(`${CHANNEL_LABELS[channel]} sent to ${recipient.name} (${address}) via ${response.provider}`)
+    return { ...base, status: 'sent', provider: response.provider, message_id: response.message_id ?? null, error: null }
+  } catch (error) {
+    console.error(`Failed to send ${CHANNEL_LABELS[channel]} to ${recipient.name}:`, error)
+    return { ...base, status: 'failed', error: error instanceof Error ? error.message : String(error) }
+  }
+}
+
+/**
+ * Renders the notification for each recipient, sends it on every channel they
+ * have an address for, and records each attempt in the delivery log so
+ * failures are retried by retry-notification-deliveries.
+ */
+export async function sendNotifications<R extends NotificationRecipient>(
+  deps: NotificationDeps,
+  request: NotificationRequest<R>
+): Promise<NotificationResult[]> {
+  const attempts = request.recipients.flatMap(recipient => {
+    const rendered = request.render(recipient)
+
+    return CHANNELS.flatMap(channel => {
+      const payload = rendered[channel]
+      const address = payload ? channelAddress(recipient, channel) : null
+      return payload && address ? [dispatch(deps, recipient, channel, payload, address)] : []
+    })
+  })
+
+  const results = await Promise.all(attempts)
+
+  await deps.recordDeliveries(results
+    .filter(result => result.status !== 'skipped')
+    .map((result): DeliveryRecord => ({
+      user_id: request.user_id,
+      incident_id: request.incident_id ?? null,
+      contact_id: result.contact_id,
+      contact_name: result.contact_name,
+      source: request.source,
+      channel: result.channel,
+      recipient: result.recipient,
+      payload: result.payload,
+      status: result.status as 'sent' | 'failed',
+      provider: result.provider,
+      provider_message_id: result.message_id,
+      error: result.error
+    })))
+
+  return results
+}
+
+export function countSent(results: NotificationResult[], channel: DeliveryChannel): number {
+  return results.filter(result => result.channel === channel && result.status === 'sent').length
+}
+
+// Results as returned to the app: payloads can carry per-contact links, so they stay server-side
+export function withoutPayloads(results: NotificationResult[]) {
+  return results.map(({ payload: _payload, ...result }) => result)
+}
@@ -0,0 +1,61 @@
+import type { SmsProvider } from '../sms/types.ts'
+import type { DeliveryChannel, DeliveryRecord, DeliverySource, EmailPayload, SmsPayload } from '../deliveries.ts'
+
+// Common contract implemented by every email delivery adapter, mirroring SmsProvider
+
+export interface EmailMessage extends EmailPayload {
+  to: string;
+}
+
+export interface EmailSendResult {
+  provider: string;
+  message_id?: string;
+}
+
+export interface EmailProvider {
+  readonly name: string;
+  send(message: EmailMessage): Promise<EmailSendResult>;
+}
+
+// A contact to notify; channels without an address are skipped for them
+export interface NotificationRecipient {
+  id: string;
+  name: string;
+  email?: string | null;
+  phone?: string | null;
+}
+
+// What one recipient receives on each channel; leave a channel out to not use it
+export interface RenderedNotification {
+  email?: EmailPayload;
+  sms?: SmsPayload;
+}
+
+export interface NotificationRequest<R extends NotificationRecipient = NotificationRecipient> {
+  user_id: string;
+  source: DeliverySource;
+  incident_id?: string | null;
+  recipients: R[];
+  render: (recipient: R) => RenderedNotification;
+}
+
+export interface NotificationResult {
+  contact_id: string;
+  contact_name: string;
+  channel: DeliveryChannel;
+  // Email address or E.164 number, or the stored phone number when it could not be normalised
+  recipient: string;
+  payload: EmailPayload | SmsPayload;
+  // Skipped when the channel has no provider configured; these are not logged or retried
+  status: 'sent' | 'failed' | 'skipped';
+  provider: string | null;
+  message_id: string | null;
+  error: string | null;
+}
+
+// Everything the pipeline talks to, so tests can swap in fakes
+export interface NotificationDeps {
+  email: EmailProvider | null;
+  sms: SmsProvider | null;
+  recordDeliveries: (records: DeliveryRecord[]) => Promise<void>;
+}
@@ -0,0 +1,31 @@
+import type { SmsProvider } from './types.ts'
+import { TwilioSmsProvider } from './twilio.ts'
+import { Msg91SmsProvider } from './msg91.ts'
+import { MockSmsProvider } from './mock.ts'
+
+export type { SmsMessage, SmsProvider, SmsSendResult } from './types.ts'
+export { toE164 } from './phone.ts'
+export { TwilioSmsProvider, Msg91SmsProvider, MockSmsProvider }
+
+// Pick the adapter named by SMS_PROVIDER; returns null when SMS is not configured
+export function createSmsProvider(): SmsProvider | null {
+  const provider = (Deno.env.get('SMS_PROVIDER') ?? '').toLowerCase()
+
+  switch (provider) {
+    case 'twilio':
+      return new TwilioSmsProvider(
+        Deno.env.get('TWILIO_ACCOUNT_SID') ?? '',
+        Deno.env.get('TWILIO_AUTH_TOKEN') ?? '',
+        Deno.env.get('TWILIO_FROM') ?? '',
+      )
+    case 'msg91':
+      return new Msg91SmsProvider(
+        Deno.env.get('MSG91_AUTH_KEY') ?? '',
+        Deno.env.get('MSG91_TEMPLATE_ID') ?? '',
+      )
+    case 'mock':
+      return new MockSmsProvider()
+    default:
+      return null
+  }
+}
@@ -0,0 +1,21 @@
+import type { SmsMessage, SmsProvider, SmsSendResult } from './types.ts'
+
+// Local provider for development and tests: records messages instead of sending them
+export class MockSmsProvider implements SmsProvider {
+  readonly name = 'mock'
+  readonly sent: Array<SmsMessage & { message_id: string }> = []
+
+  constructor(private failFor: string[] = []) {}
+
+  async send(message: SmsMessage): Promise<SmsSendResult> {
+    if (this.failFor.includes(message.to)) {
+      throw new Error(`Mock SMS delivery to ${message.to} failed`)
+    }
+
+    const message_id = `mock-${crypto.randomUUID()}`
+    this.sent.push({ ...message, message_id })
+    console.log(`[mock sms] to ${message.to}: ${message.body}`)
+
+    return { provider: this.name, message_id }
+  }
+}
@@ -0,0 +1,36 @@
+import type { SmsMessage, SmsProvider, SmsSendResult } from './types.ts'
+
+// Sends through the MSG91 Flow API using a DLT-approved template whose
+// single variable (`message`) carries the alert text
+export class Msg91SmsProvider implements SmsProvider {
+  readonly name = 'msg91'
+
+  constructor(
+    private authKey: string,
+    private templateId: string,
+  ) {}
+
+  async send({ to, body }: SmsMessage): Promise<SmsSendResult> {
+    const response = await fetch('https://control.msg91.com/api/v5/flow/', {
+      method: 'POST',
+      headers: {
+        'authkey': this.authKey,
+        'Content-Type': 'application/json',
+        'Accept': 'application/json',
+      },
+      body: JSON.stringify({
+        template_id: this.templateId,
+        short_url: '0',
+        recipients: [{ mobiles: to.replace(/^\+/, ''), message: body }],
+      }),
+    })
+
+    const payload = await response.json()
+
+    if (!response.ok || payload?.type === 'error') {
+      throw new Error(payload?.message || `MSG91 request failed with status ${response.status}`)
+    }
+
+    return { provider: this.name, message_id: payload.message }
+  }
+}
@@ -0,0 +1,29 @@
+// Run with: deno test supabase/functions/_shared
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts"
+import { toE164 } from './phone.ts'
+
+// The app's contact import stores numbers with normalizePhone() (src/lib/contact-import.ts),
+// which must keep giving the same results as these cases
+
+Deno.test('defaults local Indian numbers to +91', () => {
+  assertEquals(toE164('98765 43210'), '+919876543210')
+  assertEquals(toE164('098765-43210'), '+919876543210')
+  assertEquals(toE164('91 98765 43210'), '+919876543210')
+})
+
+Deno.test('keeps numbers that already have a country code', () => {
+  assertEquals(toE164('+91 91234 56789'), '+919123456789')
+  assertEquals(toE164('+44 20 7946 0958'), '+442079460958')
+})
+
+Deno.test('treats an international 00 prefix like +', () => {
+  assertEquals(toE164('0091 98765 43210'), '+919876543210')
+  assertEquals(toE164('00 44 20 7946 0958'), '+442079460958')
+  assertEquals(toE164('0044'), null)
+})
+
+Deno.test('rejects numbers that cannot be dialled', () => {
+  assertEquals(toE164(''), null)
+  assertEquals(toE164('12345'), null)
+  assertEquals(toE164('+1234'), null)
+})
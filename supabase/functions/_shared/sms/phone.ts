@@ -0,0 +1,25 @@
+// Normalise a stored contact number to E.164, defaulting to India (+91)
+export function toE164(phone: string, defaultCountryCode = '91'): string | null {
+  const trimmed = phone.trim()
+  let digits = trimmed.replace(/\D/g, '')
+
+  if (!digits) return null
+
+  // International "00" prefix is the same as "+"
+  if (trimmed.startsWith('+') || digits.startsWith('00')) {
+    digits = digits.replace(/^00/, '')
+    return digits.length >= 8 && digits.length <= 15 ? `+${digits}` : null
+  }
+
+  // Local Indian formats: 10 digits, or a leading trunk 0
+  const local = digits.replace(/^0+/, '')
+  if (local.length === 10) {
+    return `+${defaultCountryCode}${local}`
+  }
+
+  if (local.startsWith(defaultCountryCode) && local.length === defaultCountryCode.length + 10) {
+    return `+${local}`
+  }
+
+  return null
+}
@@ -0,0 +1,38 @@
+import type { SmsMessage, SmsProvider, SmsSendResult } from './types.ts'
+
+// Sends through the Twilio Programmable Messaging REST API
+export class TwilioSmsProvider implements SmsProvider {
+  readonly name = 'twilio'
+
+  constructor(
+    private accountSid: string,
+    private authToken: string,
+    private from: string,
+  ) {}
+
+  async send({ to, body }: SmsMessage): Promise<SmsSendResult> {
+    const params = new URLSearchParams({ To: to, Body: body })
+    // A Messaging Service SID starts with "MG"; anything else is a sender number
+    params.set(this.from.startsWith('MG') ? 'MessagingServiceSid' : 'From', this.from)
+
+    const response = await fetch(
+      `https://api.twilio.com/2010-04-01/Accounts/${this.accountSid}/Messages.json`,
+      {
+        method: 'POST',
+        headers: {
+          'Authorization': `Basic ${btoa(`${this.accountSid}:${this.authToken}`)}`,
+          'Content-Type': 'application/x-www-form-urlencoded',
+        },
+        body: params,
+      }
+    )
+
+    const payload = await response.json()
+
+    if (!response.ok) {
+      throw new Error(payload?.message || `Twilio request failed with status ${response.status}`)
+    }
+
+    return { provider: this.name, message_id: payload.sid }
+  }
+}
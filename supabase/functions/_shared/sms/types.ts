@@ -0,0 +1,16 @@
+// Common contract implemented by every SMS delivery adapter
+
+export interface SmsMessage {
+  to: string;
+  body: string;
+}
+
+export interface SmsSendResult {
+  provider: string;
+  message_id?: string;
+}
+
+export interface SmsProvider {
+  readonly name: string;
+  send(message: SmsMessage): Promise<SmsSendResult>;
+}
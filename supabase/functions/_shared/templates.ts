@@ -0,0 +1,30 @@
+// Placeholders in message templates, filled in per recipient by the send
+// functions. The app lists the same set in src/lib/message-templates.ts.
+
+export interface TemplateValues {
+  // The recipient's name
+  name: string;
+  location_link: string | null;
+  battery_level?: number | null;
+  time?: Date;
+}
+
+const PLACEHOLDER_PATTERN = /\{(name|location_link|time|battery)\}/g
+
+// Anything else in braces is left as typed
+export function renderTemplate(text: string, values: TemplateValues): string {
+  return text.replace(PLACEHOLDER_PATTERN, (_, key: string) => {
+    switch (key) {
+      case 'name':
+        return values.name
+      case 'location_link':
+        return values.location_link ?? '(location unavailable)'
+      case 'battery':
+        return typeof values.battery_level === 'number' ? `${Math.round(values.battery_level)}%` : 'unknown'
+      case 'time':
+        return (values.time ?? new Date()).toLocaleString('en-IN', { timeZone: 'Asia/Kolkata', timeStyle: 'short', dateStyle: 'medium' })
+      default:
+        return `{${key}}`
+    }
+  })
+}
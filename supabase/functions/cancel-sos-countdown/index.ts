@@ -0,0 +1,98 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { dispatchEmergencyNotification } from "../_shared/emergency.ts"
+import { callerUserId } from "../_shared/auth.ts"
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface CancelRequest {
+  pin: string;
+  latitude?: number;
+  longitude?: number;
+  accuracy?: number;
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const { pin, latitude, longitude, accuracy }: CancelRequest = await req.json()
+
+    // Initialize Supabase client
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    const user_id = await callerUserId(req, supabaseClient)
+    if (!user_id) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const { data: pinCheck, error: pinError } = await supabaseClient
+      .rpc('check_safety_pin', { p_user_id: user_id, p_pin: pin ?? '' })
+
+    if (pinError) {
+      console.error('Error verifying safety PIN:', pinError)
+      throw new Error('Failed to verify safety PIN')
+    }
+
+    if (pinCheck === 'locked') {
+      return new Response(
+        JSON.stringify({ error: 'Too many incorrect PIN attempts. Try again in 15 minutes.' }),
+        { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (pinCheck === 'invalid') {
+      return new Response(
+        JSON.stringify({ error: 'Incorrect safety PIN' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // The duress PIN gets the same answer as a real cancel, but the alert goes out
+    if (pinCheck === 'duress') {
+      await dispatchEmergencyNotification({
+        user_id: user_id,
+        latitude: latitude,
+        longitude: longitude,
+        accuracy: accuracy,
+        message: 'I was forced to cancel my SOS alert. I need immediate help.',
+        duress: true
+      })
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        message: 'SOS countdown cancelled',
+        status: 'cancelled'
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    )
+
+  } catch (error) {
+    console.error('Error in cancel-sos-countdown:', error)
+    return new Response(
+      JSON.stringify({
+        error: error.message || 'Failed to cancel SOS countdown'
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    )
+  }
+})
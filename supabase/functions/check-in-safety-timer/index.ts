@@ -0,0 +1,116 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { raiseCheckinSos } from "../_shared/checkins.ts"
+import { callerUserId } from "../_shared/auth.ts"
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface CheckInRequest {
+  checkin_id: string;
+  pin: string;
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const { checkin_id, pin }: CheckInRequest = await req.json()
+
+    // Initialize Supabase client
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    const user_id = await callerUserId(req, supabaseClient)
+    if (!user_id) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const { data: pinCheck, error: pinError } = await supabaseClient
+      .rpc('check_safety_pin', { p_user_id: user_id, p_pin: pin ?? '' })
+
+    if (pinError) {
+      console.error('Error verifying safety PIN:', pinError)
+      throw new Error('Failed to verify safety PIN')
+    }
+
+    if (pinCheck === 'locked') {
+      return new Response(
+        JSON.stringify({ error: 'Too many incorrect PIN attempts. Try again in 15 minutes.' }),
+        { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (pinCheck === 'invalid') {
+      return new Response(
+        JSON.stringify({ error: 'Incorrect safety PIN' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Claim the running check-in so the expiry job cannot also raise an SOS for it
+    const { data: checkin, error: checkinError } = await supabaseClient
+      .from('safety_checkins')
+      .update({
+        status: pinCheck === 'duress' ? 'duress' : 'checked_in',
+        completed_at: new Date().toISOString()
+      })
+      .eq('id', checkin_id)
+      .eq('user_id', user_id)
+      .eq('status', 'active')
+      .select('*')
+      .maybeSingle()
+
+    if (checkinError) {
+      console.error('Error completing check-in:', checkinError)
+      throw new Error('Failed to complete check-in')
+    }
+
+    if (!checkin) {
+      throw new Error('Check-in timer is no longer running')
+    }
+
+    // A duress PIN looks like a normal check-in to whoever is watching the screen
+    if (pinCheck === 'duress') {
+      try {
+        await raiseCheckinSos(supabaseClient, checkin, 'duress')
+      } catch (error) {
+        console.error('Error raising duress SOS:', error)
+      }
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        message: 'Checked in safely',
+        checkin_id: checkin.id,
+        status: 'checked_in'
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    )
+
+  } catch (error) {
+    console.error('Error in check-in-safety-timer:', error)
+    return new Response(
+      JSON.stringify({
+        error: error.message || 'Failed to check in'
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    )
+  }
+})
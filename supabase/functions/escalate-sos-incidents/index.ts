@@ -0,0 +1,213 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { dispatchEmergencyNotification } from "../_shared/emergency.ts"
+import { nextSosTier } from "../_shared/contacts.ts"
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Escalation ladder for alerts nobody has acknowledged:
+//   1 - alert the next tier of contacts (repeated once per remaining tier)
+//   2 - re-send to everyone notified, with the latest location
+//   3 - the app prompts the user to dial 112/100
+const SECONDARY_CONTACTS_LEVEL = 1
+const RESEND_LEVEL = 2
+const DIAL_PROMPT_LEVEL = 3
+
+const DEFAULT_ESCALATION_MINUTES = 5
+
+// Incidents checked per invocation; the cron job runs every minute
+const BATCH_SIZE = 50
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Only the scheduled job (service role) may escalate alerts
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Initialize Supabase client
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      serviceRoleKey
+    )
+
+    const { data: incidents, error: incidentsError } = await supabaseClient
+      .from('sos_incidents')
+      .select('*')
+      .eq('status', 'active')
+      .lt('escalation_level', DIAL_PROMPT_LEVEL)
+      .order('created_at', { ascending: true })
+      .limit(BATCH_SIZE)
+
+    if (incidentsError) {
+      console.error('Error fetching active incidents:', incidentsError)
+      throw new Error('Failed to fetch active incidents')
+    }
+
+    const incidentIds = (incidents ?? []).map(incident => incident.id)
+    const userIds = Array.from(new Set((incidents ?? []).map(incident => incident.user_id)))
+
+    const { data: acknowledgements } = incidentIds.length > 0
+      ? await supabaseClient
+        .from('incident_acknowledgements')
+        .select('incident_id')
+        .in('incident_id', incidentIds)
+      : { data: [] }
+
+    const { data: settings } = userIds.length > 0
+      ? await supabaseClient
+        .from('user_settings')
+        .select('user_id, escalation_minutes')
+        .in('user_id', userIds)
+      : { data: [] }
+
+    const acknowledgedIds = new Set((acknowledgements ?? []).map(ack => ack.incident_id))
+    const escalationMinutes = new Map((settings ?? []).map(setting => [setting.user_id, setting.escalation_minutes]))
+    const now = Date.now()
+
+    const dueIncidents = (incidents ?? []).filter(incident => {
+      if (acknowledgedIds.has(incident.id)) return false
+      const minutes = escalationMinutes.get(incident.user_id) ?? DEFAULT_ESCALATION_MINUTES
+      const lastStep = new Date(incident.escalated_at ?? incident.created_at).getTime()
+      return now >= lastStep + minutes * 60 * 1000
+    })
+
+    const results = await Promise.all(dueIncidents.map(async (incident) => {
+      try {
+        let level = incident.escalation_level + 1
+        let recipientIds: string[] = []
+
+        if (incident.escalation_level <= SECONDARY_CONTACTS_LEVEL) {
+          const [{ data: contacts }, { data: groups }] = await Promise.all([
+            supabaseClient
+              .from('emergency_contacts')
+              .select('id, group_id, is_primary')
+              .eq('user_id', incident.user_id),
+            supabaseClient
+              .from('contact_groups')
+              .select('id, tier, notify_on_sos')
+              .eq('user_id', incident.user_id)
+          ])
+
+          const nextTier = nextSosTier(contacts ?? [], groups ?? [], incident.notified_contact_ids)
+
+          if (nextTier.length > 0) {
+            level = SECONDARY_CONTACTS_LEVEL
+            recipientIds = nextTier.map(contact => contact.id)
+          } else if (level === SECONDARY_CONTACTS_LEVEL) {
+            // Every tier was alerted already, so go straight to the re-send
+            level = RESEND_LEVEL
+          }
+        }
+
+        if (level === RESEND_LEVEL) {
+          recipientIds = incident.notified_contact_ids
+        }
+
+        // Claim the step so overlapping runs never escalate the same incident twice
+        let claimQuery = supabaseClient
+          .from('sos_incidents')
+          .update({ escalation_level: level, escalated_at: new Date().toISOString() })
+          .eq('id', incident.id)
+          .eq('status', 'active')
+          .eq('escalation_level', incident.escalation_level)
+
+        claimQuery = incident.escalated_at
+          ? claimQuery.eq('escalated_at', incident.escalated_at)
+          : claimQuery.is('escalated_at', null)
+
+        const { data: claimed, error: claimError } = await claimQuery.select('id')
+
+        if (claimError) throw claimError
+        if (!claimed || claimed.length === 0) {
+          return { incident_id: incident.id, status: 'skipped' }
+        }
+
+        let sendError: string | null = null
+        if (level < DIAL_PROMPT_LEVEL && recipientIds.length > 0) {
+          const { data: latestPoint } = await supabaseClient
+            .from('sos_location_points')
+            .select('latitude, longitude, accuracy')
+            .eq('incident_id', incident.id)
+            .order('recorded_at', { ascending: false })
+            .limit(1)
+            .maybeSingle()
+
+          try {
+            await dispatchEmergencyNotification({
+              user_id: incident.user_id,
+              incident_id: incident.id,
+              contact_ids: recipientIds,
+              escalation_level: level,
+              duress: incident.is_duress,
+              latitude: latestPoint?.latitude ?? incident.latitude,
+              longitude: latestPoint?.longitude ?? incident.longitude,
+              accuracy: latestPoint?.accuracy ?? null
+            })
+          } catch (error) {
+            console.error(`Failed to notify contacts for incident ${incident.id}:`, error)
+            sendError = error.message
+          }
+        }
+
+        const { error: eventError } = await supabaseClient
+          .from('incident_events')
+          .insert({
+            incident_id: incident.id,
+            user_id: incident.user_id,
+            event_type: 'escalated',
+            details: {
+              level: level,
+              contact_count: level < DIAL_PROMPT_LEVEL ? recipientIds.length : 0,
+              error: sendError
+            }
+          })
+
+        if (eventError) {
+          console.error('Error logging escalation event:', eventError)
+        }
+
+        console.log(`Incident ${incident.id} escalated to level ${level}`)
+        return { incident_id: incident.id, status: sendError ? 'failed' : 'escalated', level: level }
+      } catch (error) {
+        console.error(`Failed to escalate incident ${incident.id}:`, error)
+        return { incident_id: incident.id, status: 'failed', error: error.message }
+      }
+    }))
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        escalated: results.filter(r => r.status === 'escalated').length,
+        results: results
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    )
+
+  } catch (error) {
+    console.error('Error in escalate-sos-incidents:', error)
+    return new Response(
+      JSON.stringify({
+        error: error.message || 'Failed to escalate SOS incidents'
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    )
+  }
+})
@@ -0,0 +1,100 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { raiseCheckinSos } from "../_shared/checkins.ts"
+import { callerUserId, isServiceRoleRequest } from "../_shared/auth.ts"
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Called by the cron job for every user, or by the app for its own timer
+interface ExpireRequest {
+  checkin_id?: string;
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const { checkin_id }: ExpireRequest = await req.json().catch(() => ({}))
+
+    // Initialize Supabase client
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    const isScheduledRun = isServiceRoleRequest(req)
+    const user_id = isScheduledRun ? null : await callerUserId(req, supabaseClient)
+
+    if (!isScheduledRun && !user_id) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (!isScheduledRun && !checkin_id) {
+      return new Response(
+        JSON.stringify({ error: 'checkin_id is required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Claim overdue timers atomically so each one raises exactly one SOS
+    let claimQuery = supabaseClient
+      .from('safety_checkins')
+      .update({ status: 'expired', completed_at: new Date().toISOString() })
+      .eq('status', 'active')
+      .lte('deadline_at', new Date().toISOString())
+
+    if (user_id && checkin_id) {
+      claimQuery = claimQuery.eq('user_id', user_id).eq('id', checkin_id)
+    }
+
+    const { data: expired, error: claimError } = await claimQuery.select('*')
+
+    if (claimError) {
+      console.error('Error expiring check-ins:', claimError)
+      throw new Error('Failed to expire check-ins')
+    }
+
+    const results = await Promise.all((expired ?? []).map(async (checkin) => {
+      try {
+        const data = await raiseCheckinSos(supabaseClient, checkin, 'expired')
+        console.log(`Check-in ${checkin.id} expired, SOS raised:`, data.incident_id)
+        return { checkin_id: checkin.id, status: 'sos_raised', incident_id: data.incident_id ?? null }
+      } catch (error) {
+        console.error(`Failed to raise SOS for check-in ${checkin.id}:`, error)
+        return { checkin_id: checkin.id, status: 'failed', error: error.message }
+      }
+    }))
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        expired: results.length,
+        results: results
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    )
+
+  } catch (error) {
+    console.error('Error in expire-safety-checkins:', error)
+    return new Response(
+      JSON.stringify({
+        error: error.message || 'Failed to expire check-ins'
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    )
+  }
+})
@@ -0,0 +1,358 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from 'https://esm.sh/pdf-lib@1.17.1'
+import { encode as encodeBase64 } from "https://deno.land/std@0.168.0/encoding/base64.ts"
+import { REPORT_MEDIA_URL_TTL_SECONDS, logEvidenceAccess, signMediaPath } from "../_shared/media.ts"
+import { callerUserId } from "../_shared/auth.ts"
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface ExportRequest {
+  incident_id: string;
+}
+
+// Bumped whenever the JSON bundle changes shape, so consumers can tell versions apart
+const REPORT_VERSION = 1
+
+const formatIST = (value: string | null) =>
+  value ? new Date(value).toLocaleString('en-IN', { timeZone: 'Asia/Kolkata' }) + ' IST' : '-'
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const { incident_id }: ExportRequest = await req.json()
+
+    if (!incident_id) {
+      return new Response(
+        JSON.stringify({ error: 'incident_id is required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Initialize Supabase client
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    const user_id = await callerUserId(req, supabaseClient)
+    if (!user_id) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const { data: incident, error: incidentError } = await supabaseClient
+      .from('sos_incidents')
+      .select('*')
+      .eq('id', incident_id)
+      .eq('user_id', user_id)
+      .maybeSingle()
+
+    if (incidentError) {
+      console.error('Error fetching SOS incident:', incidentError)
+      throw new Error('Failed to fetch SOS incident')
+    }
+
+    if (!incident) {
+      return new Response(
+        JSON.stringify({ error: 'SOS incident not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const [profileResult, authUserResult, eventsResult, trailResult, deliveriesResult, contactsResult, mediaResult] = await Promise.all([
+      supabaseClient.from('profiles').select('first_name, last_name, phone').eq('user_id', user_id).maybeSingle(),
+      supabaseClient.auth.admin.getUserById(user_id),
+      supabaseClient.from('incident_events').select('event_type, details, created_at').eq('incident_id', incident_id).order('created_at', { ascending: true }),
+      supabaseClient.from('sos_location_points').select('latitude, longitude, accuracy, speed, heading, recorded_at').eq('incident_id', incident_id).order('recorded_at', { ascending: true }),
+      supabaseClient.from('notification_deliveries').select('contact_id, contact_name, channel, recipient, status, attempts, error, created_at, updated_at').eq('incident_id', incident_id).order('created_at', { ascending: true }),
+      supabaseClient.from('emergency_contacts').select('id, name, phone, email, relationship').in('id', incident.notified_contact_ids ?? []),
+      supabaseClient.from('sos_incident_media').select('id, storage_path, media_url, media_type, created_at').eq('incident_id', incident_id).order('created_at', { ascending: true }),
+    ])
+
+    for (const result of [eventsResult, trailResult, deliveriesResult, contactsResult, mediaResult]) {
+      if (result.error) {
+        console.error('Error loading incident report data:', result.error)
+        throw new Error('Failed to load incident data')
+      }
+    }
+
+    const events = eventsResult.data ?? []
+    const trail = trailResult.data ?? []
+    const deliveries = deliveriesResult.data ?? []
+    const media = mediaResult.data ?? []
+    const storagePaths = media.map((item) => item.storage_path).filter((path): path is string => !!path)
+
+    const { data: evidence, error: evidenceError } = storagePaths.length > 0
+      ? await supabaseClient
+          .from('media_evidence')
+          .select('id, storage_path, sha256, size_bytes, captured_at, device_info, latitude, longitude, accuracy')
+          .in('storage_path', storagePaths)
+      : { data: [], error: null }
+
+    if (evidenceError) {
+      console.error('Error loading media evidence:', evidenceError)
+    }
+
+    // Links in the report last long enough for a complaint to be filed and reviewed
+    const evidenceMedia = await Promise.all(media.map(async (item) => {
+      const record = (evidence ?? []).find((entry) => entry.storage_path === item.storage_path)
+      const signed = item.storage_path
+        ? await signMediaPath(supabaseClient, item.storage_path, REPORT_MEDIA_URL_TTL_SECONDS)
+        : null
+
+      return {
+        id: item.id,
+        media_type: item.media_type,
+        attached_at: item.created_at,
+        storage_path: item.storage_path,
+        sha256: record?.sha256 ?? null,
+        size_bytes: record?.size_bytes ?? null,
+        captured_at: record?.captured_at ?? null,
+        device_info: record?.device_info ?? null,
+        capture_location: record && record.latitude !== null && record.longitude !== null
+          ? { latitude: record.latitude, longitude: record.longitude, accuracy: record.accuracy }
+          : null,
+        url: signed?.url ?? item.media_url,
+        url_expires_at: signed?.expires_at ?? null
+      }
+    }))
+
+    await logEvidenceAccess(supabaseClient, storagePaths, 'owner', 'exported', {
+      via: 'incident_report',
+      incident_id,
+      expires_in: REPORT_MEDIA_URL_TTL_SECONDS
+    })
+
+    const profile = profileResult.data
+    const fullName = profile ? `${profile.first_name ?? ''} ${profile.last_name ?? ''}`.trim() : ''
+
+    const contacts = (contactsResult.data ?? []).map((contact) => ({
+      ...contact,
+      deliveries: deliveries
+        .filter((delivery) => delivery.contact_id === contact.id)
+        .map(({ channel, recipient, status, attempts, error, created_at, updated_at }) => ({ channel, recipient, status, attempts, error, sent_at: created_at, updated_at }))
+    }))
+
+    const report = {
+      report_version: REPORT_VERSION,
+      generated_at: new Date().toISOString(),
+      user: {
+        id: user_id,
+        name: fullName || null,
+        phone: profile?.phone ?? null,
+        email: authUserResult.data?.user?.email ?? null
+      },
+      incident: {
+        id: incident.id,
+        status: incident.status,
+        resolution: incident.resolution,
+        duress: incident.is_duress,
+        triggered_at: incident.created_at,
+        resolved_at: incident.resolved_at,
+        initial_location: incident.latitude !== null && incident.longitude !== null
+          ? { latitude: incident.latitude, longitude: incident.longitude }
+          : null
+      },
+      timeline: events,
+      location_trail: trail,
+      notified_contacts: contacts,
+      // Deliveries to contacts deleted since the incident still belong in the record
+      other_deliveries: deliveries.filter((delivery) => !contacts.some((contact) => contact.id === delivery.contact_id)),
+      evidence_media: evidenceMedia
+    }
+
+    const pdf = await renderReportPdf(report)
+    const baseName = `incident-report-${incident.created_at.slice(0, 10)}-${incident.id.slice(0, 8)}`
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        report,
+        pdf_base64: encodeBase64(pdf),
+        filename: baseName
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    )
+
+  } catch (error) {
+    console.error('Error in export-incident-report:', error)
+    return new Response(
+      JSON.stringify({
+        error: error.message || 'Failed to export incident report'
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    )
+  }
+})
+
+type IncidentReport = {
+  generated_at: string;
+  user: { id: string; name: string | null; phone: string | null; email: string | null };
+  incident: {
+    id: string;
+    status: string;
+    resolution: string | null;
+    duress: boolean;
+    triggered_at: string;
+    resolved_at: string | null;
+    initial_location: { latitude: number; longitude: number } | null;
+  };
+  timeline: Array<{ event_type: string; details: unknown; created_at: string }>;
+  location_trail: Array<{ latitude: number; longitude: number; accuracy: number | null; recorded_at: string }>;
+  notified_contacts: Array<{
+    name: string;
+    phone: string;
+    email: string | null;
+    relationship: string | null;
+    deliveries: Array<{ channel: string; recipient: string; status: string; attempts: number; error: string | null; sent_at: string }>;
+  }>;
+  evidence_media: Array<{
+    media_type: string;
+    attached_at: string;
+    sha256: string | null;
+    size_bytes: number | null;
+    captured_at: string | null;
+    capture_location: { latitude: number; longitude: number; accuracy: number | null } | null;
+    url: string | null;
+    url_expires_at: string | null;
+  }>;
+}
+
+const PAGE_WIDTH = 595
+const PAGE_HEIGHT = 842
+const MARGIN = 48
+
+// Standard PDF fonts only cover Latin-1, so anything else is replaced rather than failing the export
+const toLatin1 = (text: string) => text.replace(/[–—]/g, '-').replace(/[^\x20-\x7E\xA0-\xFF]/g, '?')
+
+// Minimal top-to-bottom text layout: wraps long lines and starts new pages as needed
+async function renderReportPdf(report: IncidentReport): Promise<Uint8Array> {
+  const doc = await PDFDocument.create()
+  const font = await doc.embedFont(StandardFonts.Helvetica)
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold)
+  const mono = await doc.embedFont(StandardFonts.Courier)
+
+  let page: PDFPage = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+  let y = PAGE_HEIGHT - MARGIN
+
+  const wrap = (text: string, useFont: PDFFont, size: number, width: number) => {
+    const lines: string[] = []
+    for (const paragraph of toLatin1(text).split('\n')) {
+      let line = ''
+      for (const word of paragraph.split(' ')) {
+        let candidate = line ? `${line} ${word}` : word
+        // Hashes and URLs have no spaces, so break them by character
+        while (useFont.widthOfTextAtSize(candidate, size) > width && candidate.length > 1) {
+          if (line) {
+            lines.push(line)
+            line = ''
+            candidate = word
+            continue
+          }
+          let cut = candidate.length - 1
+          while (cut > 1 && useFont.widthOfTextAtSize(candidate.slice(0, cut), size) > width) cut--
+          lines.push(candidate.slice(0, cut))
+          candidate = candidate.slice(cut)
+        }
+        line = candidate
+      }
+      lines.push(line)
+    }
+    return lines
+  }
+
+  const write = (text: string, options: { font?: PDFFont; size?: number; indent?: number; color?: ReturnType<typeof rgb> } = {}) => {
+    const size = options.size ?? 10
+    const useFont = options.font ?? font
+    const indent = options.indent ?? 0
+
+    for (const line of wrap(text, useFont, size, PAGE_WIDTH - MARGIN * 2 - indent)) {
+      if (y < MARGIN + size) {
+        page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+        y = PAGE_HEIGHT - MARGIN
+      }
+      page.drawText(line, { x: MARGIN + indent, y: y - size, size, font: useFont, color: options.color ?? rgb(0.1, 0.1, 0.1) })
+      y -= size * 1.4
+    }
+  }
+
+  const heading = (text: string) => {
+    y -= 8
+    write(text, { font: bold, size: 13 })
+    y -= 2
+  }
+
+  const { user, incident } = report
+
+  write('Abhaya - SOS Incident Report', { font: bold, size: 18 })
+  write(`Generated ${formatIST(report.generated_at)}`, { size: 9, color: rgb(0.4, 0.4, 0.4) })
+
+  heading('Reported by')
+  write(`Name: ${user.name ?? '-'}`)
+  write(`Phone: ${user.phone ?? '-'}`)
+  write(`Email: ${user.email ?? '-'}`)
+
+  heading('Incident')
+  write(`Incident ID: ${incident.id}`)
+  write(`Triggered: ${formatIST(incident.triggered_at)}`)
+  write(`Status: ${incident.status}${incident.resolution ? ` (${incident.resolution.replace('_', ' ')})` : ''}`)
+  write(`Closed: ${formatIST(incident.resolved_at)}`)
+  if (incident.duress) {
+    write('The SOS was cancelled with the duress PIN: the user was forced to cancel it.', { font: bold })
+  }
+  write(`Initial location: ${incident.initial_location
+    ? `${incident.initial_location.latitude}, ${incident.initial_location.longitude} (https://maps.google.com/?q=${incident.initial_location.latitude},${incident.initial_location.longitude})`
+    : '-'}`)
+
+  heading(`Notified contacts (${report.notified_contacts.length})`)
+  if (report.notified_contacts.length === 0) write('No contacts were notified.')
+  for (const contact of report.notified_contacts) {
+    write(`${contact.name}${contact.relationship ? ` (${contact.relationship})` : ''} - ${contact.phone}${contact.email ? `, ${contact.email}` : ''}`, { font: bold })
+    if (contact.deliveries.length === 0) write('No delivery records.', { indent: 12 })
+    for (const delivery of contact.deliveries) {
+      write(`${delivery.channel.toUpperCase()} to ${delivery.recipient}: ${delivery.status}${delivery.attempts > 1 ? ` after ${delivery.attempts} attempts` : ''} - ${formatIST(delivery.sent_at)}${delivery.error ? ` - ${delivery.error}` : ''}`, { indent: 12 })
+    }
+  }
+
+  heading(`Evidence media (${report.evidence_media.length})`)
+  if (report.evidence_media.length === 0) write('No recordings were attached.')
+  report.evidence_media.forEach((item, index) => {
+    write(`${index + 1}. ${item.media_type} recording, captured ${formatIST(item.captured_at ?? item.attached_at)}${item.size_bytes !== null ? `, ${item.size_bytes} bytes` : ''}`, { font: bold })
+    write(`SHA-256: ${item.sha256 ?? 'not registered'}`, { font: mono, size: 8, indent: 12 })
+    if (item.capture_location) {
+      write(`Captured at: ${item.capture_location.latitude}, ${item.capture_location.longitude}${item.capture_location.accuracy !== null ? ` (+/-${Math.round(item.capture_location.accuracy)} m)` : ''}`, { indent: 12 })
+    }
+    if (item.url) {
+      write(`Link${item.url_expires_at ? ` (valid until ${formatIST(item.url_expires_at)})` : ''}: ${item.url}`, { size: 8, indent: 12 })
+    }
+  })
+
+  heading(`Location trail (${report.location_trail.length} points)`)
+  if (report.location_trail.length === 0) write('No live location updates were recorded.')
+  for (const point of report.location_trail) {
+    write(`${formatIST(point.recorded_at)}: ${point.latitude}, ${point.longitude}${point.accuracy !== null ? ` (+/-${Math.round(point.accuracy)} m)` : ''}`, { size: 9 })
+  }
+
+  // Location updates are already listed in the trail above
+  heading('Timeline')
+  for (const event of report.timeline.filter((entry) => entry.event_type !== 'location_point')) {
+    write(`${formatIST(event.created_at)}: ${event.event_type.replace(/_/g, ' ')}`, { size: 9 })
+  }
+
+  return await doc.save()
+}
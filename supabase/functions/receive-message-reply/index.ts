@@ -0,0 +1,197 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { toE164 } from "../_shared/sms/index.ts"
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Matches the schema limit on messages.body
+const MAX_BODY_LENGTH = 5000
+
+interface InboundReply {
+  channel: 'email' | 'sms';
+  from: string;
+  to: string;
+  body: string;
+  external_id: string | null;
+}
+
+// Reads a field from provider payloads that differ only in casing (e.g. `from` vs `From`)
+function field(payload: Record<string, unknown>, ...names: string[]): string {
+  for (const name of names) {
+    const value = payload[name]
+    if (typeof value === 'string' && value) return value
+    if (Array.isArray(value) && typeof value[0] === 'string') return value.join(', ')
+  }
+  return ''
+}
+
+// Twilio posts SMS as a form with From/Body; email providers (SendGrid Inbound
+// Parse, Postmark and similar) post a form or JSON with from/to/text
+async function parseInbound(req: Request): Promise<InboundReply> {
+  const contentType = req.headers.get('content-type') ?? ''
+  const payload: Record<string, unknown> = contentType.includes('application/json')
+    ? await req.json()
+    : Object.fromEntries(await req.formData())
+
+  if (typeof payload.MessageSid === 'string' || typeof payload.SmsSid === 'string') {
+    return {
+      channel: 'sms',
+      from: field(payload, 'From'),
+      to: field(payload, 'To'),
+      body: field(payload, 'Body'),
+      external_id: field(payload, 'MessageSid', 'SmsSid') || null,
+    }
+  }
+
+  return {
+    channel: 'email',
+    from: field(payload, 'from', 'From'),
+    to: field(payload, 'to', 'To', 'OriginalRecipient'),
+    body: field(payload, 'StrippedTextReply', 'text', 'TextBody', 'plain'),
+    external_id: field(payload, 'message_id', 'MessageID', 'Message-Id') || null,
+  }
+}
+
+// Drop the quoted original that mail clients append below a reply
+function stripQuotedReply(text: string): string {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n')
+  const end = lines.findIndex(line =>
+    /^>/.test(line) ||
+    /^On .+wrote:\s*$/.test(line.trim()) ||
+    /^-+\s*Original Message\s*-+$/i.test(line.trim()) ||
+    /^_{10,}$/.test(line.trim())
+  )
+  return (end === -1 ? lines : lines.slice(0, end)).join('\n').trim()
+}
+
+function emailAddress(value: string): string {
+  return (value.match(/<([^>]+)>/)?.[1] ?? value).trim().toLowerCase()
+}
+
+function respond(reply: InboundReply | null, body: Record<string, unknown>, status = 200) {
+  // Twilio expects TwiML; an empty <Response/> sends nothing back to the contact
+  if (reply?.channel === 'sms' && status === 200) {
+    return new Response('<?xml version="1.0" encoding="UTF-8"?><Response></Response>', {
+      headers: { ...corsHeaders, 'Content-Type': 'text/xml' },
+    })
+  }
+
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  })
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  // Providers cannot send a Supabase JWT, so the webhook URL carries a shared secret instead
+  const secret = Deno.env.get('INBOUND_WEBHOOK_SECRET')
+  if (!secret) {
+    return respond(null, { error: 'INBOUND_WEBHOOK_SECRET is not configured' }, 500)
+  }
+
+  if (new URL(req.url).searchParams.get('secret') !== secret) {
+    return respond(null, { error: 'Unauthorized' }, 401)
+  }
+
+  try {
+    const reply = await parseInbound(req)
+
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    let contactId: string | null = null
+
+    if (reply.channel === 'email') {
+      // Outbound emails use reply+<thread reply token>@<INBOUND_EMAIL_DOMAIN> as Reply-To
+      const replyToken = reply.to.match(/reply\+([a-f0-9]+)@/i)?.[1]
+
+      if (replyToken) {
+        const { data: thread } = await supabaseClient
+          .from('message_threads')
+          .select('contact_id')
+          .eq('reply_token', replyToken.toLowerCase())
+          .maybeSingle()
+
+        contactId = thread?.contact_id ?? null
+      }
+    } else {
+      // An SMS reply answers a message thread that texted this number; SMS deliveries
+      // store E.164 recipients. Alerts and consent requests don't start a conversation.
+      const phone = toE164(reply.from)
+
+      if (phone) {
+        const { data: deliveries, error: deliveriesError } = await supabaseClient
+          .from('notification_deliveries')
+          .select('contact_id, user_id')
+          .eq('channel', 'sms')
+          .eq('recipient', phone)
+          .in('source', ['broadcast', 'individual'])
+          .not('contact_id', 'is', null)
+          .order('created_at', { ascending: false })
+
+        if (deliveriesError) {
+          console.error('Error matching SMS reply:', deliveriesError)
+          throw new Error('Failed to match SMS reply')
+        }
+
+        const { data: threads } = await supabaseClient
+          .from('message_threads')
+          .select('contact_id')
+          .in('contact_id', Array.from(new Set((deliveries ?? []).map(delivery => delivery.contact_id))))
+
+        const threadContactIds = new Set((threads ?? []).map(thread => thread.contact_id))
+        const candidates = (deliveries ?? []).filter(delivery => threadContactIds.has(delivery.contact_id))
+
+        // The same number in several users' circles: filing the reply with the wrong one would leak it
+        if (new Set(candidates.map(delivery => delivery.user_id)).size > 1) {
+          console.log(`Ignoring sms reply from ${reply.from}: number is in more than one user's threads`)
+          return respond(reply, { success: false, reason: 'ambiguous_sender' })
+        }
+
+        contactId = candidates[0]?.contact_id ?? null
+      }
+    }
+
+    const body = (reply.channel === 'email' ? stripQuotedReply(reply.body) : reply.body.trim())
+      .slice(0, MAX_BODY_LENGTH)
+
+    if (!contactId || !body) {
+      // Acknowledge anyway so the provider does not keep retrying a reply we cannot place
+      console.log(`Ignoring ${reply.channel} reply from ${reply.channel === 'email' ? emailAddress(reply.from) : reply.from}: ${contactId ? 'empty body' : 'no matching thread'}`)
+      return respond(reply, { success: false, reason: contactId ? 'empty_body' : 'no_matching_thread' })
+    }
+
+    const { error: insertError } = await supabaseClient
+      .from('messages')
+      .insert({
+        contact_id: contactId,
+        direction: 'inbound',
+        channel: reply.channel,
+        body,
+        external_id: reply.external_id
+      })
+
+    // 23505: the provider retried a reply we already stored
+    if (insertError && insertError.code !== '23505') {
+      console.error('Error storing reply:', insertError)
+      throw new Error('Failed to store reply')
+    }
+
+    console.log(`Stored ${reply.channel} reply for contact ${contactId}`)
+
+    return respond(reply, { success: true })
+  } catch (error) {
+    console.error('Error in receive-message-reply:', error)
+    return respond(null, { error: error.message || 'Failed to process reply' }, 500)
+  }
+})
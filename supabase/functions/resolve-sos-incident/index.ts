@@ -0,0 +1,294 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import {
+  MESSAGE_SENDER,
+  countSent,
+  createNotificationDeps,
+  createServiceClient,
+  escapeHtml,
+  fetchOwnContacts,
+  fetchSenderName,
+  footerHtml,
+  sendNotifications,
+  textToHtml,
+  withoutPayloads,
+  type ContactRow,
+} from "../_shared/notifications/index.ts"
+import { callerUserId } from "../_shared/auth.ts"
+import { dispatchEmergencyNotification } from "../_shared/emergency.ts"
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface ResolveRequest {
+  incident_id: string;
+  outcome: 'resolved' | 'false_alarm';
+  pin: string;
+  message?: string;
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const { incident_id, outcome, pin, message }: ResolveRequest = await req.json()
+
+    if (outcome !== 'resolved' && outcome !== 'false_alarm') {
+      return new Response(
+        JSON.stringify({ error: 'Invalid outcome' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const supabaseClient = createServiceClient()
+
+    const user_id = await callerUserId(req, supabaseClient)
+    if (!user_id) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Closing an incident must be confirmed with the user's safety PIN
+    const { data: pinCheck, error: pinError } = await supabaseClient
+      .rpc('check_safety_pin', { p_user_id: user_id, p_pin: pin ?? '' })
+
+    if (pinError) {
+      console.error('Error verifying safety PIN:', pinError)
+      throw new Error('Failed to verify safety PIN')
+    }
+
+    if (pinCheck === 'locked') {
+      return new Response(
+        JSON.stringify({ error: 'Too many incorrect PIN attempts. Try again in 15 minutes.' }),
+        { status: 429, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (pinCheck === 'invalid') {
+      return new Response(
+        JSON.stringify({ error: 'Incorrect safety PIN' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const { data: incident, error: incidentError } = await supabaseClient
+      .from('sos_incidents')
+      .select('id, status, is_duress, latitude, longitude, notified_contact_ids')
+      .eq('id', incident_id)
+      .eq('user_id', user_id)
+      .maybeSingle()
+
+    if (incidentError) {
+      console.error('Error fetching SOS incident:', incidentError)
+      throw new Error('Failed to fetch SOS incident')
+    }
+
+    if (!incident) {
+      return new Response(
+        JSON.stringify({ error: 'SOS incident not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (incident.status !== 'active') {
+      return new Response(
+        JSON.stringify({ error: 'SOS incident is already closed' }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Under duress the incident only looks closed: it stays active, contacts get
+    // no all-clear and the tracking page starts showing the duress warning
+    if (pinCheck === 'duress') {
+      const { data: flagged, error: duressError } = await supabaseClient
+        .from('sos_incidents')
+        .update({ is_duress: true })
+        .eq('id', incident.id)
+        .eq('is_duress', false)
+        .select('id')
+
+      if (duressError) {
+        console.error('Error flagging incident as duress:', duressError)
+      }
+
+      // Warn everyone already alerted, once, that the "cancel" was forced
+      if (flagged && flagged.length > 0 && (incident.notified_contact_ids ?? []).length > 0) {
+        const { data: latestPoint } = await supabaseClient
+          .from('sos_location_points')
+          .select('latitude, longitude, accuracy')
+          .eq('incident_id', incident.id)
+          .order('recorded_at', { ascending: false })
+          .limit(1)
+          .maybeSingle()
+
+        try {
+          await dispatchEmergencyNotification({
+            user_id: user_id,
+            incident_id: incident.id,
+            contact_ids: incident.notified_contact_ids,
+            duress: true,
+            latitude: latestPoint?.latitude ?? incident.latitude,
+            longitude: latestPoint?.longitude ?? incident.longitude,
+            accuracy: latestPoint?.accuracy ?? null
+          })
+        } catch (error) {
+          console.error('Error sending duress alert:', error)
+        }
+      }
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          message: `Incident ${outcome === 'resolved' ? 'resolved' : 'marked as false alarm'}`,
+          incident_id: incident.id,
+          status: outcome === 'resolved' ? 'resolved' : 'cancelled',
+          contacts_notified: incident.notified_contact_ids?.length ?? 0
+        }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      )
+    }
+
+    // Only the request that actually closes the incident sends the all-clear
+    const { data: closed, error: updateError } = await supabaseClient
+      .from('sos_incidents')
+      .update({
+        status: outcome === 'resolved' ? 'resolved' : 'cancelled',
+        resolution: outcome,
+        resolved_at: new Date().toISOString()
+      })
+      .eq('id', incident.id)
+      .eq('status', 'active')
+      .select('id')
+      .maybeSingle()
+
+    if (updateError) {
+      console.error('Error closing SOS incident:', updateError)
+      throw new Error('Failed to close SOS incident')
+    }
+
+    if (!closed) {
+      return new Response(
+        JSON.stringify({ error: 'SOS incident is already closed' }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const userName = await fetchSenderName(supabaseClient, user_id)
+
+    // Follow up with everyone who received the original alert; the incident is
+    // already closed, so a lookup failure only costs the all-clear
+    const contactIds: string[] = incident.notified_contact_ids ?? []
+    const contacts: ContactRow[] = contactIds.length > 0
+      ? await fetchOwnContacts(supabaseClient, user_id, contactIds).catch(() => [])
+      : []
+
+    let safeMessage = outcome === 'resolved'
+      ? `✅ ${userName} is safe now.\n\n`
+      : `✅ ${userName}'s earlier SOS alert was a false alarm. They are safe.\n\n`
+
+    if (message) {
+      safeMessage += `Message: ${message}\n\n`
+    }
+
+    safeMessage += `No further action is needed. Thank you for looking out for them.\n`
+    safeMessage += `Sent via WomenSafe India app.`
+
+    const emailPayload = {
+      from: MESSAGE_SENDER,
+      subject: `✅ ${userName} is safe now`,
+      text: safeMessage,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; background: #f0fdf4; padding: 20px; border-radius: 8px;">
+          <h1 style="color: #16a34a; text-align: center; margin: 0 0 20px 0;">✅ I'M SAFE NOW</h1>
+          <h2 style="color: #16a34a; margin: 0 0 20px 0;">From: ${escapeHtml(userName)}</h2>
+
+          <div style="background: white; padding: 20px; border-radius: 8px; border-left: 4px solid #16a34a; margin: 20px 0;">
+            <p style="margin: 0; font-size: 16px; line-height: 1.6;">
+              ${outcome === 'resolved'
+                ? 'The emergency has been resolved and I am safe.'
+                : 'My earlier SOS alert was a false alarm. I am safe.'}
+            </p>
+            ${message ? `<p style="margin: 10px 0 0 0; font-size: 14px; line-height: 1.6;">${textToHtml(message)}</p>` : ''}
+          </div>
+
+          ${footerHtml(new Date(), 'center')}
+        </div>
+      `
+    }
+
+    // Text the all-clear to everyone who could have received the SOS by SMS
+    const smsText = outcome === 'resolved'
+      ? `${userName} is safe now. No further action is needed.`
+      : `${userName}'s earlier SOS was a false alarm. They are safe.`
+
+    const deliveryResults = await sendNotifications(createNotificationDeps(supabaseClient), {
+      user_id: user_id,
+      source: 'all_clear',
+      incident_id: incident.id,
+      recipients: contacts,
+      render: () => ({ email: emailPayload, sms: { body: smsText } })
+    })
+
+    // Persist per-contact delivery on the incident timeline
+    const loggedResults = deliveryResults.filter(result => result.status !== 'skipped')
+
+    if (loggedResults.length > 0) {
+      const { error: eventsError } = await supabaseClient
+        .from('incident_events')
+        .insert(loggedResults.map(result => ({
+          incident_id: incident.id,
+          user_id: user_id,
+          event_type: result.status === 'sent' ? 'notification_sent' : 'notification_failed',
+          details: {
+            purpose: 'all_clear',
+            channel: result.channel,
+            contact_id: result.contact_id,
+            contact_name: result.contact_name,
+            message_id: result.message_id,
+            error: result.error
+          }
+        })))
+
+      if (eventsError) {
+        console.error('Error logging notification events:', eventsError)
+      }
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        message: `Incident ${outcome === 'resolved' ? 'resolved' : 'marked as false alarm'}`,
+        incident_id: incident.id,
+        status: outcome === 'resolved' ? 'resolved' : 'cancelled',
+        contacts_notified: contacts.length,
+        emails_sent: countSent(deliveryResults, 'email'),
+        email_results: withoutPayloads(deliveryResults.filter(result => result.channel === 'email')),
+        sms_sent: countSent(deliveryResults, 'sms'),
+        sms_results: withoutPayloads(deliveryResults.filter(result => result.channel === 'sms'))
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    )
+
+  } catch (error) {
+    console.error('Error in resolve-sos-incident:', error)
+    return new Response(
+      JSON.stringify({
+        error: error.message || 'Failed to resolve SOS incident'
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    )
+  }
+})
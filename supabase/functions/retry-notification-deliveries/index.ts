@@ -0,0 +1,214 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { createSmsProvider } from "../_shared/sms/index.ts"
+import { createEmailProvider } from "../_shared/notifications/index.ts"
+import {
+  ACK_URL_PLACEHOLDER,
+  MAX_DELIVERY_ATTEMPTS,
+  isRetryableError,
+  nextRetryAt,
+  replaceInPayload,
+  type EmailPayload,
+  type SmsPayload,
+} from "../_shared/deliveries.ts"
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Deliveries retried per invocation; the cron job runs every minute
+const BATCH_SIZE = 50
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    // Only the scheduled job (service role) may trigger retries
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Initialize Supabase client
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      serviceRoleKey
+    )
+
+    const { data: deliveries, error: deliveriesError } = await supabaseClient
+      .from('notification_deliveries')
+      .select('*, sos_incidents(status)')
+      .eq('status', 'failed')
+      .lte('next_retry_at', new Date().toISOString())
+      .lt('attempts', MAX_DELIVERY_ATTEMPTS)
+      .order('next_retry_at', { ascending: true })
+      .limit(BATCH_SIZE)
+
+    if (deliveriesError) {
+      console.error('Error fetching failed deliveries:', deliveriesError)
+      throw new Error('Failed to fetch failed deliveries')
+    }
+
+    const emailProvider = createEmailProvider()
+    const smsProvider = createSmsProvider()
+
+    const results = await Promise.all((deliveries ?? []).map(async (delivery) => {
+      const attempts = delivery.attempts + 1
+      let provider: string | null = delivery.provider
+      let providerMessageId: string | null = null
+      let sendError: string | null = null
+
+      // An alert must never arrive after the all-clear, and some failures can't be fixed by retrying
+      const incidentStatus = (delivery.sos_incidents as { status: string } | null)?.status
+      const giveUpReason = delivery.source === 'sos_alert' && incidentStatus && incidentStatus !== 'active'
+        ? 'Incident closed before the alert was delivered'
+        : !isRetryableError(delivery.error) ? delivery.error : null
+
+      if (giveUpReason) {
+        await supabaseClient
+          .from('notification_deliveries')
+          .update({ next_retry_at: null, error: giveUpReason })
+          .eq('id', delivery.id)
+          .eq('attempts', delivery.attempts)
+
+        return { id: delivery.id, status: 'abandoned', attempts: delivery.attempts }
+      }
+
+      // Claim the attempt first, so an overlapping run that read the same row skips it.
+      // If this run dies mid-send, the row comes up again at the next backoff step.
+      const { data: claimed, error: claimError } = await supabaseClient
+        .from('notification_deliveries')
+        .update({ attempts: attempts, next_retry_at: nextRetryAt(attempts) })
+        .eq('id', delivery.id)
+        .eq('status', 'failed')
+        .eq('attempts', delivery.attempts)
+        .select('id')
+
+      if (claimError) {
+        console.error('Error claiming delivery:', claimError)
+        return { id: delivery.id, status: 'failed', attempts: delivery.attempts }
+      }
+
+      if (!claimed || claimed.length === 0) {
+        return { id: delivery.id, status: 'skipped', attempts: delivery.attempts }
+      }
+
+      try {
+        let payload = delivery.payload as EmailPayload | SmsPayload
+
+        // Alerts are stored without the contact's acknowledgement link; put it back
+        if (JSON.stringify(payload).includes(ACK_URL_PLACEHOLDER)) {
+          const { data: ackToken } = await supabaseClient
+            .from('incident_ack_tokens')
+            .select('token')
+            .eq('incident_id', delivery.incident_id)
+            .eq('contact_id', delivery.contact_id)
+            .maybeSingle()
+
+          const appUrl = Deno.env.get('PUBLIC_APP_URL')
+          if (!ackToken || !appUrl) {
+            throw new Error('Acknowledgement link not available')
+          }
+          payload = replaceInPayload(payload, ACK_URL_PLACEHOLDER, `${appUrl.replace(/\/$/, '')}/ack/${ackToken.token}`)
+        }
+
+        if (delivery.channel === 'email') {
+          if (!emailProvider) {
+            throw new Error('Email provider not configured')
+          }
+          const emailResponse = await emailProvider.send({
+            ...(payload as EmailPayload),
+            to: delivery.recipient
+          })
+          provider = emailResponse.provider
+          providerMessageId = emailResponse.message_id ?? null
+        } else {
+          if (!smsProvider) {
+            throw new Error('SMS provider not configured')
+          }
+          const smsResponse = await smsProvider.send({
+            to: delivery.recipient,
+            body: (payload as SmsPayload).body
+          })
+          provider = smsResponse.provider
+          providerMessageId = smsResponse.message_id ?? null
+        }
+      } catch (error) {
+        console.error(`Retry ${attempts} to ${delivery.contact_name} via ${delivery.channel} failed:`, error)
+        sendError = error.message
+      }
+
+      const { error: updateError } = await supabaseClient
+        .from('notification_deliveries')
+        .update({
+          status: sendError ? 'failed' : 'sent',
+          attempts: attempts,
+          next_retry_at: sendError && isRetryableError(sendError) ? nextRetryAt(attempts) : null,
+          provider: provider,
+          provider_message_id: providerMessageId,
+          error: sendError
+        })
+        .eq('id', delivery.id)
+
+      if (updateError) {
+        console.error('Error updating delivery:', updateError)
+      }
+
+      // A late success still belongs on the incident timeline
+      if (!sendError && delivery.incident_id) {
+        const { error: eventError } = await supabaseClient
+          .from('incident_events')
+          .insert({
+            incident_id: delivery.incident_id,
+            user_id: delivery.user_id,
+            event_type: 'notification_sent',
+            details: {
+              purpose: delivery.source,
+              channel: delivery.channel,
+              contact_id: delivery.contact_id,
+              contact_name: delivery.contact_name,
+              message_id: providerMessageId,
+              attempt: attempts
+            }
+          })
+
+        if (eventError) {
+          console.error('Error logging notification event:', eventError)
+        }
+      }
+
+      return { id: delivery.id, status: sendError ? 'failed' : 'sent', attempts: attempts }
+    }))
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        retried: results.length,
+        sent: results.filter(r => r.status === 'sent').length,
+        results: results
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    )
+
+  } catch (error) {
+    console.error('Error in retry-notification-deliveries:', error)
+    return new Response(
+      JSON.stringify({
+        error: error.message || 'Failed to retry notification deliveries'
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    )
+  }
+})
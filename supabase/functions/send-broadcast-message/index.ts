@@ -1,6 +1,19 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
-import { Resend } from "https://esm.sh/resend@2.0.0"
+import { recordOutboundMessages, replyToAddress } from "../_shared/messages.ts"
+import { renderTemplate } from "../_shared/templates.ts"
+import {
+  MESSAGE_SENDER,
+  countSent,
+  createNotificationDeps,
+  createServiceClient,
+  fetchOwnContacts,
+  fetchSenderName,
+  mapsUrl,
+  personalMessageEmail,
+  sendNotifications,
+  withoutPayloads,
+} from "../_shared/notifications/index.ts"
+import { callerUserId } from "../_shared/auth.ts"
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -8,18 +21,16 @@ const corsHeaders = {
 }
 
 interface BroadcastRequest {
-  user_id: string;
+  // Only honoured for service-role calls from other functions; users are taken from their JWT
+  user_id?: string;
   subject: string;
   message: string;
   latitude?: number;
   longitude?: number;
-  contacts: Array<{
-    id: string;
-    name: string;
-    phone: string;
-    email?: string;
-    relationship?: string;
-  }>;
+  // Fills the {battery} placeholder
+  battery_level?: number | null;
+  // Only the ids are used; names and addresses come from the user's stored contacts
+  contacts: Array<{ id: string }>;
 }
 
 serve(async (req) => {
@@ -29,103 +40,82 @@ serve(async (req) => {
   }
 
   try {
-    const { user_id, subject, message, latitude, longitude, contacts }: BroadcastRequest = await req.json()
+    const { user_id: requestedUserId, subject, message, latitude, longitude, battery_level, contacts }: BroadcastRequest = await req.json()
 
-    // Initialize Supabase client
-    const supabaseClient = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
-    )
+    const supabaseClient = createServiceClient()
 
-    // Initialize Resend client
-    const resend = new Resend(Deno.env.get('RESEND_API_KEY') ?? '')
-
-    // Get user profile
-    const { data: profile } = await supabaseClient
-      .from('profiles')
-      .select('first_name, last_name')
-      .eq('user_id', user_id)
-      .single()
-
-    const userName = profile ? `${profile.first_name} ${profile.last_name}`.trim() : 'User'
-    
-    // Create location URL if coordinates are provided
-    const locationUrl = latitude && longitude 
-      ? `https://maps.google.com/maps?q=${latitude},${longitude}`
-      : null
-
-    // Prepare email content
-    let emailMessage = `Message from ${userName}:\n\n${message}`
-    
-    if (locationUrl) {
-      emailMessage += `\n\n📍 Current Location: ${locationUrl}`
+    const user_id = await callerUserId(req, supabaseClient, requestedUserId)
+    if (!user_id) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
     }
 
-    emailMessage += `\n\nSent via WomenSafe India app`
-
-    // Send emails to contacts with email addresses
-    const emailPromises = contacts
-      .filter(contact => contact.email)
-      .map(async (contact) => {
-        try {
-          const emailResponse = await resend.emails.send({
-            from: 'WomenSafe India <noreply@venkatesh7305.me>',
-            to: [contact.email!],
-            subject: subject,
-            text: emailMessage,
-            html: `
-              <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-                <h2 style="color: #dc2626;">Message from ${userName}</h2>
-                <div style="background: #f9fafb; padding: 20px; border-radius: 8px; margin: 20px 0;">
-                  <p style="margin: 0; line-height: 1.6;">${message.replace(/\n/g, '<br>')}</p>
-                </div>
-                ${locationUrl ? `
-                  <div style="background: #fef3c7; padding: 15px; border-radius: 8px; margin: 20px 0;">
-                    <p style="margin: 0; font-weight: bold;">📍 Current Location:</p>
-                    <a href="${locationUrl}" style="color: #dc2626;">${locationUrl}</a>
-                  </div>
-                ` : ''}
-                <div style="background: #dc2626; color: white; padding: 15px; border-radius: 8px; margin: 20px 0;">
-                  <p style="margin: 0; font-size: 14px;">
-                    <strong>Emergency Contacts (India):</strong><br>
-                    🚔 Police: 100<br>
-                    🚑 Ambulance: 108<br>
-                    👩‍⚕️ Women Helpline: 1091
-                  </p>
-                </div>
-                <p style="color: #6b7280; font-size: 12px;">
-                  Sent via WomenSafe India app - ${new Date().toLocaleString('en-IN', { timeZone: 'Asia/Kolkata' })}
-                </p>
-              </div>
-            `
-          })
+    const requestedIds = Array.from(new Set((contacts ?? []).map(contact => contact.id)))
+    if (requestedIds.length === 0) {
+      return new Response(
+        JSON.stringify({ error: 'No contacts to send to' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
 
-          console.log(`Email sent to ${contact.name} (${contact.email}):`, emailResponse)
-          return {
-            contact_name: contact.name,
-            contact_email: contact.email,
-            status: 'sent',
-            message_id: emailResponse.data?.id
-          }
-        } catch (error) {
-          console.error(`Failed to send email to ${contact.name}:`, error)
-          return {
-            contact_name: contact.name,
-            contact_email: contact.email,
-            status: 'failed',
-            error: error.message
-          }
+    const recipients = await fetchOwnContacts(supabaseClient, user_id, requestedIds)
+    if (recipients.length !== requestedIds.length) {
+      return new Response(
+        JSON.stringify({ error: 'Some contacts are not in your trusted circle' }),
+        { status: 403, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const userName = await fetchSenderName(supabaseClient, user_id)
+    const locationUrl = mapsUrl(latitude, longitude)
+
+    // Template placeholders are filled in for each recipient
+    const sentAt = new Date()
+    const render = (text: string, contactName: string) => renderTemplate(text, {
+      name: contactName,
+      location_link: locationUrl,
+      battery_level,
+      time: sentAt
+    })
+
+    // Add the broadcast to each contact's conversation history
+    const replyTokens = await recordOutboundMessages(supabaseClient, recipients.map(contact => ({
+      contact_id: contact.id,
+      body: render(message, contact.name),
+      is_broadcast: true,
+      sender_id: user_id
+    })))
+
+    // Broadcasts go out by email; per-contact Reply-To so an emailed reply lands in the right thread
+    const results = await sendNotifications(createNotificationDeps(supabaseClient), {
+      user_id: user_id,
+      source: 'broadcast',
+      recipients: recipients,
+      render: (contact) => ({
+        email: {
+          from: MESSAGE_SENDER,
+          subject: render(subject, contact.name),
+          reply_to: replyToAddress(replyTokens[contact.id]),
+          ...personalMessageEmail({
+            heading: `Message from ${userName}`,
+            senderName: userName,
+            body: render(message, contact.name),
+            locationLink: locationUrl,
+            helplines: 'banner',
+            sentAt
+          })
         }
       })
+    })
 
-    const emailResults = await Promise.all(emailPromises)
-
-    // Log all notifications (both email and SMS placeholder)
-    const allNotifications = contacts.map(contact => ({
+    // Log all notifications
+    const allNotifications = recipients.map(contact => ({
       contact_name: contact.name,
       contact_phone: contact.phone,
       contact_email: contact.email,
-      message: emailMessage,
+      message: render(message, contact.name),
       sent_at: new Date().toISOString(),
       email_sent: !!contact.email
     }))
@@ -135,10 +125,10 @@ serve(async (req) => {
     return new Response(
       JSON.stringify({
         success: true,
-        message: `Broadcast sent to ${contacts.length} contacts`,
-        contacts_notified: contacts.length,
-        emails_sent: emailResults.filter(r => r.status === 'sent').length,
-        email_results: emailResults,
+        message: `Broadcast sent to ${recipients.length} contacts`,
+        contacts_notified: recipients.length,
+        emails_sent: countSent(results, 'email'),
+        email_results: withoutPayloads(results),
         notifications: allNotifications
       }),
       {
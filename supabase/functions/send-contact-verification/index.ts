@@ -0,0 +1,152 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import {
+  MESSAGE_SENDER,
+  createNotificationDeps,
+  createServiceClient,
+  escapeHtml,
+  fetchSenderName,
+  footerHtml,
+  sendNotifications,
+  withoutPayloads,
+} from "../_shared/notifications/index.ts"
+import { callerUserId } from "../_shared/auth.ts"
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface VerificationRequest {
+  contact_id: string;
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const { contact_id }: VerificationRequest = await req.json()
+
+    const supabaseClient = createServiceClient()
+
+    const user_id = await callerUserId(req, supabaseClient)
+    if (!user_id) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const { data: contact, error: contactError } = await supabaseClient
+      .from('emergency_contacts')
+      .select('*')
+      .eq('id', contact_id)
+      .eq('user_id', user_id)
+      .maybeSingle()
+
+    if (contactError) {
+      console.error('Error fetching contact:', contactError)
+      throw new Error('Failed to fetch contact')
+    }
+
+    if (!contact) {
+      return new Response(
+        JSON.stringify({ error: 'Contact not found' }),
+        { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (contact.verification_status === 'verified') {
+      return new Response(
+        JSON.stringify({ error: `${contact.name} has already confirmed` }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const appUrl = Deno.env.get('PUBLIC_APP_URL')
+    if (!appUrl) {
+      throw new Error('PUBLIC_APP_URL is not configured')
+    }
+
+    // Kept out of emergency_contacts so the user who added the contact can't confirm for them
+    const { data: verificationToken, error: tokenError } = await supabaseClient
+      .from('emergency_contact_verification_tokens')
+      .select('token')
+      .eq('contact_id', contact.id)
+      .single()
+
+    if (tokenError) {
+      console.error('Error fetching verification token:', tokenError)
+      throw new Error('Failed to fetch verification link')
+    }
+
+    const confirmUrl = `${appUrl.replace(/\/$/, '')}/verify-contact/${verificationToken.token}`
+
+    const userName = await fetchSenderName(supabaseClient, user_id)
+
+    const emailPayload = {
+      from: MESSAGE_SENDER,
+      subject: `${userName} wants you as an emergency contact`,
+      text: `${userName} has added you as a trusted emergency contact on the WomenSafe India app. If they ever trigger an SOS, you will get an alert with their live location.\n\nPlease confirm you agree to be contacted: ${confirmUrl}\n\nIf you don't know ${userName}, you can decline from the same link.`,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
+          <h2 style="color: #dc2626;">${escapeHtml(userName)} trusts you</h2>
+          <p style="line-height: 1.6;">
+            ${escapeHtml(userName)} has added you as a trusted emergency contact on the WomenSafe India app.
+            If they ever trigger an SOS, you will get an alert with their live location.
+          </p>
+          <div style="text-align: center; margin: 30px 0;">
+            <a href="${confirmUrl}" style="display: inline-block; background: #dc2626; color: white; font-weight: bold; font-size: 16px; padding: 12px 24px; border-radius: 8px; text-decoration: none;">Confirm or decline</a>
+          </div>
+          ${footerHtml()}
+        </div>
+      `
+    }
+    const smsText = `${userName} added you as an emergency contact on WomenSafe India. Please confirm you agree: ${confirmUrl}`
+
+    // A number that cannot be normalised comes back as 'Invalid phone number', which the app flags as a likely typo
+    const results = withoutPayloads(await sendNotifications(createNotificationDeps(supabaseClient), {
+      user_id: user_id,
+      source: 'verification',
+      recipients: [contact],
+      render: () => ({ email: emailPayload, sms: { body: smsText } })
+    }))
+    const emailResult = results.find(result => result.channel === 'email') ?? null
+    const smsResult = results.find(result => result.channel === 'sms') ?? null
+
+    const { error: updateError } = await supabaseClient
+      .from('emergency_contacts')
+      .update({ verification_sent_at: new Date().toISOString() })
+      .eq('id', contact.id)
+
+    if (updateError) {
+      console.error('Error updating verification timestamp:', updateError)
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        message: `Confirmation request sent to ${contact.name}`,
+        email_result: emailResult,
+        sms_result: smsResult
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    )
+
+  } catch (error) {
+    console.error('Error in send-contact-verification:', error)
+    return new Response(
+      JSON.stringify({
+        error: error.message || 'Failed to send contact verification'
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    )
+  }
+})
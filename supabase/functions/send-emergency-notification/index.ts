@@ -1,6 +1,22 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
-import { Resend } from "https://esm.sh/resend@2.0.0"
+import { nextSosTier } from "../_shared/contacts.ts"
+import {
+  EMERGENCY_SENDER,
+  countSent,
+  createNotificationDeps,
+  createServiceClient,
+  escapeHtml,
+  fetchOwnContacts,
+  fetchSenderName,
+  footerHtml,
+  mapsUrl,
+  sendNotifications,
+  textToHtml,
+  withoutPayloads,
+} from "../_shared/notifications/index.ts"
+import { ACK_URL_PLACEHOLDER, replaceInPayload } from "../_shared/deliveries.ts"
+import { ALERT_MEDIA_URL_TTL_SECONDS, isOwnMediaPath, logEvidenceAccess, signMediaPath } from "../_shared/media.ts"
+import { callerUserId } from "../_shared/auth.ts"
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -8,12 +24,27 @@ const corsHeaders = {
 }
 
 interface EmergencyRequest {
-  user_id: string;
+  // Only honoured for service-role calls from other functions; users are taken from their JWT
+  user_id?: string;
   latitude?: number;
   longitude?: number;
+  accuracy?: number;
   message?: string;
-  media_url?: string;
+  // Object path in the private emergency-media bucket; contacts get a signed link
+  media_path?: string;
+  media_type?: 'audio' | 'video';
   contact_ids?: string[];
+  // Alert one contact group instead of the configured routing
+  group_id?: string;
+  // Raised with the duress PIN: contacts are warned not to reach out directly
+  duress?: boolean;
+  // Phone battery percentage, shown only if the user opted in
+  battery_level?: number | null;
+  // Earlier positions to show on the trail, e.g. from a check-in timer
+  route?: Array<{ latitude: number; longitude: number; recorded_at?: string }>;
+  // Follow-up for an open incident instead of a new SOS (used by escalate-sos-incidents)
+  incident_id?: string;
+  escalation_level?: number;
 }
 
 serve(async (req) => {
@@ -23,66 +54,274 @@ serve(async (req) => {
   }
 
   try {
-    const { user_id, latitude, longitude, message, media_url, contact_ids }: EmergencyRequest = await req.json()
+    const { user_id: requestedUserId, latitude, longitude, accuracy, message, media_path, media_type, contact_ids, group_id, duress, battery_level, route, incident_id, escalation_level }: EmergencyRequest = await req.json()
 
     // Initialize Supabase client
-    const supabaseClient = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
-    )
+    const supabaseClient = createServiceClient()
 
-    // Initialize Resend client
-    const resend = new Resend(Deno.env.get('RESEND_API_KEY') ?? '')
+    const user_id = await callerUserId(req, supabaseClient, requestedUserId)
+    if (!user_id) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
 
-    // Get user profile
-    const { data: profile } = await supabaseClient
-      .from('profiles')
-      .select('first_name, last_name')
-      .eq('user_id', user_id)
-      .single()
+    if (media_path && !isOwnMediaPath(user_id, media_path)) {
+      return new Response(
+        JSON.stringify({ error: 'Invalid media path' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
 
-    // Get emergency contacts for the user
-    let contactsQuery = supabaseClient
-      .from('emergency_contacts')
+    const userName = await fetchSenderName(supabaseClient, user_id)
+
+    // SOS preferences from the Settings tab; defaults apply when none are saved
+    const { data: settings, error: settingsError } = await supabaseClient
+      .from('user_settings')
       .select('*')
       .eq('user_id', user_id)
+      .maybeSingle()
 
-    if (contact_ids && contact_ids.length > 0) {
-      contactsQuery = contactsQuery.in('id', contact_ids)
+    if (settingsError) {
+      console.error('Error fetching user settings:', settingsError)
     }
 
-    const { data: contacts, error: contactsError } = await contactsQuery
+    // Get emergency contacts for the user
+    const allContacts = await fetchOwnContacts(supabaseClient, user_id)
+
+    const { data: groups, error: groupsError } = await supabaseClient
+      .from('contact_groups')
+      .select('id, tier, notify_on_sos')
+      .eq('user_id', user_id)
 
-    if (contactsError) {
-      console.error('Error fetching contacts:', contactsError)
-      throw new Error('Failed to fetch emergency contacts')
+    if (groupsError) {
+      console.error('Error fetching contact groups:', groupsError)
     }
 
-    if (!contacts || contacts.length === 0) {
+    // Explicit recipients win, then a requested group; otherwise route SOS and media alerts
+    // as configured. Without configured routing an SOS goes to the first tier of the circle.
+    const hasExplicitContacts = !!contact_ids && contact_ids.length > 0
+    const configuredIds: string[] | null = (media_path ? settings?.media_contact_ids : settings?.sos_contact_ids) ?? null
+    const routedContacts = hasExplicitContacts
+      ? (allContacts ?? []).filter(contact => contact_ids?.includes(contact.id))
+      : group_id
+        ? (allContacts ?? []).filter(contact => contact.group_id === group_id)
+        : configuredIds
+          ? (allContacts ?? []).filter(contact => configuredIds.includes(contact.id))
+          : media_path
+            ? (allContacts ?? [])
+            : nextSosTier(allContacts ?? [], groups ?? [])
+
+    // Stale routing (e.g. every chosen contact was deleted) must never silence an SOS
+    const contacts = routedContacts.length > 0 || hasExplicitContacts ? routedContacts : (allContacts ?? [])
+
+    if (contacts.length === 0) {
       throw new Error('No emergency contacts found to notify')
     }
 
-    // Create location URL if coordinates are provided
-    const locationUrl = latitude && longitude 
-      ? `https://maps.google.com/maps?q=${latitude},${longitude}`
+    const alertMessage = message || settings?.default_sos_message || null
+    const batteryText = settings?.include_battery_level && typeof battery_level === 'number'
+      ? `${Math.round(battery_level)}%`
+      : null
+
+    const locationUrl = mapsUrl(latitude, longitude)
+
+    let incident: { id: string; tracking_token: string } | null = null
+
+    if (incident_id) {
+      // Escalations reach more people about the same emergency, so they reuse the open incident
+      const { data: existing, error: existingError } = await supabaseClient
+        .from('sos_incidents')
+        .select('id, tracking_token, notified_contact_ids')
+        .eq('id', incident_id)
+        .eq('user_id', user_id)
+        .eq('status', 'active')
+        .maybeSingle()
+
+      if (existingError) {
+        console.error('Error fetching SOS incident:', existingError)
+      }
+
+      if (!existing) {
+        return new Response(
+          JSON.stringify({ error: 'Incident not found or no longer active' }),
+          { status: 404, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        )
+      }
+
+      const notifiedIds = Array.from(new Set([...existing.notified_contact_ids, ...contacts.map(contact => contact.id)]))
+      const { error: notifiedError } = await supabaseClient
+        .from('sos_incidents')
+        .update({ notified_contact_ids: notifiedIds })
+        .eq('id', existing.id)
+
+      if (notifiedError) {
+        console.error('Error updating notified contacts:', notifiedError)
+      }
+
+      incident = existing
+    } else {
+      // Create SOS incident record
+      const { data: created, error: sosError } = await supabaseClient
+        .from('sos_incidents')
+        .insert({
+          user_id: user_id,
+          latitude: latitude,
+          longitude: longitude,
+          status: 'active',
+          is_duress: !!duress,
+          notified_contact_ids: contacts.map(contact => contact.id)
+        })
+        .select('id, tracking_token')
+        .single()
+
+      if (sosError) {
+        console.error('Error creating SOS incident:', sosError)
+      }
+
+      incident = created
+    }
+
+    // Seed the incident's live trail with any earlier route and the initial fix
+    const seedPoints = [
+      ...(route ?? []).map(point => ({
+        latitude: point.latitude,
+        longitude: point.longitude,
+        accuracy: null as number | null,
+        recorded_at: point.recorded_at ?? new Date().toISOString()
+      })),
+      ...(latitude && longitude
+        ? [{ latitude, longitude, accuracy: accuracy ?? null, recorded_at: new Date().toISOString() }]
+        : [])
+    ]
+
+    // Follow-ups already have a trail; their location is its latest point
+    if (incident && !incident_id && seedPoints.length > 0) {
+      const { error: pointError } = await supabaseClient
+        .from('sos_location_points')
+        .insert(seedPoints.map(point => ({
+          ...point,
+          incident_id: incident.id,
+          user_id: user_id
+        })))
+
+      if (pointError) {
+        console.error('Error recording initial location point:', pointError)
+      }
+    }
+
+    // Attach any recording to the incident so it shows on the tracking page
+    if (incident && media_path) {
+      const { error: mediaError } = await supabaseClient
+        .from('sos_incident_media')
+        .insert({
+          incident_id: incident.id,
+          user_id: user_id,
+          storage_path: media_path,
+          media_type: media_type ?? 'audio'
+        })
+
+      if (mediaError) {
+        console.error('Error recording incident media:', mediaError)
+      }
+
+      // Locks the recording in the evidence locker until the incident is closed
+      const { error: evidenceError } = await supabaseClient
+        .from('media_evidence')
+        .update({ incident_id: incident.id })
+        .eq('storage_path', media_path)
+        .is('incident_id', null)
+
+      if (evidenceError) {
+        console.error('Error attaching media evidence:', evidenceError)
+      }
+    }
+
+    // Time-limited link to the recording; the tracking page hands out fresh ones
+    const signedMedia = media_path
+      ? await signMediaPath(supabaseClient, media_path, ALERT_MEDIA_URL_TTL_SECONDS)
+      : null
+    const mediaUrl = signedMedia?.url ?? null
+
+    if (signedMedia && media_path) {
+      await logEvidenceAccess(supabaseClient, [media_path], 'system', 'link_signed', {
+        via: 'alert',
+        incident_id: incident?.id ?? null,
+        expires_in: ALERT_MEDIA_URL_TTL_SECONDS
+      })
+    }
+
+    // Public live tracking link, valid until the incident is closed
+    const appUrl = Deno.env.get('PUBLIC_APP_URL')
+    const trackingUrl = incident && appUrl
+      ? `${appUrl.replace(/\/$/, '')}/track/${incident.tracking_token}`
       : null
 
+    // Per-contact "I'm responding" links; a re-send keeps each contact's existing link
+    const ackUrls = new Map<string, string>()
+    if (incident && appUrl) {
+      const incidentId = incident.id
+      const { error: ackTokenError } = await supabaseClient
+        .from('incident_ack_tokens')
+        .upsert(
+          contacts.map(contact => ({ incident_id: incidentId, contact_id: contact.id })),
+          { onConflict: 'incident_id,contact_id', ignoreDuplicates: true }
+        )
+
+      if (ackTokenError) {
+        console.error('Error creating acknowledgement links:', ackTokenError)
+      }
+
+      const { data: ackTokens } = await supabaseClient
+        .from('incident_ack_tokens')
+        .select('contact_id, token')
+        .eq('incident_id', incidentId)
+
+      for (const ackToken of ackTokens ?? []) {
+        ackUrls.set(ackToken.contact_id, `${appUrl.replace(/\/$/, '')}/ack/${ackToken.token}`)
+      }
+    }
+    const ackUrlFor = (contactId: string) => ackUrls.get(contactId) ?? null
+
     // Create emergency message
-    const userName = profile ? `${profile.first_name} ${profile.last_name}`.trim() : 'User'
     let emergencyMessage = `🚨 EMERGENCY ALERT from ${userName}!\n\n`
+
+    // Set by escalate-sos-incidents when nobody has acknowledged the alert in time
+    const escalationNote = escalation_level === 1
+      ? `${userName}'s first contacts have not responded yet, so this alert is now going to you as well.`
+      : escalation_level === 2
+        ? `No one has responded to this alert yet. This is a reminder with ${userName}'s latest location.`
+        : null
+
+    if (escalationNote) {
+      emergencyMessage += `⏰ ${escalationNote}\n\n`
+    }
+
+    if (duress) {
+      emergencyMessage += `⚠️ SILENT DURESS SIGNAL: ${userName} entered their duress PIN. Someone may be forcing them to cancel this alert. Do NOT call or text them directly. Contact the police (100) instead.\n\n`
+    }
     
-    if (message) {
-      emergencyMessage += `Message: ${message}\n\n`
+    if (alertMessage) {
+      emergencyMessage += `Message: ${alertMessage}\n\n`
     } else {
       emergencyMessage += `I need immediate help!\n\n`
     }
 
+    if (batteryText) {
+      emergencyMessage += `🔋 Phone Battery: ${batteryText}\n\n`
+    }
+
     if (locationUrl) {
       emergencyMessage += `📍 Current Location: ${locationUrl}\n\n`
     }
 
-    if (media_url) {
-      emergencyMessage += `📎 Emergency Recording: ${media_url}\n\n`
+    if (trackingUrl) {
+      emergencyMessage += `🛰️ Follow Live Location: ${trackingUrl}\n\n`
+    }
+
+    if (mediaUrl) {
+      emergencyMessage += `📎 Emergency Recording (link valid for 24 hours): ${mediaUrl}\n\n`
     }
 
     emergencyMessage += `This is an automated SOS message from WomenSafe India app.\n`
@@ -91,116 +330,165 @@ serve(async (req) => {
     emergencyMessage += `🚑 Ambulance: 108\n`
     emergencyMessage += `👩‍⚕️ Women Helpline: 1091`
 
-    // Send emails to contacts with email addresses
-    const emailPromises = contacts
-      .filter(contact => contact.email)
-      .map(async (contact) => {
-        try {
-          const emailResponse = await resend.emails.send({
-            from: 'WomenSafe India Emergency <emergency@venkatesh7305.me>',
-            to: [contact.email],
-            subject: `🚨 EMERGENCY ALERT from ${userName}`,
-            text: emergencyMessage,
-            html: `
-              <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; background: #fef2f2; padding: 20px; border-radius: 8px;">
-                <h1 style="color: #dc2626; text-align: center; margin: 0 0 20px 0;">🚨 EMERGENCY ALERT</h1>
-                <h2 style="color: #dc2626; margin: 0 0 20px 0;">From: ${userName}</h2>
-                
-                <div style="background: white; padding: 20px; border-radius: 8px; border-left: 4px solid #dc2626; margin: 20px 0;">
-                  <p style="margin: 0; font-size: 16px; line-height: 1.6;">
-                    ${message ? message : 'I need immediate help!'}
-                  </p>
-                </div>
-
-                ${locationUrl ? `
-                  <div style="background: #fef3c7; padding: 15px; border-radius: 8px; margin: 20px 0;">
-                    <p style="margin: 0 0 10px 0; font-weight: bold; color: #92400e;">📍 Current Location:</p>
-                    <a href="${locationUrl}" style="color: #dc2626; font-weight: bold; font-size: 16px;">${locationUrl}</a>
-                  </div>
-                ` : ''}
-
-                ${media_url ? `
-                  <div style="background: #e0f2fe; padding: 15px; border-radius: 8px; margin: 20px 0;">
-                    <p style="margin: 0 0 10px 0; font-weight: bold; color: #0277bd;">📎 Emergency Recording:</p>
-                    <a href="${media_url}" style="color: #dc2626; font-weight: bold;">${media_url}</a>
-                  </div>
-                ` : ''}
-
-                <div style="background: #dc2626; color: white; padding: 20px; border-radius: 8px; margin: 20px 0; text-align: center;">
-                  <p style="margin: 0 0 10px 0; font-size: 18px; font-weight: bold;">IMMEDIATE ACTION REQUIRED</p>
-                  <p style="margin: 0; font-size: 16px;">
-                    🚔 Police: 100<br>
-                    🚑 Ambulance: 108<br>
-                    👩‍⚕️ Women Helpline: 1091
-                  </p>
-                </div>
-
-                <p style="color: #6b7280; font-size: 12px; text-align: center;">
-                  Sent via WomenSafe India app - ${new Date().toLocaleString('en-IN', { timeZone: 'Asia/Kolkata' })}
-                </p>
-              </div>
-            `
-          })
-
-          console.log(`Emergency email sent to ${contact.name} (${contact.email}):`, emailResponse)
-          return {
-            contact_name: contact.name,
-            contact_email: contact.email,
-            status: 'sent',
-            message_id: emailResponse.data?.id
-          }
-        } catch (error) {
-          console.error(`Failed to send emergency email to ${contact.name}:`, error)
-          return {
-            contact_name: contact.name,
-            contact_email: contact.email,
-            status: 'failed',
-            error: error.message
-          }
-        }
+    const subject = duress ? `⚠️ DURESS ALERT from ${userName}` : `🚨 EMERGENCY ALERT from ${userName}`
+    // The name, message and location come from the user's profile and request, so they are escaped in the HTML
+    const userNameHtml = escapeHtml(userName)
+    const buildEmailPayload = (ackUrl: string | null) => ({
+      from: EMERGENCY_SENDER,
+      subject: escalationNote ? `⏰ NO RESPONSE YET: ${subject}` : subject,
+      text: ackUrl ? `${emergencyMessage}\n\n✅ Let ${userName} know you're responding: ${ackUrl}` : emergencyMessage,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; background: #fef2f2; padding: 20px; border-radius: 8px;">
+          <h1 style="color: #dc2626; text-align: center; margin: 0 0 20px 0;">🚨 EMERGENCY ALERT</h1>
+          <h2 style="color: #dc2626; margin: 0 0 20px 0;">From: ${userNameHtml}</h2>
+
+          ${escalationNote ? `
+            <div style="background: #fff7ed; border: 2px solid #ea580c; padding: 15px; border-radius: 8px; margin: 20px 0;">
+              <p style="margin: 0; font-size: 15px; font-weight: bold; color: #9a3412;">⏰ ${escapeHtml(escalationNote)}</p>
+            </div>
+          ` : ''}
+
+          ${ackUrl ? `
+            <div style="text-align: center; margin: 20px 0;">
+              <a href="${ackUrl}" style="display: inline-block; background: #16a34a; color: white; font-weight: bold; font-size: 16px; padding: 12px 24px; border-radius: 8px; text-decoration: none;">✅ I'm responding</a>
+              <p style="margin: 10px 0 0 0; font-size: 12px; color: #6b7280;">Lets ${userNameHtml} know someone is on it and stops the alert from escalating.</p>
+            </div>
+          ` : ''}
+
+          ${duress ? `
+            <div style="background: #7f1d1d; color: white; padding: 20px; border-radius: 8px; margin: 20px 0;">
+              <p style="margin: 0 0 10px 0; font-size: 18px; font-weight: bold;">⚠️ SILENT DURESS SIGNAL</p>
+              <p style="margin: 0; font-size: 15px; line-height: 1.6;">
+                ${userNameHtml} entered their duress PIN. Someone may be forcing them to cancel this alert, and their screen shows it as cancelled.
+                <strong>Do NOT call or text them directly.</strong> Contact the police (100) and share the location below.
+              </p>
+            </div>
+          ` : ''}
+          
+          <div style="background: white; padding: 20px; border-radius: 8px; border-left: 4px solid #dc2626; margin: 20px 0;">
+            <p style="margin: 0; font-size: 16px; line-height: 1.6;">
+              ${alertMessage ? textToHtml(alertMessage) : 'I need immediate help!'}
+            </p>
+            ${batteryText ? `<p style="margin: 10px 0 0 0; font-size: 14px; color: #6b7280;">🔋 Phone battery: ${batteryText}</p>` : ''}
+          </div>
+
+          ${locationUrl ? `
+            <div style="background: #fef3c7; padding: 15px; border-radius: 8px; margin: 20px 0;">
+              <p style="margin: 0 0 10px 0; font-weight: bold; color: #92400e;">📍 Current Location:</p>
+              <a href="${escapeHtml(locationUrl)}" style="color: #dc2626; font-weight: bold; font-size: 16px;">${escapeHtml(locationUrl)}</a>
+            </div>
+          ` : ''}
+
+          ${trackingUrl ? `
+            <div style="background: #dcfce7; padding: 15px; border-radius: 8px; margin: 20px 0;">
+              <p style="margin: 0 0 10px 0; font-weight: bold; color: #166534;">🛰️ Follow Live Location:</p>
+              <a href="${trackingUrl}" style="color: #dc2626; font-weight: bold; font-size: 16px;">${trackingUrl}</a>
+            </div>
+          ` : ''}
+
+          ${mediaUrl ? `
+            <div style="background: #e0f2fe; padding: 15px; border-radius: 8px; margin: 20px 0;">
+              <p style="margin: 0 0 10px 0; font-weight: bold; color: #0277bd;">📎 Emergency Recording:</p>
+              <a href="${mediaUrl}" style="color: #dc2626; font-weight: bold;">Play recording</a>
+              <p style="margin: 10px 0 0 0; font-size: 12px; color: #6b7280;">
+                This link expires in 24 hours.${trackingUrl ? ' The live tracking page above always has a fresh link.' : ''}
+              </p>
+            </div>
+          ` : ''}
+
+          <div style="background: #dc2626; color: white; padding: 20px; border-radius: 8px; margin: 20px 0; text-align: center;">
+            <p style="margin: 0 0 10px 0; font-size: 18px; font-weight: bold;">IMMEDIATE ACTION REQUIRED</p>
+            <p style="margin: 0; font-size: 16px;">
+              🚔 Police: 100<br>
+              🚑 Ambulance: 108<br>
+              👩‍⚕️ Women Helpline: 1091
+            </p>
+          </div>
+
+          ${footerHtml(new Date(), 'center')}
+        </div>
+      `
+    })
+
+    // Texts are kept short; both channels carry the contact's own "I'm responding" link
+    let smsText = duress
+      ? `DURESS SOS from ${userName}. They may be forced to cancel. Do NOT call them, call 100.`
+      : `SOS from ${userName}: ${alertMessage || 'I need immediate help!'}`
+    if (escalationNote) smsText = `NO RESPONSE YET. ${smsText}`
+    if (batteryText) smsText += ` Battery: ${batteryText}.`
+    if (locationUrl) smsText += ` Location: ${locationUrl}`
+    if (trackingUrl) smsText += ` Live: ${trackingUrl}`
+    smsText += ` Call 100/1091 if needed.`
+    const smsTextFor = (ackUrl: string | null) => ackUrl ? `${smsText} Responding? Tap ${ackUrl}` : smsText
+
+    const deps = createNotificationDeps(supabaseClient)
+    const results = await sendNotifications({
+      ...deps,
+      recordDeliveries: (records) => deps.recordDeliveries(records.map(record => {
+        const ackUrl = record.contact_id ? ackUrlFor(record.contact_id) : null
+        return ackUrl ? { ...record, payload: replaceInPayload(record.payload, ackUrl, ACK_URL_PLACEHOLDER) } : record
+      }))
+    }, {
+      user_id: user_id,
+      source: 'sos_alert',
+      incident_id: incident?.id ?? null,
+      recipients: contacts,
+      render: (contact) => ({
+        email: buildEmailPayload(ackUrlFor(contact.id)),
+        sms: { body: smsTextFor(ackUrlFor(contact.id)) }
       })
+    })
 
-    const emailResults = await Promise.all(emailPromises)
+    // Persist per-contact delivery on the incident timeline
+    const deliveryResults = results.filter(result => result.status !== 'skipped')
 
-    // Log all notifications (both email and SMS placeholder)
+    if (incident && deliveryResults.length > 0) {
+      const { error: eventsError } = await supabaseClient
+        .from('incident_events')
+        .insert(deliveryResults.map(result => ({
+          incident_id: incident.id,
+          user_id: user_id,
+          event_type: result.status === 'sent' ? 'notification_sent' : 'notification_failed',
+          details: {
+            purpose: 'sos_alert',
+            channel: result.channel,
+            escalation_level: escalation_level ?? 0,
+            contact_id: result.contact_id,
+            contact_name: result.contact_name,
+            message_id: result.message_id,
+            error: result.error
+          }
+        })))
+
+      if (eventsError) {
+        console.error('Error logging notification events:', eventsError)
+      }
+    }
+
+    // Log all notifications (both email and SMS)
     const notifications = contacts.map(contact => ({
       contact_name: contact.name,
       contact_phone: contact.phone,
       contact_email: contact.email,
       message: emergencyMessage,
       sent_at: new Date().toISOString(),
-      email_sent: !!contact.email
+      email_sent: results.some(r => r.contact_id === contact.id && r.channel === 'email' && r.status === 'sent'),
+      sms_sent: results.some(r => r.contact_id === contact.id && r.channel === 'sms' && r.status === 'sent')
     }))
 
     console.log('Emergency notifications sent:', notifications)
 
-    // Create SOS incident record
-    const { error: sosError } = await supabaseClient
-      .from('sos_incidents')
-      .insert({
-        user_id: user_id,
-        latitude: latitude,
-        longitude: longitude,
-        status: 'active'
-      })
-
-    if (sosError) {
-      console.error('Error creating SOS incident:', sosError)
-    }
-
-    // In a real implementation, you would:
-    // 1. Send SMS notifications using services like Twilio, AWS SNS, or local SMS providers
-    // 2. Send email notifications using services like SendGrid, AWS SES, or similar
-    // 3. Store notification logs in the database
-    // 4. Handle delivery failures and retries
-
     return new Response(
       JSON.stringify({
         success: true,
         message: `Emergency notifications sent to ${contacts.length} contacts`,
         contacts_notified: contacts.length,
-        emails_sent: emailResults.filter(r => r.status === 'sent').length,
-        email_results: emailResults,
+        incident_id: incident?.id ?? null,
+        tracking_url: trackingUrl,
+        emails_sent: countSent(results, 'email'),
+        email_results: withoutPayloads(results.filter(r => r.channel === 'email')),
+        sms_sent: countSent(results, 'sms'),
+        sms_results: withoutPayloads(results.filter(r => r.channel === 'sms')),
         notifications: notifications
       }),
       {
@@ -1,6 +1,18 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
-import { Resend } from "https://esm.sh/resend@2.0.0"
+import { recordOutboundMessages, replyToAddress } from "../_shared/messages.ts"
+import { renderTemplate } from "../_shared/templates.ts"
+import {
+  MESSAGE_SENDER,
+  createNotificationDeps,
+  createServiceClient,
+  fetchOwnContacts,
+  fetchSenderName,
+  mapsUrl,
+  personalMessageEmail,
+  sendNotifications,
+  withoutPayloads,
+} from "../_shared/notifications/index.ts"
+import { callerUserId } from "../_shared/auth.ts"
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -8,18 +20,14 @@ const corsHeaders = {
 }
 
 interface IndividualMessageRequest {
-  user_id: string;
-  contact: {
-    id: string;
-    name: string;
-    phone: string;
-    email?: string;
-    relationship?: string;
-  };
+  // Only the id is used; the name and address come from the user's stored contact
+  contact: { id: string };
   subject: string;
   message: string;
   latitude?: number;
   longitude?: number;
+  // Fills the {battery} placeholder
+  battery_level?: number | null;
 }
 
 serve(async (req) => {
@@ -29,98 +37,78 @@ serve(async (req) => {
   }
 
   try {
-    const { user_id, contact, subject, message, latitude, longitude }: IndividualMessageRequest = await req.json()
+    const { contact: requestedContact, subject, message, latitude, longitude, battery_level }: IndividualMessageRequest = await req.json()
 
-    // Initialize Supabase client
-    const supabaseClient = createClient(
-      Deno.env.get('SUPABASE_URL') ?? '',
-      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
-    )
+    const supabaseClient = createServiceClient()
 
-    // Initialize Resend client (only if contact has email)
-    let resend;
-    if (contact.email) {
-      resend = new Resend(Deno.env.get('RESEND_API_KEY') ?? '')
+    const user_id = await callerUserId(req, supabaseClient)
+    if (!user_id) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
     }
 
-    // Get user profile
-    const { data: profile } = await supabaseClient
-      .from('profiles')
-      .select('first_name, last_name')
-      .eq('user_id', user_id)
-      .single()
-
-    const userName = profile ? `${profile.first_name} ${profile.last_name}`.trim() : 'User'
-    
-    // Create location URL if coordinates are provided
-    const locationUrl = latitude && longitude 
-      ? `https://maps.google.com/maps?q=${latitude},${longitude}`
-      : null
-
-    // Prepare message content
-    let finalMessage = `Message from ${userName}:\n\n${message}`
-    
-    if (locationUrl) {
-      finalMessage += `\n\n📍 Current Location: ${locationUrl}`
+    // The message is filed under this contact's thread, so it must be one of the user's contacts
+    const [contact] = requestedContact?.id
+      ? await fetchOwnContacts(supabaseClient, user_id, [requestedContact.id])
+      : []
+
+    if (!contact) {
+      return new Response(
+        JSON.stringify({ error: 'Contact not found' }),
+        {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        }
+      )
     }
 
-    finalMessage += `\n\nSent via WomenSafe India app`
-
-    let emailResult = null;
-
-    // Send email if contact has email address
-    if (contact.email && resend) {
-      try {
-        const emailResponse = await resend.emails.send({
-          from: 'WomenSafe India <noreply@venkatesh7305.me>',
-          to: [contact.email],
-          subject: subject,
-          text: finalMessage,
-          html: `
-            <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-              <h2 style="color: #dc2626;">Personal Message from ${userName}</h2>
-              <div style="background: #f9fafb; padding: 20px; border-radius: 8px; margin: 20px 0;">
-                <p style="margin: 0; line-height: 1.6;">${message.replace(/\n/g, '<br>')}</p>
-              </div>
-              ${locationUrl ? `
-                <div style="background: #fef3c7; padding: 15px; border-radius: 8px; margin: 20px 0;">
-                  <p style="margin: 0; font-weight: bold;">📍 Current Location:</p>
-                  <a href="${locationUrl}" style="color: #dc2626;">${locationUrl}</a>
-                </div>
-              ` : ''}
-              <div style="background: #f3f4f6; padding: 15px; border-radius: 8px; margin: 20px 0;">
-                <p style="margin: 0; font-size: 14px; color: #374151;">
-                  <strong>Emergency Contacts (India):</strong><br>
-                  🚔 Police: 100 | 🚑 Ambulance: 108 | 👩‍⚕️ Women Helpline: 1091
-                </p>
-              </div>
-              <p style="color: #6b7280; font-size: 12px;">
-                Sent via WomenSafe India app - ${new Date().toLocaleString('en-IN', { timeZone: 'Asia/Kolkata' })}
-              </p>
-            </div>
-          `
-        })
-
-        console.log(`Email sent to ${contact.name} (${contact.email}):`, emailResponse)
-        emailResult = {
-          status: 'sent',
-          message_id: emailResponse.data?.id
-        }
-      } catch (error) {
-        console.error(`Failed to send email to ${contact.name}:`, error)
-        emailResult = {
-          status: 'failed',
-          error: error.message
+    const userName = await fetchSenderName(supabaseClient, user_id)
+    const locationUrl = mapsUrl(latitude, longitude)
+
+    // Fill in template placeholders for this contact
+    const templateValues = { name: contact.name, location_link: locationUrl, battery_level }
+    const body = renderTemplate(message, templateValues)
+
+    // Keep the conversation history; contacts with a linked account see it in the app straight away
+    const replyTokens = await recordOutboundMessages(supabaseClient, [{
+      contact_id: contact.id,
+      body,
+      sender_id: user_id
+    }])
+    const replyTo = replyToAddress(replyTokens[contact.id])
+
+    const email = personalMessageEmail({
+      heading: `Personal Message from ${userName}`,
+      senderName: userName,
+      body,
+      locationLink: locationUrl,
+      footerNote: replyTo ? `Reply to this email and ${userName} will see your answer in the app.` : null,
+      helplines: 'compact'
+    })
+
+    // Direct messages go out by email; a failed send is retried from the delivery log
+    const [emailResult] = await sendNotifications(createNotificationDeps(supabaseClient), {
+      user_id: user_id,
+      source: 'individual',
+      recipients: [contact],
+      render: () => ({
+        email: {
+          from: MESSAGE_SENDER,
+          subject: renderTemplate(subject, templateValues),
+          reply_to: replyTo,
+          ...email
         }
-      }
-    }
+      })
+    })
 
     // Log notification details
     const notification = {
       contact_name: contact.name,
       contact_phone: contact.phone,
       contact_email: contact.email,
-      message: finalMessage,
+      message: email.text,
       sent_at: new Date().toISOString(),
       email_sent: !!contact.email
     }
@@ -132,7 +120,7 @@ serve(async (req) => {
         success: true,
         message: `Message sent to ${contact.name}`,
         contact_notified: contact.name,
-        email_result: emailResult,
+        email_result: emailResult ? withoutPayloads([emailResult])[0] : null,
         notification: notification
       }),
       {
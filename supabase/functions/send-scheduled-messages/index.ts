@@ -0,0 +1,177 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { dispatchBroadcast } from "../_shared/broadcast.ts"
+import { broadcastRecipients } from "../_shared/contacts.ts"
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Due messages handled per run; the rest are picked up a minute later
+const BATCH_SIZE = 50
+// A reported position older than this is sent as "last known" rather than as the current location
+const FRESH_LOCATION_MAX_AGE_MS = 15 * 60 * 1000
+const DEFAULT_SUBJECT = 'Message from WomenSafe India'
+
+interface ScheduledMessage {
+  id: string;
+  user_id: string;
+  subject: string | null;
+  body: string;
+  group_id: string | null;
+  include_location: boolean;
+}
+
+interface KnownLocation {
+  latitude: number;
+  longitude: number;
+  recorded_at: string;
+}
+
+// Most recent position the app has reported: the last-location ping or an SOS trail point
+async function latestLocation(supabaseClient: SupabaseClient, userId: string): Promise<KnownLocation | null> {
+  const [{ data: lastLocation }, { data: trailPoint }] = await Promise.all([
+    supabaseClient
+      .from('user_last_locations')
+      .select('latitude, longitude, recorded_at')
+      .eq('user_id', userId)
+      .maybeSingle(),
+    supabaseClient
+      .from('sos_location_points')
+      .select('latitude, longitude, recorded_at')
+      .eq('user_id', userId)
+      .order('recorded_at', { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+  ])
+
+  const candidates = [lastLocation, trailPoint].filter((point): point is KnownLocation => !!point)
+  if (candidates.length === 0) return null
+  return candidates.reduce((latest, point) => point.recorded_at > latest.recorded_at ? point : latest)
+}
+
+async function sendScheduledMessage(supabaseClient: SupabaseClient, scheduled: ScheduledMessage) {
+  const [{ data: contacts, error: contactsError }, { data: groups }] = await Promise.all([
+    supabaseClient
+      .from('emergency_contacts')
+      .select('id, name, phone, email, relationship, group_id')
+      .eq('user_id', scheduled.user_id),
+    supabaseClient
+      .from('contact_groups')
+      .select('id, include_in_broadcasts')
+      .eq('user_id', scheduled.user_id),
+  ])
+
+  if (contactsError) throw new Error('Failed to fetch contacts')
+
+  const recipients = broadcastRecipients(contacts || [], groups || [], scheduled.group_id)
+  if (recipients.length === 0) throw new Error('No contacts to send to')
+
+  let message = scheduled.body
+  let latitude: number | null = null
+  let longitude: number | null = null
+
+  if (scheduled.include_location) {
+    const location = await latestLocation(supabaseClient, scheduled.user_id)
+
+    if (location && Date.now() - new Date(location.recorded_at).getTime() <= FRESH_LOCATION_MAX_AGE_MS) {
+      latitude = Number(location.latitude)
+      longitude = Number(location.longitude)
+    } else if (location) {
+      const seenAt = new Date(location.recorded_at).toLocaleString('en-IN', { timeZone: 'Asia/Kolkata' })
+      message += `\n\n📍 Last known location (${seenAt}): https://maps.google.com/maps?q=${location.latitude},${location.longitude}`
+    } else {
+      message += `\n\n📍 Location sharing was requested but unavailable`
+    }
+  }
+
+  return await dispatchBroadcast({
+    user_id: scheduled.user_id,
+    subject: scheduled.subject || DEFAULT_SUBJECT,
+    message,
+    latitude,
+    longitude,
+    contacts: recipients.map(({ group_id: _groupId, ...contact }) => contact),
+  })
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+
+    // Only the cron job may run this
+    if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Initialize Supabase client
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      serviceRoleKey
+    )
+
+    // Claiming moves each message on to its next run, so a slow send is never picked up twice
+    const { data: due, error: claimError } = await supabaseClient
+      .rpc('claim_due_scheduled_messages', { p_limit: BATCH_SIZE })
+
+    if (claimError) {
+      console.error('Error claiming scheduled messages:', claimError)
+      throw new Error('Failed to claim scheduled messages')
+    }
+
+    const results = await Promise.all(((due ?? []) as ScheduledMessage[]).map(async (scheduled) => {
+      try {
+        const data = await sendScheduledMessage(supabaseClient, scheduled)
+
+        await supabaseClient
+          .from('scheduled_messages')
+          .update({ last_sent_at: new Date().toISOString(), last_error: null })
+          .eq('id', scheduled.id)
+
+        console.log(`Scheduled message ${scheduled.id} sent to ${data.contacts_notified} contacts`)
+        return { scheduled_message_id: scheduled.id, status: 'sent', contacts_notified: data.contacts_notified }
+      } catch (error) {
+        console.error(`Failed to send scheduled message ${scheduled.id}:`, error)
+
+        await supabaseClient
+          .from('scheduled_messages')
+          .update({ last_error: error.message })
+          .eq('id', scheduled.id)
+
+        return { scheduled_message_id: scheduled.id, status: 'failed', error: error.message }
+      }
+    }))
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        processed: results.length,
+        results: results
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    )
+
+  } catch (error) {
+    console.error('Error in send-scheduled-messages:', error)
+    return new Response(
+      JSON.stringify({
+        error: error.message || 'Failed to send scheduled messages'
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    )
+  }
+})
@@ -0,0 +1,102 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { TRACKING_MEDIA_URL_TTL_SECONDS, logEvidenceAccess, signMediaPath } from "../_shared/media.ts"
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+// Called from the public tracking page; the tracking token is the only credential
+interface SignRequest {
+  token: string;
+  media_ids?: string[];
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const { token, media_ids }: SignRequest = await req.json()
+
+    if (!token) {
+      return new Response(
+        JSON.stringify({ error: 'token is required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Initialize Supabase client
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    // Same check the page itself uses: nothing is returned once the incident is closed
+    const { data: incidents, error: incidentError } = await supabaseClient
+      .rpc('get_tracked_incident', { p_token: token })
+
+    if (incidentError) {
+      console.error('Error validating tracking token:', incidentError)
+      throw new Error('Failed to validate tracking link')
+    }
+
+    if (!incidents || incidents.length === 0) {
+      return new Response(
+        JSON.stringify({ error: 'Tracking link has expired' }),
+        { status: 410, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const { data: media, error: mediaError } = await supabaseClient
+      .rpc('get_tracked_incident_media', { p_token: token })
+
+    if (mediaError) {
+      console.error('Error fetching incident media:', mediaError)
+      throw new Error('Failed to fetch incident media')
+    }
+
+    const requested = (media ?? []).filter((item: { id: string; storage_path: string | null }) =>
+      item.storage_path && (!media_ids || media_ids.includes(item.id))
+    )
+
+    const links = await Promise.all(requested.map(async (item: { id: string; storage_path: string }) => {
+      const signed = await signMediaPath(supabaseClient, item.storage_path, TRACKING_MEDIA_URL_TTL_SECONDS)
+      return signed ? { id: item.id, signed_url: signed.url, expires_at: signed.expires_at } : null
+    }))
+
+    // Links handed out on the tracking page go on the evidence chain of custody
+    await logEvidenceAccess(
+      supabaseClient,
+      requested.map((item: { storage_path: string }) => item.storage_path),
+      'contact',
+      'link_signed',
+      { via: 'tracking_page', incident_id: incidents[0].id, expires_in: TRACKING_MEDIA_URL_TTL_SECONDS }
+    )
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        media: links.filter(Boolean)
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    )
+
+  } catch (error) {
+    console.error('Error in sign-tracked-media:', error)
+    return new Response(
+      JSON.stringify({
+        error: error.message || 'Failed to sign media links'
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    )
+  }
+})
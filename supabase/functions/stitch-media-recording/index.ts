@@ -0,0 +1,214 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { MEDIA_BUCKET } from "../_shared/media.ts"
+import { callerUserId } from "../_shared/auth.ts"
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface StitchRequest {
+  recording_id: string;
+  // Capture metadata for the evidence record; the hash is the one taken on the device
+  evidence?: {
+    sha256: string;
+    captured_at: string;
+    device_info?: Record<string, string | number>;
+    location?: { latitude: number; longitude: number; accuracy: number } | null;
+  };
+}
+
+// Written by the app's chunked uploader (src/lib/chunked-upload.ts)
+interface RecordingManifest {
+  id: string;
+  user_id: string;
+  media_type: 'audio' | 'video';
+  mime_type: string;
+  completed_at: string | null;
+  segments: Array<{ index: number; path: string; size: number }>;
+}
+
+async function sha256Hex(bytes: Uint8Array): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', bytes)
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, '0')).join('')
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders })
+  }
+
+  try {
+    const { recording_id, evidence }: StitchRequest = await req.json()
+
+    if (!recording_id || !/^(audio|video)_\d+$/.test(recording_id)) {
+      return new Response(
+        JSON.stringify({ error: 'A valid recording_id is required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    if (evidence && Number.isNaN(Date.parse(evidence.captured_at))) {
+      return new Response(
+        JSON.stringify({ error: 'A valid evidence.captured_at is required' }),
+        { status: 400, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    // Initialize Supabase client
+    const supabaseClient = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    )
+
+    const user_id = await callerUserId(req, supabaseClient)
+    if (!user_id) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const folder = `${user_id}/emergency_media/recordings/${recording_id}`
+    const filePath = `${user_id}/emergency_media/emergency_${recording_id}.webm`
+
+    // Registered evidence is never overwritten, whoever asks
+    const { data: registered, error: registeredError } = await supabaseClient
+      .from('media_evidence')
+      .select('id')
+      .eq('storage_path', filePath)
+      .maybeSingle()
+
+    if (registeredError) {
+      console.error('Error checking evidence locker:', registeredError)
+      throw new Error('Failed to check the evidence locker')
+    }
+
+    if (registered) {
+      return new Response(
+        JSON.stringify({ error: 'This recording is already stored as evidence' }),
+        { status: 409, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      )
+    }
+
+    const { data: manifestFile, error: manifestError } = await supabaseClient.storage
+      .from(MEDIA_BUCKET)
+      .download(`${folder}/manifest.json`)
+
+    if (manifestError || !manifestFile) {
+      console.error('Error loading recording manifest:', manifestError)
+      throw new Error('Recording not found')
+    }
+
+    const manifest: RecordingManifest = JSON.parse(await manifestFile.text())
+    const segments = [...manifest.segments].sort((a, b) => a.index - b.index)
+
+    if (!manifest.completed_at) {
+      throw new Error('Recording upload is not finished yet')
+    }
+
+    // Segments are uploaded strictly in order, so any gap means a corrupt manifest
+    if (segments.length === 0 || segments.some((segment, i) => segment.index !== i || !segment.path.startsWith(`${folder}/`))) {
+      throw new Error('Recording segments are incomplete')
+    }
+
+    // Timeslice segments only play back once concatenated in order
+    const parts = await Promise.all(segments.map(async (segment) => {
+      const { data, error } = await supabaseClient.storage.from(MEDIA_BUCKET).download(segment.path)
+      if (error || !data) {
+        console.error(`Error downloading segment ${segment.index}:`, error)
+        throw new Error(`Failed to read segment ${segment.index}`)
+      }
+      return new Uint8Array(await data.arrayBuffer())
+    }))
+
+    const stitched = new Uint8Array(parts.reduce((size, part) => size + part.length, 0))
+    let offset = 0
+    for (const part of parts) {
+      stitched.set(part, offset)
+      offset += part.length
+    }
+
+    const contentType = manifest.mime_type.split(';')[0] || `${manifest.media_type}/webm`
+
+    const sha256 = await sha256Hex(stitched)
+
+    const { error: uploadError } = await supabaseClient.storage
+      .from(MEDIA_BUCKET)
+      .upload(filePath, stitched, { contentType })
+
+    // A file left by an earlier attempt is only reused if it is this exact stitch
+    if (uploadError) {
+      const { data: existing } = await supabaseClient.storage.from(MEDIA_BUCKET).download(filePath)
+      if (!existing || await sha256Hex(new Uint8Array(await existing.arrayBuffer())) !== sha256) {
+        console.error('Error uploading stitched recording:', uploadError)
+        throw new Error('Failed to store stitched recording')
+      }
+    }
+
+    console.log(`Stitched ${segments.length} segments into ${filePath} (${stitched.length} bytes, sha256 ${sha256})`)
+
+    // The stored hash is always the one taken here from the stitched bytes; the
+    // device's own hash only decides whether the file is registered at all
+    let evidenceRecord = null
+    let evidenceError: string | null = null
+
+    if (evidence && evidence.sha256 !== sha256) {
+      evidenceError = 'Uploaded recording does not match the one recorded on this device'
+    } else if (evidence) {
+      const { data, error } = await supabaseClient
+        .from('media_evidence')
+        .insert({
+          user_id,
+          storage_path: filePath,
+          media_type: manifest.media_type,
+          sha256,
+          size_bytes: stitched.length,
+          captured_at: new Date(evidence.captured_at).toISOString(),
+          device_info: evidence.device_info ?? {},
+          latitude: evidence.location?.latitude ?? null,
+          longitude: evidence.location?.longitude ?? null,
+          accuracy: evidence.location?.accuracy ?? null
+        })
+        .select()
+        .single()
+
+      if (error) {
+        console.error('Error registering stitched recording:', error)
+        evidenceError = 'The recording could not be added to your evidence locker.'
+      } else {
+        evidenceRecord = data
+      }
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        path: filePath,
+        media_type: manifest.media_type,
+        segments: segments.length,
+        size: stitched.length,
+        sha256,
+        evidence: evidenceRecord,
+        evidence_error: evidenceError
+      }),
+      {
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    )
+
+  } catch (error) {
+    console.error('Error in stitch-media-recording:', error)
+    return new Response(
+      JSON.stringify({
+        error: error.message || 'Failed to stitch recording'
+      }),
+      {
+        status: 500,
+        headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+      }
+    )
+  }
+})
@@ -0,0 +1,44 @@
+-- Create location points table for streaming live position during an active SOS incident
+CREATE TABLE public.sos_location_points (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  incident_id UUID NOT NULL REFERENCES public.sos_incidents(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  latitude DECIMAL(10, 8) NOT NULL,
+  longitude DECIMAL(11, 8) NOT NULL,
+  accuracy DOUBLE PRECISION,
+  speed DOUBLE PRECISION,
+  heading DOUBLE PRECISION,
+  recorded_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.sos_location_points ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for SOS location points
+CREATE POLICY "Users can view their own SOS location points" 
+ON public.sos_location_points 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+-- Points can only be appended while the owning incident is still active
+CREATE POLICY "Users can add location points to their active SOS incidents" 
+ON public.sos_location_points 
+FOR INSERT 
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.sos_incidents
+    WHERE sos_incidents.id = incident_id
+      AND sos_incidents.user_id = auth.uid()
+      AND sos_incidents.status = 'active'
+  )
+);
+
+-- Add indexes for better performance
+CREATE INDEX idx_sos_location_points_incident_id ON public.sos_location_points(incident_id, recorded_at);
+CREATE INDEX idx_sos_location_points_user_id ON public.sos_location_points(user_id);
+
+-- Publish incident and location changes to Supabase Realtime
+ALTER PUBLICATION supabase_realtime ADD TABLE public.sos_incidents;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.sos_location_points;
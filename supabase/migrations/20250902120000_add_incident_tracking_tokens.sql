@@ -0,0 +1,121 @@
+-- Per-incident tracking token so trusted contacts without an account can follow a live incident
+ALTER TABLE public.sos_incidents
+  ADD COLUMN tracking_token TEXT NOT NULL UNIQUE DEFAULT encode(extensions.gen_random_bytes(24), 'hex'),
+  ADD COLUMN tracking_expires_at TIMESTAMP WITH TIME ZONE;
+
+-- Create table for media recorded during an SOS incident
+CREATE TABLE public.sos_incident_media (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  incident_id UUID NOT NULL REFERENCES public.sos_incidents(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  media_url TEXT NOT NULL,
+  media_type TEXT NOT NULL DEFAULT 'audio' CHECK (media_type IN ('audio', 'video')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.sos_incident_media ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own SOS incident media" 
+ON public.sos_incident_media 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can add media to their own SOS incidents" 
+ON public.sos_incident_media 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE INDEX idx_sos_incident_media_incident_id ON public.sos_incident_media(incident_id);
+
+-- Expire the tracking token as soon as the incident leaves the 'active' state
+CREATE OR REPLACE FUNCTION public.expire_incident_tracking_token()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status <> 'active' AND OLD.status = 'active' THEN
+    NEW.tracking_expires_at = now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER expire_sos_incident_tracking_token
+BEFORE UPDATE ON public.sos_incidents
+FOR EACH ROW
+EXECUTE FUNCTION public.expire_incident_tracking_token();
+
+-- Token-gated read access for the public tracking page. These run as the
+-- definer so anonymous visitors never need direct table access.
+CREATE OR REPLACE FUNCTION public.get_tracked_incident(p_token TEXT)
+RETURNS TABLE (
+  id UUID,
+  status TEXT,
+  display_name TEXT,
+  latitude DECIMAL,
+  longitude DECIMAL,
+  created_at TIMESTAMP WITH TIME ZONE,
+  last_seen_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    i.id,
+    i.status,
+    NULLIF(trim(concat_ws(' ', p.first_name, p.last_name)), ''),
+    i.latitude,
+    i.longitude,
+    i.created_at,
+    COALESCE((SELECT max(lp.recorded_at) FROM public.sos_location_points lp WHERE lp.incident_id = i.id), i.created_at)
+  FROM public.sos_incidents i
+  LEFT JOIN public.profiles p ON p.user_id = i.user_id
+  WHERE i.tracking_token = p_token
+    AND (i.tracking_expires_at IS NULL OR i.tracking_expires_at > now());
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_tracked_incident_trail(p_token TEXT)
+RETURNS TABLE (
+  latitude DECIMAL,
+  longitude DECIMAL,
+  accuracy DOUBLE PRECISION,
+  recorded_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT lp.latitude, lp.longitude, lp.accuracy, lp.recorded_at
+  FROM public.sos_location_points lp
+  JOIN public.sos_incidents i ON i.id = lp.incident_id
+  WHERE i.tracking_token = p_token
+    AND (i.tracking_expires_at IS NULL OR i.tracking_expires_at > now())
+  ORDER BY lp.recorded_at ASC;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_tracked_incident_media(p_token TEXT)
+RETURNS TABLE (
+  media_url TEXT,
+  media_type TEXT,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT m.media_url, m.media_type, m.created_at
+  FROM public.sos_incident_media m
+  JOIN public.sos_incidents i ON i.id = m.incident_id
+  WHERE i.tracking_token = p_token
+    AND (i.tracking_expires_at IS NULL OR i.tracking_expires_at > now())
+  ORDER BY m.created_at DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_tracked_incident(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_tracked_incident_trail(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_tracked_incident_media(TEXT) TO anon, authenticated;
@@ -0,0 +1,73 @@
+-- Track how and when an SOS incident was closed, and who received the original alert
+ALTER TABLE public.sos_incidents
+  ADD COLUMN resolved_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN resolution TEXT CHECK (resolution IN ('resolved', 'false_alarm')),
+  ADD COLUMN notified_contact_ids UUID[] NOT NULL DEFAULT '{}';
+
+-- Hashed safety PIN used to confirm sensitive actions such as closing an incident.
+-- No RLS policies are defined, so the table is only reachable through the functions below.
+CREATE TABLE public.user_safety_pins (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  pin_hash TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.user_safety_pins ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_user_safety_pins_updated_at
+BEFORE UPDATE ON public.user_safety_pins
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Set or replace the caller's safety PIN (4-6 digits)
+CREATE OR REPLACE FUNCTION public.set_safety_pin(p_pin TEXT)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_pin !~ '^[0-9]{4,6}$' THEN
+    RAISE EXCEPTION 'PIN must be 4 to 6 digits';
+  END IF;
+
+  INSERT INTO public.user_safety_pins (user_id, pin_hash)
+  VALUES (auth.uid(), crypt(p_pin, gen_salt('bf')))
+  ON CONFLICT (user_id) DO UPDATE SET pin_hash = EXCLUDED.pin_hash;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_safety_pin()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.user_safety_pins WHERE user_id = auth.uid());
+$$;
+
+-- Only Edge Functions (service role) may check a PIN for an arbitrary user
+CREATE OR REPLACE FUNCTION public.verify_safety_pin(p_user_id UUID, p_pin TEXT)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.user_safety_pins
+    WHERE user_id = p_user_id
+      AND pin_hash = crypt(p_pin, pin_hash)
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_safety_pin(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.has_safety_pin() TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.verify_safety_pin(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.verify_safety_pin(UUID, TEXT) TO service_role;
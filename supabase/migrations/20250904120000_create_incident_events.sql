@@ -0,0 +1,109 @@
+-- Create persisted timeline of everything that happens during an SOS incident
+CREATE TABLE public.incident_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  incident_id UUID NOT NULL REFERENCES public.sos_incidents(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  event_type TEXT NOT NULL CHECK (event_type IN (
+    'triggered',
+    'notification_sent',
+    'notification_failed',
+    'media_uploaded',
+    'location_point',
+    'resolved',
+    'false_alarm'
+  )),
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.incident_events ENABLE ROW LEVEL SECURITY;
+
+-- Events are written by triggers and Edge Functions only
+CREATE POLICY "Users can view their own incident events" 
+ON public.incident_events 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_incident_events_incident_id ON public.incident_events(incident_id, created_at);
+CREATE INDEX idx_incident_events_user_id ON public.incident_events(user_id, created_at DESC);
+
+-- Record lifecycle changes on sos_incidents
+CREATE OR REPLACE FUNCTION public.log_sos_incident_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.incident_events (incident_id, user_id, event_type, details)
+    VALUES (
+      NEW.id,
+      NEW.user_id,
+      'triggered',
+      jsonb_build_object('latitude', NEW.latitude, 'longitude', NEW.longitude)
+    );
+  ELSIF NEW.status <> OLD.status AND NEW.status IN ('resolved', 'cancelled') THEN
+    INSERT INTO public.incident_events (incident_id, user_id, event_type, details)
+    VALUES (
+      NEW.id,
+      NEW.user_id,
+      CASE WHEN NEW.resolution = 'false_alarm' OR NEW.status = 'cancelled' THEN 'false_alarm' ELSE 'resolved' END,
+      jsonb_build_object('status', NEW.status)
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_sos_incident_events
+AFTER INSERT OR UPDATE ON public.sos_incidents
+FOR EACH ROW
+EXECUTE FUNCTION public.log_sos_incident_event();
+
+CREATE OR REPLACE FUNCTION public.log_sos_location_point_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.incident_events (incident_id, user_id, event_type, details, created_at)
+  VALUES (
+    NEW.incident_id,
+    NEW.user_id,
+    'location_point',
+    jsonb_build_object('latitude', NEW.latitude, 'longitude', NEW.longitude, 'accuracy', NEW.accuracy),
+    NEW.recorded_at
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_sos_location_point_events
+AFTER INSERT ON public.sos_location_points
+FOR EACH ROW
+EXECUTE FUNCTION public.log_sos_location_point_event();
+
+CREATE OR REPLACE FUNCTION public.log_sos_incident_media_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.incident_events (incident_id, user_id, event_type, details)
+  VALUES (
+    NEW.incident_id,
+    NEW.user_id,
+    'media_uploaded',
+    jsonb_build_object('media_url', NEW.media_url, 'media_type', NEW.media_type)
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_sos_incident_media_events
+AFTER INSERT ON public.sos_incident_media
+FOR EACH ROW
+EXECUTE FUNCTION public.log_sos_incident_media_event();
@@ -0,0 +1,61 @@
+-- Create per-contact, per-channel delivery log for every notification the Edge Functions send
+CREATE TABLE public.notification_deliveries (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  incident_id UUID REFERENCES public.sos_incidents(id) ON DELETE CASCADE,
+  contact_id UUID REFERENCES public.emergency_contacts(id) ON DELETE SET NULL,
+  contact_name TEXT NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('sos_alert', 'all_clear', 'broadcast', 'individual')),
+  channel TEXT NOT NULL CHECK (channel IN ('email', 'sms')),
+  recipient TEXT NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+  provider TEXT,
+  provider_message_id TEXT,
+  error TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_retry_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.notification_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Deliveries are written by Edge Functions only
+CREATE POLICY "Users can view their own notification deliveries" 
+ON public.notification_deliveries 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_notification_deliveries_updated_at
+BEFORE UPDATE ON public.notification_deliveries
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_notification_deliveries_user_id ON public.notification_deliveries(user_id, created_at DESC);
+CREATE INDEX idx_notification_deliveries_incident_id ON public.notification_deliveries(incident_id);
+CREATE INDEX idx_notification_deliveries_retry ON public.notification_deliveries(next_retry_at)
+  WHERE status = 'failed' AND next_retry_at IS NOT NULL;
+
+-- Stream status changes to the dashboard as retries land
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notification_deliveries;
+
+-- Run the retry worker every minute. Expects `project_url` and `service_role_key`
+-- to be stored in Supabase Vault.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'retry-notification-deliveries',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/retry-notification-deliveries',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,143 @@
+-- Optional duress PIN: accepted wherever the safety PIN is, but silently raises an alarm
+ALTER TABLE public.user_safety_pins
+  ADD COLUMN duress_pin_hash TEXT;
+
+-- Set or replace the caller's duress PIN. It must differ from the safety PIN.
+CREATE OR REPLACE FUNCTION public.set_duress_pin(p_pin TEXT)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_pin_hash TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_pin !~ '^[0-9]{4,6}$' THEN
+    RAISE EXCEPTION 'PIN must be 4 to 6 digits';
+  END IF;
+
+  SELECT pin_hash INTO v_pin_hash FROM public.user_safety_pins WHERE user_id = auth.uid();
+
+  IF v_pin_hash IS NULL THEN
+    RAISE EXCEPTION 'Set a safety PIN first';
+  END IF;
+
+  IF v_pin_hash = crypt(p_pin, v_pin_hash) THEN
+    RAISE EXCEPTION 'Duress PIN must be different from your safety PIN';
+  END IF;
+
+  UPDATE public.user_safety_pins
+  SET duress_pin_hash = crypt(p_pin, gen_salt('bf'))
+  WHERE user_id = auth.uid();
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_duress_pin()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.user_safety_pins
+    WHERE user_id = auth.uid() AND duress_pin_hash IS NOT NULL
+  );
+$$;
+
+-- Classify a PIN as 'valid', 'duress' or 'invalid'. Service role only.
+CREATE OR REPLACE FUNCTION public.check_safety_pin(p_user_id UUID, p_pin TEXT)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT COALESCE((
+    SELECT CASE
+      WHEN pin_hash = crypt(p_pin, pin_hash) THEN 'valid'
+      WHEN duress_pin_hash IS NOT NULL AND duress_pin_hash = crypt(p_pin, duress_pin_hash) THEN 'duress'
+      ELSE 'invalid'
+    END
+    FROM public.user_safety_pins
+    WHERE user_id = p_user_id
+  ), 'invalid');
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_duress_pin(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.has_duress_pin() TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.check_safety_pin(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.check_safety_pin(UUID, TEXT) TO service_role;
+
+-- Create timed check-in sessions ("walk me home")
+CREATE TABLE public.safety_checkins (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  destination_name TEXT NOT NULL,
+  destination_latitude DECIMAL(10, 8),
+  destination_longitude DECIMAL(11, 8),
+  deadline_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'checked_in', 'expired', 'duress')),
+  -- Sampled positions along the way: [{ "latitude", "longitude", "recorded_at" }]
+  route JSONB NOT NULL DEFAULT '[]'::jsonb,
+  last_latitude DECIMAL(10, 8),
+  last_longitude DECIMAL(11, 8),
+  last_seen_at TIMESTAMP WITH TIME ZONE,
+  incident_id UUID REFERENCES public.sos_incidents(id) ON DELETE SET NULL,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.safety_checkins ENABLE ROW LEVEL SECURITY;
+
+-- Check-ins are completed by Edge Functions so the PIN is always verified
+CREATE POLICY "Users can view their own safety check-ins" 
+ON public.safety_checkins 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can start their own safety check-ins" 
+ON public.safety_checkins 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id AND status = 'active');
+
+CREATE POLICY "Users can update progress on their active safety check-ins" 
+ON public.safety_checkins 
+FOR UPDATE 
+USING (auth.uid() = user_id AND status = 'active')
+WITH CHECK (auth.uid() = user_id AND status = 'active');
+
+CREATE TRIGGER update_safety_checkins_updated_at
+BEFORE UPDATE ON public.safety_checkins
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Only one running timer per user
+CREATE UNIQUE INDEX idx_safety_checkins_one_active ON public.safety_checkins(user_id) WHERE status = 'active';
+CREATE INDEX idx_safety_checkins_deadline ON public.safety_checkins(deadline_at) WHERE status = 'active';
+
+-- Let the app notice when the expiry job closes a timer
+ALTER PUBLICATION supabase_realtime ADD TABLE public.safety_checkins;
+
+-- Raise SOS for overdue check-ins every minute, even if the app is closed.
+-- Uses the same Vault secrets as the delivery retry job.
+SELECT cron.schedule(
+  'expire-safety-checkins',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/expire-safety-checkins',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,40 @@
+-- Incidents raised with the duress PIN. Contacts see them highlighted; the app
+-- itself keeps them off screen so whoever forced the cancel doesn't notice.
+ALTER TABLE public.sos_incidents
+  ADD COLUMN is_duress BOOLEAN NOT NULL DEFAULT false;
+
+-- Expose the flag on the public tracking page
+DROP FUNCTION public.get_tracked_incident(TEXT);
+
+CREATE OR REPLACE FUNCTION public.get_tracked_incident(p_token TEXT)
+RETURNS TABLE (
+  id UUID,
+  status TEXT,
+  display_name TEXT,
+  latitude DECIMAL,
+  longitude DECIMAL,
+  created_at TIMESTAMP WITH TIME ZONE,
+  last_seen_at TIMESTAMP WITH TIME ZONE,
+  is_duress BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    i.id,
+    i.status,
+    NULLIF(trim(concat_ws(' ', p.first_name, p.last_name)), ''),
+    i.latitude,
+    i.longitude,
+    i.created_at,
+    COALESCE((SELECT max(lp.recorded_at) FROM public.sos_location_points lp WHERE lp.incident_id = i.id), i.created_at),
+    i.is_duress
+  FROM public.sos_incidents i
+  LEFT JOIN public.profiles p ON p.user_id = i.user_id
+  WHERE i.tracking_token = p_token
+    AND (i.tracking_expires_at IS NULL OR i.tracking_expires_at > now());
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_tracked_incident(TEXT) TO anon, authenticated;
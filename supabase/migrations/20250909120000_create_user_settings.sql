@@ -0,0 +1,36 @@
+-- Per-user SOS trigger preferences, honoured by the app and the Edge Functions
+CREATE TABLE public.user_settings (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  sos_countdown_seconds INTEGER NOT NULL DEFAULT 3 CHECK (sos_countdown_seconds BETWEEN 0 AND 30),
+  default_sos_message TEXT NOT NULL DEFAULT 'Emergency SOS activated! I need immediate help.'
+    CHECK (char_length(default_sos_message) BETWEEN 1 AND 500),
+  -- NULL means every emergency contact
+  sos_contact_ids UUID[],
+  media_contact_ids UUID[],
+  auto_record_audio BOOLEAN NOT NULL DEFAULT false,
+  include_battery_level BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.user_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own settings"
+ON public.user_settings
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own settings"
+ON public.user_settings
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own settings"
+ON public.user_settings
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_user_settings_updated_at
+BEFORE UPDATE ON public.user_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,3 @@
+-- Automatic SOS evidence capture can record the microphone or the front camera
+ALTER TABLE public.user_settings
+  ADD COLUMN auto_capture_type TEXT NOT NULL DEFAULT 'audio' CHECK (auto_capture_type IN ('audio', 'video'));
@@ -0,0 +1,123 @@
+-- Emergency recordings are private: only their owner can read or write them, and
+-- contacts get time-limited signed URLs from the Edge Functions instead
+UPDATE storage.buckets SET public = false WHERE id = 'emergency-media';
+
+DROP POLICY IF EXISTS "Allow public select from emergency-media" ON storage.objects;
+DROP POLICY IF EXISTS "Allow authenticated insert to emergency-media" ON storage.objects;
+DROP POLICY IF EXISTS "Allow authenticated update to emergency-media" ON storage.objects;
+DROP POLICY IF EXISTS "Allow authenticated delete from emergency-media" ON storage.objects;
+DROP POLICY IF EXISTS "Allow public insert to emergency-media" ON storage.objects;
+DROP POLICY IF EXISTS "Allow public update to emergency-media" ON storage.objects;
+DROP POLICY IF EXISTS "Allow public delete from emergency-media" ON storage.objects;
+
+-- Objects live under `${user_id}/emergency_media/...`
+CREATE POLICY "Users can read their own emergency media"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'emergency-media'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+  AND (storage.foldername(name))[2] = 'emergency_media'
+);
+
+CREATE POLICY "Users can upload their own emergency media"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'emergency-media'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+  AND (storage.foldername(name))[2] = 'emergency_media'
+);
+
+CREATE POLICY "Users can update their own emergency media"
+ON storage.objects FOR UPDATE
+TO authenticated
+USING (
+  bucket_id = 'emergency-media'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+  AND (storage.foldername(name))[2] = 'emergency_media'
+)
+WITH CHECK (
+  bucket_id = 'emergency-media'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+  AND (storage.foldername(name))[2] = 'emergency_media'
+);
+
+CREATE POLICY "Users can delete their own emergency media"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'emergency-media'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+  AND (storage.foldername(name))[2] = 'emergency_media'
+);
+
+-- Incident media now points at the object; links are signed when they are handed out
+ALTER TABLE public.sos_incident_media
+  ADD COLUMN storage_path TEXT,
+  ALTER COLUMN media_url DROP NOT NULL;
+
+-- Public URLs stopped working with the bucket, but they still carry the object path
+UPDATE public.sos_incident_media
+SET storage_path = substring(media_url FROM '/storage/v1/object/public/emergency-media/(.+)$'),
+    media_url = NULL
+WHERE storage_path IS NULL
+  AND media_url LIKE '%/storage/v1/object/public/emergency-media/%';
+
+ALTER TABLE public.sos_incident_media
+  ADD CONSTRAINT sos_incident_media_source_check CHECK (storage_path IS NOT NULL OR media_url IS NOT NULL);
+
+-- Users may only attach objects from their own prefix, since contacts get signed links to them
+DROP POLICY IF EXISTS "Users can add media to their own SOS incidents" ON public.sos_incident_media;
+
+CREATE POLICY "Users can add media to their own SOS incidents"
+ON public.sos_incident_media
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND (storage_path IS NULL OR storage_path LIKE auth.uid()::text || '/emergency_media/%')
+);
+
+CREATE OR REPLACE FUNCTION public.log_sos_incident_media_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.incident_events (incident_id, user_id, event_type, details)
+  VALUES (
+    NEW.incident_id,
+    NEW.user_id,
+    'media_uploaded',
+    jsonb_build_object('storage_path', NEW.storage_path, 'media_url', NEW.media_url, 'media_type', NEW.media_type)
+  );
+  RETURN NEW;
+END;
+$$;
+
+-- The tracking page lists media by id and asks `sign-tracked-media` for playable links
+DROP FUNCTION IF EXISTS public.get_tracked_incident_media(TEXT);
+
+CREATE OR REPLACE FUNCTION public.get_tracked_incident_media(p_token TEXT)
+RETURNS TABLE (
+  id UUID,
+  storage_path TEXT,
+  media_url TEXT,
+  media_type TEXT,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT m.id, m.storage_path, m.media_url, m.media_type, m.created_at
+  FROM public.sos_incident_media m
+  JOIN public.sos_incidents i ON i.id = m.incident_id
+  WHERE i.tracking_token = p_token
+    AND (i.tracking_expires_at IS NULL OR i.tracking_expires_at > now())
+  ORDER BY m.created_at DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_tracked_incident_media(TEXT) TO anon, authenticated;
@@ -0,0 +1,209 @@
+-- Tamper-evident record of every emergency recording: what was captured, when,
+-- where and on which device, plus its SHA-256 so later copies can be verified
+CREATE TABLE public.media_evidence (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  incident_id UUID REFERENCES public.sos_incidents(id) ON DELETE SET NULL,
+  storage_path TEXT NOT NULL UNIQUE,
+  media_type TEXT NOT NULL CHECK (media_type IN ('audio', 'video')),
+  sha256 TEXT NOT NULL CHECK (sha256 ~ '^[0-9a-f]{64}$'),
+  size_bytes BIGINT NOT NULL CHECK (size_bytes >= 0),
+  captured_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  device_info JSONB NOT NULL DEFAULT '{}'::jsonb,
+  latitude DECIMAL(10, 8),
+  longitude DECIMAL(11, 8),
+  accuracy DOUBLE PRECISION,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.media_evidence ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own media evidence"
+ON public.media_evidence
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can register their own media evidence"
+ON public.media_evidence
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND storage_path LIKE auth.uid()::text || '/emergency_media/%'
+);
+
+-- Evidence is locked while its incident is still open
+CREATE POLICY "Users can delete their own unlocked media evidence"
+ON public.media_evidence
+FOR DELETE
+USING (
+  auth.uid() = user_id
+  AND NOT EXISTS (
+    SELECT 1 FROM public.sos_incidents i
+    WHERE i.id = media_evidence.incident_id AND i.status = 'active'
+  )
+);
+
+-- Users may attach unassigned evidence to one of their own incidents; nothing else changes
+CREATE POLICY "Users can attach their own media evidence to an incident"
+ON public.media_evidence
+FOR UPDATE
+USING (auth.uid() = user_id AND incident_id IS NULL)
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.sos_incidents i
+    WHERE i.id = media_evidence.incident_id AND i.user_id = auth.uid()
+  )
+);
+
+CREATE INDEX idx_media_evidence_user_id ON public.media_evidence(user_id, captured_at DESC);
+CREATE INDEX idx_media_evidence_incident_id ON public.media_evidence(incident_id);
+
+-- Rows are immutable apart from being attached to an incident once (service role included)
+CREATE OR REPLACE FUNCTION public.protect_media_evidence()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.incident_id IS NOT NULL
+    OR NEW.incident_id IS NULL
+    OR NEW.id <> OLD.id
+    OR NEW.user_id <> OLD.user_id
+    OR NEW.storage_path <> OLD.storage_path
+    OR NEW.media_type <> OLD.media_type
+    OR NEW.sha256 <> OLD.sha256
+    OR NEW.size_bytes <> OLD.size_bytes
+    OR NEW.captured_at <> OLD.captured_at
+    OR NEW.device_info <> OLD.device_info
+    OR NEW.latitude IS DISTINCT FROM OLD.latitude
+    OR NEW.longitude IS DISTINCT FROM OLD.longitude
+    OR NEW.accuracy IS DISTINCT FROM OLD.accuracy
+    OR NEW.created_at <> OLD.created_at THEN
+    RAISE EXCEPTION 'Media evidence is immutable';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_media_evidence
+BEFORE UPDATE ON public.media_evidence
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_media_evidence();
+
+-- Append-only chain of custody. It has no foreign keys, so the history outlives
+-- deletion of the evidence (and a cascade can never be blocked by the append-only trigger).
+CREATE TABLE public.media_evidence_access_log (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  evidence_id UUID NOT NULL,
+  user_id UUID NOT NULL,
+  storage_path TEXT NOT NULL,
+  sha256 TEXT NOT NULL,
+  actor TEXT NOT NULL CHECK (actor IN ('owner', 'contact', 'system')),
+  action TEXT NOT NULL CHECK (action IN ('captured', 'attached', 'viewed', 'link_signed', 'exported', 'deleted')),
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.media_evidence_access_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own evidence access log"
+ON public.media_evidence_access_log
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Owners can only record their own views and exports; the rest comes from triggers and Edge Functions
+CREATE POLICY "Users can log access to their own media evidence"
+ON public.media_evidence_access_log
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND actor = 'owner'
+  AND action IN ('viewed', 'exported')
+  AND EXISTS (
+    SELECT 1 FROM public.media_evidence e
+    WHERE e.id = evidence_id AND e.user_id = auth.uid()
+  )
+);
+
+CREATE INDEX idx_media_evidence_access_log_evidence_id ON public.media_evidence_access_log(evidence_id, created_at);
+
+CREATE OR REPLACE FUNCTION public.prevent_evidence_log_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  RAISE EXCEPTION 'The evidence access log is append-only';
+END;
+$$;
+
+CREATE TRIGGER prevent_evidence_log_changes
+BEFORE UPDATE OR DELETE ON public.media_evidence_access_log
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_evidence_log_changes();
+
+-- Record capture, attachment and deletion in the chain of custody
+CREATE OR REPLACE FUNCTION public.log_media_evidence_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row public.media_evidence;
+BEGIN
+  v_row := CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+
+  INSERT INTO public.media_evidence_access_log (evidence_id, user_id, storage_path, sha256, actor, action, details)
+  VALUES (
+    v_row.id,
+    v_row.user_id,
+    v_row.storage_path,
+    v_row.sha256,
+    CASE WHEN auth.uid() = v_row.user_id THEN 'owner' ELSE 'system' END,
+    CASE TG_OP WHEN 'INSERT' THEN 'captured' WHEN 'UPDATE' THEN 'attached' ELSE 'deleted' END,
+    jsonb_build_object('incident_id', v_row.incident_id)
+  );
+
+  RETURN v_row;
+END;
+$$;
+
+CREATE TRIGGER log_media_evidence_changes
+AFTER INSERT OR UPDATE OR DELETE ON public.media_evidence
+FOR EACH ROW
+EXECUTE FUNCTION public.log_media_evidence_change();
+
+-- Locked evidence cannot be removed from storage, and registered evidence is never overwritten
+DROP POLICY IF EXISTS "Users can update their own emergency media" ON storage.objects;
+DROP POLICY IF EXISTS "Users can delete their own emergency media" ON storage.objects;
+
+CREATE POLICY "Users can update their own emergency media"
+ON storage.objects FOR UPDATE
+TO authenticated
+USING (
+  bucket_id = 'emergency-media'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+  AND (storage.foldername(name))[2] = 'emergency_media'
+  AND NOT EXISTS (SELECT 1 FROM public.media_evidence e WHERE e.storage_path = name)
+)
+WITH CHECK (
+  bucket_id = 'emergency-media'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+  AND (storage.foldername(name))[2] = 'emergency_media'
+);
+
+CREATE POLICY "Users can delete their own emergency media"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'emergency-media'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+  AND (storage.foldername(name))[2] = 'emergency_media'
+  AND NOT EXISTS (
+    SELECT 1 FROM public.media_evidence e
+    JOIN public.sos_incidents i ON i.id = e.incident_id
+    WHERE e.storage_path = name AND i.status = 'active'
+  )
+);
@@ -0,0 +1,234 @@
+-- Trusted contacts can link a real account through an invite link. A linked
+-- contact (a guardian) can follow the live status, location and incidents of
+-- everyone who trusts them, and acknowledge their alerts.
+ALTER TABLE public.emergency_contacts
+  ADD COLUMN linked_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN linked_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN invite_token TEXT NOT NULL UNIQUE DEFAULT encode(extensions.gen_random_bytes(16), 'hex');
+
+CREATE INDEX idx_emergency_contacts_linked_user_id ON public.emergency_contacts(linked_user_id);
+
+-- Only the invited person can link themselves (through accept_contact_invite); owners can only unlink.
+-- Unlinking rotates the invite token so an old link cannot be reused.
+CREATE OR REPLACE FUNCTION public.protect_emergency_contact_link()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public, extensions
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.linked_user_id := NULL;
+    NEW.linked_at := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.linked_user_id IS DISTINCT FROM OLD.linked_user_id THEN
+    IF NEW.linked_user_id IS NOT NULL
+      AND (NEW.linked_user_id IS DISTINCT FROM auth.uid() OR NEW.linked_user_id = NEW.user_id) THEN
+      RAISE EXCEPTION 'Contacts can only link their own account';
+    END IF;
+
+    IF NEW.linked_user_id IS NULL THEN
+      NEW.linked_at := NULL;
+      NEW.invite_token := encode(gen_random_bytes(16), 'hex');
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_emergency_contact_link
+BEFORE INSERT OR UPDATE ON public.emergency_contacts
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_emergency_contact_link();
+
+-- SECURITY DEFINER so policies on other tables can check it without recursing into emergency_contacts RLS
+CREATE OR REPLACE FUNCTION public.is_guardian_of(p_user_id UUID)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.emergency_contacts
+    WHERE user_id = p_user_id AND linked_user_id = auth.uid()
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_guardian_of(UUID) TO authenticated;
+
+-- Links the signed-in account to the contact entry behind an invite link
+CREATE OR REPLACE FUNCTION public.accept_contact_invite(p_token TEXT)
+RETURNS TABLE (
+  contact_id UUID,
+  owner_name TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_contact public.emergency_contacts;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_contact
+  FROM public.emergency_contacts
+  WHERE invite_token = p_token
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This invite link is invalid or has been revoked';
+  END IF;
+
+  IF v_contact.user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot be your own trusted contact';
+  END IF;
+
+  IF v_contact.linked_user_id IS NOT NULL AND v_contact.linked_user_id <> auth.uid() THEN
+    RAISE EXCEPTION 'This invite has already been accepted by another account';
+  END IF;
+
+  UPDATE public.emergency_contacts
+  SET linked_user_id = auth.uid(),
+      linked_at = COALESCE(linked_at, now())
+  WHERE id = v_contact.id;
+
+  RETURN QUERY
+  SELECT v_contact.id,
+         COALESCE(NULLIF(trim(concat_ws(' ', p.first_name, p.last_name)), ''), 'Someone')
+  FROM (SELECT 1) AS one
+  LEFT JOIN public.profiles p ON p.user_id = v_contact.user_id;
+END;
+$$;
+
+-- Lets a guardian stop following someone; the owner can also just clear linked_user_id
+CREATE OR REPLACE FUNCTION public.leave_guardianship(p_contact_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.emergency_contacts
+  SET linked_user_id = NULL
+  WHERE id = p_contact_id AND linked_user_id = auth.uid();
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.accept_contact_invite(TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.leave_guardianship(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.accept_contact_invite(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.leave_guardianship(UUID) TO authenticated;
+
+-- Guardians see how they are listed, and the status, trail and timeline of the people they watch over
+CREATE POLICY "Guardians can view the contact entries linked to them"
+ON public.emergency_contacts
+FOR SELECT
+USING (auth.uid() = linked_user_id);
+
+CREATE POLICY "Guardians can view profiles of people they watch over"
+ON public.profiles
+FOR SELECT
+USING (public.is_guardian_of(user_id));
+
+CREATE POLICY "Guardians can view SOS incidents of people they watch over"
+ON public.sos_incidents
+FOR SELECT
+USING (public.is_guardian_of(user_id));
+
+CREATE POLICY "Guardians can view SOS location points of people they watch over"
+ON public.sos_location_points
+FOR SELECT
+USING (public.is_guardian_of(user_id));
+
+CREATE POLICY "Guardians can view incident events of people they watch over"
+ON public.incident_events
+FOR SELECT
+USING (public.is_guardian_of(user_id));
+
+-- Acknowledgements tell the person in trouble that someone has seen the alert
+CREATE TABLE public.incident_acknowledgements (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  incident_id UUID NOT NULL REFERENCES public.sos_incidents(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  contact_id UUID REFERENCES public.emergency_contacts(id) ON DELETE SET NULL,
+  acknowledged_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  contact_name TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (incident_id, contact_id)
+);
+
+ALTER TABLE public.incident_acknowledgements ENABLE ROW LEVEL SECURITY;
+
+-- Written by acknowledge_incident only
+CREATE POLICY "Users and their guardians can view incident acknowledgements"
+ON public.incident_acknowledgements
+FOR SELECT
+USING (auth.uid() = user_id OR public.is_guardian_of(user_id));
+
+CREATE INDEX idx_incident_acknowledgements_incident_id ON public.incident_acknowledgements(incident_id);
+
+ALTER TABLE public.incident_events DROP CONSTRAINT incident_events_event_type_check;
+ALTER TABLE public.incident_events ADD CONSTRAINT incident_events_event_type_check CHECK (event_type IN (
+  'triggered',
+  'notification_sent',
+  'notification_failed',
+  'media_uploaded',
+  'location_point',
+  'resolved',
+  'false_alarm',
+  'acknowledged'
+));
+
+CREATE OR REPLACE FUNCTION public.acknowledge_incident(p_incident_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_incident public.sos_incidents;
+  v_contact public.emergency_contacts;
+BEGIN
+  SELECT * INTO v_incident FROM public.sos_incidents WHERE id = p_incident_id;
+
+  IF NOT FOUND OR v_incident.status <> 'active' THEN
+    RAISE EXCEPTION 'This incident is no longer active';
+  END IF;
+
+  SELECT * INTO v_contact
+  FROM public.emergency_contacts
+  WHERE user_id = v_incident.user_id AND linked_user_id = auth.uid()
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You are not a trusted contact for this incident';
+  END IF;
+
+  INSERT INTO public.incident_acknowledgements (incident_id, user_id, contact_id, acknowledged_by, contact_name)
+  VALUES (v_incident.id, v_incident.user_id, v_contact.id, auth.uid(), v_contact.name)
+  ON CONFLICT (incident_id, contact_id) DO NOTHING;
+
+  IF FOUND THEN
+    INSERT INTO public.incident_events (incident_id, user_id, event_type, details)
+    VALUES (
+      v_incident.id,
+      v_incident.user_id,
+      'acknowledged',
+      jsonb_build_object('contact_name', v_contact.name, 'contact_id', v_contact.id, 'channel', 'app')
+    );
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.acknowledge_incident(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.acknowledge_incident(UUID) TO authenticated;
+
+-- Guardians get status, location and acknowledgement changes live; Realtime applies the policies above
+ALTER PUBLICATION supabase_realtime ADD TABLE public.incident_acknowledgements;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.incident_events;
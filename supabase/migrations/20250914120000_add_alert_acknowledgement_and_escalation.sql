@@ -0,0 +1,118 @@
+-- Every SOS notification carries a per-contact "I'm responding" link. If nobody
+-- acknowledges within the user's escalation window, the alert escalates:
+--   1. notify the contacts that were not alerted yet (secondary contacts)
+--   2. re-send to everyone with the updated location
+--   3. prompt the user in the app to dial 112/100 themselves
+ALTER TABLE public.user_settings
+  ADD COLUMN escalation_minutes INTEGER NOT NULL DEFAULT 5 CHECK (escalation_minutes BETWEEN 1 AND 60);
+
+ALTER TABLE public.sos_incidents
+  ADD COLUMN escalation_level SMALLINT NOT NULL DEFAULT 0 CHECK (escalation_level BETWEEN 0 AND 3),
+  ADD COLUMN escalated_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_sos_incidents_escalation ON public.sos_incidents(created_at)
+WHERE status = 'active' AND escalation_level < 3;
+
+-- One acknowledgement link per contact per incident; only Edge Functions create them
+CREATE TABLE public.incident_ack_tokens (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  incident_id UUID NOT NULL REFERENCES public.sos_incidents(id) ON DELETE CASCADE,
+  contact_id UUID NOT NULL REFERENCES public.emergency_contacts(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE DEFAULT encode(extensions.gen_random_bytes(24), 'hex'),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (incident_id, contact_id)
+);
+
+ALTER TABLE public.incident_ack_tokens ENABLE ROW LEVEL SECURITY;
+
+-- Acknowledgements now come from the app (guardians) or from the link in a notification
+ALTER TABLE public.incident_acknowledgements
+  ADD COLUMN channel TEXT NOT NULL DEFAULT 'app' CHECK (channel IN ('app', 'link'));
+
+ALTER TABLE public.incident_events DROP CONSTRAINT incident_events_event_type_check;
+ALTER TABLE public.incident_events ADD CONSTRAINT incident_events_event_type_check CHECK (event_type IN (
+  'triggered',
+  'notification_sent',
+  'notification_failed',
+  'media_uploaded',
+  'location_point',
+  'resolved',
+  'false_alarm',
+  'acknowledged',
+  'escalated'
+));
+
+-- Called anonymously from the acknowledgement page; the token is the only credential
+CREATE OR REPLACE FUNCTION public.acknowledge_alert(p_token TEXT)
+RETURNS TABLE (
+  display_name TEXT,
+  contact_name TEXT,
+  status TEXT,
+  tracking_token TEXT,
+  acknowledged_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_link public.incident_ack_tokens;
+  v_incident public.sos_incidents;
+  v_contact public.emergency_contacts;
+BEGIN
+  SELECT * INTO v_link FROM public.incident_ack_tokens WHERE token = p_token;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_incident FROM public.sos_incidents WHERE id = v_link.incident_id;
+  SELECT * INTO v_contact FROM public.emergency_contacts WHERE id = v_link.contact_id;
+
+  -- Closed incidents are reported as such, without recording anything
+  IF v_incident.status = 'active' THEN
+    INSERT INTO public.incident_acknowledgements (incident_id, user_id, contact_id, contact_name, channel)
+    VALUES (v_incident.id, v_incident.user_id, v_contact.id, v_contact.name, 'link')
+    ON CONFLICT (incident_id, contact_id) DO NOTHING;
+
+    IF FOUND THEN
+      INSERT INTO public.incident_events (incident_id, user_id, event_type, details)
+      VALUES (
+        v_incident.id,
+        v_incident.user_id,
+        'acknowledged',
+        jsonb_build_object('contact_name', v_contact.name, 'contact_id', v_contact.id, 'channel', 'link')
+      );
+    END IF;
+  END IF;
+
+  RETURN QUERY
+  SELECT NULLIF(trim(concat_ws(' ', p.first_name, p.last_name)), ''),
+         v_contact.name,
+         v_incident.status,
+         CASE WHEN v_incident.status = 'active' THEN v_incident.tracking_token END,
+         a.created_at
+  FROM (SELECT 1) AS one
+  LEFT JOIN public.profiles p ON p.user_id = v_incident.user_id
+  LEFT JOIN public.incident_acknowledgements a
+    ON a.incident_id = v_incident.id AND a.contact_id = v_contact.id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.acknowledge_alert(TEXT) TO anon, authenticated;
+
+-- Step the escalation ladder every minute, even if the app is closed.
+-- Uses the same Vault secrets as the delivery retry job.
+SELECT cron.schedule(
+  'escalate-sos-incidents',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/escalate-sos-incidents',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,101 @@
+-- New contacts are asked to confirm they agree to be an emergency responder.
+-- The consent link goes to the phone number and email as entered, so a
+-- mistyped number shows up as a contact that never gets verified.
+ALTER TABLE public.emergency_contacts
+  ADD COLUMN verification_status TEXT NOT NULL DEFAULT 'pending' CHECK (verification_status IN ('pending', 'verified', 'declined')),
+  ADD COLUMN verification_token TEXT NOT NULL UNIQUE DEFAULT encode(extensions.gen_random_bytes(16), 'hex'),
+  ADD COLUMN verification_sent_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN verification_responded_at TIMESTAMP WITH TIME ZONE;
+
+-- Only the contact (through respond_to_contact_verification) decides the status. Changing
+-- the phone or email asks again with a new link; linking a Guardian account counts as consent.
+CREATE OR REPLACE FUNCTION public.protect_emergency_contact_verification()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public, extensions
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.verification_status := 'pending';
+    NEW.verification_sent_at := NULL;
+    NEW.verification_responded_at := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF current_user IN ('authenticated', 'anon') THEN
+    NEW.verification_status := OLD.verification_status;
+    NEW.verification_token := OLD.verification_token;
+    NEW.verification_responded_at := OLD.verification_responded_at;
+  END IF;
+
+  IF NEW.phone IS DISTINCT FROM OLD.phone OR NEW.email IS DISTINCT FROM OLD.email THEN
+    NEW.verification_status := 'pending';
+    NEW.verification_token := encode(gen_random_bytes(16), 'hex');
+    NEW.verification_sent_at := NULL;
+    NEW.verification_responded_at := NULL;
+  END IF;
+
+  IF NEW.linked_user_id IS NOT NULL AND OLD.linked_user_id IS NULL THEN
+    NEW.verification_status := 'verified';
+    NEW.verification_responded_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_emergency_contact_verification
+BEFORE INSERT OR UPDATE ON public.emergency_contacts
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_emergency_contact_verification();
+
+-- Public consent page: who is asking, and what the contact answered so far
+CREATE OR REPLACE FUNCTION public.get_contact_verification(p_token TEXT)
+RETURNS TABLE (
+  contact_name TEXT,
+  owner_name TEXT,
+  verification_status TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT c.name,
+         COALESCE(NULLIF(trim(concat_ws(' ', p.first_name, p.last_name)), ''), 'Someone'),
+         c.verification_status
+  FROM public.emergency_contacts c
+  LEFT JOIN public.profiles p ON p.user_id = c.user_id
+  WHERE c.verification_token = p_token;
+$$;
+
+CREATE OR REPLACE FUNCTION public.respond_to_contact_verification(p_token TEXT, p_accept BOOLEAN)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_status TEXT;
+BEGIN
+  UPDATE public.emergency_contacts
+  SET verification_status = CASE WHEN p_accept THEN 'verified' ELSE 'declined' END,
+      verification_responded_at = now()
+  WHERE verification_token = p_token
+  RETURNING verification_status INTO v_status;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This confirmation link is invalid or has expired';
+  END IF;
+
+  RETURN v_status;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_contact_verification(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.respond_to_contact_verification(TEXT, BOOLEAN) TO anon, authenticated;
+
+-- Consent requests are logged and retried like any other message
+ALTER TABLE public.notification_deliveries DROP CONSTRAINT notification_deliveries_source_check;
+ALTER TABLE public.notification_deliveries ADD CONSTRAINT notification_deliveries_source_check
+  CHECK (source IN ('sos_alert', 'all_clear', 'broadcast', 'individual', 'verification'));
@@ -0,0 +1,76 @@
+-- Named groups for the trusted circle (family, friends, colleagues, hostel warden...).
+-- A group's tier sets the escalation order: tier 1 gets the SOS straight away,
+-- tiers 2 and 3 only when nobody earlier has acknowledged it.
+CREATE TABLE public.contact_groups (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(trim(name)) BETWEEN 1 AND 50),
+  tier SMALLINT NOT NULL DEFAULT 1 CHECK (tier BETWEEN 1 AND 3),
+  -- Routing rules: whether the group is part of SOS alerts and of "everyone" broadcasts
+  notify_on_sos BOOLEAN NOT NULL DEFAULT true,
+  include_in_broadcasts BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+
+ALTER TABLE public.contact_groups ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own contact groups"
+ON public.contact_groups
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own contact groups"
+ON public.contact_groups
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own contact groups"
+ON public.contact_groups
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own contact groups"
+ON public.contact_groups
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_contact_groups_updated_at
+BEFORE UPDATE ON public.contact_groups
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Ungrouped contacts behave like tier 1 and receive everything, as before
+ALTER TABLE public.emergency_contacts
+  ADD COLUMN group_id UUID REFERENCES public.contact_groups(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_emergency_contacts_group_id ON public.emergency_contacts(group_id);
+
+-- The circle used to be capped at 7 in the app only; groups make a larger circle
+-- manageable, so the cap is raised and enforced here
+CREATE OR REPLACE FUNCTION public.check_emergency_contact_group()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT'
+    AND (SELECT count(*) FROM public.emergency_contacts WHERE user_id = NEW.user_id) >= 50 THEN
+    RAISE EXCEPTION 'You can add at most 50 emergency contacts';
+  END IF;
+
+  IF NEW.group_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.contact_groups WHERE id = NEW.group_id AND user_id = NEW.user_id
+  ) THEN
+    RAISE EXCEPTION 'Contact group not found';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_emergency_contact_group
+BEFORE INSERT OR UPDATE OF group_id ON public.emergency_contacts
+FOR EACH ROW
+EXECUTE FUNCTION public.check_emergency_contact_group();
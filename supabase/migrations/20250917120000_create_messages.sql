@@ -0,0 +1,138 @@
+-- Two-way conversations with trusted contacts: one thread per contact. Outbound
+-- messages are written by the send Edge Functions; replies come back in the app
+-- (contacts with a linked account) or through the receive-message-reply webhook
+-- (email and SMS).
+CREATE TABLE public.message_threads (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  contact_id UUID NOT NULL UNIQUE REFERENCES public.emergency_contacts(id) ON DELETE CASCADE,
+  -- Routes email replies: outbound emails use reply+<token>@<INBOUND_EMAIL_DOMAIN> as Reply-To
+  reply_token TEXT NOT NULL UNIQUE DEFAULT encode(extensions.gen_random_bytes(16), 'hex'),
+  last_message_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.messages (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  thread_id UUID NOT NULL REFERENCES public.message_threads(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  contact_id UUID NOT NULL REFERENCES public.emergency_contacts(id) ON DELETE CASCADE,
+  -- outbound: from the user to the contact; inbound: a reply from the contact
+  direction TEXT NOT NULL CHECK (direction IN ('outbound', 'inbound')),
+  -- Where the message was written: in the app, or as an email/SMS reply
+  channel TEXT NOT NULL DEFAULT 'app' CHECK (channel IN ('app', 'email', 'sms')),
+  body TEXT NOT NULL CHECK (char_length(trim(body)) BETWEEN 1 AND 5000),
+  is_broadcast BOOLEAN NOT NULL DEFAULT false,
+  sender_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  -- Provider message id of an email/SMS reply, so webhook retries are not stored twice
+  external_id TEXT,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.message_threads ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.messages ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_message_threads_user_id ON public.message_threads(user_id, last_message_at DESC);
+CREATE INDEX idx_messages_thread_id ON public.messages(thread_id, created_at);
+CREATE UNIQUE INDEX idx_messages_external_id ON public.messages(channel, external_id)
+  WHERE external_id IS NOT NULL;
+
+-- SECURITY DEFINER so policies can check the link without recursing into emergency_contacts RLS
+CREATE OR REPLACE FUNCTION public.is_linked_contact(p_contact_id UUID)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.emergency_contacts
+    WHERE id = p_contact_id AND linked_user_id = auth.uid()
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_linked_contact(UUID) TO authenticated;
+
+-- Files every message under its contact's thread (creating it on first use) and
+-- takes the owner from the contact, so callers only need to set contact_id
+CREATE OR REPLACE FUNCTION public.assign_message_thread()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  SELECT user_id INTO NEW.user_id
+  FROM public.emergency_contacts
+  WHERE id = NEW.contact_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Contact not found';
+  END IF;
+
+  NEW.read_at := NULL;
+
+  INSERT INTO public.message_threads (user_id, contact_id, last_message_at)
+  VALUES (NEW.user_id, NEW.contact_id, NEW.created_at)
+  ON CONFLICT (contact_id) DO UPDATE SET last_message_at = EXCLUDED.last_message_at
+  RETURNING id INTO NEW.thread_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_message_thread
+BEFORE INSERT ON public.messages
+FOR EACH ROW
+EXECUTE FUNCTION public.assign_message_thread();
+
+CREATE POLICY "Users and their linked contacts can view message threads"
+ON public.message_threads
+FOR SELECT
+USING (auth.uid() = user_id OR public.is_linked_contact(contact_id));
+
+-- Outbound messages and email/SMS replies are written by Edge Functions only
+CREATE POLICY "Users and their linked contacts can view messages"
+ON public.messages
+FOR SELECT
+USING (auth.uid() = user_id OR public.is_linked_contact(contact_id));
+
+CREATE POLICY "Linked contacts can reply in the app"
+ON public.messages
+FOR INSERT
+WITH CHECK (
+  direction = 'inbound'
+  AND channel = 'app'
+  AND sender_id = auth.uid()
+  AND external_id IS NULL
+  AND public.is_linked_contact(contact_id)
+);
+
+-- Marks everything the other side sent in a thread as read: replies for the
+-- user, the user's messages for a linked contact
+CREATE OR REPLACE FUNCTION public.mark_thread_read(p_thread_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.messages m
+  SET read_at = now()
+  FROM public.message_threads t
+  WHERE t.id = p_thread_id
+    AND m.thread_id = t.id
+    AND m.read_at IS NULL
+    AND (
+      (t.user_id = auth.uid() AND m.direction = 'inbound')
+      OR (public.is_linked_contact(t.contact_id) AND m.direction = 'outbound')
+    );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.mark_thread_read(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.mark_thread_read(UUID) TO authenticated;
+
+-- New messages and read receipts reach both sides live; Realtime applies the policies above
+ALTER PUBLICATION supabase_realtime ADD TABLE public.messages;
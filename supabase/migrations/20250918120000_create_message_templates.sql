@@ -0,0 +1,40 @@
+-- Saved subjects and messages for broadcasts and direct messages. Placeholders
+-- ({name}, {location_link}, {time}, {battery}) are filled in by the send Edge
+-- Functions for each recipient. Built-in templates live in the app, not here.
+CREATE TABLE public.message_templates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(trim(name)) BETWEEN 1 AND 50),
+  subject TEXT CHECK (char_length(subject) <= 150),
+  body TEXT NOT NULL CHECK (char_length(trim(body)) BETWEEN 1 AND 2000),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+
+ALTER TABLE public.message_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own message templates"
+ON public.message_templates
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own message templates"
+ON public.message_templates
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own message templates"
+ON public.message_templates
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own message templates"
+ON public.message_templates
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_message_templates_updated_at
+BEFORE UPDATE ON public.message_templates
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
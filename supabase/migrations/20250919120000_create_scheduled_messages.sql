@@ -0,0 +1,212 @@
+-- Scheduled and recurring messages to the trusted circle ("leaving office now",
+-- every weekday at 9pm...). A cron job hands due messages to
+-- send-scheduled-messages, which sends them through send-broadcast-message.
+CREATE TABLE public.scheduled_messages (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  subject TEXT CHECK (char_length(subject) <= 150),
+  -- May use the message template placeholders
+  body TEXT NOT NULL CHECK (char_length(trim(body)) BETWEEN 1 AND 2000),
+  -- NULL sends to everyone in "everyone" broadcasts
+  group_id UUID REFERENCES public.contact_groups(id) ON DELETE SET NULL,
+  include_location BOOLEAN NOT NULL DEFAULT false,
+  recurrence TEXT NOT NULL DEFAULT 'once' CHECK (recurrence IN ('once', 'daily', 'weekdays', 'weekly')),
+  -- One-off messages use send_at; recurring ones send_time (+ days_of_week for weekly) in `timezone`
+  send_at TIMESTAMP WITH TIME ZONE,
+  send_time TIME,
+  days_of_week SMALLINT[] CHECK (days_of_week <@ ARRAY[0, 1, 2, 3, 4, 5, 6]::SMALLINT[]),
+  timezone TEXT NOT NULL DEFAULT 'Asia/Kolkata',
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  -- Maintained by set_scheduled_message_next_run() and claim_due_scheduled_messages()
+  next_run_at TIMESTAMP WITH TIME ZONE,
+  last_sent_at TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (recurrence <> 'once' OR send_at IS NOT NULL),
+  CHECK (recurrence = 'once' OR send_time IS NOT NULL),
+  CHECK (recurrence <> 'weekly' OR cardinality(days_of_week) > 0)
+);
+
+ALTER TABLE public.scheduled_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own scheduled messages"
+ON public.scheduled_messages
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own scheduled messages"
+ON public.scheduled_messages
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own scheduled messages"
+ON public.scheduled_messages
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own scheduled messages"
+ON public.scheduled_messages
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_scheduled_messages_updated_at
+BEFORE UPDATE ON public.scheduled_messages
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_scheduled_messages_due ON public.scheduled_messages(next_run_at)
+  WHERE enabled AND next_run_at IS NOT NULL;
+
+-- Next time a recurring schedule fires after p_after, in the schedule's own time zone
+CREATE OR REPLACE FUNCTION public.scheduled_message_next_run(
+  p_recurrence TEXT,
+  p_send_time TIME,
+  p_days_of_week SMALLINT[],
+  p_timezone TEXT,
+  p_after TIMESTAMP WITH TIME ZONE
+)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_day DATE := (p_after AT TIME ZONE p_timezone)::date;
+  v_candidate TIMESTAMP WITH TIME ZONE;
+  v_dow INTEGER;
+BEGIN
+  FOR i IN 0..7 LOOP
+    v_candidate := ((v_day + i) + p_send_time) AT TIME ZONE p_timezone;
+    v_dow := extract(dow FROM v_day + i);
+
+    IF v_candidate > p_after AND (
+      p_recurrence = 'daily'
+      OR (p_recurrence = 'weekdays' AND v_dow BETWEEN 1 AND 5)
+      OR (p_recurrence = 'weekly' AND v_dow = ANY(p_days_of_week))
+    ) THEN
+      RETURN v_candidate;
+    END IF;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Keeps next_run_at in step with the schedule whenever it is created, edited or re-enabled
+CREATE OR REPLACE FUNCTION public.set_scheduled_message_next_run()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND NEW.recurrence IS NOT DISTINCT FROM OLD.recurrence
+    AND NEW.send_at IS NOT DISTINCT FROM OLD.send_at
+    AND NEW.send_time IS NOT DISTINCT FROM OLD.send_time
+    AND NEW.days_of_week IS NOT DISTINCT FROM OLD.days_of_week
+    AND NEW.timezone IS NOT DISTINCT FROM OLD.timezone
+    AND NEW.enabled IS NOT DISTINCT FROM OLD.enabled THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT NEW.enabled THEN
+    NEW.next_run_at := NULL;
+  ELSIF NEW.recurrence = 'once' THEN
+    IF NEW.send_at <= now() THEN
+      RAISE EXCEPTION 'Pick a time in the future';
+    END IF;
+    NEW.next_run_at := NEW.send_at;
+  ELSE
+    NEW.next_run_at := public.scheduled_message_next_run(
+      NEW.recurrence, NEW.send_time, NEW.days_of_week, NEW.timezone, now()
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_scheduled_message_next_run
+BEFORE INSERT OR UPDATE ON public.scheduled_messages
+FOR EACH ROW
+EXECUTE FUNCTION public.set_scheduled_message_next_run();
+
+-- Hands due messages to the cron worker exactly once: recurring ones move on to
+-- their next run, one-off ones are switched off
+CREATE OR REPLACE FUNCTION public.claim_due_scheduled_messages(p_limit INTEGER DEFAULT 50)
+RETURNS SETOF public.scheduled_messages
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH due AS (
+    SELECT id
+    FROM public.scheduled_messages
+    WHERE enabled AND next_run_at <= now()
+    ORDER BY next_run_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  UPDATE public.scheduled_messages s
+  SET next_run_at = CASE
+        WHEN s.recurrence = 'once' THEN NULL
+        ELSE public.scheduled_message_next_run(s.recurrence, s.send_time, s.days_of_week, s.timezone, now())
+      END,
+      enabled = s.recurrence <> 'once'
+  FROM due
+  WHERE s.id = due.id
+  RETURNING s.*;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_due_scheduled_messages(INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Where the user last was, reported by the app while it is open, so scheduled
+-- messages can include a recent location. Only kept for users who ask for it.
+CREATE TABLE public.user_last_locations (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  latitude DECIMAL(10, 8) NOT NULL,
+  longitude DECIMAL(11, 8) NOT NULL,
+  accuracy DOUBLE PRECISION,
+  recorded_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.user_last_locations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own last location"
+ON public.user_last_locations
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can store their own last location"
+ON public.user_last_locations
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own last location"
+ON public.user_last_locations
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own last location"
+ON public.user_last_locations
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Check for due messages every minute. Expects `project_url` and
+-- `service_role_key` to be stored in Supabase Vault.
+SELECT cron.schedule(
+  'send-scheduled-messages',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/send-scheduled-messages',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
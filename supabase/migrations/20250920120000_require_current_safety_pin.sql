@@ -0,0 +1,95 @@
+-- A PIN gate is only as strong as the PIN itself: replacing it must prove the
+-- current PIN, and repeated wrong guesses lock checks out for a while.
+ALTER TABLE public.user_safety_pins
+  ADD COLUMN failed_attempts INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN locked_until TIMESTAMP WITH TIME ZONE;
+
+-- Classify a PIN as 'valid', 'duress', 'invalid' or 'locked', counting wrong
+-- guesses. Five in a row lock the user's PIN checks for 15 minutes.
+CREATE OR REPLACE FUNCTION public.check_safety_pin(p_user_id UUID, p_pin TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_pins public.user_safety_pins%ROWTYPE;
+  v_result TEXT;
+BEGIN
+  SELECT * INTO v_pins FROM public.user_safety_pins WHERE user_id = p_user_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN 'invalid';
+  END IF;
+
+  IF v_pins.locked_until > now() THEN
+    RETURN 'locked';
+  END IF;
+
+  v_result := CASE
+    WHEN v_pins.pin_hash = crypt(p_pin, v_pins.pin_hash) THEN 'valid'
+    WHEN v_pins.duress_pin_hash IS NOT NULL AND v_pins.duress_pin_hash = crypt(p_pin, v_pins.duress_pin_hash) THEN 'duress'
+    ELSE 'invalid'
+  END;
+
+  IF v_result = 'invalid' THEN
+    UPDATE public.user_safety_pins
+    SET failed_attempts = CASE WHEN v_pins.failed_attempts + 1 >= 5 THEN 0 ELSE v_pins.failed_attempts + 1 END,
+        locked_until = CASE WHEN v_pins.failed_attempts + 1 >= 5 THEN now() + interval '15 minutes' ELSE NULL END
+    WHERE user_id = p_user_id;
+  ELSIF v_pins.failed_attempts > 0 OR v_pins.locked_until IS NOT NULL THEN
+    UPDATE public.user_safety_pins
+    SET failed_attempts = 0, locked_until = NULL
+    WHERE user_id = p_user_id;
+  END IF;
+
+  RETURN v_result;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.check_safety_pin(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.check_safety_pin(UUID, TEXT) TO service_role;
+
+-- Set the caller's first safety PIN, or replace it when p_current_pin is their
+-- current one. Returns 'saved', or the check_safety_pin() result that refused it.
+-- Refusals return instead of raising, so the failed guess still counts.
+DROP FUNCTION public.set_safety_pin(TEXT);
+
+CREATE OR REPLACE FUNCTION public.set_safety_pin(p_pin TEXT, p_current_pin TEXT DEFAULT NULL)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_check TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_pin !~ '^[0-9]{4,6}$' THEN
+    RAISE EXCEPTION 'PIN must be 4 to 6 digits';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.user_safety_pins WHERE user_id = auth.uid()) THEN
+    INSERT INTO public.user_safety_pins (user_id, pin_hash)
+    VALUES (auth.uid(), crypt(p_pin, gen_salt('bf')));
+    RETURN 'saved';
+  END IF;
+
+  v_check := public.check_safety_pin(auth.uid(), COALESCE(p_current_pin, ''));
+  IF v_check <> 'valid' THEN
+    -- A duress PIN must not reveal itself by being rejected differently
+    RETURN CASE WHEN v_check = 'duress' THEN 'invalid' ELSE v_check END;
+  END IF;
+
+  UPDATE public.user_safety_pins
+  SET pin_hash = crypt(p_pin, gen_salt('bf'))
+  WHERE user_id = auth.uid();
+
+  RETURN 'saved';
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_safety_pin(TEXT, TEXT) TO authenticated;
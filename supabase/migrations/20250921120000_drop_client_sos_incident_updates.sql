@@ -0,0 +1,4 @@
+-- Incidents are closed, escalated and flagged as duress only by the Edge Functions
+-- (service role), which check the safety PIN first. A direct client update could
+-- skip that check, so signed-in users can no longer update incidents at all.
+DROP POLICY IF EXISTS "Users can update their own SOS incidents" ON public.sos_incidents;
@@ -0,0 +1,48 @@
+-- Setting or replacing the duress PIN must prove the current safety PIN too,
+-- or anyone holding an unlocked phone could plant a PIN that looks valid.
+DROP FUNCTION public.set_duress_pin(TEXT);
+
+-- Returns 'saved', or the check_safety_pin() result that refused it.
+-- Refusals return instead of raising, so the failed guess still counts.
+CREATE OR REPLACE FUNCTION public.set_duress_pin(p_pin TEXT, p_current_pin TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_pin_hash TEXT;
+  v_check TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_pin !~ '^[0-9]{4,6}$' THEN
+    RAISE EXCEPTION 'PIN must be 4 to 6 digits';
+  END IF;
+
+  SELECT pin_hash INTO v_pin_hash FROM public.user_safety_pins WHERE user_id = auth.uid();
+
+  IF v_pin_hash IS NULL THEN
+    RAISE EXCEPTION 'Set a safety PIN first';
+  END IF;
+
+  v_check := public.check_safety_pin(auth.uid(), COALESCE(p_current_pin, ''));
+  IF v_check <> 'valid' THEN
+    RETURN CASE WHEN v_check = 'duress' THEN 'invalid' ELSE v_check END;
+  END IF;
+
+  IF v_pin_hash = crypt(p_pin, v_pin_hash) THEN
+    RAISE EXCEPTION 'Duress PIN must be different from your safety PIN';
+  END IF;
+
+  UPDATE public.user_safety_pins
+  SET duress_pin_hash = crypt(p_pin, gen_salt('bf'))
+  WHERE user_id = auth.uid();
+
+  RETURN 'saved';
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_duress_pin(TEXT, TEXT) TO authenticated;
@@ -0,0 +1,135 @@
+-- The consent token must stay secret from the user who added the contact, or
+-- they could open the link and confirm on the contact's behalf. Tokens move to
+-- a table only Edge Functions and the consent functions can read.
+CREATE TABLE public.emergency_contact_verification_tokens (
+  contact_id UUID NOT NULL PRIMARY KEY REFERENCES public.emergency_contacts(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE DEFAULT encode(extensions.gen_random_bytes(16), 'hex'),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- No policies: clients can neither read nor write tokens
+ALTER TABLE public.emergency_contact_verification_tokens ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO public.emergency_contact_verification_tokens (contact_id, token)
+SELECT id, verification_token FROM public.emergency_contacts;
+
+-- A new contact gets a token, and a changed phone or email gets a new one
+CREATE OR REPLACE FUNCTION public.rotate_contact_verification_token()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.phone IS DISTINCT FROM OLD.phone OR NEW.email IS DISTINCT FROM OLD.email THEN
+    INSERT INTO public.emergency_contact_verification_tokens (contact_id)
+    VALUES (NEW.id)
+    ON CONFLICT (contact_id) DO UPDATE
+    SET token = encode(gen_random_bytes(16), 'hex'),
+        created_at = now();
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER rotate_contact_verification_token
+AFTER INSERT OR UPDATE ON public.emergency_contacts
+FOR EACH ROW
+EXECUTE FUNCTION public.rotate_contact_verification_token();
+
+CREATE OR REPLACE FUNCTION public.protect_emergency_contact_verification()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public, extensions
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.verification_status := 'pending';
+    NEW.verification_sent_at := NULL;
+    NEW.verification_responded_at := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF current_user IN ('authenticated', 'anon') THEN
+    NEW.verification_status := OLD.verification_status;
+    NEW.verification_responded_at := OLD.verification_responded_at;
+  END IF;
+
+  IF NEW.phone IS DISTINCT FROM OLD.phone OR NEW.email IS DISTINCT FROM OLD.email THEN
+    NEW.verification_status := 'pending';
+    NEW.verification_sent_at := NULL;
+    NEW.verification_responded_at := NULL;
+  END IF;
+
+  IF NEW.linked_user_id IS NOT NULL AND OLD.linked_user_id IS NULL THEN
+    NEW.verification_status := 'verified';
+    NEW.verification_responded_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+ALTER TABLE public.emergency_contacts DROP COLUMN verification_token;
+
+CREATE OR REPLACE FUNCTION public.get_contact_verification(p_token TEXT)
+RETURNS TABLE (
+  contact_name TEXT,
+  owner_name TEXT,
+  verification_status TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT c.name,
+         COALESCE(NULLIF(trim(concat_ws(' ', p.first_name, p.last_name)), ''), 'Someone'),
+         c.verification_status
+  FROM public.emergency_contact_verification_tokens t
+  JOIN public.emergency_contacts c ON c.id = t.contact_id
+  LEFT JOIN public.profiles p ON p.user_id = c.user_id
+  WHERE t.token = p_token;
+$$;
+
+CREATE OR REPLACE FUNCTION public.respond_to_contact_verification(p_token TEXT, p_accept BOOLEAN)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_contact public.emergency_contacts%ROWTYPE;
+  v_status TEXT;
+BEGIN
+  SELECT c.* INTO v_contact
+  FROM public.emergency_contact_verification_tokens t
+  JOIN public.emergency_contacts c ON c.id = t.contact_id
+  WHERE t.token = p_token;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This confirmation link is invalid or has expired';
+  END IF;
+
+  IF auth.uid() = v_contact.user_id THEN
+    RAISE EXCEPTION 'Only your contact can answer this request';
+  END IF;
+
+  UPDATE public.emergency_contacts
+  SET verification_status = CASE WHEN p_accept THEN 'verified' ELSE 'declined' END,
+      verification_responded_at = now()
+  WHERE id = v_contact.id
+  RETURNING verification_status INTO v_status;
+
+  RETURN v_status;
+END;
+$$;
+
+-- Consent requests carry the link in their payload, so they stay out of the owner's delivery log
+DROP POLICY "Users can view their own notification deliveries" ON public.notification_deliveries;
+
+CREATE POLICY "Users can view their own notification deliveries"
+ON public.notification_deliveries
+FOR SELECT
+USING (auth.uid() = user_id AND source <> 'verification');
@@ -0,0 +1,5 @@
+-- While a timer runs the app only records progress along the route. The deadline,
+-- status and incident are changed by the Edge Functions (service role) after the
+-- safety PIN is checked, so a client must not be able to push the deadline back.
+REVOKE UPDATE ON public.safety_checkins FROM anon, authenticated;
+GRANT UPDATE (route, last_latitude, last_longitude, last_seen_at) ON public.safety_checkins TO authenticated;
@@ -0,0 +1,62 @@
+-- Acknowledging an alert stops its escalation. Whoever holds the user's phone
+-- must not be able to do that: alert payloads are now stored without the
+-- acknowledgement links, and the user's own session is refused here.
+CREATE OR REPLACE FUNCTION public.acknowledge_alert(p_token TEXT)
+RETURNS TABLE (
+  display_name TEXT,
+  contact_name TEXT,
+  status TEXT,
+  tracking_token TEXT,
+  acknowledged_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_link public.incident_ack_tokens;
+  v_incident public.sos_incidents;
+  v_contact public.emergency_contacts;
+BEGIN
+  SELECT * INTO v_link FROM public.incident_ack_tokens WHERE token = p_token;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_incident FROM public.sos_incidents WHERE id = v_link.incident_id;
+  SELECT * INTO v_contact FROM public.emergency_contacts WHERE id = v_link.contact_id;
+
+  -- Acknowledging stops escalation, so it has to come from the contact
+  IF auth.uid() = v_incident.user_id THEN
+    RAISE EXCEPTION 'Only your contact can respond to this alert';
+  END IF;
+
+  -- Closed incidents are reported as such, without recording anything
+  IF v_incident.status = 'active' THEN
+    INSERT INTO public.incident_acknowledgements (incident_id, user_id, contact_id, contact_name, channel)
+    VALUES (v_incident.id, v_incident.user_id, v_contact.id, v_contact.name, 'link')
+    ON CONFLICT (incident_id, contact_id) DO NOTHING;
+
+    IF FOUND THEN
+      INSERT INTO public.incident_events (incident_id, user_id, event_type, details)
+      VALUES (
+        v_incident.id,
+        v_incident.user_id,
+        'acknowledged',
+        jsonb_build_object('contact_name', v_contact.name, 'contact_id', v_contact.id, 'channel', 'link')
+      );
+    END IF;
+  END IF;
+
+  RETURN QUERY
+  SELECT NULLIF(trim(concat_ws(' ', p.first_name, p.last_name)), ''),
+         v_contact.name,
+         v_incident.status,
+         CASE WHEN v_incident.status = 'active' THEN v_incident.tracking_token END,
+         a.created_at
+  FROM (SELECT 1) AS one
+  LEFT JOIN public.profiles p ON p.user_id = v_incident.user_id
+  LEFT JOIN public.incident_acknowledgements a
+    ON a.incident_id = v_incident.id AND a.contact_id = v_contact.id;
+END;
+$$;
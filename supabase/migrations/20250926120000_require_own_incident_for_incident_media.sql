@@ -0,0 +1,15 @@
+-- Media may only be attached to the user's own incidents, or it would show up
+-- in someone else's tracking page and incident report
+DROP POLICY IF EXISTS "Users can add media to their own SOS incidents" ON public.sos_incident_media;
+
+CREATE POLICY "Users can add media to their own SOS incidents"
+ON public.sos_incident_media
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND (storage_path IS NULL OR storage_path LIKE auth.uid()::text || '/emergency_media/%')
+  AND EXISTS (
+    SELECT 1 FROM public.sos_incidents i
+    WHERE i.id = incident_id AND i.user_id = auth.uid()
+  )
+);
@@ -0,0 +1,46 @@
+-- A new safety PIN equal to the duress PIN would make every cancel ambiguous,
+-- so it is refused just like set_duress_pin() refuses the reverse.
+CREATE OR REPLACE FUNCTION public.set_safety_pin(p_pin TEXT, p_current_pin TEXT DEFAULT NULL)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_check TEXT;
+  v_duress_pin_hash TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_pin !~ '^[0-9]{4,6}$' THEN
+    RAISE EXCEPTION 'PIN must be 4 to 6 digits';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.user_safety_pins WHERE user_id = auth.uid()) THEN
+    INSERT INTO public.user_safety_pins (user_id, pin_hash)
+    VALUES (auth.uid(), crypt(p_pin, gen_salt('bf')));
+    RETURN 'saved';
+  END IF;
+
+  v_check := public.check_safety_pin(auth.uid(), COALESCE(p_current_pin, ''));
+  IF v_check <> 'valid' THEN
+    -- A duress PIN must not reveal itself by being rejected differently
+    RETURN CASE WHEN v_check = 'duress' THEN 'invalid' ELSE v_check END;
+  END IF;
+
+  -- Only checked once the current PIN is proven, so it can't be used to probe the duress PIN
+  SELECT duress_pin_hash INTO v_duress_pin_hash FROM public.user_safety_pins WHERE user_id = auth.uid();
+
+  IF v_duress_pin_hash IS NOT NULL AND v_duress_pin_hash = crypt(p_pin, v_duress_pin_hash) THEN
+    RAISE EXCEPTION 'Safety PIN must be different from your duress PIN';
+  END IF;
+
+  UPDATE public.user_safety_pins
+  SET pin_hash = crypt(p_pin, gen_salt('bf'))
+  WHERE user_id = auth.uid();
+
+  RETURN 'saved';
+END;
+$$;
@@ -184,3 +184,2320 @@ WITH CHECK (bucket_id = 'emergency-media');
 CREATE POLICY "Allow public delete from emergency-media"
 ON storage.objects FOR DELETE
 USING (bucket_id = 'emergency-media');
+
+-- Create location points table for streaming live position during an active SOS incident
+CREATE TABLE public.sos_location_points (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  incident_id UUID NOT NULL REFERENCES public.sos_incidents(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  latitude DECIMAL(10, 8) NOT NULL,
+  longitude DECIMAL(11, 8) NOT NULL,
+  accuracy DOUBLE PRECISION,
+  speed DOUBLE PRECISION,
+  heading DOUBLE PRECISION,
+  recorded_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.sos_location_points ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies for SOS location points
+CREATE POLICY "Users can view their own SOS location points" 
+ON public.sos_location_points 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+-- Points can only be appended while the owning incident is still active
+CREATE POLICY "Users can add location points to their active SOS incidents" 
+ON public.sos_location_points 
+FOR INSERT 
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.sos_incidents
+    WHERE sos_incidents.id = incident_id
+      AND sos_incidents.user_id = auth.uid()
+      AND sos_incidents.status = 'active'
+  )
+);
+
+-- Add indexes for better performance
+CREATE INDEX idx_sos_location_points_incident_id ON public.sos_location_points(incident_id, recorded_at);
+CREATE INDEX idx_sos_location_points_user_id ON public.sos_location_points(user_id);
+
+-- Publish incident and location changes to Supabase Realtime
+ALTER PUBLICATION supabase_realtime ADD TABLE public.sos_incidents;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.sos_location_points;
+
+-- Per-incident tracking token so trusted contacts without an account can follow a live incident
+ALTER TABLE public.sos_incidents
+  ADD COLUMN tracking_token TEXT NOT NULL UNIQUE DEFAULT encode(extensions.gen_random_bytes(24), 'hex'),
+  ADD COLUMN tracking_expires_at TIMESTAMP WITH TIME ZONE;
+
+-- Create table for media recorded during an SOS incident
+CREATE TABLE public.sos_incident_media (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  incident_id UUID NOT NULL REFERENCES public.sos_incidents(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  media_url TEXT NOT NULL,
+  media_type TEXT NOT NULL DEFAULT 'audio' CHECK (media_type IN ('audio', 'video')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.sos_incident_media ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own SOS incident media" 
+ON public.sos_incident_media 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can add media to their own SOS incidents" 
+ON public.sos_incident_media 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE INDEX idx_sos_incident_media_incident_id ON public.sos_incident_media(incident_id);
+
+-- Expire the tracking token as soon as the incident leaves the 'active' state
+CREATE OR REPLACE FUNCTION public.expire_incident_tracking_token()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status <> 'active' AND OLD.status = 'active' THEN
+    NEW.tracking_expires_at = now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER expire_sos_incident_tracking_token
+BEFORE UPDATE ON public.sos_incidents
+FOR EACH ROW
+EXECUTE FUNCTION public.expire_incident_tracking_token();
+
+-- Token-gated read access for the public tracking page. These run as the
+-- definer so anonymous visitors never need direct table access.
+CREATE OR REPLACE FUNCTION public.get_tracked_incident(p_token TEXT)
+RETURNS TABLE (
+  id UUID,
+  status TEXT,
+  display_name TEXT,
+  latitude DECIMAL,
+  longitude DECIMAL,
+  created_at TIMESTAMP WITH TIME ZONE,
+  last_seen_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    i.id,
+    i.status,
+    NULLIF(trim(concat_ws(' ', p.first_name, p.last_name)), ''),
+    i.latitude,
+    i.longitude,
+    i.created_at,
+    COALESCE((SELECT max(lp.recorded_at) FROM public.sos_location_points lp WHERE lp.incident_id = i.id), i.created_at)
+  FROM public.sos_incidents i
+  LEFT JOIN public.profiles p ON p.user_id = i.user_id
+  WHERE i.tracking_token = p_token
+    AND (i.tracking_expires_at IS NULL OR i.tracking_expires_at > now());
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_tracked_incident_trail(p_token TEXT)
+RETURNS TABLE (
+  latitude DECIMAL,
+  longitude DECIMAL,
+  accuracy DOUBLE PRECISION,
+  recorded_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT lp.latitude, lp.longitude, lp.accuracy, lp.recorded_at
+  FROM public.sos_location_points lp
+  JOIN public.sos_incidents i ON i.id = lp.incident_id
+  WHERE i.tracking_token = p_token
+    AND (i.tracking_expires_at IS NULL OR i.tracking_expires_at > now())
+  ORDER BY lp.recorded_at ASC;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_tracked_incident_media(p_token TEXT)
+RETURNS TABLE (
+  media_url TEXT,
+  media_type TEXT,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT m.media_url, m.media_type, m.created_at
+  FROM public.sos_incident_media m
+  JOIN public.sos_incidents i ON i.id = m.incident_id
+  WHERE i.tracking_token = p_token
+    AND (i.tracking_expires_at IS NULL OR i.tracking_expires_at > now())
+  ORDER BY m.created_at DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_tracked_incident(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_tracked_incident_trail(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_tracked_incident_media(TEXT) TO anon, authenticated;
+
+-- Track how and when an SOS incident was closed, and who received the original alert
+ALTER TABLE public.sos_incidents
+  ADD COLUMN resolved_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN resolution TEXT CHECK (resolution IN ('resolved', 'false_alarm')),
+  ADD COLUMN notified_contact_ids UUID[] NOT NULL DEFAULT '{}';
+
+-- Hashed safety PIN used to confirm sensitive actions such as closing an incident.
+-- No RLS policies are defined, so the table is only reachable through the functions below.
+CREATE TABLE public.user_safety_pins (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  pin_hash TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.user_safety_pins ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_user_safety_pins_updated_at
+BEFORE UPDATE ON public.user_safety_pins
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Set or replace the caller's safety PIN (4-6 digits)
+CREATE OR REPLACE FUNCTION public.set_safety_pin(p_pin TEXT)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_pin !~ '^[0-9]{4,6}$' THEN
+    RAISE EXCEPTION 'PIN must be 4 to 6 digits';
+  END IF;
+
+  INSERT INTO public.user_safety_pins (user_id, pin_hash)
+  VALUES (auth.uid(), crypt(p_pin, gen_salt('bf')))
+  ON CONFLICT (user_id) DO UPDATE SET pin_hash = EXCLUDED.pin_hash;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_safety_pin()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.user_safety_pins WHERE user_id = auth.uid());
+$$;
+
+-- Only Edge Functions (service role) may check a PIN for an arbitrary user
+CREATE OR REPLACE FUNCTION public.verify_safety_pin(p_user_id UUID, p_pin TEXT)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.user_safety_pins
+    WHERE user_id = p_user_id
+      AND pin_hash = crypt(p_pin, pin_hash)
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_safety_pin(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.has_safety_pin() TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.verify_safety_pin(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.verify_safety_pin(UUID, TEXT) TO service_role;
+
+-- Create persisted timeline of everything that happens during an SOS incident
+CREATE TABLE public.incident_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  incident_id UUID NOT NULL REFERENCES public.sos_incidents(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  event_type TEXT NOT NULL CHECK (event_type IN (
+    'triggered',
+    'notification_sent',
+    'notification_failed',
+    'media_uploaded',
+    'location_point',
+    'resolved',
+    'false_alarm'
+  )),
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.incident_events ENABLE ROW LEVEL SECURITY;
+
+-- Events are written by triggers and Edge Functions only
+CREATE POLICY "Users can view their own incident events" 
+ON public.incident_events 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_incident_events_incident_id ON public.incident_events(incident_id, created_at);
+CREATE INDEX idx_incident_events_user_id ON public.incident_events(user_id, created_at DESC);
+
+-- Record lifecycle changes on sos_incidents
+CREATE OR REPLACE FUNCTION public.log_sos_incident_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.incident_events (incident_id, user_id, event_type, details)
+    VALUES (
+      NEW.id,
+      NEW.user_id,
+      'triggered',
+      jsonb_build_object('latitude', NEW.latitude, 'longitude', NEW.longitude)
+    );
+  ELSIF NEW.status <> OLD.status AND NEW.status IN ('resolved', 'cancelled') THEN
+    INSERT INTO public.incident_events (incident_id, user_id, event_type, details)
+    VALUES (
+      NEW.id,
+      NEW.user_id,
+      CASE WHEN NEW.resolution = 'false_alarm' OR NEW.status = 'cancelled' THEN 'false_alarm' ELSE 'resolved' END,
+      jsonb_build_object('status', NEW.status)
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_sos_incident_events
+AFTER INSERT OR UPDATE ON public.sos_incidents
+FOR EACH ROW
+EXECUTE FUNCTION public.log_sos_incident_event();
+
+CREATE OR REPLACE FUNCTION public.log_sos_location_point_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.incident_events (incident_id, user_id, event_type, details, created_at)
+  VALUES (
+    NEW.incident_id,
+    NEW.user_id,
+    'location_point',
+    jsonb_build_object('latitude', NEW.latitude, 'longitude', NEW.longitude, 'accuracy', NEW.accuracy),
+    NEW.recorded_at
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_sos_location_point_events
+AFTER INSERT ON public.sos_location_points
+FOR EACH ROW
+EXECUTE FUNCTION public.log_sos_location_point_event();
+
+CREATE OR REPLACE FUNCTION public.log_sos_incident_media_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.incident_events (incident_id, user_id, event_type, details)
+  VALUES (
+    NEW.incident_id,
+    NEW.user_id,
+    'media_uploaded',
+    jsonb_build_object('media_url', NEW.media_url, 'media_type', NEW.media_type)
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_sos_incident_media_events
+AFTER INSERT ON public.sos_incident_media
+FOR EACH ROW
+EXECUTE FUNCTION public.log_sos_incident_media_event();
+
+-- Create per-contact, per-channel delivery log for every notification the Edge Functions send
+CREATE TABLE public.notification_deliveries (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  incident_id UUID REFERENCES public.sos_incidents(id) ON DELETE CASCADE,
+  contact_id UUID REFERENCES public.emergency_contacts(id) ON DELETE SET NULL,
+  contact_name TEXT NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('sos_alert', 'all_clear', 'broadcast', 'individual')),
+  channel TEXT NOT NULL CHECK (channel IN ('email', 'sms')),
+  recipient TEXT NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sent', 'failed')),
+  provider TEXT,
+  provider_message_id TEXT,
+  error TEXT,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_retry_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.notification_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- Deliveries are written by Edge Functions only
+CREATE POLICY "Users can view their own notification deliveries" 
+ON public.notification_deliveries 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_notification_deliveries_updated_at
+BEFORE UPDATE ON public.notification_deliveries
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_notification_deliveries_user_id ON public.notification_deliveries(user_id, created_at DESC);
+CREATE INDEX idx_notification_deliveries_incident_id ON public.notification_deliveries(incident_id);
+CREATE INDEX idx_notification_deliveries_retry ON public.notification_deliveries(next_retry_at)
+  WHERE status = 'failed' AND next_retry_at IS NOT NULL;
+
+-- Stream status changes to the dashboard as retries land
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notification_deliveries;
+
+-- Run the retry worker every minute. Expects `project_url` and `service_role_key`
+-- to be stored in Supabase Vault.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'retry-notification-deliveries',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/retry-notification-deliveries',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
+
+-- Optional duress PIN: accepted wherever the safety PIN is, but silently raises an alarm
+ALTER TABLE public.user_safety_pins
+  ADD COLUMN duress_pin_hash TEXT;
+
+-- Set or replace the caller's duress PIN. It must differ from the safety PIN.
+CREATE OR REPLACE FUNCTION public.set_duress_pin(p_pin TEXT)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_pin_hash TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_pin !~ '^[0-9]{4,6}$' THEN
+    RAISE EXCEPTION 'PIN must be 4 to 6 digits';
+  END IF;
+
+  SELECT pin_hash INTO v_pin_hash FROM public.user_safety_pins WHERE user_id = auth.uid();
+
+  IF v_pin_hash IS NULL THEN
+    RAISE EXCEPTION 'Set a safety PIN first';
+  END IF;
+
+  IF v_pin_hash = crypt(p_pin, v_pin_hash) THEN
+    RAISE EXCEPTION 'Duress PIN must be different from your safety PIN';
+  END IF;
+
+  UPDATE public.user_safety_pins
+  SET duress_pin_hash = crypt(p_pin, gen_salt('bf'))
+  WHERE user_id = auth.uid();
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.has_duress_pin()
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.user_safety_pins
+    WHERE user_id = auth.uid() AND duress_pin_hash IS NOT NULL
+  );
+$$;
+
+-- Classify a PIN as 'valid', 'duress' or 'invalid'. Service role only.
+CREATE OR REPLACE FUNCTION public.check_safety_pin(p_user_id UUID, p_pin TEXT)
+RETURNS TEXT
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+  SELECT COALESCE((
+    SELECT CASE
+      WHEN pin_hash = crypt(p_pin, pin_hash) THEN 'valid'
+      WHEN duress_pin_hash IS NOT NULL AND duress_pin_hash = crypt(p_pin, duress_pin_hash) THEN 'duress'
+      ELSE 'invalid'
+    END
+    FROM public.user_safety_pins
+    WHERE user_id = p_user_id
+  ), 'invalid');
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_duress_pin(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.has_duress_pin() TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.check_safety_pin(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.check_safety_pin(UUID, TEXT) TO service_role;
+
+-- Create timed check-in sessions ("walk me home")
+CREATE TABLE public.safety_checkins (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  destination_name TEXT NOT NULL,
+  destination_latitude DECIMAL(10, 8),
+  destination_longitude DECIMAL(11, 8),
+  deadline_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'checked_in', 'expired', 'duress')),
+  -- Sampled positions along the way: [{ "latitude", "longitude", "recorded_at" }]
+  route JSONB NOT NULL DEFAULT '[]'::jsonb,
+  last_latitude DECIMAL(10, 8),
+  last_longitude DECIMAL(11, 8),
+  last_seen_at TIMESTAMP WITH TIME ZONE,
+  incident_id UUID REFERENCES public.sos_incidents(id) ON DELETE SET NULL,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.safety_checkins ENABLE ROW LEVEL SECURITY;
+
+-- Check-ins are completed by Edge Functions so the PIN is always verified
+CREATE POLICY "Users can view their own safety check-ins" 
+ON public.safety_checkins 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can start their own safety check-ins" 
+ON public.safety_checkins 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id AND status = 'active');
+
+CREATE POLICY "Users can update progress on their active safety check-ins" 
+ON public.safety_checkins 
+FOR UPDATE 
+USING (auth.uid() = user_id AND status = 'active')
+WITH CHECK (auth.uid() = user_id AND status = 'active');
+
+CREATE TRIGGER update_safety_checkins_updated_at
+BEFORE UPDATE ON public.safety_checkins
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Only one running timer per user
+CREATE UNIQUE INDEX idx_safety_checkins_one_active ON public.safety_checkins(user_id) WHERE status = 'active';
+CREATE INDEX idx_safety_checkins_deadline ON public.safety_checkins(deadline_at) WHERE status = 'active';
+
+-- Let the app notice when the expiry job closes a timer
+ALTER PUBLICATION supabase_realtime ADD TABLE public.safety_checkins;
+
+-- Raise SOS for overdue check-ins every minute, even if the app is closed.
+-- Uses the same Vault secrets as the delivery retry job.
+SELECT cron.schedule(
+  'expire-safety-checkins',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/expire-safety-checkins',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
+
+-- Incidents raised with the duress PIN. Contacts see them highlighted; the app
+-- itself keeps them off screen so whoever forced the cancel doesn't notice.
+ALTER TABLE public.sos_incidents
+  ADD COLUMN is_duress BOOLEAN NOT NULL DEFAULT false;
+
+-- Expose the flag on the public tracking page
+DROP FUNCTION public.get_tracked_incident(TEXT);
+
+CREATE OR REPLACE FUNCTION public.get_tracked_incident(p_token TEXT)
+RETURNS TABLE (
+  id UUID,
+  status TEXT,
+  display_name TEXT,
+  latitude DECIMAL,
+  longitude DECIMAL,
+  created_at TIMESTAMP WITH TIME ZONE,
+  last_seen_at TIMESTAMP WITH TIME ZONE,
+  is_duress BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    i.id,
+    i.status,
+    NULLIF(trim(concat_ws(' ', p.first_name, p.last_name)), ''),
+    i.latitude,
+    i.longitude,
+    i.created_at,
+    COALESCE((SELECT max(lp.recorded_at) FROM public.sos_location_points lp WHERE lp.incident_id = i.id), i.created_at),
+    i.is_duress
+  FROM public.sos_incidents i
+  LEFT JOIN public.profiles p ON p.user_id = i.user_id
+  WHERE i.tracking_token = p_token
+    AND (i.tracking_expires_at IS NULL OR i.tracking_expires_at > now());
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_tracked_incident(TEXT) TO anon, authenticated;
+
+-- Per-user SOS trigger preferences, honoured by the app and the Edge Functions
+CREATE TABLE public.user_settings (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  sos_countdown_seconds INTEGER NOT NULL DEFAULT 3 CHECK (sos_countdown_seconds BETWEEN 0 AND 30),
+  default_sos_message TEXT NOT NULL DEFAULT 'Emergency SOS activated! I need immediate help.'
+    CHECK (char_length(default_sos_message) BETWEEN 1 AND 500),
+  -- NULL means every emergency contact
+  sos_contact_ids UUID[],
+  media_contact_ids UUID[],
+  auto_record_audio BOOLEAN NOT NULL DEFAULT false,
+  include_battery_level BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.user_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own settings"
+ON public.user_settings
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own settings"
+ON public.user_settings
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own settings"
+ON public.user_settings
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_user_settings_updated_at
+BEFORE UPDATE ON public.user_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Automatic SOS evidence capture can record the microphone or the front camera
+ALTER TABLE public.user_settings
+  ADD COLUMN auto_capture_type TEXT NOT NULL DEFAULT 'audio' CHECK (auto_capture_type IN ('audio', 'video'));
+
+-- Emergency recordings are private: only their owner can read or write them, and
+-- contacts get time-limited signed URLs from the Edge Functions instead
+UPDATE storage.buckets SET public = false WHERE id = 'emergency-media';
+
+DROP POLICY IF EXISTS "Allow public select from emergency-media" ON storage.objects;
+DROP POLICY IF EXISTS "Allow authenticated insert to emergency-media" ON storage.objects;
+DROP POLICY IF EXISTS "Allow authenticated update to emergency-media" ON storage.objects;
+DROP POLICY IF EXISTS "Allow authenticated delete from emergency-media" ON storage.objects;
+DROP POLICY IF EXISTS "Allow public insert to emergency-media" ON storage.objects;
+DROP POLICY IF EXISTS "Allow public update to emergency-media" ON storage.objects;
+DROP POLICY IF EXISTS "Allow public delete from emergency-media" ON storage.objects;
+
+-- Objects live under `${user_id}/emergency_media/...`
+CREATE POLICY "Users can read their own emergency media"
+ON storage.objects FOR SELECT
+TO authenticated
+USING (
+  bucket_id = 'emergency-media'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+  AND (storage.foldername(name))[2] = 'emergency_media'
+);
+
+CREATE POLICY "Users can upload their own emergency media"
+ON storage.objects FOR INSERT
+TO authenticated
+WITH CHECK (
+  bucket_id = 'emergency-media'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+  AND (storage.foldername(name))[2] = 'emergency_media'
+);
+
+CREATE POLICY "Users can update their own emergency media"
+ON storage.objects FOR UPDATE
+TO authenticated
+USING (
+  bucket_id = 'emergency-media'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+  AND (storage.foldername(name))[2] = 'emergency_media'
+)
+WITH CHECK (
+  bucket_id = 'emergency-media'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+  AND (storage.foldername(name))[2] = 'emergency_media'
+);
+
+CREATE POLICY "Users can delete their own emergency media"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'emergency-media'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+  AND (storage.foldername(name))[2] = 'emergency_media'
+);
+
+-- Incident media now points at the object; links are signed when they are handed out
+ALTER TABLE public.sos_incident_media
+  ADD COLUMN storage_path TEXT,
+  ALTER COLUMN media_url DROP NOT NULL;
+
+-- Public URLs stopped working with the bucket, but they still carry the object path
+UPDATE public.sos_incident_media
+SET storage_path = substring(media_url FROM '/storage/v1/object/public/emergency-media/(.+)$'),
+    media_url = NULL
+WHERE storage_path IS NULL
+  AND media_url LIKE '%/storage/v1/object/public/emergency-media/%';
+
+ALTER TABLE public.sos_incident_media
+  ADD CONSTRAINT sos_incident_media_source_check CHECK (storage_path IS NOT NULL OR media_url IS NOT NULL);
+
+-- Users may only attach objects from their own prefix, since contacts get signed links to them
+DROP POLICY IF EXISTS "Users can add media to their own SOS incidents" ON public.sos_incident_media;
+
+CREATE POLICY "Users can add media to their own SOS incidents"
+ON public.sos_incident_media
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND (storage_path IS NULL OR storage_path LIKE auth.uid()::text || '/emergency_media/%')
+);
+
+CREATE OR REPLACE FUNCTION public.log_sos_incident_media_event()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.incident_events (incident_id, user_id, event_type, details)
+  VALUES (
+    NEW.incident_id,
+    NEW.user_id,
+    'media_uploaded',
+    jsonb_build_object('storage_path', NEW.storage_path, 'media_url', NEW.media_url, 'media_type', NEW.media_type)
+  );
+  RETURN NEW;
+END;
+$$;
+
+-- The tracking page lists media by id and asks `sign-tracked-media` for playable links
+DROP FUNCTION IF EXISTS public.get_tracked_incident_media(TEXT);
+
+CREATE OR REPLACE FUNCTION public.get_tracked_incident_media(p_token TEXT)
+RETURNS TABLE (
+  id UUID,
+  storage_path TEXT,
+  media_url TEXT,
+  media_type TEXT,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT m.id, m.storage_path, m.media_url, m.media_type, m.created_at
+  FROM public.sos_incident_media m
+  JOIN public.sos_incidents i ON i.id = m.incident_id
+  WHERE i.tracking_token = p_token
+    AND (i.tracking_expires_at IS NULL OR i.tracking_expires_at > now())
+  ORDER BY m.created_at DESC;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_tracked_incident_media(TEXT) TO anon, authenticated;
+
+-- Tamper-evident record of every emergency recording: what was captured, when,
+-- where and on which device, plus its SHA-256 so later copies can be verified
+CREATE TABLE public.media_evidence (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  incident_id UUID REFERENCES public.sos_incidents(id) ON DELETE SET NULL,
+  storage_path TEXT NOT NULL UNIQUE,
+  media_type TEXT NOT NULL CHECK (media_type IN ('audio', 'video')),
+  sha256 TEXT NOT NULL CHECK (sha256 ~ '^[0-9a-f]{64}$'),
+  size_bytes BIGINT NOT NULL CHECK (size_bytes >= 0),
+  captured_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  device_info JSONB NOT NULL DEFAULT '{}'::jsonb,
+  latitude DECIMAL(10, 8),
+  longitude DECIMAL(11, 8),
+  accuracy DOUBLE PRECISION,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.media_evidence ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own media evidence"
+ON public.media_evidence
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can register their own media evidence"
+ON public.media_evidence
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND storage_path LIKE auth.uid()::text || '/emergency_media/%'
+);
+
+-- Evidence is locked while its incident is still open
+CREATE POLICY "Users can delete their own unlocked media evidence"
+ON public.media_evidence
+FOR DELETE
+USING (
+  auth.uid() = user_id
+  AND NOT EXISTS (
+    SELECT 1 FROM public.sos_incidents i
+    WHERE i.id = media_evidence.incident_id AND i.status = 'active'
+  )
+);
+
+-- Users may attach unassigned evidence to one of their own incidents; nothing else changes
+CREATE POLICY "Users can attach their own media evidence to an incident"
+ON public.media_evidence
+FOR UPDATE
+USING (auth.uid() = user_id AND incident_id IS NULL)
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.sos_incidents i
+    WHERE i.id = media_evidence.incident_id AND i.user_id = auth.uid()
+  )
+);
+
+CREATE INDEX idx_media_evidence_user_id ON public.media_evidence(user_id, captured_at DESC);
+CREATE INDEX idx_media_evidence_incident_id ON public.media_evidence(incident_id);
+
+-- Rows are immutable apart from being attached to an incident once (service role included)
+CREATE OR REPLACE FUNCTION public.protect_media_evidence()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.incident_id IS NOT NULL
+    OR NEW.incident_id IS NULL
+    OR NEW.id <> OLD.id
+    OR NEW.user_id <> OLD.user_id
+    OR NEW.storage_path <> OLD.storage_path
+    OR NEW.media_type <> OLD.media_type
+    OR NEW.sha256 <> OLD.sha256
+    OR NEW.size_bytes <> OLD.size_bytes
+    OR NEW.captured_at <> OLD.captured_at
+    OR NEW.device_info <> OLD.device_info
+    OR NEW.latitude IS DISTINCT FROM OLD.latitude
+    OR NEW.longitude IS DISTINCT FROM OLD.longitude
+    OR NEW.accuracy IS DISTINCT FROM OLD.accuracy
+    OR NEW.created_at <> OLD.created_at THEN
+    RAISE EXCEPTION 'Media evidence is immutable';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_media_evidence
+BEFORE UPDATE ON public.media_evidence
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_media_evidence();
+
+-- Append-only chain of custody. It has no foreign keys, so the history outlives
+-- deletion of the evidence (and a cascade can never be blocked by the append-only trigger).
+CREATE TABLE public.media_evidence_access_log (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  evidence_id UUID NOT NULL,
+  user_id UUID NOT NULL,
+  storage_path TEXT NOT NULL,
+  sha256 TEXT NOT NULL,
+  actor TEXT NOT NULL CHECK (actor IN ('owner', 'contact', 'system')),
+  action TEXT NOT NULL CHECK (action IN ('captured', 'attached', 'viewed', 'link_signed', 'exported', 'deleted')),
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.media_evidence_access_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own evidence access log"
+ON public.media_evidence_access_log
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Owners can only record their own views and exports; the rest comes from triggers and Edge Functions
+CREATE POLICY "Users can log access to their own media evidence"
+ON public.media_evidence_access_log
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND actor = 'owner'
+  AND action IN ('viewed', 'exported')
+  AND EXISTS (
+    SELECT 1 FROM public.media_evidence e
+    WHERE e.id = evidence_id AND e.user_id = auth.uid()
+  )
+);
+
+CREATE INDEX idx_media_evidence_access_log_evidence_id ON public.media_evidence_access_log(evidence_id, created_at);
+
+CREATE OR REPLACE FUNCTION public.prevent_evidence_log_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  RAISE EXCEPTION 'The evidence access log is append-only';
+END;
+$$;
+
+CREATE TRIGGER prevent_evidence_log_changes
+BEFORE UPDATE OR DELETE ON public.media_evidence_access_log
+FOR EACH ROW
+EXECUTE FUNCTION public.prevent_evidence_log_changes();
+
+-- Record capture, attachment and deletion in the chain of custody
+CREATE OR REPLACE FUNCTION public.log_media_evidence_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_row public.media_evidence;
+BEGIN
+  v_row := CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+
+  INSERT INTO public.media_evidence_access_log (evidence_id, user_id, storage_path, sha256, actor, action, details)
+  VALUES (
+    v_row.id,
+    v_row.user_id,
+    v_row.storage_path,
+    v_row.sha256,
+    CASE WHEN auth.uid() = v_row.user_id THEN 'owner' ELSE 'system' END,
+    CASE TG_OP WHEN 'INSERT' THEN 'captured' WHEN 'UPDATE' THEN 'attached' ELSE 'deleted' END,
+    jsonb_build_object('incident_id', v_row.incident_id)
+  );
+
+  RETURN v_row;
+END;
+$$;
+
+CREATE TRIGGER log_media_evidence_changes
+AFTER INSERT OR UPDATE OR DELETE ON public.media_evidence
+FOR EACH ROW
+EXECUTE FUNCTION public.log_media_evidence_change();
+
+-- Locked evidence cannot be removed from storage, and registered evidence is never overwritten
+DROP POLICY IF EXISTS "Users can update their own emergency media" ON storage.objects;
+DROP POLICY IF EXISTS "Users can delete their own emergency media" ON storage.objects;
+
+CREATE POLICY "Users can update their own emergency media"
+ON storage.objects FOR UPDATE
+TO authenticated
+USING (
+  bucket_id = 'emergency-media'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+  AND (storage.foldername(name))[2] = 'emergency_media'
+  AND NOT EXISTS (SELECT 1 FROM public.media_evidence e WHERE e.storage_path = name)
+)
+WITH CHECK (
+  bucket_id = 'emergency-media'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+  AND (storage.foldername(name))[2] = 'emergency_media'
+);
+
+CREATE POLICY "Users can delete their own emergency media"
+ON storage.objects FOR DELETE
+TO authenticated
+USING (
+  bucket_id = 'emergency-media'
+  AND (storage.foldername(name))[1] = auth.uid()::text
+  AND (storage.foldername(name))[2] = 'emergency_media'
+  AND NOT EXISTS (
+    SELECT 1 FROM public.media_evidence e
+    JOIN public.sos_incidents i ON i.id = e.incident_id
+    WHERE e.storage_path = name AND i.status = 'active'
+  )
+);
+
+-- Trusted contacts can link a real account through an invite link. A linked
+-- contact (a guardian) can follow the live status, location and incidents of
+-- everyone who trusts them, and acknowledge their alerts.
+ALTER TABLE public.emergency_contacts
+  ADD COLUMN linked_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  ADD COLUMN linked_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN invite_token TEXT NOT NULL UNIQUE DEFAULT encode(extensions.gen_random_bytes(16), 'hex');
+
+CREATE INDEX idx_emergency_contacts_linked_user_id ON public.emergency_contacts(linked_user_id);
+
+-- Only the invited person can link themselves (through accept_contact_invite); owners can only unlink.
+-- Unlinking rotates the invite token so an old link cannot be reused.
+CREATE OR REPLACE FUNCTION public.protect_emergency_contact_link()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public, extensions
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.linked_user_id := NULL;
+    NEW.linked_at := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.linked_user_id IS DISTINCT FROM OLD.linked_user_id THEN
+    IF NEW.linked_user_id IS NOT NULL
+      AND (NEW.linked_user_id IS DISTINCT FROM auth.uid() OR NEW.linked_user_id = NEW.user_id) THEN
+      RAISE EXCEPTION 'Contacts can only link their own account';
+    END IF;
+
+    IF NEW.linked_user_id IS NULL THEN
+      NEW.linked_at := NULL;
+      NEW.invite_token := encode(gen_random_bytes(16), 'hex');
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_emergency_contact_link
+BEFORE INSERT OR UPDATE ON public.emergency_contacts
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_emergency_contact_link();
+
+-- SECURITY DEFINER so policies on other tables can check it without recursing into emergency_contacts RLS
+CREATE OR REPLACE FUNCTION public.is_guardian_of(p_user_id UUID)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.emergency_contacts
+    WHERE user_id = p_user_id AND linked_user_id = auth.uid()
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_guardian_of(UUID) TO authenticated;
+
+-- Links the signed-in account to the contact entry behind an invite link
+CREATE OR REPLACE FUNCTION public.accept_contact_invite(p_token TEXT)
+RETURNS TABLE (
+  contact_id UUID,
+  owner_name TEXT
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_contact public.emergency_contacts;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_contact
+  FROM public.emergency_contacts
+  WHERE invite_token = p_token
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This invite link is invalid or has been revoked';
+  END IF;
+
+  IF v_contact.user_id = auth.uid() THEN
+    RAISE EXCEPTION 'You cannot be your own trusted contact';
+  END IF;
+
+  IF v_contact.linked_user_id IS NOT NULL AND v_contact.linked_user_id <> auth.uid() THEN
+    RAISE EXCEPTION 'This invite has already been accepted by another account';
+  END IF;
+
+  UPDATE public.emergency_contacts
+  SET linked_user_id = auth.uid(),
+      linked_at = COALESCE(linked_at, now())
+  WHERE id = v_contact.id;
+
+  RETURN QUERY
+  SELECT v_contact.id,
+         COALESCE(NULLIF(trim(concat_ws(' ', p.first_name, p.last_name)), ''), 'Someone')
+  FROM (SELECT 1) AS one
+  LEFT JOIN public.profiles p ON p.user_id = v_contact.user_id;
+END;
+$$;
+
+-- Lets a guardian stop following someone; the owner can also just clear linked_user_id
+CREATE OR REPLACE FUNCTION public.leave_guardianship(p_contact_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.emergency_contacts
+  SET linked_user_id = NULL
+  WHERE id = p_contact_id AND linked_user_id = auth.uid();
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.accept_contact_invite(TEXT) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.leave_guardianship(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.accept_contact_invite(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.leave_guardianship(UUID) TO authenticated;
+
+-- Guardians see how they are listed, and the status, trail and timeline of the people they watch over
+CREATE POLICY "Guardians can view the contact entries linked to them"
+ON public.emergency_contacts
+FOR SELECT
+USING (auth.uid() = linked_user_id);
+
+CREATE POLICY "Guardians can view profiles of people they watch over"
+ON public.profiles
+FOR SELECT
+USING (public.is_guardian_of(user_id));
+
+CREATE POLICY "Guardians can view SOS incidents of people they watch over"
+ON public.sos_incidents
+FOR SELECT
+USING (public.is_guardian_of(user_id));
+
+CREATE POLICY "Guardians can view SOS location points of people they watch over"
+ON public.sos_location_points
+FOR SELECT
+USING (public.is_guardian_of(user_id));
+
+CREATE POLICY "Guardians can view incident events of people they watch over"
+ON public.incident_events
+FOR SELECT
+USING (public.is_guardian_of(user_id));
+
+-- Acknowledgements tell the person in trouble that someone has seen the alert
+CREATE TABLE public.incident_acknowledgements (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  incident_id UUID NOT NULL REFERENCES public.sos_incidents(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  contact_id UUID REFERENCES public.emergency_contacts(id) ON DELETE SET NULL,
+  acknowledged_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  contact_name TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (incident_id, contact_id)
+);
+
+ALTER TABLE public.incident_acknowledgements ENABLE ROW LEVEL SECURITY;
+
+-- Written by acknowledge_incident only
+CREATE POLICY "Users and their guardians can view incident acknowledgements"
+ON public.incident_acknowledgements
+FOR SELECT
+USING (auth.uid() = user_id OR public.is_guardian_of(user_id));
+
+CREATE INDEX idx_incident_acknowledgements_incident_id ON public.incident_acknowledgements(incident_id);
+
+ALTER TABLE public.incident_events DROP CONSTRAINT incident_events_event_type_check;
+ALTER TABLE public.incident_events ADD CONSTRAINT incident_events_event_type_check CHECK (event_type IN (
+  'triggered',
+  'notification_sent',
+  'notification_failed',
+  'media_uploaded',
+  'location_point',
+  'resolved',
+  'false_alarm',
+  'acknowledged'
+));
+
+CREATE OR REPLACE FUNCTION public.acknowledge_incident(p_incident_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_incident public.sos_incidents;
+  v_contact public.emergency_contacts;
+BEGIN
+  SELECT * INTO v_incident FROM public.sos_incidents WHERE id = p_incident_id;
+
+  IF NOT FOUND OR v_incident.status <> 'active' THEN
+    RAISE EXCEPTION 'This incident is no longer active';
+  END IF;
+
+  SELECT * INTO v_contact
+  FROM public.emergency_contacts
+  WHERE user_id = v_incident.user_id AND linked_user_id = auth.uid()
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You are not a trusted contact for this incident';
+  END IF;
+
+  INSERT INTO public.incident_acknowledgements (incident_id, user_id, contact_id, acknowledged_by, contact_name)
+  VALUES (v_incident.id, v_incident.user_id, v_contact.id, auth.uid(), v_contact.name)
+  ON CONFLICT (incident_id, contact_id) DO NOTHING;
+
+  IF FOUND THEN
+    INSERT INTO public.incident_events (incident_id, user_id, event_type, details)
+    VALUES (
+      v_incident.id,
+      v_incident.user_id,
+      'acknowledged',
+      jsonb_build_object('contact_name', v_contact.name, 'contact_id', v_contact.id, 'channel', 'app')
+    );
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.acknowledge_incident(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.acknowledge_incident(UUID) TO authenticated;
+
+-- Guardians get status, location and acknowledgement changes live; Realtime applies the policies above
+ALTER PUBLICATION supabase_realtime ADD TABLE public.incident_acknowledgements;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.incident_events;
+
+-- Every SOS notification carries a per-contact "I'm responding" link. If nobody
+-- acknowledges within the user's escalation window, the alert escalates:
+--   1. notify the contacts that were not alerted yet (secondary contacts)
+--   2. re-send to everyone with the updated location
+--   3. prompt the user in the app to dial 112/100 themselves
+ALTER TABLE public.user_settings
+  ADD COLUMN escalation_minutes INTEGER NOT NULL DEFAULT 5 CHECK (escalation_minutes BETWEEN 1 AND 60);
+
+ALTER TABLE public.sos_incidents
+  ADD COLUMN escalation_level SMALLINT NOT NULL DEFAULT 0 CHECK (escalation_level BETWEEN 0 AND 3),
+  ADD COLUMN escalated_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_sos_incidents_escalation ON public.sos_incidents(created_at)
+WHERE status = 'active' AND escalation_level < 3;
+
+-- One acknowledgement link per contact per incident; only Edge Functions create them
+CREATE TABLE public.incident_ack_tokens (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  incident_id UUID NOT NULL REFERENCES public.sos_incidents(id) ON DELETE CASCADE,
+  contact_id UUID NOT NULL REFERENCES public.emergency_contacts(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE DEFAULT encode(extensions.gen_random_bytes(24), 'hex'),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (incident_id, contact_id)
+);
+
+ALTER TABLE public.incident_ack_tokens ENABLE ROW LEVEL SECURITY;
+
+-- Acknowledgements now come from the app (guardians) or from the link in a notification
+ALTER TABLE public.incident_acknowledgements
+  ADD COLUMN channel TEXT NOT NULL DEFAULT 'app' CHECK (channel IN ('app', 'link'));
+
+ALTER TABLE public.incident_events DROP CONSTRAINT incident_events_event_type_check;
+ALTER TABLE public.incident_events ADD CONSTRAINT incident_events_event_type_check CHECK (event_type IN (
+  'triggered',
+  'notification_sent',
+  'notification_failed',
+  'media_uploaded',
+  'location_point',
+  'resolved',
+  'false_alarm',
+  'acknowledged',
+  'escalated'
+));
+
+-- Called anonymously from the acknowledgement page; the token is the only credential
+CREATE OR REPLACE FUNCTION public.acknowledge_alert(p_token TEXT)
+RETURNS TABLE (
+  display_name TEXT,
+  contact_name TEXT,
+  status TEXT,
+  tracking_token TEXT,
+  acknowledged_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_link public.incident_ack_tokens;
+  v_incident public.sos_incidents;
+  v_contact public.emergency_contacts;
+BEGIN
+  SELECT * INTO v_link FROM public.incident_ack_tokens WHERE token = p_token;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_incident FROM public.sos_incidents WHERE id = v_link.incident_id;
+  SELECT * INTO v_contact FROM public.emergency_contacts WHERE id = v_link.contact_id;
+
+  -- Closed incidents are reported as such, without recording anything
+  IF v_incident.status = 'active' THEN
+    INSERT INTO public.incident_acknowledgements (incident_id, user_id, contact_id, contact_name, channel)
+    VALUES (v_incident.id, v_incident.user_id, v_contact.id, v_contact.name, 'link')
+    ON CONFLICT (incident_id, contact_id) DO NOTHING;
+
+    IF FOUND THEN
+      INSERT INTO public.incident_events (incident_id, user_id, event_type, details)
+      VALUES (
+        v_incident.id,
+        v_incident.user_id,
+        'acknowledged',
+        jsonb_build_object('contact_name', v_contact.name, 'contact_id', v_contact.id, 'channel', 'link')
+      );
+    END IF;
+  END IF;
+
+  RETURN QUERY
+  SELECT NULLIF(trim(concat_ws(' ', p.first_name, p.last_name)), ''),
+         v_contact.name,
+         v_incident.status,
+         CASE WHEN v_incident.status = 'active' THEN v_incident.tracking_token END,
+         a.created_at
+  FROM (SELECT 1) AS one
+  LEFT JOIN public.profiles p ON p.user_id = v_incident.user_id
+  LEFT JOIN public.incident_acknowledgements a
+    ON a.incident_id = v_incident.id AND a.contact_id = v_contact.id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.acknowledge_alert(TEXT) TO anon, authenticated;
+
+-- Step the escalation ladder every minute, even if the app is closed.
+-- Uses the same Vault secrets as the delivery retry job.
+SELECT cron.schedule(
+  'escalate-sos-incidents',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/escalate-sos-incidents',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
+
+-- New contacts are asked to confirm they agree to be an emergency responder.
+-- The consent link goes to the phone number and email as entered, so a
+-- mistyped number shows up as a contact that never gets verified.
+ALTER TABLE public.emergency_contacts
+  ADD COLUMN verification_status TEXT NOT NULL DEFAULT 'pending' CHECK (verification_status IN ('pending', 'verified', 'declined')),
+  ADD COLUMN verification_token TEXT NOT NULL UNIQUE DEFAULT encode(extensions.gen_random_bytes(16), 'hex'),
+  ADD COLUMN verification_sent_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN verification_responded_at TIMESTAMP WITH TIME ZONE;
+
+-- Only the contact (through respond_to_contact_verification) decides the status. Changing
+-- the phone or email asks again with a new link; linking a Guardian account counts as consent.
+CREATE OR REPLACE FUNCTION public.protect_emergency_contact_verification()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public, extensions
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.verification_status := 'pending';
+    NEW.verification_sent_at := NULL;
+    NEW.verification_responded_at := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF current_user IN ('authenticated', 'anon') THEN
+    NEW.verification_status := OLD.verification_status;
+    NEW.verification_token := OLD.verification_token;
+    NEW.verification_responded_at := OLD.verification_responded_at;
+  END IF;
+
+  IF NEW.phone IS DISTINCT FROM OLD.phone OR NEW.email IS DISTINCT FROM OLD.email THEN
+    NEW.verification_status := 'pending';
+    NEW.verification_token := encode(gen_random_bytes(16), 'hex');
+    NEW.verification_sent_at := NULL;
+    NEW.verification_responded_at := NULL;
+  END IF;
+
+  IF NEW.linked_user_id IS NOT NULL AND OLD.linked_user_id IS NULL THEN
+    NEW.verification_status := 'verified';
+    NEW.verification_responded_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_emergency_contact_verification
+BEFORE INSERT OR UPDATE ON public.emergency_contacts
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_emergency_contact_verification();
+
+-- Public consent page: who is asking, and what the contact answered so far
+CREATE OR REPLACE FUNCTION public.get_contact_verification(p_token TEXT)
+RETURNS TABLE (
+  contact_name TEXT,
+  owner_name TEXT,
+  verification_status TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT c.name,
+         COALESCE(NULLIF(trim(concat_ws(' ', p.first_name, p.last_name)), ''), 'Someone'),
+         c.verification_status
+  FROM public.emergency_contacts c
+  LEFT JOIN public.profiles p ON p.user_id = c.user_id
+  WHERE c.verification_token = p_token;
+$$;
+
+CREATE OR REPLACE FUNCTION public.respond_to_contact_verification(p_token TEXT, p_accept BOOLEAN)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_status TEXT;
+BEGIN
+  UPDATE public.emergency_contacts
+  SET verification_status = CASE WHEN p_accept THEN 'verified' ELSE 'declined' END,
+      verification_responded_at = now()
+  WHERE verification_token = p_token
+  RETURNING verification_status INTO v_status;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This confirmation link is invalid or has expired';
+  END IF;
+
+  RETURN v_status;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_contact_verification(TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.respond_to_contact_verification(TEXT, BOOLEAN) TO anon, authenticated;
+
+-- Consent requests are logged and retried like any other message
+ALTER TABLE public.notification_deliveries DROP CONSTRAINT notification_deliveries_source_check;
+ALTER TABLE public.notification_deliveries ADD CONSTRAINT notification_deliveries_source_check
+  CHECK (source IN ('sos_alert', 'all_clear', 'broadcast', 'individual', 'verification'));
+
+-- Named groups for the trusted circle (family, friends, colleagues, hostel warden...).
+-- A group's tier sets the escalation order: tier 1 gets the SOS straight away,
+-- tiers 2 and 3 only when nobody earlier has acknowledged it.
+CREATE TABLE public.contact_groups (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(trim(name)) BETWEEN 1 AND 50),
+  tier SMALLINT NOT NULL DEFAULT 1 CHECK (tier BETWEEN 1 AND 3),
+  -- Routing rules: whether the group is part of SOS alerts and of "everyone" broadcasts
+  notify_on_sos BOOLEAN NOT NULL DEFAULT true,
+  include_in_broadcasts BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+
+ALTER TABLE public.contact_groups ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own contact groups"
+ON public.contact_groups
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own contact groups"
+ON public.contact_groups
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own contact groups"
+ON public.contact_groups
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own contact groups"
+ON public.contact_groups
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_contact_groups_updated_at
+BEFORE UPDATE ON public.contact_groups
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Ungrouped contacts behave like tier 1 and receive everything, as before
+ALTER TABLE public.emergency_contacts
+  ADD COLUMN group_id UUID REFERENCES public.contact_groups(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_emergency_contacts_group_id ON public.emergency_contacts(group_id);
+
+-- The circle used to be capped at 7 in the app only; groups make a larger circle
+-- manageable, so the cap is raised and enforced here
+CREATE OR REPLACE FUNCTION public.check_emergency_contact_group()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT'
+    AND (SELECT count(*) FROM public.emergency_contacts WHERE user_id = NEW.user_id) >= 50 THEN
+    RAISE EXCEPTION 'You can add at most 50 emergency contacts';
+  END IF;
+
+  IF NEW.group_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.contact_groups WHERE id = NEW.group_id AND user_id = NEW.user_id
+  ) THEN
+    RAISE EXCEPTION 'Contact group not found';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_emergency_contact_group
+BEFORE INSERT OR UPDATE OF group_id ON public.emergency_contacts
+FOR EACH ROW
+EXECUTE FUNCTION public.check_emergency_contact_group();
+
+-- Two-way conversations with trusted contacts: one thread per contact. Outbound
+-- messages are written by the send Edge Functions; replies come back in the app
+-- (contacts with a linked account) or through the receive-message-reply webhook
+-- (email and SMS).
+CREATE TABLE public.message_threads (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  contact_id UUID NOT NULL UNIQUE REFERENCES public.emergency_contacts(id) ON DELETE CASCADE,
+  -- Routes email replies: outbound emails use reply+<token>@<INBOUND_EMAIL_DOMAIN> as Reply-To
+  reply_token TEXT NOT NULL UNIQUE DEFAULT encode(extensions.gen_random_bytes(16), 'hex'),
+  last_message_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.messages (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  thread_id UUID NOT NULL REFERENCES public.message_threads(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  contact_id UUID NOT NULL REFERENCES public.emergency_contacts(id) ON DELETE CASCADE,
+  -- outbound: from the user to the contact; inbound: a reply from the contact
+  direction TEXT NOT NULL CHECK (direction IN ('outbound', 'inbound')),
+  -- Where the message was written: in the app, or as an email/SMS reply
+  channel TEXT NOT NULL DEFAULT 'app' CHECK (channel IN ('app', 'email', 'sms')),
+  body TEXT NOT NULL CHECK (char_length(trim(body)) BETWEEN 1 AND 5000),
+  is_broadcast BOOLEAN NOT NULL DEFAULT false,
+  sender_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  -- Provider message id of an email/SMS reply, so webhook retries are not stored twice
+  external_id TEXT,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.message_threads ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.messages ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_message_threads_user_id ON public.message_threads(user_id, last_message_at DESC);
+CREATE INDEX idx_messages_thread_id ON public.messages(thread_id, created_at);
+CREATE UNIQUE INDEX idx_messages_external_id ON public.messages(channel, external_id)
+  WHERE external_id IS NOT NULL;
+
+-- SECURITY DEFINER so policies can check the link without recursing into emergency_contacts RLS
+CREATE OR REPLACE FUNCTION public.is_linked_contact(p_contact_id UUID)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.emergency_contacts
+    WHERE id = p_contact_id AND linked_user_id = auth.uid()
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_linked_contact(UUID) TO authenticated;
+
+-- Files every message under its contact's thread (creating it on first use) and
+-- takes the owner from the contact, so callers only need to set contact_id
+CREATE OR REPLACE FUNCTION public.assign_message_thread()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  SELECT user_id INTO NEW.user_id
+  FROM public.emergency_contacts
+  WHERE id = NEW.contact_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Contact not found';
+  END IF;
+
+  NEW.read_at := NULL;
+
+  INSERT INTO public.message_threads (user_id, contact_id, last_message_at)
+  VALUES (NEW.user_id, NEW.contact_id, NEW.created_at)
+  ON CONFLICT (contact_id) DO UPDATE SET last_message_at = EXCLUDED.last_message_at
+  RETURNING id INTO NEW.thread_id;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER assign_message_thread
+BEFORE INSERT ON public.messages
+FOR EACH ROW
+EXECUTE FUNCTION public.assign_message_thread();
+
+CREATE POLICY "Users and their linked contacts can view message threads"
+ON public.message_threads
+FOR SELECT
+USING (auth.uid() = user_id OR public.is_linked_contact(contact_id));
+
+-- Outbound messages and email/SMS replies are written by Edge Functions only
+CREATE POLICY "Users and their linked contacts can view messages"
+ON public.messages
+FOR SELECT
+USING (auth.uid() = user_id OR public.is_linked_contact(contact_id));
+
+CREATE POLICY "Linked contacts can reply in the app"
+ON public.messages
+FOR INSERT
+WITH CHECK (
+  direction = 'inbound'
+  AND channel = 'app'
+  AND sender_id = auth.uid()
+  AND external_id IS NULL
+  AND public.is_linked_contact(contact_id)
+);
+
+-- Marks everything the other side sent in a thread as read: replies for the
+-- user, the user's messages for a linked contact
+CREATE OR REPLACE FUNCTION public.mark_thread_read(p_thread_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.messages m
+  SET read_at = now()
+  FROM public.message_threads t
+  WHERE t.id = p_thread_id
+    AND m.thread_id = t.id
+    AND m.read_at IS NULL
+    AND (
+      (t.user_id = auth.uid() AND m.direction = 'inbound')
+      OR (public.is_linked_contact(t.contact_id) AND m.direction = 'outbound')
+    );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.mark_thread_read(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.mark_thread_read(UUID) TO authenticated;
+
+-- New messages and read receipts reach both sides live; Realtime applies the policies above
+ALTER PUBLICATION supabase_realtime ADD TABLE public.messages;
+
+-- Saved subjects and messages for broadcasts and direct messages. Placeholders
+-- ({name}, {location_link}, {time}, {battery}) are filled in by the send Edge
+-- Functions for each recipient. Built-in templates live in the app, not here.
+CREATE TABLE public.message_templates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(trim(name)) BETWEEN 1 AND 50),
+  subject TEXT CHECK (char_length(subject) <= 150),
+  body TEXT NOT NULL CHECK (char_length(trim(body)) BETWEEN 1 AND 2000),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, name)
+);
+
+ALTER TABLE public.message_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own message templates"
+ON public.message_templates
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own message templates"
+ON public.message_templates
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own message templates"
+ON public.message_templates
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own message templates"
+ON public.message_templates
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_message_templates_updated_at
+BEFORE UPDATE ON public.message_templates
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Scheduled and recurring messages to the trusted circle ("leaving office now",
+-- every weekday at 9pm...). A cron job hands due messages to
+-- send-scheduled-messages, which sends them through send-broadcast-message.
+CREATE TABLE public.scheduled_messages (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  subject TEXT CHECK (char_length(subject) <= 150),
+  -- May use the message template placeholders
+  body TEXT NOT NULL CHECK (char_length(trim(body)) BETWEEN 1 AND 2000),
+  -- NULL sends to everyone in "everyone" broadcasts
+  group_id UUID REFERENCES public.contact_groups(id) ON DELETE SET NULL,
+  include_location BOOLEAN NOT NULL DEFAULT false,
+  recurrence TEXT NOT NULL DEFAULT 'once' CHECK (recurrence IN ('once', 'daily', 'weekdays', 'weekly')),
+  -- One-off messages use send_at; recurring ones send_time (+ days_of_week for weekly) in `timezone`
+  send_at TIMESTAMP WITH TIME ZONE,
+  send_time TIME,
+  days_of_week SMALLINT[] CHECK (days_of_week <@ ARRAY[0, 1, 2, 3, 4, 5, 6]::SMALLINT[]),
+  timezone TEXT NOT NULL DEFAULT 'Asia/Kolkata',
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  -- Maintained by set_scheduled_message_next_run() and claim_due_scheduled_messages()
+  next_run_at TIMESTAMP WITH TIME ZONE,
+  last_sent_at TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (recurrence <> 'once' OR send_at IS NOT NULL),
+  CHECK (recurrence = 'once' OR send_time IS NOT NULL),
+  CHECK (recurrence <> 'weekly' OR cardinality(days_of_week) > 0)
+);
+
+ALTER TABLE public.scheduled_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own scheduled messages"
+ON public.scheduled_messages
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own scheduled messages"
+ON public.scheduled_messages
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own scheduled messages"
+ON public.scheduled_messages
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own scheduled messages"
+ON public.scheduled_messages
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_scheduled_messages_updated_at
+BEFORE UPDATE ON public.scheduled_messages
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_scheduled_messages_due ON public.scheduled_messages(next_run_at)
+  WHERE enabled AND next_run_at IS NOT NULL;
+
+-- Next time a recurring schedule fires after p_after, in the schedule's own time zone
+CREATE OR REPLACE FUNCTION public.scheduled_message_next_run(
+  p_recurrence TEXT,
+  p_send_time TIME,
+  p_days_of_week SMALLINT[],
+  p_timezone TEXT,
+  p_after TIMESTAMP WITH TIME ZONE
+)
+RETURNS TIMESTAMP WITH TIME ZONE
+LANGUAGE plpgsql
+STABLE
+AS $$
+DECLARE
+  v_day DATE := (p_after AT TIME ZONE p_timezone)::date;
+  v_candidate TIMESTAMP WITH TIME ZONE;
+  v_dow INTEGER;
+BEGIN
+  FOR i IN 0..7 LOOP
+    v_candidate := ((v_day + i) + p_send_time) AT TIME ZONE p_timezone;
+    v_dow := extract(dow FROM v_day + i);
+
+    IF v_candidate > p_after AND (
+      p_recurrence = 'daily'
+      OR (p_recurrence = 'weekdays' AND v_dow BETWEEN 1 AND 5)
+      OR (p_recurrence = 'weekly' AND v_dow = ANY(p_days_of_week))
+    ) THEN
+      RETURN v_candidate;
+    END IF;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Keeps next_run_at in step with the schedule whenever it is created, edited or re-enabled
+CREATE OR REPLACE FUNCTION public.set_scheduled_message_next_run()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND NEW.recurrence IS NOT DISTINCT FROM OLD.recurrence
+    AND NEW.send_at IS NOT DISTINCT FROM OLD.send_at
+    AND NEW.send_time IS NOT DISTINCT FROM OLD.send_time
+    AND NEW.days_of_week IS NOT DISTINCT FROM OLD.days_of_week
+    AND NEW.timezone IS NOT DISTINCT FROM OLD.timezone
+    AND NEW.enabled IS NOT DISTINCT FROM OLD.enabled THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT NEW.enabled THEN
+    NEW.next_run_at := NULL;
+  ELSIF NEW.recurrence = 'once' THEN
+    IF NEW.send_at <= now() THEN
+      RAISE EXCEPTION 'Pick a time in the future';
+    END IF;
+    NEW.next_run_at := NEW.send_at;
+  ELSE
+    NEW.next_run_at := public.scheduled_message_next_run(
+      NEW.recurrence, NEW.send_time, NEW.days_of_week, NEW.timezone, now()
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_scheduled_message_next_run
+BEFORE INSERT OR UPDATE ON public.scheduled_messages
+FOR EACH ROW
+EXECUTE FUNCTION public.set_scheduled_message_next_run();
+
+-- Hands due messages to the cron worker exactly once: recurring ones move on to
+-- their next run, one-off ones are switched off
+CREATE OR REPLACE FUNCTION public.claim_due_scheduled_messages(p_limit INTEGER DEFAULT 50)
+RETURNS SETOF public.scheduled_messages
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  WITH due AS (
+    SELECT id
+    FROM public.scheduled_messages
+    WHERE enabled AND next_run_at <= now()
+    ORDER BY next_run_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  UPDATE public.scheduled_messages s
+  SET next_run_at = CASE
+        WHEN s.recurrence = 'once' THEN NULL
+        ELSE public.scheduled_message_next_run(s.recurrence, s.send_time, s.days_of_week, s.timezone, now())
+      END,
+      enabled = s.recurrence <> 'once'
+  FROM due
+  WHERE s.id = due.id
+  RETURNING s.*;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_due_scheduled_messages(INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- Where the user last was, reported by the app while it is open, so scheduled
+-- messages can include a recent location. Only kept for users who ask for it.
+CREATE TABLE public.user_last_locations (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  latitude DECIMAL(10, 8) NOT NULL,
+  longitude DECIMAL(11, 8) NOT NULL,
+  accuracy DOUBLE PRECISION,
+  recorded_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.user_last_locations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own last location"
+ON public.user_last_locations
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can store their own last location"
+ON public.user_last_locations
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own last location"
+ON public.user_last_locations
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own last location"
+ON public.user_last_locations
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Check for due messages every minute. Expects `project_url` and
+-- `service_role_key` to be stored in Supabase Vault.
+SELECT cron.schedule(
+  'send-scheduled-messages',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/send-scheduled-messages',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
+
+-- A PIN gate is only as strong as the PIN itself: replacing it must prove the
+-- current PIN, and repeated wrong guesses lock checks out for a while.
+ALTER TABLE public.user_safety_pins
+  ADD COLUMN failed_attempts INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN locked_until TIMESTAMP WITH TIME ZONE;
+
+-- Classify a PIN as 'valid', 'duress', 'invalid' or 'locked', counting wrong
+-- guesses. Five in a row lock the user's PIN checks for 15 minutes.
+CREATE OR REPLACE FUNCTION public.check_safety_pin(p_user_id UUID, p_pin TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_pins public.user_safety_pins%ROWTYPE;
+  v_result TEXT;
+BEGIN
+  SELECT * INTO v_pins FROM public.user_safety_pins WHERE user_id = p_user_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN 'invalid';
+  END IF;
+
+  IF v_pins.locked_until > now() THEN
+    RETURN 'locked';
+  END IF;
+
+  v_result := CASE
+    WHEN v_pins.pin_hash = crypt(p_pin, v_pins.pin_hash) THEN 'valid'
+    WHEN v_pins.duress_pin_hash IS NOT NULL AND v_pins.duress_pin_hash = crypt(p_pin, v_pins.duress_pin_hash) THEN 'duress'
+    ELSE 'invalid'
+  END;
+
+  IF v_result = 'invalid' THEN
+    UPDATE public.user_safety_pins
+    SET failed_attempts = CASE WHEN v_pins.failed_attempts + 1 >= 5 THEN 0 ELSE v_pins.failed_attempts + 1 END,
+        locked_until = CASE WHEN v_pins.failed_attempts + 1 >= 5 THEN now() + interval '15 minutes' ELSE NULL END
+    WHERE user_id = p_user_id;
+  ELSIF v_pins.failed_attempts > 0 OR v_pins.locked_until IS NOT NULL THEN
+    UPDATE public.user_safety_pins
+    SET failed_attempts = 0, locked_until = NULL
+    WHERE user_id = p_user_id;
+  END IF;
+
+  RETURN v_result;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.check_safety_pin(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.check_safety_pin(UUID, TEXT) TO service_role;
+
+-- Set the caller's first safety PIN, or replace it when p_current_pin is their
+-- current one. Returns 'saved', or the check_safety_pin() result that refused it.
+-- Refusals return instead of raising, so the failed guess still counts.
+DROP FUNCTION public.set_safety_pin(TEXT);
+
+CREATE OR REPLACE FUNCTION public.set_safety_pin(p_pin TEXT, p_current_pin TEXT DEFAULT NULL)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_check TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_pin !~ '^[0-9]{4,6}$' THEN
+    RAISE EXCEPTION 'PIN must be 4 to 6 digits';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.user_safety_pins WHERE user_id = auth.uid()) THEN
+    INSERT INTO public.user_safety_pins (user_id, pin_hash)
+    VALUES (auth.uid(), crypt(p_pin, gen_salt('bf')));
+    RETURN 'saved';
+  END IF;
+
+  v_check := public.check_safety_pin(auth.uid(), COALESCE(p_current_pin, ''));
+  IF v_check <> 'valid' THEN
+    -- A duress PIN must not reveal itself by being rejected differently
+    RETURN CASE WHEN v_check = 'duress' THEN 'invalid' ELSE v_check END;
+  END IF;
+
+  UPDATE public.user_safety_pins
+  SET pin_hash = crypt(p_pin, gen_salt('bf'))
+  WHERE user_id = auth.uid();
+
+  RETURN 'saved';
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_safety_pin(TEXT, TEXT) TO authenticated;
+
+-- Incidents are closed, escalated and flagged as duress only by the Edge Functions
+-- (service role), which check the safety PIN first. A direct client update could
+-- skip that check, so signed-in users can no longer update incidents at all.
+DROP POLICY IF EXISTS "Users can update their own SOS incidents" ON public.sos_incidents;
+
+-- Setting or replacing the duress PIN must prove the current safety PIN too,
+-- or anyone holding an unlocked phone could plant a PIN that looks valid.
+DROP FUNCTION public.set_duress_pin(TEXT);
+
+-- Returns 'saved', or the check_safety_pin() result that refused it.
+-- Refusals return instead of raising, so the failed guess still counts.
+CREATE OR REPLACE FUNCTION public.set_duress_pin(p_pin TEXT, p_current_pin TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_pin_hash TEXT;
+  v_check TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_pin !~ '^[0-9]{4,6}$' THEN
+    RAISE EXCEPTION 'PIN must be 4 to 6 digits';
+  END IF;
+
+  SELECT pin_hash INTO v_pin_hash FROM public.user_safety_pins WHERE user_id = auth.uid();
+
+  IF v_pin_hash IS NULL THEN
+    RAISE EXCEPTION 'Set a safety PIN first';
+  END IF;
+
+  v_check := public.check_safety_pin(auth.uid(), COALESCE(p_current_pin, ''));
+  IF v_check <> 'valid' THEN
+    RETURN CASE WHEN v_check = 'duress' THEN 'invalid' ELSE v_check END;
+  END IF;
+
+  IF v_pin_hash = crypt(p_pin, v_pin_hash) THEN
+    RAISE EXCEPTION 'Duress PIN must be different from your safety PIN';
+  END IF;
+
+  UPDATE public.user_safety_pins
+  SET duress_pin_hash = crypt(p_pin, gen_salt('bf'))
+  WHERE user_id = auth.uid();
+
+  RETURN 'saved';
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_duress_pin(TEXT, TEXT) TO authenticated;
+
+-- The consent token must stay secret from the user who added the contact, or
+-- they could open the link and confirm on the contact's behalf. Tokens move to
+-- a table only Edge Functions and the consent functions can read.
+CREATE TABLE public.emergency_contact_verification_tokens (
+  contact_id UUID NOT NULL PRIMARY KEY REFERENCES public.emergency_contacts(id) ON DELETE CASCADE,
+  token TEXT NOT NULL UNIQUE DEFAULT encode(extensions.gen_random_bytes(16), 'hex'),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- No policies: clients can neither read nor write tokens
+ALTER TABLE public.emergency_contact_verification_tokens ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO public.emergency_contact_verification_tokens (contact_id, token)
+SELECT id, verification_token FROM public.emergency_contacts;
+
+-- A new contact gets a token, and a changed phone or email gets a new one
+CREATE OR REPLACE FUNCTION public.rotate_contact_verification_token()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' OR NEW.phone IS DISTINCT FROM OLD.phone OR NEW.email IS DISTINCT FROM OLD.email THEN
+    INSERT INTO public.emergency_contact_verification_tokens (contact_id)
+    VALUES (NEW.id)
+    ON CONFLICT (contact_id) DO UPDATE
+    SET token = encode(gen_random_bytes(16), 'hex'),
+        created_at = now();
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER rotate_contact_verification_token
+AFTER INSERT OR UPDATE ON public.emergency_contacts
+FOR EACH ROW
+EXECUTE FUNCTION public.rotate_contact_verification_token();
+
+CREATE OR REPLACE FUNCTION public.protect_emergency_contact_verification()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public, extensions
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.verification_status := 'pending';
+    NEW.verification_sent_at := NULL;
+    NEW.verification_responded_at := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF current_user IN ('authenticated', 'anon') THEN
+    NEW.verification_status := OLD.verification_status;
+    NEW.verification_responded_at := OLD.verification_responded_at;
+  END IF;
+
+  IF NEW.phone IS DISTINCT FROM OLD.phone OR NEW.email IS DISTINCT FROM OLD.email THEN
+    NEW.verification_status := 'pending';
+    NEW.verification_sent_at := NULL;
+    NEW.verification_responded_at := NULL;
+  END IF;
+
+  IF NEW.linked_user_id IS NOT NULL AND OLD.linked_user_id IS NULL THEN
+    NEW.verification_status := 'verified';
+    NEW.verification_responded_at := now();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+ALTER TABLE public.emergency_contacts DROP COLUMN verification_token;
+
+CREATE OR REPLACE FUNCTION public.get_contact_verification(p_token TEXT)
+RETURNS TABLE (
+  contact_name TEXT,
+  owner_name TEXT,
+  verification_status TEXT
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT c.name,
+         COALESCE(NULLIF(trim(concat_ws(' ', p.first_name, p.last_name)), ''), 'Someone'),
+         c.verification_status
+  FROM public.emergency_contact_verification_tokens t
+  JOIN public.emergency_contacts c ON c.id = t.contact_id
+  LEFT JOIN public.profiles p ON p.user_id = c.user_id
+  WHERE t.token = p_token;
+$$;
+
+CREATE OR REPLACE FUNCTION public.respond_to_contact_verification(p_token TEXT, p_accept BOOLEAN)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_contact public.emergency_contacts%ROWTYPE;
+  v_status TEXT;
+BEGIN
+  SELECT c.* INTO v_contact
+  FROM public.emergency_contact_verification_tokens t
+  JOIN public.emergency_contacts c ON c.id = t.contact_id
+  WHERE t.token = p_token;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This confirmation link is invalid or has expired';
+  END IF;
+
+  IF auth.uid() = v_contact.user_id THEN
+    RAISE EXCEPTION 'Only your contact can answer this request';
+  END IF;
+
+  UPDATE public.emergency_contacts
+  SET verification_status = CASE WHEN p_accept THEN 'verified' ELSE 'declined' END,
+      verification_responded_at = now()
+  WHERE id = v_contact.id
+  RETURNING verification_status INTO v_status;
+
+  RETURN v_status;
+END;
+$$;
+
+-- Consent requests carry the link in their payload, so they stay out of the owner's delivery log
+DROP POLICY "Users can view their own notification deliveries" ON public.notification_deliveries;
+
+CREATE POLICY "Users can view their own notification deliveries"
+ON public.notification_deliveries
+FOR SELECT
+USING (auth.uid() = user_id AND source <> 'verification');
+
+-- While a timer runs the app only records progress along the route. The deadline,
+-- status and incident are changed by the Edge Functions (service role) after the
+-- safety PIN is checked, so a client must not be able to push the deadline back.
+REVOKE UPDATE ON public.safety_checkins FROM anon, authenticated;
+GRANT UPDATE (route, last_latitude, last_longitude, last_seen_at) ON public.safety_checkins TO authenticated;
+
+-- Acknowledging an alert stops its escalation. Whoever holds the user's phone
+-- must not be able to do that: alert payloads are now stored without the
+-- acknowledgement links, and the user's own session is refused here.
+CREATE OR REPLACE FUNCTION public.acknowledge_alert(p_token TEXT)
+RETURNS TABLE (
+  display_name TEXT,
+  contact_name TEXT,
+  status TEXT,
+  tracking_token TEXT,
+  acknowledged_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_link public.incident_ack_tokens;
+  v_incident public.sos_incidents;
+  v_contact public.emergency_contacts;
+BEGIN
+  SELECT * INTO v_link FROM public.incident_ack_tokens WHERE token = p_token;
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_incident FROM public.sos_incidents WHERE id = v_link.incident_id;
+  SELECT * INTO v_contact FROM public.emergency_contacts WHERE id = v_link.contact_id;
+
+  -- Acknowledging stops escalation, so it has to come from the contact
+  IF auth.uid() = v_incident.user_id THEN
+    RAISE EXCEPTION 'Only your contact can respond to this alert';
+  END IF;
+
+  -- Closed incidents are reported as such, without recording anything
+  IF v_incident.status = 'active' THEN
+    INSERT INTO public.incident_acknowledgements (incident_id, user_id, contact_id, contact_name, channel)
+    VALUES (v_incident.id, v_incident.user_id, v_contact.id, v_contact.name, 'link')
+    ON CONFLICT (incident_id, contact_id) DO NOTHING;
+
+    IF FOUND THEN
+      INSERT INTO public.incident_events (incident_id, user_id, event_type, details)
+      VALUES (
+        v_incident.id,
+        v_incident.user_id,
+        'acknowledged',
+        jsonb_build_object('contact_name', v_contact.name, 'contact_id', v_contact.id, 'channel', 'link')
+      );
+    END IF;
+  END IF;
+
+  RETURN QUERY
+  SELECT NULLIF(trim(concat_ws(' ', p.first_name, p.last_name)), ''),
+         v_contact.name,
+         v_incident.status,
+         CASE WHEN v_incident.status = 'active' THEN v_incident.tracking_token END,
+         a.created_at
+  FROM (SELECT 1) AS one
+  LEFT JOIN public.profiles p ON p.user_id = v_incident.user_id
+  LEFT JOIN public.incident_acknowledgements a
+    ON a.incident_id = v_incident.id AND a.contact_id = v_contact.id;
+END;
+$$;
+
+-- Media may only be attached to the user's own incidents, or it would show up
+-- in someone else's tracking page and incident report
+DROP POLICY IF EXISTS "Users can add media to their own SOS incidents" ON public.sos_incident_media;
+
+CREATE POLICY "Users can add media to their own SOS incidents"
+ON public.sos_incident_media
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND (storage_path IS NULL OR storage_path LIKE auth.uid()::text || '/emergency_media/%')
+  AND EXISTS (
+    SELECT 1 FROM public.sos_incidents i
+    WHERE i.id = incident_id AND i.user_id = auth.uid()
+  )
+);
+
+-- A new safety PIN equal to the duress PIN would make every cancel ambiguous,
+-- so it is refused just like set_duress_pin() refuses the reverse.
+CREATE OR REPLACE FUNCTION public.set_safety_pin(p_pin TEXT, p_current_pin TEXT DEFAULT NULL)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_check TEXT;
+  v_duress_pin_hash TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_pin !~ '^[0-9]{4,6}$' THEN
+    RAISE EXCEPTION 'PIN must be 4 to 6 digits';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.user_safety_pins WHERE user_id = auth.uid()) THEN
+    INSERT INTO public.user_safety_pins (user_id, pin_hash)
+    VALUES (auth.uid(), crypt(p_pin, gen_salt('bf')));
+    RETURN 'saved';
+  END IF;
+
+  v_check := public.check_safety_pin(auth.uid(), COALESCE(p_current_pin, ''));
+  IF v_check <> 'valid' THEN
+    -- A duress PIN must not reveal itself by being rejected differently
+    RETURN CASE WHEN v_check = 'duress' THEN 'invalid' ELSE v_check END;
+  END IF;
+
+  -- Only checked once the current PIN is proven, so it can't be used to probe the duress PIN
+  SELECT duress_pin_hash INTO v_duress_pin_hash FROM public.user_safety_pins WHERE user_id = auth.uid();
+
+  IF v_duress_pin_hash IS NOT NULL AND v_duress_pin_hash = crypt(p_pin, v_duress_pin_hash) THEN
+    RAISE EXCEPTION 'Safety PIN must be different from your duress PIN';
+  END IF;
+
+  UPDATE public.user_safety_pins
+  SET pin_hash = crypt(p_pin, gen_salt('bf'))
+  WHERE user_id = auth.uid();
+
+  RETURN 'saved';
+END;
+$$;